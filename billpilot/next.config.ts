@@ -3,6 +3,7 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   reactStrictMode: true,
   poweredByHeader: false,
+  serverExternalPackages: ["tesseract.js", "@tesseract.js-data/eng", "heic-convert"],
 
   async headers() {
     const securityHeaders = [
@@ -0,0 +1,68 @@
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const baseUrl = process.env.BILLPILOT_BASE_URL ?? "http://127.0.0.1:3000";
+const secret = process.env.INBOUND_EMAIL_SECRET ?? "";
+const token = process.env.INBOUND_TOKEN ?? "";
+const fixtureDir = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "fixtures",
+  "inbound-email",
+);
+
+async function fixturePaths(args) {
+  if (args.length > 0) {
+    return args.map((arg) => path.resolve(arg));
+  }
+  const names = await readdir(fixtureDir);
+  return names
+    .filter((name) => name.endsWith(".eml"))
+    .sort()
+    .map((name) => path.join(fixtureDir, name));
+}
+
+async function run() {
+  if (!secret) {
+    throw new Error("Set INBOUND_EMAIL_SECRET to the value the server uses.");
+  }
+  if (!/^[a-f0-9]{32}$/i.test(token)) {
+    throw new Error(
+      "Set INBOUND_TOKEN to a property's inbound token (GET /api/properties/<id>/inbound-address).",
+    );
+  }
+
+  console.log("BillPilot inbound email");
+  console.log("-----------------------");
+  console.log(`Base URL: ${baseUrl}`);
+
+  for (const file of await fixturePaths(process.argv.slice(2))) {
+    const raw = (await readFile(file, "latin1")).replaceAll("__INBOUND_TOKEN__", token);
+    const response = await fetch(`${baseUrl}/api/inbound/email`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "message/rfc822",
+        "x-inbound-secret": secret,
+      },
+      body: Buffer.from(raw, "latin1"),
+    });
+    const json = await response.json();
+
+    if (!response.ok) {
+      throw new Error(
+        `${path.basename(file)}: ${response.status} ${json.error ?? ""} ${json.message ?? ""}`.trim(),
+      );
+    }
+
+    const bills = (json.files ?? []).flatMap((entry) => entry.billIds ?? []).length;
+    console.log(
+      `${path.basename(file)}: status=${json.status} source=${json.source ?? "none"} bills=${bills}${json.error ? ` error=${json.error}` : ""}`,
+    );
+  }
+}
+
+run().catch((error) => {
+  const message = error instanceof Error ? error.message : "unknown_error";
+  console.error(`Inbound email check failed: ${message}`);
+  process.exit(1);
+});
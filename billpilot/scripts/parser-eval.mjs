@@ -0,0 +1,155 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { register } from "node:module";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+register("./ts-hooks.mjs", import.meta.url);
+
+const defaultCorpus = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "fixtures",
+  "parser-eval",
+);
+
+function parseArgs(argv) {
+  const options = { corpus: defaultCorpus, out: null, baseline: null, minAccuracy: null };
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    if (arg === "--out") {
+      options.out = argv[++index];
+    } else if (arg === "--baseline") {
+      options.baseline = argv[++index];
+    } else if (arg === "--min-accuracy") {
+      options.minAccuracy = Number(argv[++index]);
+    } else if (arg.startsWith("--")) {
+      throw new Error(`Unknown option ${arg}`);
+    } else {
+      options.corpus = path.resolve(arg);
+    }
+  }
+  return options;
+}
+
+function pct(value) {
+  return value === null ? "   -  " : `${(value * 100).toFixed(1).padStart(5)}%`;
+}
+
+function signed(value) {
+  return value === null ? "-" : `${value >= 0 ? "+" : ""}${(value * 100).toFixed(1)}pt`;
+}
+
+function printReport(report) {
+  console.log(
+    `Parser ${report.parserVersion}: ${report.samples} bill(s) from ${report.corpus}` +
+      (report.skipped.length > 0 ? ` (${report.skipped.length} skipped)` : ""),
+  );
+  for (const entry of report.skipped) {
+    console.log(`  skipped ${entry.file}: ${entry.reason}`);
+  }
+
+  console.log("\nfield           labeled  precision  recall  accuracy");
+  for (const metrics of report.fields) {
+    if (metrics.labeled === 0) {
+      continue;
+    }
+    console.log(
+      `${metrics.field.padEnd(15)} ${String(metrics.labeled).padStart(7)}  ${pct(metrics.precision)}    ${pct(metrics.recall)}  ${pct(metrics.accuracy)}`,
+    );
+  }
+  console.log(
+    `overall                  ${pct(report.overall.precision)}    ${pct(report.overall.recall)}  ${pct(report.overall.accuracy)}`,
+  );
+  console.log(`exact bills: ${report.overall.exactBills}/${report.samples}`);
+
+  console.log("\nprovider                      bills  exact  field accuracy");
+  for (const provider of report.providers) {
+    console.log(
+      `${provider.provider.slice(0, 28).padEnd(29)} ${String(provider.bills).padStart(5)}  ${pct(provider.accuracy)}  ${pct(provider.fieldAccuracy)}`,
+    );
+  }
+
+  for (const [name, curve] of Object.entries(report.calibration)) {
+    console.log(`\ncalibration (${name}), ECE ${curve.expectedCalibrationError ?? "-"}`);
+    for (const bin of curve.bins) {
+      if (bin.count > 0) {
+        console.log(
+          `  ${bin.lower.toFixed(1)}-${bin.upper.toFixed(1)}  n=${String(bin.count).padStart(4)}  confidence ${pct(bin.meanConfidence)}  accuracy ${pct(bin.accuracy)}`,
+        );
+      }
+    }
+  }
+
+  const failures = report.results.filter((result) => !result.correct);
+  if (failures.length > 0) {
+    console.log("\nmismatches");
+    for (const result of failures) {
+      for (const mismatch of result.mismatches) {
+        console.log(
+          `  ${result.id}: ${mismatch.field} expected ${JSON.stringify(mismatch.expected)} got ${JSON.stringify(mismatch.actual)}`,
+        );
+      }
+    }
+  }
+}
+
+function printComparison(comparison) {
+  console.log(`\nagainst ${comparison.baselineParserVersion}:`);
+  console.log(
+    `  precision ${signed(comparison.overall.precision)}, recall ${signed(comparison.overall.recall)}, accuracy ${signed(comparison.overall.accuracy)}, exact bills ${signed(comparison.overall.exactBillRate)}`,
+  );
+  for (const field of comparison.fields) {
+    if (field.accuracy) {
+      console.log(`  ${field.field}: accuracy ${signed(field.accuracy)}`);
+    }
+  }
+  if (comparison.regressed.length > 0) {
+    console.log(`  regressed: ${comparison.regressed.join(", ")}`);
+  }
+  if (comparison.fixed.length > 0) {
+    console.log(`  fixed: ${comparison.fixed.join(", ")}`);
+  }
+}
+
+async function run() {
+  const options = parseArgs(process.argv.slice(2));
+  const { compareEvaluationReports, evaluateParser, loadEvaluationCorpus } = await import(
+    "../src/lib/parser/evaluation.ts"
+  );
+
+  const { samples, skipped } = await loadEvaluationCorpus(options.corpus);
+  if (samples.length === 0) {
+    throw new Error(`No labeled bills found in ${options.corpus}.`);
+  }
+  const relativeCorpus = path.relative(process.cwd(), options.corpus);
+  const report = evaluateParser(samples, {
+    corpus: relativeCorpus.startsWith("..") ? options.corpus : relativeCorpus || ".",
+    skipped,
+  });
+  printReport(report);
+
+  if (options.baseline) {
+    const baseline = JSON.parse(await readFile(options.baseline, "utf8"));
+    report.comparison = compareEvaluationReports(report, baseline);
+    printComparison(report.comparison);
+  }
+
+  const out = options.out ?? path.join("parser-eval", `${report.parserVersion}.json`);
+  await mkdir(path.dirname(path.resolve(out)), { recursive: true });
+  await writeFile(out, `${JSON.stringify(report, null, 2)}\n`);
+  console.log(`\nreport written to ${out}`);
+
+  if (
+    options.minAccuracy !== null &&
+    (report.overall.accuracy === null || report.overall.accuracy < options.minAccuracy)
+  ) {
+    console.error(
+      `Field accuracy ${report.overall.accuracy} is below --min-accuracy ${options.minAccuracy}.`,
+    );
+    process.exit(1);
+  }
+}
+
+run().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,56 @@
+// Module hooks that let Node scripts import the app's TypeScript sources:
+// `@/` resolves to src/, extensionless relative imports find their .ts file,
+// and .ts files are transpiled (types stripped, nothing checked) on load.
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { createRequire } from "node:module";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+
+const require = createRequire(import.meta.url);
+const ts = require("typescript");
+const srcDir = path.join(path.dirname(fileURLToPath(import.meta.url)), "..", "src");
+
+function tsFileFor(filePath) {
+  for (const candidate of [filePath, `${filePath}.ts`, path.join(filePath, "index.ts")]) {
+    if (candidate.endsWith(".ts") && existsSync(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+export async function resolve(specifier, context, nextResolve) {
+  let filePath = null;
+  if (specifier.startsWith("@/")) {
+    filePath = path.join(srcDir, specifier.slice(2));
+  } else if (
+    (specifier.startsWith("./") || specifier.startsWith("../")) &&
+    context.parentURL?.endsWith(".ts")
+  ) {
+    filePath = path.join(path.dirname(fileURLToPath(context.parentURL)), specifier);
+  }
+
+  const tsFile = filePath ? tsFileFor(filePath) : null;
+  if (tsFile) {
+    return { url: pathToFileURL(tsFile).href, shortCircuit: true };
+  }
+  return nextResolve(specifier, context);
+}
+
+export async function load(url, context, nextLoad) {
+  if (!url.endsWith(".ts")) {
+    return nextLoad(url, context);
+  }
+
+  const fileName = fileURLToPath(url);
+  const { outputText } = ts.transpileModule(await readFile(fileName, "utf8"), {
+    fileName,
+    compilerOptions: {
+      module: ts.ModuleKind.ESNext,
+      target: ts.ScriptTarget.ES2022,
+      esModuleInterop: true,
+    },
+  });
+  return { format: "module", source: outputText, shortCircuit: true };
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+
+import { ApiAuthError, requireApiUser } from "@/lib/auth";
+import { BillCorrectionError, getProviderAccuracy } from "@/lib/bills/corrections";
+
+export const runtime = "nodejs";
+
+export async function GET(request: Request) {
+  try {
+    const user = await requireApiUser(request);
+    const providers = await getProviderAccuracy(user.id);
+
+    return NextResponse.json({ providers });
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof BillCorrectionError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -4,6 +4,7 @@ import { z } from "zod";
 import { buildAnalyticsSummary } from "@/lib/analytics/summary";
 import { ApiAuthError, requireApiUser } from "@/lib/auth";
 import { BillHistoryQueryError, getBillHistoryForUser } from "@/lib/bills/history-query";
+import { SERVICE_TYPES } from "@/lib/parser/services";
 
 export const runtime = "nodejs";
 
@@ -12,6 +13,7 @@ const datePattern = /^\d{4}-\d{2}-\d{2}$/;
 const querySchema = z.object({
   propertyId: z.string().uuid().optional(),
   provider: z.string().max(120).optional(),
+  serviceType: z.enum(SERVICE_TYPES).optional(),
   dateFrom: z.string().regex(datePattern, "Expected YYYY-MM-DD").optional(),
   dateTo: z.string().regex(datePattern, "Expected YYYY-MM-DD").optional(),
   limit: z.coerce.number().int().min(1).max(500).default(120),
@@ -24,6 +26,7 @@ export async function GET(request: Request) {
     const filters = querySchema.parse({
       propertyId: url.searchParams.get("propertyId") ?? undefined,
       provider: url.searchParams.get("provider") ?? undefined,
+      serviceType: url.searchParams.get("serviceType") ?? undefined,
       dateFrom: url.searchParams.get("dateFrom") ?? undefined,
       dateTo: url.searchParams.get("dateTo") ?? undefined,
       limit: url.searchParams.get("limit") ?? undefined,
@@ -33,8 +36,10 @@ export async function GET(request: Request) {
       userId: user.id,
       propertyId: filters.propertyId,
       provider: filters.provider,
+      serviceType: filters.serviceType,
       dateFrom: filters.dateFrom,
       dateTo: filters.dateTo,
+      duplicates: "exclude",
       limit: filters.limit,
     });
 
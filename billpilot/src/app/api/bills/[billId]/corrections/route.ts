@@ -0,0 +1,128 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { ApiAuthError, requireApiUser } from "@/lib/auth";
+import {
+  applyBillCorrections,
+  BillCorrectionError,
+  CORRECTABLE_FIELDS,
+  listBillCorrections,
+} from "@/lib/bills/corrections";
+
+export const runtime = "nodejs";
+
+const correctionSchema = z.union([
+  z.object({
+    field: z.literal("provider"),
+    value: z.string().trim().min(1).max(120).nullable(),
+  }),
+  z.object({
+    field: z.literal("usageUnit"),
+    value: z.string().trim().min(1).max(20).toLowerCase().nullable(),
+  }),
+  z.object({
+    field: z.literal("currency"),
+    value: z.string().regex(/^[A-Z]{3}$/, "Expected an ISO 4217 code"),
+  }),
+  z.object({
+    field: z.enum(["periodStart", "periodEnd"]),
+    value: z.iso.date("Expected a real date as YYYY-MM-DD").nullable(),
+  }),
+  z.object({
+    field: z.enum(["totalCost", "usageValue", "demandKw", "demandCharge"]),
+    value: z.number().nonnegative().nullable(),
+  }),
+]);
+
+const payloadSchema = z.object({
+  corrections: z.array(correctionSchema).min(1).max(CORRECTABLE_FIELDS.length),
+});
+
+interface BillRouteContext {
+  params: Promise<{
+    billId: string;
+  }>;
+}
+
+export async function GET(request: Request, context: BillRouteContext) {
+  try {
+    const user = await requireApiUser(request);
+    const { billId } = await context.params;
+    const corrections = await listBillCorrections(user.id, z.string().uuid().parse(billId));
+
+    return NextResponse.json({ corrections });
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof BillCorrectionError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request, context: BillRouteContext) {
+  try {
+    const user = await requireApiUser(request);
+    const { billId } = await context.params;
+    const parsedBillId = z.string().uuid().parse(billId);
+    const body = payloadSchema.parse(await request.json());
+
+    const result = await applyBillCorrections({
+      userId: user.id,
+      billId: parsedBillId,
+      corrections: body.corrections,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof BillCorrectionError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
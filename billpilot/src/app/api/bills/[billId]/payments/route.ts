@@ -0,0 +1,150 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { ApiAuthError, requireApiUser } from "@/lib/auth";
+import {
+  BillPaymentError,
+  deleteBillPayment,
+  listBillPayments,
+  recordBillPayment,
+} from "@/lib/bills/payments";
+
+export const runtime = "nodejs";
+
+const paymentSchema = z.object({
+  amount: z.number().positive().max(1_000_000).optional(),
+  paidOn: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  method: z.string().min(2).max(40).optional(),
+  note: z.string().max(500).optional(),
+});
+
+const removeSchema = z.object({
+  paymentId: z.string().uuid(),
+});
+
+interface BillRouteContext {
+  params: Promise<{
+    billId: string;
+  }>;
+}
+
+export async function GET(request: Request, context: BillRouteContext) {
+  try {
+    const user = await requireApiUser(request);
+    const { billId } = await context.params;
+    const result = await listBillPayments(user.id, z.string().uuid().parse(billId));
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof BillPaymentError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// Leaving out amount pays off whatever is still owed on the bill.
+export async function POST(request: Request, context: BillRouteContext) {
+  try {
+    const user = await requireApiUser(request);
+    const { billId } = await context.params;
+    const id = z.string().uuid().parse(billId);
+    const payload = paymentSchema.parse(await request.json().catch(() => ({})));
+    const result = await recordBillPayment({ userId: user.id, billId: id, ...payload });
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof BillPaymentError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, context: BillRouteContext) {
+  try {
+    const user = await requireApiUser(request);
+    const { billId } = await context.params;
+    const id = z.string().uuid().parse(billId);
+    const { paymentId } = removeSchema.parse({
+      paymentId: new URL(request.url).searchParams.get("paymentId") ?? undefined,
+    });
+    const bill = await deleteBillPayment(user.id, id, paymentId);
+
+    return NextResponse.json({ bill });
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof BillPaymentError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { ApiAuthError, requireApiUser } from "@/lib/auth";
+import { BillVersionError, reparseBill } from "@/lib/bills/versions";
+
+export const runtime = "nodejs";
+
+const payloadSchema = z.object({
+  autoAccept: z.boolean().optional(),
+});
+
+interface BillRouteContext {
+  params: Promise<{
+    billId: string;
+  }>;
+}
+
+export async function POST(request: Request, context: BillRouteContext) {
+  try {
+    const user = await requireApiUser(request);
+    const { billId } = await context.params;
+    const payload = payloadSchema.parse(await request.json().catch(() => ({})));
+    const result = await reparseBill({
+      userId: user.id,
+      billId: z.string().uuid().parse(billId),
+      autoAccept: payload.autoAccept,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof BillVersionError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { ApiAuthError, requireApiUser } from "@/lib/auth";
+import {
+  BILL_VERSION_ACTIONS,
+  BillVersionError,
+  resolveBillVersion,
+} from "@/lib/bills/versions";
+
+export const runtime = "nodejs";
+
+const payloadSchema = z.object({
+  action: z.enum(BILL_VERSION_ACTIONS),
+});
+
+interface VersionRouteContext {
+  params: Promise<{
+    billId: string;
+    versionId: string;
+  }>;
+}
+
+export async function POST(request: Request, context: VersionRouteContext) {
+  try {
+    const user = await requireApiUser(request);
+    const { billId, versionId } = await context.params;
+    const payload = payloadSchema.parse(await request.json());
+    const result = await resolveBillVersion({
+      userId: user.id,
+      billId: z.string().uuid().parse(billId),
+      versionId: z.string().uuid().parse(versionId),
+      action: payload.action,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof BillVersionError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
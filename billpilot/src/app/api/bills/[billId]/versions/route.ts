@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { ApiAuthError, requireApiUser } from "@/lib/auth";
+import { BillVersionError, listBillVersions } from "@/lib/bills/versions";
+import { PARSER_VERSION } from "@/lib/parser/version";
+
+export const runtime = "nodejs";
+
+interface BillRouteContext {
+  params: Promise<{
+    billId: string;
+  }>;
+}
+
+export async function GET(request: Request, context: BillRouteContext) {
+  try {
+    const user = await requireApiUser(request);
+    const { billId } = await context.params;
+    const versions = await listBillVersions(user.id, z.string().uuid().parse(billId));
+
+    return NextResponse.json({ ...versions, currentParserVersion: PARSER_VERSION });
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof BillVersionError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,104 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { ApiAuthError, requireApiUser } from "@/lib/auth";
+import {
+  BILL_ASSIGNMENT_ACTIONS,
+  BillAssignmentError,
+  confirmBillAssignment,
+  dismissBillAssignment,
+} from "@/lib/bills/assignments";
+import { BillDuplicateError, DUPLICATE_ACTIONS } from "@/lib/bills/duplicates";
+
+export const runtime = "nodejs";
+
+const actionSchema = z.object({
+  action: z.enum(BILL_ASSIGNMENT_ACTIONS),
+  propertyId: z.string().uuid().optional(),
+  onDuplicate: z.enum(DUPLICATE_ACTIONS).optional(),
+});
+
+interface AssignmentRouteContext {
+  params: Promise<{
+    assignmentId: string;
+  }>;
+}
+
+// confirm parses the held bill into propertyId; dismiss drops it.
+export async function POST(request: Request, context: AssignmentRouteContext) {
+  try {
+    const user = await requireApiUser(request);
+    const { assignmentId } = await context.params;
+    const id = z.string().uuid().parse(assignmentId);
+    const body = actionSchema.parse(await request.json());
+
+    if (body.action === "dismiss") {
+      const assignment = await dismissBillAssignment(id, user.id);
+      return NextResponse.json({ assignment });
+    }
+
+    if (!body.propertyId) {
+      return NextResponse.json(
+        {
+          error: "property_required",
+          message: "Confirming a bill takes the propertyId to file it under.",
+        },
+        { status: 400 },
+      );
+    }
+
+    const { assignment, outcome } = await confirmBillAssignment(id, user.id, {
+      propertyId: body.propertyId,
+      onDuplicate: body.onDuplicate,
+    });
+    if (outcome.kind === "duplicate") {
+      return NextResponse.json(
+        {
+          error: "duplicate_bill",
+          message:
+            "This bill looks like one already stored for the property. Confirm again with onDuplicate set to skip, replace or keep_both.",
+          options: DUPLICATE_ACTIONS,
+          duplicates: outcome.duplicates,
+          statementId: outcome.statementId,
+        },
+        { status: 409 },
+      );
+    }
+
+    return NextResponse.json({ assignment, ...outcome.result });
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof BillAssignmentError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof BillDuplicateError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
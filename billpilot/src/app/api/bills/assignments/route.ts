@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { ApiAuthError, requireApiUser } from "@/lib/auth";
+import {
+  BILL_ASSIGNMENT_STATUSES,
+  BillAssignmentError,
+  listBillAssignments,
+} from "@/lib/bills/assignments";
+
+export const runtime = "nodejs";
+
+const listQuerySchema = z.object({
+  status: z.enum(BILL_ASSIGNMENT_STATUSES).default("pending"),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export async function GET(request: Request) {
+  try {
+    const user = await requireApiUser(request);
+    const url = new URL(request.url);
+    const query = listQuerySchema.parse({
+      status: url.searchParams.get("status") ?? undefined,
+      limit: url.searchParams.get("limit") ?? undefined,
+    });
+
+    const assignments = await listBillAssignments({
+      userId: user.id,
+      status: query.status,
+      limit: query.limit,
+    });
+
+    return NextResponse.json({ assignments });
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof BillAssignmentError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
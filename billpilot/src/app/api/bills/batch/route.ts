@@ -0,0 +1,145 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { ApiAuthError, requireApiUser } from "@/lib/auth";
+import { getAnalysisQuota } from "@/lib/billing/quota";
+import { BillBatchError, expandBatchFiles, runBillBatch } from "@/lib/bills/batch";
+import { BillDuplicateError, DUPLICATE_ACTIONS } from "@/lib/bills/duplicates";
+import { isSupportedLocale } from "@/lib/parser/locale";
+import { getPropertyLocale } from "@/lib/properties";
+
+export const runtime = "nodejs";
+
+const payloadSchema = z.object({
+  propertyId: z.string().uuid(),
+  currency: z.string().length(3).optional(),
+  locale: z.string().min(2).max(35).refine(isSupportedLocale, "Unsupported locale.").optional(),
+  onDuplicate: z.enum(DUPLICATE_ACTIONS).optional(),
+});
+
+function optionalField(formData: FormData, name: string): string | undefined {
+  const value = formData.get(name);
+  return typeof value === "string" && value ? value : undefined;
+}
+
+export async function POST(request: Request) {
+  try {
+    const contentType = request.headers.get("content-type") ?? "";
+    if (!contentType.includes("multipart/form-data")) {
+      return NextResponse.json(
+        { error: "invalid_content_type", message: "Use multipart/form-data." },
+        { status: 400 },
+      );
+    }
+
+    const user = await requireApiUser(request);
+    const formData = await request.formData();
+    const payload = payloadSchema.parse({
+      propertyId: optionalField(formData, "propertyId"),
+      currency: optionalField(formData, "currency")?.toUpperCase(),
+      locale: optionalField(formData, "locale"),
+      onDuplicate: optionalField(formData, "onDuplicate"),
+    });
+    const uploads = [...formData.getAll("files"), ...formData.getAll("file")].filter(
+      (candidate): candidate is File => candidate instanceof File,
+    );
+
+    if (uploads.length === 0) {
+      return NextResponse.json(
+        {
+          error: "file_required",
+          message: "Attach bill files or a ZIP archive under `files`.",
+        },
+        { status: 400 },
+      );
+    }
+
+    const quota = await getAnalysisQuota(payload.propertyId, user.id);
+    if (quota.reason === "property_not_owned") {
+      return NextResponse.json(
+        {
+          error: "forbidden_property",
+          message: "This property does not belong to the authenticated user.",
+        },
+        { status: 403 },
+      );
+    }
+    if (quota.reason === "property_not_found") {
+      return NextResponse.json(
+        {
+          error: "property_not_found",
+          message: "propertyId does not exist.",
+        },
+        { status: 404 },
+      );
+    }
+    if (!quota.allowed) {
+      return NextResponse.json(
+        {
+          error: "free_tier_limit_reached",
+          message:
+            "Free plan allows 2 analyses per month. Upgrade to continue.",
+          quota,
+        },
+        { status: 402 },
+      );
+    }
+
+    const { files, failures } = await expandBatchFiles(uploads);
+    const locale = payload.locale ?? (await getPropertyLocale(payload.propertyId));
+    const result = await runBillBatch({
+      userId: user.id,
+      propertyId: payload.propertyId,
+      files,
+      failures,
+      locale,
+      currency: payload.currency,
+      onDuplicate: payload.onDuplicate,
+      quota,
+    });
+
+    let responseQuota = quota;
+    if (quota.enforced && quota.limit !== null && quota.usedThisMonth !== null) {
+      const usedThisMonth = quota.usedThisMonth + result.quotaUnitsUsed;
+      responseQuota = {
+        ...quota,
+        usedThisMonth,
+        remaining: Math.max(0, quota.limit - usedThisMonth),
+      };
+    }
+
+    return NextResponse.json({
+      propertyId: payload.propertyId,
+      ...result,
+      quota: responseQuota,
+    });
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof BillBatchError || error instanceof BillDuplicateError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -2,6 +2,8 @@ import { NextResponse } from "next/server";
 import { z } from "zod";
 
 import { ApiAuthError, requireApiUser } from "@/lib/auth";
+import { billFingerprint } from "@/lib/bills/duplicates";
+import { normalizeBillUnits, toUnitColumns } from "@/lib/parser/units";
 import { propertyBelongsToUser } from "@/lib/properties";
 import { getServiceSupabaseClient } from "@/lib/supabase";
 
@@ -197,12 +199,21 @@ export async function POST(request: Request) {
       .insert(
         seeds.map((seed) => ({
           property_id: payload.propertyId,
+          service_type: "electric",
           provider,
           period_start: seed.periodStart,
           period_end: seed.periodEnd,
           total_cost: seed.totalCost,
           usage_value: seed.usageValue,
           usage_unit: "kWh",
+          ...toUnitColumns(
+            normalizeBillUnits({ ...seed, usageUnit: "kWh", serviceType: "electric" }),
+          ),
+          bill_fingerprint: billFingerprint({
+            ...seed,
+            provider,
+            serviceType: "electric",
+          }),
           currency,
           confidence: seed.confidence,
           raw_text: [
@@ -230,6 +241,7 @@ export async function POST(request: Request) {
     const billLineItems: Array<{
       bill_id: string;
       item_name: string;
+      category: string;
       amount: number;
     }> = [];
     const insights: Array<{
@@ -252,16 +264,19 @@ export async function POST(request: Request) {
         {
           bill_id: row.id,
           item_name: "Supply",
+          category: "supply",
           amount: seed.supply,
         },
         {
           bill_id: row.id,
           item_name: "Delivery",
+          category: "delivery",
           amount: seed.delivery,
         },
         {
           bill_id: row.id,
           item_name: "Taxes & fees",
+          category: "tax",
           amount: seed.tax,
         },
       );
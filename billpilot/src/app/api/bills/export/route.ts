@@ -7,6 +7,7 @@ import {
   BillHistoryQueryError,
   getBillHistoryForUser,
 } from "@/lib/bills/history-query";
+import { SERVICE_TYPES } from "@/lib/parser/services";
 import { buildCsv, buildPdf } from "@/lib/reports/export-builders";
 import { isDebugRequest } from "@/lib/debug";
 
@@ -15,6 +16,7 @@ export const runtime = "nodejs";
 const querySchema = z.object({
   propertyId: z.string().uuid().optional(),
   provider: z.string().max(120).optional(),
+  serviceType: z.enum(SERVICE_TYPES).optional(),
   dateFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
   dateTo: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
   format: z.enum(["csv", "pdf"]).default("csv"),
@@ -36,6 +38,7 @@ export async function GET(request: Request) {
     const query = querySchema.parse({
       propertyId: url.searchParams.get("propertyId") ?? undefined,
       provider: url.searchParams.get("provider") ?? undefined,
+      serviceType: url.searchParams.get("serviceType") ?? undefined,
       dateFrom: url.searchParams.get("dateFrom") ?? undefined,
       dateTo: url.searchParams.get("dateTo") ?? undefined,
       format: url.searchParams.get("format") ?? undefined,
@@ -46,6 +49,7 @@ export async function GET(request: Request) {
       userId: user.id,
       propertyId: query.propertyId,
       provider: query.provider,
+      serviceType: query.serviceType,
       dateFrom: query.dateFrom,
       dateTo: query.dateTo,
       limit: query.limit,
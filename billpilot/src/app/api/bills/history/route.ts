@@ -7,14 +7,19 @@ import {
   getBillHistoryCountForUser,
   getBillHistoryForUser,
 } from "@/lib/bills/history-query";
+import { BILL_SOURCES } from "@/lib/bills/import";
+import { SERVICE_TYPES } from "@/lib/parser/services";
 
 export const runtime = "nodejs";
 
 const querySchema = z.object({
   propertyId: z.string().uuid().optional(),
   provider: z.string().max(120).optional(),
+  serviceType: z.enum(SERVICE_TYPES).optional(),
   dateFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
   dateTo: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  duplicates: z.enum(["include", "exclude", "only"]).default("include"),
+  source: z.enum(BILL_SOURCES).optional(),
   limit: z.coerce.number().int().min(1).max(200).default(25),
   offset: z.coerce.number().int().min(0).max(5000).default(0),
 });
@@ -26,8 +31,11 @@ export async function GET(request: Request) {
     const query = querySchema.parse({
       propertyId: url.searchParams.get("propertyId") ?? undefined,
       provider: url.searchParams.get("provider") ?? undefined,
+      serviceType: url.searchParams.get("serviceType") ?? undefined,
       dateFrom: url.searchParams.get("dateFrom") ?? undefined,
       dateTo: url.searchParams.get("dateTo") ?? undefined,
+      duplicates: url.searchParams.get("duplicates") ?? undefined,
+      source: url.searchParams.get("source") ?? undefined,
       limit: url.searchParams.get("limit") ?? undefined,
       offset: url.searchParams.get("offset") ?? undefined,
     });
@@ -37,8 +45,11 @@ export async function GET(request: Request) {
         userId: user.id,
         propertyId: query.propertyId,
         provider: query.provider,
+        serviceType: query.serviceType,
         dateFrom: query.dateFrom,
         dateTo: query.dateTo,
+        duplicates: query.duplicates,
+        source: query.source,
         limit: query.limit,
         offset: query.offset,
       }),
@@ -46,8 +57,11 @@ export async function GET(request: Request) {
         userId: user.id,
         propertyId: query.propertyId,
         provider: query.provider,
+        serviceType: query.serviceType,
         dateFrom: query.dateFrom,
         dateTo: query.dateTo,
+        duplicates: query.duplicates,
+        source: query.source,
       }),
     ]);
 
@@ -0,0 +1,131 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { ApiAuthError, requireApiUser } from "@/lib/auth";
+import {
+  BILL_IMPORT_FORMATS,
+  BillImportError,
+  detectImportFormat,
+  importBillHistory,
+  MAX_IMPORT_FILE_BYTES,
+} from "@/lib/bills/import";
+import { propertyBelongsToUser } from "@/lib/properties";
+
+export const runtime = "nodejs";
+
+const payloadSchema = z.object({
+  propertyId: z.string().uuid(),
+  format: z.enum(BILL_IMPORT_FORMATS).optional(),
+  provider: z.string().trim().min(1).max(120).optional(),
+  currency: z.string().length(3).default("USD"),
+});
+
+function optionalField(formData: FormData, name: string): string | undefined {
+  const value = formData.get(name);
+  return typeof value === "string" && value ? value : undefined;
+}
+
+export async function POST(request: Request) {
+  try {
+    const contentType = request.headers.get("content-type") ?? "";
+    if (!contentType.includes("multipart/form-data")) {
+      return NextResponse.json(
+        { error: "invalid_content_type", message: "Use multipart/form-data." },
+        { status: 400 },
+      );
+    }
+
+    const user = await requireApiUser(request);
+    const formData = await request.formData();
+    const payload = payloadSchema.parse({
+      propertyId: optionalField(formData, "propertyId"),
+      format: optionalField(formData, "format"),
+      provider: optionalField(formData, "provider"),
+      currency: optionalField(formData, "currency")?.toUpperCase(),
+    });
+    const file = formData.get("file");
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        {
+          error: "file_required",
+          message: "Attach a Green Button XML or bill-history CSV file under `file`.",
+        },
+        { status: 400 },
+      );
+    }
+    if (file.size > MAX_IMPORT_FILE_BYTES) {
+      return NextResponse.json(
+        {
+          error: "file_too_large",
+          message: `Import files are limited to ${MAX_IMPORT_FILE_BYTES} bytes.`,
+        },
+        { status: 413 },
+      );
+    }
+
+    if (!(await propertyBelongsToUser(payload.propertyId, user.id))) {
+      return NextResponse.json(
+        {
+          error: "forbidden_property",
+          message: "This property does not belong to the authenticated user.",
+        },
+        { status: 403 },
+      );
+    }
+
+    const text = await file.text();
+    const format = payload.format ?? detectImportFormat(file.name, text);
+    if (!format) {
+      return NextResponse.json(
+        {
+          error: "unknown_import_format",
+          message: "Set format to green_button or csv.",
+        },
+        { status: 400 },
+      );
+    }
+
+    const result = await importBillHistory({
+      propertyId: payload.propertyId,
+      format,
+      text,
+      provider: payload.provider,
+      currency: payload.currency,
+    });
+
+    return NextResponse.json({
+      propertyId: payload.propertyId,
+      fileName: file.name,
+      ...result,
+    });
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof BillImportError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,109 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { ApiAuthError, requireApiUser } from "@/lib/auth";
+import {
+  getInsightRuleSettings,
+  InsightRuleError,
+  saveUserInsightRules,
+} from "@/lib/bills/insight-rules";
+import { INSIGHT_TYPES } from "@/lib/parser/rules";
+
+export const runtime = "nodejs";
+
+const thresholdSchema = z
+  .object({
+    watch: z.number().positive().max(10),
+    high: z.number().positive().max(10),
+  })
+  .partial();
+
+const rulesSchema = z.object({
+  disabled: z.array(z.enum(INSIGHT_TYPES)).optional(),
+  thresholds: z
+    .object({
+      cost: thresholdSchema,
+      usage: thresholdSchema,
+      surcharge: thresholdSchema,
+    })
+    .partial()
+    .optional(),
+  lineItemRules: z
+    .array(
+      z.object({
+        match: z.string().trim().min(1).max(120),
+        maxAmount: z.number().nonnegative(),
+        severity: z.enum(["watch", "high"]),
+      }),
+    )
+    .max(50)
+    .optional(),
+});
+
+const payloadSchema = z.object({
+  rules: rulesSchema,
+});
+
+// The user's own overrides and the rules their bills are scored with.
+export async function GET(request: Request) {
+  try {
+    const user = await requireApiUser(request);
+    const { userRules, effective } = await getInsightRuleSettings(user.id);
+    return NextResponse.json({ rules: userRules, effective });
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof InsightRuleError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// Replaces the user's overrides. They apply from the next parse or re-parse;
+// stored insights are not rescored.
+export async function POST(request: Request) {
+  try {
+    const user = await requireApiUser(request);
+    const input = payloadSchema.parse(await request.json());
+    const { userRules, effective } = await saveUserInsightRules(user.id, input.rules);
+    return NextResponse.json({ rules: userRules, effective });
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof InsightRuleError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,108 @@
+import { after, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { ApiAuthError, requireApiUser } from "@/lib/auth";
+import { DUPLICATE_ACTIONS } from "@/lib/bills/duplicates";
+import { getParseJobForUser, ParseJobError, retryParseJob, runParseJobs } from "@/lib/bills/jobs";
+
+export const runtime = "nodejs";
+
+const retrySchema = z.object({
+  onDuplicate: z.enum(DUPLICATE_ACTIONS).optional(),
+});
+
+interface JobRouteContext {
+  params: Promise<{
+    jobId: string;
+  }>;
+}
+
+export async function GET(request: Request, context: JobRouteContext) {
+  try {
+    const user = await requireApiUser(request);
+    const { jobId } = await context.params;
+    const job = await getParseJobForUser(z.string().uuid().parse(jobId), user.id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: "job_not_found", message: "No parse job with this id." },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof ParseJobError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// Requeues a failed job, optionally with onDuplicate for one that stopped on a
+// duplicate bill.
+export async function POST(request: Request, context: JobRouteContext) {
+  try {
+    const user = await requireApiUser(request);
+    const { jobId } = await context.params;
+    const body = retrySchema.parse(await request.json().catch(() => ({})));
+    const job = await retryParseJob(z.string().uuid().parse(jobId), user.id, body);
+
+    after(async () => {
+      await runParseJobs({ limit: 1, jobId: job.id }).catch(() => undefined);
+    });
+
+    return NextResponse.json({ job, requeued: true }, { status: 202 });
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof ParseJobError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
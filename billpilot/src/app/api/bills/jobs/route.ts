@@ -0,0 +1,244 @@
+import { after, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { ApiAuthError, requireApiUser } from "@/lib/auth";
+import { getAnalysisQuota } from "@/lib/billing/quota";
+import { MAX_BATCH_FILE_BYTES, MAX_BATCH_FILES } from "@/lib/bills/batch";
+import { DUPLICATE_ACTIONS } from "@/lib/bills/duplicates";
+import {
+  enqueueParseJob,
+  listParseJobs,
+  PARSE_JOB_KINDS,
+  PARSE_JOB_STATUSES,
+  ParseJobError,
+  runParseJobs,
+} from "@/lib/bills/jobs";
+import { isSupportedLocale } from "@/lib/parser/locale";
+
+export const runtime = "nodejs";
+
+const payloadSchema = z.object({
+  propertyId: z.string().uuid(),
+  kind: z.enum(PARSE_JOB_KINDS).optional(),
+  rawText: z.string().min(20).optional(),
+  fileUrl: z.string().min(3).max(500).optional(),
+  onDuplicate: z.enum(DUPLICATE_ACTIONS).optional(),
+  provider: z.string().min(2).max(120).optional(),
+  currency: z.string().length(3).optional(),
+  template: z.string().min(2).max(60).optional(),
+  locale: z.string().min(2).max(35).refine(isSupportedLocale, "Unsupported locale.").optional(),
+});
+
+const listQuerySchema = z.object({
+  propertyId: z.string().uuid().optional(),
+  status: z.enum(PARSE_JOB_STATUSES).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+function optionalField(formData: FormData, name: string): string | undefined {
+  const value = formData.get(name);
+  return typeof value === "string" && value ? value : undefined;
+}
+
+async function readJobRequest(
+  request: Request,
+): Promise<{ payload: z.infer<typeof payloadSchema>; files: File[] }> {
+  const contentType = request.headers.get("content-type") ?? "";
+  if (!contentType.includes("multipart/form-data")) {
+    return { payload: payloadSchema.parse(await request.json()), files: [] };
+  }
+
+  const formData = await request.formData();
+  const payload = payloadSchema.parse({
+    propertyId: optionalField(formData, "propertyId"),
+    kind: optionalField(formData, "kind"),
+    rawText: optionalField(formData, "rawText"),
+    fileUrl: optionalField(formData, "fileUrl"),
+    onDuplicate: optionalField(formData, "onDuplicate"),
+    provider: optionalField(formData, "provider"),
+    currency: optionalField(formData, "currency")?.toUpperCase(),
+    template: optionalField(formData, "template"),
+    locale: optionalField(formData, "locale"),
+  });
+  const files = [...formData.getAll("files"), ...formData.getAll("file")].filter(
+    (candidate): candidate is File => candidate instanceof File,
+  );
+  return { payload, files };
+}
+
+export async function POST(request: Request) {
+  try {
+    const user = await requireApiUser(request);
+    const { payload, files } = await readJobRequest(request);
+    // Several files or an archive make a batch job; one file or rawText is a
+    // single statement.
+    const kind =
+      payload.kind ??
+      (files.length > 1 || files.some((file) => /\.zip$/i.test(file.name)) ? "batch" : "parse");
+
+    const hasStatement = files.length === 1 || (files.length === 0 && Boolean(payload.rawText));
+    if (kind === "parse" && !hasStatement) {
+      return NextResponse.json(
+        {
+          error: "file_required",
+          message: "A parse job takes one bill under `file` or its text as `rawText`.",
+        },
+        { status: 400 },
+      );
+    }
+    if (kind === "batch" && (files.length === 0 || files.length > MAX_BATCH_FILES)) {
+      return NextResponse.json(
+        {
+          error: "file_required",
+          message: `A batch job takes 1 to ${MAX_BATCH_FILES} bill files or ZIP archives under \`files\`.`,
+        },
+        { status: 400 },
+      );
+    }
+    const oversized = files.find((file) => file.size > MAX_BATCH_FILE_BYTES);
+    if (oversized) {
+      return NextResponse.json(
+        {
+          error: "file_too_large",
+          message: `${oversized.name} is larger than ${MAX_BATCH_FILE_BYTES} bytes.`,
+        },
+        { status: 413 },
+      );
+    }
+
+    const quota = await getAnalysisQuota(payload.propertyId, user.id);
+    if (quota.reason === "property_not_owned") {
+      return NextResponse.json(
+        {
+          error: "forbidden_property",
+          message: "This property does not belong to the authenticated user.",
+        },
+        { status: 403 },
+      );
+    }
+    if (quota.reason === "property_not_found") {
+      return NextResponse.json(
+        {
+          error: "property_not_found",
+          message: "propertyId does not exist.",
+        },
+        { status: 404 },
+      );
+    }
+    if (!quota.allowed) {
+      return NextResponse.json(
+        {
+          error: "free_tier_limit_reached",
+          message:
+            "Free plan allows 2 analyses per month. Upgrade to continue.",
+          quota,
+        },
+        { status: 402 },
+      );
+    }
+
+    const job = await enqueueParseJob({
+      userId: user.id,
+      propertyId: payload.propertyId,
+      kind,
+      options: {
+        rawText: files.length === 0 ? payload.rawText : undefined,
+        fileUrl: payload.fileUrl,
+        onDuplicate: payload.onDuplicate,
+        provider: payload.provider,
+        currency: payload.currency,
+        template: payload.template,
+        locale: payload.locale,
+      },
+      files,
+    });
+
+    // Start on the job once the response is sent; the cron runner picks up
+    // whatever this misses and every retry.
+    after(async () => {
+      await runParseJobs({ limit: 1, jobId: job.id }).catch(() => undefined);
+    });
+
+    return NextResponse.json(
+      { job, pollUrl: `/api/bills/jobs/${job.id}` },
+      { status: 202 },
+    );
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof ParseJobError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function GET(request: Request) {
+  try {
+    const user = await requireApiUser(request);
+    const url = new URL(request.url);
+    const query = listQuerySchema.parse({
+      propertyId: url.searchParams.get("propertyId") ?? undefined,
+      status: url.searchParams.get("status") ?? undefined,
+      limit: url.searchParams.get("limit") ?? undefined,
+    });
+
+    const jobs = await listParseJobs({
+      userId: user.id,
+      propertyId: query.propertyId,
+      status: query.status,
+      limit: query.limit,
+    });
+
+    return NextResponse.json({ jobs });
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof ParseJobError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
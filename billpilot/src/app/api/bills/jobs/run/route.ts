@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { ParseJobError, runParseJobs } from "@/lib/bills/jobs";
+
+export const runtime = "nodejs";
+export const maxDuration = 300;
+
+const payloadSchema = z.object({
+  limit: z.number().int().min(1).max(20).optional(),
+});
+
+function hasCronAccess(request: Request): boolean {
+  const expected = process.env.PARSE_JOBS_CRON_SECRET?.trim();
+  if (!expected) {
+    return false;
+  }
+
+  const provided = request.headers.get("x-cron-secret")?.trim();
+  if (!provided) {
+    return false;
+  }
+
+  return provided === expected;
+}
+
+// Cron entry point: claims queued jobs and retries whose backoff has passed,
+// plus running jobs whose worker went away.
+export async function POST(request: Request) {
+  try {
+    if (!hasCronAccess(request)) {
+      return NextResponse.json(
+        { error: "unauthorized", message: "Missing or invalid x-cron-secret." },
+        { status: 401 },
+      );
+    }
+
+    const body = payloadSchema.parse(await request.json().catch(() => ({})));
+    const summary = await runParseJobs({ limit: body.limit ?? 3 });
+
+    return NextResponse.json({
+      generatedAt: new Date().toISOString(),
+      ...summary,
+    });
+  } catch (error) {
+    if (error instanceof ParseJobError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -5,27 +5,41 @@ import { hashTextInputs, newEventId } from "@/lib/audit-utils";
 import { ApiAuthError, requireApiUser } from "@/lib/auth";
 import { isDebugRequest } from "@/lib/debug";
 import { getAnalysisQuota } from "@/lib/billing/quota";
-import { estimateParseConfidence } from "@/lib/parser/confidence";
+import { BillAssignmentError, queueBillAssignment } from "@/lib/bills/assignments";
+import {
+  BillDuplicateError,
+  DUPLICATE_ACTIONS,
+  DuplicateAction,
+  hashFileContent,
+} from "@/lib/bills/duplicates";
+import { parseStatement } from "@/lib/bills/parse-statement";
+import { matchStatementToProperty, PropertyAccountError } from "@/lib/bills/property-accounts";
 import { extractTextFromFile } from "@/lib/parser/extractText";
-import { buildInsights } from "@/lib/parser/insights";
-import { parseBillFields } from "@/lib/parser/parseFields";
-import { HistoricalBillSnapshot, Insight } from "@/lib/parser/types";
-import { getServiceSupabaseClient } from "@/lib/supabase";
+import { isSupportedLocale } from "@/lib/parser/locale";
+import { ExtractedText, HistoricalBillSnapshot } from "@/lib/parser/types";
+import { PARSER_VERSION } from "@/lib/parser/version";
 
 export const runtime = "nodejs";
 
 const historicalBillSchema = z.object({
   totalCost: z.number().positive(),
   usageValue: z.number().nonnegative().nullable(),
+  usageUnit: z.string().max(20).nullable().optional(),
   periodEnd: z.string().nullable(),
+  demandCharge: z.number().nonnegative().nullable().optional(),
+  lateFee: z.number().nonnegative().nullable().optional(),
 });
 
 const payloadSchema = z.object({
   rawText: z.string().min(20),
   propertyId: z.string().optional(),
   fileUrl: z.string().min(3).max(500).optional(),
+  fileHash: z.string().regex(/^[a-f0-9]{64}$/, "Expected a sha256 hex digest.").optional(),
+  onDuplicate: z.enum(DUPLICATE_ACTIONS).optional(),
   provider: z.string().min(2).max(120).optional(),
   currency: z.string().length(3).optional(),
+  template: z.string().min(2).max(60).optional(),
+  locale: z.string().min(2).max(35).refine(isSupportedLocale, "Unsupported locale.").optional(),
   priorBills: z.array(historicalBillSchema).max(24).optional(),
 });
 
@@ -33,41 +47,14 @@ interface NormalizedPayload {
   rawText: string;
   propertyId?: string;
   fileUrl?: string;
+  fileHash?: string;
+  onDuplicate?: DuplicateAction;
   provider?: string;
   currency?: string;
+  template?: string;
+  locale?: string;
   priorBills?: HistoricalBillSnapshot[];
-}
-
-interface BillsRow {
-  total_cost: number | string | null;
-  usage_value: number | string | null;
-  period_end: string | null;
-}
-
-function toNumberOrNull(value: number | string | null): number | null {
-  if (value === null) {
-    return null;
-  }
-
-  const parsed = Number(value);
-  return Number.isFinite(parsed) ? parsed : null;
-}
-
-function coerceHistoricalRows(rows: BillsRow[]): HistoricalBillSnapshot[] {
-  return rows
-    .map((row) => {
-      const totalCost = toNumberOrNull(row.total_cost);
-      if (totalCost === null || totalCost <= 0) {
-        return null;
-      }
-
-      return {
-        totalCost,
-        usageValue: toNumberOrNull(row.usage_value),
-        periodEnd: row.period_end,
-      };
-    })
-    .filter((row): row is HistoricalBillSnapshot => row !== null);
+  extraction: Omit<ExtractedText, "text">;
 }
 
 function normalizePriorBills(value: unknown): HistoricalBillSnapshot[] | undefined {
@@ -92,9 +79,17 @@ async function normalizeRequestPayload(request: Request): Promise<NormalizedPayl
     const rawTextCandidate = formData.get("rawText");
 
     let rawText = "";
+    let fileHash: string | undefined;
+    let extraction: NormalizedPayload["extraction"] = {
+      source: "plain_text",
+      ocr: null,
+    };
 
     if (fileCandidate instanceof File) {
-      rawText = await extractTextFromFile(fileCandidate);
+      fileHash = hashFileContent(new Uint8Array(await fileCandidate.arrayBuffer()));
+      const extracted = await extractTextFromFile(fileCandidate);
+      rawText = extracted.text;
+      extraction = { source: extracted.source, ocr: extracted.ocr };
     } else if (typeof rawTextCandidate === "string") {
       rawText = rawTextCandidate;
     }
@@ -109,6 +104,17 @@ async function normalizeRequestPayload(request: Request): Promise<NormalizedPayl
         typeof formData.get("fileUrl") === "string"
           ? String(formData.get("fileUrl"))
           : undefined,
+      // A file sent with the request is hashed here; a fileUrl from
+      // /api/bills/upload carries the hash that route returned.
+      fileHash:
+        fileHash ??
+        (typeof formData.get("fileHash") === "string"
+          ? String(formData.get("fileHash"))
+          : undefined),
+      onDuplicate:
+        typeof formData.get("onDuplicate") === "string"
+          ? String(formData.get("onDuplicate"))
+          : undefined,
       provider:
         typeof formData.get("provider") === "string"
           ? String(formData.get("provider"))
@@ -117,100 +123,25 @@ async function normalizeRequestPayload(request: Request): Promise<NormalizedPayl
         typeof formData.get("currency") === "string"
           ? String(formData.get("currency")).toUpperCase()
           : undefined,
+      template:
+        typeof formData.get("template") === "string"
+          ? String(formData.get("template"))
+          : undefined,
+      locale:
+        typeof formData.get("locale") === "string"
+          ? String(formData.get("locale"))
+          : undefined,
       priorBills: normalizePriorBills(formData.get("priorBills")),
     });
 
-    return payload;
+    return { ...payload, extraction };
   }
 
   const jsonBody = await request.json();
-  return payloadSchema.parse(jsonBody);
-}
-
-async function loadPriorBillsFromDb(
-  propertyId: string,
-): Promise<HistoricalBillSnapshot[]> {
-  const supabase = getServiceSupabaseClient();
-  if (!supabase) {
-    return [];
-  }
-
-  const { data, error } = await supabase
-    .from("bills")
-    .select("total_cost, usage_value, period_end")
-    .eq("property_id", propertyId)
-    .order("period_end", { ascending: false })
-    .limit(3);
-
-  if (error || !data) {
-    return [];
-  }
-
-  return coerceHistoricalRows(data as BillsRow[]);
-}
-
-async function persistParseResult(params: {
-  propertyId: string;
-  fileUrl?: string;
-  confidence: number;
-  parsedBill: ReturnType<typeof parseBillFields>;
-  insights: Insight[];
-}): Promise<{ billId: string | null; persistenceError: string | null }> {
-  const supabase = getServiceSupabaseClient();
-  if (!supabase) {
-    return { billId: null, persistenceError: null };
-  }
-
-  const { parsedBill, propertyId, fileUrl, confidence, insights } = params;
-  const { data: insertedBill, error: billError } = await supabase
-    .from("bills")
-    .insert({
-      property_id: propertyId,
-      file_url: fileUrl ?? null,
-      provider: parsedBill.provider,
-      period_start: parsedBill.periodStart,
-      period_end: parsedBill.periodEnd,
-      total_cost: parsedBill.totalCost,
-      usage_value: parsedBill.usageValue,
-      usage_unit: parsedBill.usageUnit,
-      currency: parsedBill.currency,
-      confidence,
-      raw_text: parsedBill.rawText,
-    })
-    .select("id")
-    .single();
-
-  if (billError || !insertedBill?.id) {
-    return { billId: null, persistenceError: billError?.message ?? "insert_failed" };
-  }
-
-  const billId = insertedBill.id as string;
-
-  if (parsedBill.lineItems.length > 0) {
-    await supabase.from("bill_line_items").insert(
-      parsedBill.lineItems.map((line) => ({
-        bill_id: billId,
-        item_name: line.itemName,
-        amount: line.amount,
-      })),
-    );
-  }
-
-  if (insights.length > 0) {
-    await supabase.from("insights").insert(
-      insights.map((insight) => ({
-        bill_id: billId,
-        type: insight.type,
-        severity: insight.severity,
-        message: insight.message,
-        est_savings: insight.estSavings,
-        residual: insight.residual,
-        metadata: insight.metadata ?? {},
-      })),
-    );
-  }
-
-  return { billId, persistenceError: null };
+  return {
+    ...payloadSchema.parse(jsonBody),
+    extraction: { source: "plain_text", ocr: null },
+  };
 }
 
 export async function POST(request: Request) {
@@ -225,9 +156,21 @@ export async function POST(request: Request) {
       payload.currency ?? null,
       payload.rawText,
     ]);
-    const apiUser = payload.propertyId ? await requireApiUser(request) : null;
-    const quota = payload.propertyId
-      ? await getAnalysisQuota(payload.propertyId, apiUser?.id)
+    const apiUser =
+      payload.propertyId || request.headers.has("authorization")
+        ? await requireApiUser(request)
+        : null;
+
+    // A signed-in caller may leave propertyId out: the bill goes to the
+    // property its account or meter numbers (or service address) point to.
+    // An ambiguous match is parsed without storing and held for confirmation.
+    const matching =
+      !payload.propertyId && apiUser
+        ? await matchStatementToProperty(apiUser.id, payload.rawText, payload.locale)
+        : null;
+    const propertyId = payload.propertyId ?? matching?.match.propertyId ?? undefined;
+    const quota = propertyId
+      ? await getAnalysisQuota(propertyId, apiUser?.id)
       : {
           enforced: false,
           allowed: true,
@@ -272,83 +215,75 @@ export async function POST(request: Request) {
       );
     }
 
-    const parsedBill = parseBillFields(payload.rawText, {
-      providerOverride: payload.provider,
-      currencyOverride: payload.currency,
-    });
-    const confidence = estimateParseConfidence(parsedBill);
-    const priorBills =
-      payload.priorBills ??
-      (payload.propertyId
-        ? await loadPriorBillsFromDb(payload.propertyId)
-        : []);
-    const insightOutput = buildInsights({
-      bill: parsedBill,
-      priorBills,
-      parseConfidence: confidence,
+    const outcome = await parseStatement({
+      ...payload,
+      propertyId,
+      userId: apiUser?.id ?? null,
+      quota,
     });
 
-    let persistedBillId: string | null = null;
-    let persistenceError: string | null = null;
-    let responseQuota = quota;
-
-    if (payload.propertyId) {
-      const persistence = await persistParseResult({
-        propertyId: payload.propertyId,
-        fileUrl: payload.fileUrl,
-        confidence,
-        parsedBill,
-        insights: insightOutput.insights,
-      });
-      persistedBillId = persistence.billId;
-      persistenceError = persistence.persistenceError;
-
-      if (
-        persistedBillId &&
-        quota.enforced &&
-        quota.limit !== null &&
-        quota.usedThisMonth !== null
-      ) {
-        const usedThisMonth = quota.usedThisMonth + 1;
-        responseQuota = {
-          ...quota,
-          usedThisMonth,
-          remaining: Math.max(0, quota.limit - usedThisMonth),
-        };
-      }
+    // Nothing is stored until the caller says what to do with a likely
+    // duplicate; the same request is sent again with onDuplicate set.
+    if (outcome.kind === "duplicate") {
+      return NextResponse.json(
+        {
+          error: "duplicate_bill",
+          message:
+            "This bill looks like one already stored for the property. Re-send with onDuplicate set to skip, replace or keep_both.",
+          options: DUPLICATE_ACTIONS,
+          duplicates: outcome.duplicates,
+          statementId: outcome.statementId,
+        },
+        { status: 409 },
+      );
     }
 
+    const { result } = outcome;
+    const assignment =
+      apiUser && matching?.match.status === "ambiguous"
+        ? await queueBillAssignment({
+            userId: apiUser.id,
+            bill: matching.bill,
+            rawText: payload.rawText,
+            candidates: matching.match.candidates,
+            hashes: matching.hashes,
+            options: {
+              fileUrl: payload.fileUrl,
+              fileHash: payload.fileHash,
+              provider: payload.provider,
+              currency: payload.currency,
+              template: payload.template,
+              locale: payload.locale,
+              extraction: payload.extraction,
+            },
+          })
+        : null;
     const debug = isDebugRequest(request)
       ? {
           eventId,
           inputHash,
-          residuals: insightOutput.insights
+          residuals: result.insights
             .filter((insight) => typeof insight.residual === "number")
             .map((insight) => insight.residual),
-          expectedCost: insightOutput.expectedCost,
-          expectedUsage: insightOutput.expectedUsage,
-          decision: insightOutput.decision,
+          expectedCost: result.expectedCost,
+          expectedUsage: result.expectedUsage,
+          decision: result.decision,
         }
       : undefined;
 
-    return NextResponse.json({
-      modelVersion,
-      eventId,
-      inputHash,
-      bill: parsedBill,
-      parseConfidence: confidence,
-      requiresManualReview: confidence < 0.8,
-      priorBillsUsed: priorBills.length,
-      expectedCost: insightOutput.expectedCost,
-      expectedUsage: insightOutput.expectedUsage,
-      framework: insightOutput.framework,
-      decision: insightOutput.decision,
-      insights: insightOutput.insights,
-      quota: responseQuota,
-      persistedBillId,
-      persistenceError,
-      debug,
-    });
+    return NextResponse.json(
+      {
+        modelVersion,
+        parserVersion: PARSER_VERSION,
+        eventId,
+        inputHash,
+        ...result,
+        propertyMatch: matching?.match ?? null,
+        assignment,
+        debug,
+      },
+      { status: assignment ? 202 : 200 },
+    );
   } catch (error) {
     if (error instanceof ApiAuthError) {
       return NextResponse.json(
@@ -357,6 +292,20 @@ export async function POST(request: Request) {
       );
     }
 
+    if (error instanceof PropertyAccountError || error instanceof BillAssignmentError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+
+    if (error instanceof BillDuplicateError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         {
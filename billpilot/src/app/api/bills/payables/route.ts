@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { ApiAuthError, requireApiUser } from "@/lib/auth";
+import {
+  BillPaymentError,
+  DEFAULT_PAYABLES_WINDOW_DAYS,
+  listPayables,
+} from "@/lib/bills/payments";
+
+export const runtime = "nodejs";
+
+const payablesQuerySchema = z.object({
+  days: z.coerce.number().int().min(0).max(365).default(DEFAULT_PAYABLES_WINDOW_DAYS),
+  propertyId: z.string().uuid().optional(),
+});
+
+// Overdue bills, and bills due within `days`, across the user's properties.
+export async function GET(request: Request) {
+  try {
+    const user = await requireApiUser(request);
+    const url = new URL(request.url);
+    const query = payablesQuerySchema.parse({
+      days: url.searchParams.get("days") ?? undefined,
+      propertyId: url.searchParams.get("propertyId") ?? undefined,
+    });
+
+    const payables = await listPayables({
+      userId: user.id,
+      days: query.days,
+      propertyId: query.propertyId,
+    });
+
+    return NextResponse.json(payables);
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof BillPaymentError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { ApiAuthError, requireApiUser } from "@/lib/auth";
+import {
+  applyRawTextModeToStoredBills,
+  getBillPrivacySetting,
+  isRawTextEncryptionConfigured,
+  RAW_TEXT_MODES,
+  upsertBillPrivacySetting,
+} from "@/lib/bills/privacy";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+const payloadSchema = z.object({
+  rawTextMode: z.enum(RAW_TEXT_MODES),
+  applyToExisting: z.boolean().optional(),
+});
+
+export async function GET(request: Request) {
+  try {
+    const user = await requireApiUser(request);
+    const setting = await getBillPrivacySetting(user.id);
+
+    return NextResponse.json({
+      setting,
+      encryptionAvailable: isRawTextEncryptionConfigured(),
+    });
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// Saves how raw bill text is kept. With applyToExisting the user's stored
+// bills are rewritten to match, as far as their stored text allows.
+export async function POST(request: Request) {
+  try {
+    const user = await requireApiUser(request);
+    const input = payloadSchema.parse(await request.json());
+
+    if (input.rawTextMode === "encrypted" && !isRawTextEncryptionConfigured()) {
+      return NextResponse.json(
+        {
+          error: "encryption_not_configured",
+          message: "Encrypted originals need BILL_TEXT_ENCRYPTION_KEY to be set on the server.",
+        },
+        { status: 409 },
+      );
+    }
+
+    const setting = await upsertBillPrivacySetting({
+      userId: user.id,
+      rawTextMode: input.rawTextMode,
+    });
+    const applied = input.applyToExisting
+      ? await applyRawTextModeToStoredBills(user.id, input.rawTextMode)
+      : null;
+
+    return NextResponse.json({ setting, updatedBills: applied?.updated ?? 0 });
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { ApiAuthError, requireApiUser } from "@/lib/auth";
+import { BillVersionError, MAX_BULK_REPARSE, reparseBills } from "@/lib/bills/versions";
+
+export const runtime = "nodejs";
+export const maxDuration = 300;
+
+const payloadSchema = z.object({
+  propertyId: z.string().uuid().optional(),
+  autoAccept: z.boolean().optional(),
+  force: z.boolean().optional(),
+  cursor: z.string().uuid().optional(),
+  limit: z.number().int().min(1).max(MAX_BULK_REPARSE).default(50),
+});
+
+// Without propertyId every property of the account is covered. Pass the
+// returned nextCursor to continue with the bills that are left.
+export async function POST(request: Request) {
+  try {
+    const user = await requireApiUser(request);
+    const payload = payloadSchema.parse(await request.json().catch(() => ({})));
+    const result = await reparseBills({
+      userId: user.id,
+      propertyId: payload.propertyId,
+      autoAccept: payload.autoAccept,
+      force: payload.force,
+      cursor: payload.cursor,
+      limit: payload.limit,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof BillVersionError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
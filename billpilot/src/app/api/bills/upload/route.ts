@@ -4,6 +4,13 @@ import { randomUUID } from "node:crypto";
 import { NextResponse } from "next/server";
 
 import { ApiAuthError, requireApiUser } from "@/lib/auth";
+import {
+  BillDuplicateError,
+  DUPLICATE_ACTIONS,
+  DuplicateAction,
+  findDuplicateBills,
+  hashFileContent,
+} from "@/lib/bills/duplicates";
 import { propertyBelongsToUser } from "@/lib/properties";
 import { getServiceSupabaseClient } from "@/lib/supabase";
 
@@ -38,8 +45,23 @@ export async function POST(request: Request) {
       typeof formData.get("propertyId") === "string"
         ? String(formData.get("propertyId"))
         : undefined;
+    const onDuplicateCandidate = formData.get("onDuplicate");
+    const onDuplicate =
+      typeof onDuplicateCandidate === "string" && onDuplicateCandidate
+        ? onDuplicateCandidate
+        : undefined;
     const apiUser = propertyId ? await requireApiUser(request) : null;
 
+    if (onDuplicate && !DUPLICATE_ACTIONS.includes(onDuplicate as DuplicateAction)) {
+      return NextResponse.json(
+        {
+          error: "invalid_duplicate_action",
+          message: "onDuplicate must be one of skip, replace or keep_both.",
+        },
+        { status: 400 },
+      );
+    }
+
     if (!(fileCandidate instanceof File)) {
       return NextResponse.json(
         { error: "file_required", message: "Attach a bill file under `file`." },
@@ -77,6 +99,42 @@ export async function POST(request: Request) {
     const contentTypeValue =
       fileCandidate.type || "application/octet-stream";
     const fileBuffer = Buffer.from(await fileCandidate.arrayBuffer());
+    const fileHash = hashFileContent(fileBuffer);
+    const duplicates = propertyId
+      ? await findDuplicateBills({ propertyId, fileHash, bills: [] })
+      : [];
+
+    if (duplicates.length > 0 && !onDuplicate) {
+      return NextResponse.json(
+        {
+          error: "duplicate_bill",
+          message:
+            "This file was already uploaded for the property. Re-send with onDuplicate set to skip, replace or keep_both.",
+          options: DUPLICATE_ACTIONS,
+          duplicates,
+          fileHash,
+        },
+        { status: 409 },
+      );
+    }
+
+    // Skipping stores nothing; replace and keep_both store the file and are
+    // applied to the bills when it is parsed with the same onDuplicate.
+    if (duplicates.length > 0 && onDuplicate === "skip") {
+      return NextResponse.json({
+        skipped: true,
+        bucket,
+        filePath: null,
+        storageRef: null,
+        fileName: fileCandidate.name,
+        size: fileCandidate.size,
+        contentType: contentTypeValue,
+        fileHash,
+        duplicates,
+        duplicateAction: onDuplicate,
+        propertyId: propertyId ?? null,
+      });
+    }
 
     const { error: uploadError } = await supabase.storage
       .from(bucket)
@@ -109,6 +167,9 @@ export async function POST(request: Request) {
       contentType: contentTypeValue,
       signedUrl: signedError ? null : signedData?.signedUrl ?? null,
       signedUrlError: signedError?.message ?? null,
+      fileHash,
+      duplicates,
+      duplicateAction: duplicates.length > 0 ? onDuplicate ?? null : null,
       propertyId: propertyId ?? null,
     });
   } catch (error) {
@@ -118,6 +179,12 @@ export async function POST(request: Request) {
         { status: error.status },
       );
     }
+    if (error instanceof BillDuplicateError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
 
     const message = error instanceof Error ? error.message : "unknown_error";
     return NextResponse.json({ error: message }, { status: 500 });
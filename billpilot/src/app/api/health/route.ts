@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import type { SupabaseClient } from "@supabase/supabase-js";
 
 import { newEventId } from "@/lib/audit-utils";
+import { isRawTextEncryptionConfigured } from "@/lib/bills/privacy";
 import { isDebugRequest } from "@/lib/debug";
 import { getServiceSupabaseClient } from "@/lib/supabase";
 
@@ -48,6 +49,18 @@ const RUNTIME_TABLES = [
   "properties",
   "bills",
   "bill_line_items",
+  "bill_corrections",
+  "bill_batches",
+  "inbound_email_messages",
+  "usage_intervals",
+  "parse_jobs",
+  "bill_privacy_settings",
+  "property_accounts",
+  "bill_assignments",
+  "bill_payments",
+  "degree_days",
+  "tariffs",
+  "insight_rule_settings",
   "insights",
   "subscriptions",
   "webhook_events",
@@ -138,6 +151,7 @@ function buildDeploymentSummary(input: {
   reportsEnabled: boolean;
   reception: ReturnType<typeof checkEnv>;
   receptionEnabled: boolean;
+  billTextKeyConfigured: boolean;
   supabaseRuntime: Awaited<ReturnType<typeof checkSupabaseRuntime>>;
 }) {
   const blockingIssues: string[] = [];
@@ -169,6 +183,11 @@ function buildDeploymentSummary(input: {
   if (input.receptionEnabled && !input.reception.ok) {
     warnings.push(`Reception env incomplete: missing ${input.reception.missing.join(", ")}`);
   }
+  if (!input.billTextKeyConfigured) {
+    warnings.push(
+      "BILL_TEXT_ENCRYPTION_KEY is missing or shorter than 32 characters: redaction maps carry no hashes, account and meter numbers are not remembered, and encrypted originals are unavailable.",
+    );
+  }
 
   return {
     deployable: blockingIssues.length === 0,
@@ -194,6 +213,7 @@ export async function GET() {
   const billing = checkEnv(FEATURE_KEYS.billing);
   const reports = checkEnv(FEATURE_KEYS.reports);
   const reception = checkEnv(FEATURE_KEYS.reception);
+  const billTextKeyConfigured = isRawTextEncryptionConfigured();
   const supabaseRuntime = await checkSupabaseRuntime();
   const deployment = buildDeploymentSummary({
     core,
@@ -203,6 +223,7 @@ export async function GET() {
     reportsEnabled: reportsAnyConfigured,
     reception,
     receptionEnabled: receptionAnyConfigured,
+    billTextKeyConfigured,
     supabaseRuntime,
   });
 
@@ -229,6 +250,9 @@ export async function GET() {
         enabled: receptionAnyConfigured,
         ...reception,
       },
+      billText: {
+        keyConfigured: billTextKeyConfigured,
+      },
     },
     runtime: {
       supabase: supabaseRuntime,
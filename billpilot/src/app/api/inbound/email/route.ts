@@ -0,0 +1,165 @@
+import { Buffer } from "node:buffer";
+
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { BillBatchError } from "@/lib/bills/batch";
+import { BillDuplicateError } from "@/lib/bills/duplicates";
+import { ingestInboundEmail, InboundEmailError } from "@/lib/email/inbound";
+
+export const runtime = "nodejs";
+
+const MAX_MESSAGE_BYTES = 25 * 1024 * 1024;
+const SNS_HOST_PATTERN = /^sns\.[a-z0-9-]+\.amazonaws\.com$/;
+
+// Raw MIME wrapped in JSON: `raw` for relays, `RawEmail` from Postmark's
+// inbound webhook, `content` from an SES receipt rule (inside the SNS
+// notification's Message).
+const jsonPayloadSchema = z.object({
+  raw: z.string().optional(),
+  RawEmail: z.string().optional(),
+  content: z.string().optional(),
+  encoding: z.enum(["base64", "utf8"]).optional(),
+  recipients: z.array(z.string()).max(50).optional(),
+  receipt: z.object({ recipients: z.array(z.string()).max(50).optional() }).optional(),
+});
+
+const snsEnvelopeSchema = z.object({
+  Type: z.string(),
+  Message: z.string().optional(),
+  SubscribeURL: z.string().url().optional(),
+});
+
+function hasInboundAccess(request: Request): boolean {
+  const expected = process.env.INBOUND_EMAIL_SECRET?.trim();
+  if (!expected) {
+    return false;
+  }
+
+  // Mail services that cannot send custom headers (SNS, Postmark) pass the
+  // secret as ?secret= on the webhook URL instead.
+  const provided =
+    request.headers.get("x-inbound-secret")?.trim() ??
+    new URL(request.url).searchParams.get("secret")?.trim();
+  if (!provided) {
+    return false;
+  }
+
+  return provided === expected;
+}
+
+function decodeRawMessage(raw: string, encoding?: "base64" | "utf8"): Buffer {
+  // Raw MIME always has "Name: value" headers; a body without a colon in its
+  // first line is a base64 encoded message.
+  const isBase64 = encoding === "base64" || (!encoding && !raw.slice(0, 200).includes(":"));
+  return isBase64 ? Buffer.from(raw.replace(/\s+/g, ""), "base64") : Buffer.from(raw, "utf8");
+}
+
+export async function POST(request: Request) {
+  try {
+    if (!hasInboundAccess(request)) {
+      return NextResponse.json(
+        {
+          error: "unauthorized",
+          message: "Send INBOUND_EMAIL_SECRET as x-inbound-secret or ?secret=.",
+        },
+        { status: 401 },
+      );
+    }
+
+    // SNS posts its JSON as text/plain, so JSON is recognised by its first
+    // character as well as by content type.
+    const contentType = request.headers.get("content-type") ?? "";
+    const body = Buffer.from(await request.arrayBuffer());
+    let raw: Buffer = body;
+    let recipients: string[] = [];
+
+    if (contentType.includes("application/json") || body.toString("utf8", 0, 64).trimStart().startsWith("{")) {
+      let json = JSON.parse(body.toString("utf8")) as unknown;
+      const envelope = snsEnvelopeSchema.safeParse(json);
+      if (envelope.success && envelope.data.Type === "SubscriptionConfirmation") {
+        const subscribeUrl = envelope.data.SubscribeURL;
+        if (!subscribeUrl || !SNS_HOST_PATTERN.test(new URL(subscribeUrl).hostname)) {
+          return NextResponse.json(
+            { error: "invalid_subscription", message: "SubscribeURL is not an SNS endpoint." },
+            { status: 400 },
+          );
+        }
+        await fetch(subscribeUrl);
+        return NextResponse.json({ confirmed: true });
+      }
+      if (envelope.success && envelope.data.Message) {
+        json = JSON.parse(envelope.data.Message) as unknown;
+      }
+
+      const payload = jsonPayloadSchema.parse(json);
+      const message = payload.raw ?? payload.RawEmail ?? payload.content;
+      if (!message) {
+        return NextResponse.json(
+          {
+            error: "message_required",
+            message: "Send the raw MIME message as `raw`, `RawEmail` or `content`.",
+          },
+          { status: 400 },
+        );
+      }
+      raw = decodeRawMessage(message, payload.encoding);
+      recipients = payload.recipients ?? payload.receipt?.recipients ?? [];
+    }
+
+    if (raw.byteLength === 0) {
+      return NextResponse.json(
+        { error: "message_required", message: "The request body is empty." },
+        { status: 400 },
+      );
+    }
+    if (raw.byteLength > MAX_MESSAGE_BYTES) {
+      return NextResponse.json(
+        {
+          error: "message_too_large",
+          message: `Messages are limited to ${MAX_MESSAGE_BYTES} bytes.`,
+        },
+        { status: 413 },
+      );
+    }
+
+    // Unmatched, billless and failed messages are logged and acknowledged with
+    // 200; mail services retry on errors, which would only repeat them.
+    const result = await ingestInboundEmail({ raw, recipients });
+    return NextResponse.json(result);
+  } catch (error) {
+    if (
+      error instanceof InboundEmailError ||
+      error instanceof BillBatchError ||
+      error instanceof BillDuplicateError
+    ) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+    // A body or SNS Message that looked like JSON but is not; a 400 keeps the
+    // mail service from redelivering it.
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: "invalid_request", message: `The JSON payload could not be read: ${error.message}` },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
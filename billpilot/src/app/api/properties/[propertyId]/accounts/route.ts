@@ -0,0 +1,164 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { ApiAuthError, requireApiUser } from "@/lib/auth";
+import {
+  addPropertyAccount,
+  listPropertyAccounts,
+  PROPERTY_ACCOUNT_KINDS,
+  PropertyAccountError,
+  removePropertyAccount,
+} from "@/lib/bills/property-accounts";
+import { propertyBelongsToUser } from "@/lib/properties";
+
+export const runtime = "nodejs";
+
+const addSchema = z.object({
+  kind: z.enum(PROPERTY_ACCOUNT_KINDS),
+  value: z.string().min(4).max(60),
+  provider: z.string().min(2).max(120).optional(),
+});
+
+const removeSchema = z.object({
+  accountId: z.string().uuid(),
+});
+
+interface PropertyRouteContext {
+  params: Promise<{
+    propertyId: string;
+  }>;
+}
+
+async function requireOwnedProperty(request: Request, context: PropertyRouteContext) {
+  const user = await requireApiUser(request);
+  const { propertyId } = await context.params;
+  const id = z.string().uuid().parse(propertyId);
+  if (!(await propertyBelongsToUser(id, user.id))) {
+    throw new PropertyAccountError(
+      403,
+      "forbidden_property",
+      "This property does not belong to the authenticated user.",
+    );
+  }
+  return { userId: user.id, propertyId: id };
+}
+
+// Known account and meter numbers are listed by kind and last four only.
+export async function GET(request: Request, context: PropertyRouteContext) {
+  try {
+    const { propertyId } = await requireOwnedProperty(request, context);
+    const accounts = await listPropertyAccounts(propertyId);
+    return NextResponse.json({ propertyId, accounts });
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof PropertyAccountError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request, context: PropertyRouteContext) {
+  try {
+    const { userId, propertyId } = await requireOwnedProperty(request, context);
+    const body = addSchema.parse(await request.json());
+    const account = await addPropertyAccount({
+      propertyId,
+      userId,
+      kind: body.kind,
+      value: body.value,
+      provider: body.provider ?? null,
+    });
+    return NextResponse.json({ account }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof PropertyAccountError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, context: PropertyRouteContext) {
+  try {
+    const { propertyId } = await requireOwnedProperty(request, context);
+    const url = new URL(request.url);
+    const { accountId } = removeSchema.parse({
+      accountId: url.searchParams.get("accountId") ?? undefined,
+    });
+    await removePropertyAccount(propertyId, accountId);
+    return NextResponse.json({ removed: true });
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof PropertyAccountError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,127 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { ApiAuthError, requireApiUser } from "@/lib/auth";
+import {
+  getInboundToken,
+  inboundAddressFor,
+  InboundEmailError,
+  listInboundEmailLog,
+  rotateInboundToken,
+} from "@/lib/email/inbound";
+import { propertyBelongsToUser } from "@/lib/properties";
+
+export const runtime = "nodejs";
+
+const querySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+interface PropertyRouteContext {
+  params: Promise<{
+    propertyId: string;
+  }>;
+}
+
+async function requireOwnedProperty(request: Request, context: PropertyRouteContext) {
+  const user = await requireApiUser(request);
+  const { propertyId } = await context.params;
+  const id = z.string().uuid().parse(propertyId);
+  if (!(await propertyBelongsToUser(id, user.id))) {
+    throw new InboundEmailError(
+      403,
+      "forbidden_property",
+      "This property does not belong to the authenticated user.",
+    );
+  }
+  return id;
+}
+
+export async function GET(request: Request, context: PropertyRouteContext) {
+  try {
+    const propertyId = await requireOwnedProperty(request, context);
+    const url = new URL(request.url);
+    const query = querySchema.parse({
+      limit: url.searchParams.get("limit") ?? undefined,
+    });
+    const token = await getInboundToken(propertyId);
+    const messages = await listInboundEmailLog(propertyId, query.limit);
+
+    return NextResponse.json({
+      propertyId,
+      inboundToken: token,
+      inboundAddress: token ? inboundAddressFor(token) : null,
+      messages,
+    });
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof InboundEmailError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request, context: PropertyRouteContext) {
+  try {
+    const propertyId = await requireOwnedProperty(request, context);
+    const token = await rotateInboundToken(propertyId);
+
+    return NextResponse.json({
+      propertyId,
+      inboundToken: token,
+      inboundAddress: inboundAddressFor(token),
+      rotated: true,
+    });
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof InboundEmailError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
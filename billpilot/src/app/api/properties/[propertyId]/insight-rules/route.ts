@@ -0,0 +1,142 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { ApiAuthError, requireApiUser } from "@/lib/auth";
+import {
+  getInsightRuleSettings,
+  InsightRuleError,
+  savePropertyInsightRules,
+} from "@/lib/bills/insight-rules";
+import { INSIGHT_TYPES } from "@/lib/parser/rules";
+import { propertyBelongsToUser } from "@/lib/properties";
+
+export const runtime = "nodejs";
+
+const thresholdSchema = z
+  .object({
+    watch: z.number().positive().max(10),
+    high: z.number().positive().max(10),
+  })
+  .partial();
+
+const rulesSchema = z.object({
+  disabled: z.array(z.enum(INSIGHT_TYPES)).optional(),
+  thresholds: z
+    .object({
+      cost: thresholdSchema,
+      usage: thresholdSchema,
+      surcharge: thresholdSchema,
+    })
+    .partial()
+    .optional(),
+  lineItemRules: z
+    .array(
+      z.object({
+        match: z.string().trim().min(1).max(120),
+        maxAmount: z.number().nonnegative(),
+        severity: z.enum(["watch", "high"]),
+      }),
+    )
+    .max(50)
+    .optional(),
+});
+
+const updateSchema = z.object({
+  rules: rulesSchema.nullable(),
+});
+
+interface PropertyRouteContext {
+  params: Promise<{
+    propertyId: string;
+  }>;
+}
+
+async function requireOwnedProperty(request: Request, context: PropertyRouteContext) {
+  const user = await requireApiUser(request);
+  const { propertyId } = await context.params;
+  const id = z.string().uuid().parse(propertyId);
+  if (!(await propertyBelongsToUser(id, user.id))) {
+    throw new InsightRuleError(
+      403,
+      "forbidden_property",
+      "This property does not belong to the authenticated user.",
+    );
+  }
+  return { userId: user.id, propertyId: id };
+}
+
+// The property's overrides, the user's rules beneath them, and the merged
+// rules the property's bills are scored with.
+export async function GET(request: Request, context: PropertyRouteContext) {
+  try {
+    const { userId, propertyId } = await requireOwnedProperty(request, context);
+    const settings = await getInsightRuleSettings(userId, propertyId);
+    return NextResponse.json({ propertyId, ...settings });
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof InsightRuleError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// Replaces the property's overrides (`null` goes back to the user's rules).
+export async function POST(request: Request, context: PropertyRouteContext) {
+  try {
+    const { userId, propertyId } = await requireOwnedProperty(request, context);
+    const body = updateSchema.parse(await request.json());
+    const settings = await savePropertyInsightRules({ userId, propertyId, rules: body.rules });
+    return NextResponse.json({ propertyId, ...settings });
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof InsightRuleError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
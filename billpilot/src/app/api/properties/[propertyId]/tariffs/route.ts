@@ -0,0 +1,122 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { ApiAuthError, requireApiUser } from "@/lib/auth";
+import { SERVICE_TYPES } from "@/lib/parser/services";
+import { propertyBelongsToUser } from "@/lib/properties";
+import { TariffError } from "@/lib/tariffs/library";
+import { setPropertyCurrentTariff, simulatePropertyTariffs } from "@/lib/tariffs/simulator";
+
+export const runtime = "nodejs";
+
+const simulateSchema = z.object({
+  serviceType: z.enum(SERVICE_TYPES).default("electric"),
+});
+
+const updateSchema = z.object({
+  currentTariffId: z.string().uuid().nullable(),
+});
+
+interface PropertyRouteContext {
+  params: Promise<{
+    propertyId: string;
+  }>;
+}
+
+async function requireOwnedProperty(request: Request, context: PropertyRouteContext) {
+  const user = await requireApiUser(request);
+  const { propertyId } = await context.params;
+  const id = z.string().uuid().parse(propertyId);
+  if (!(await propertyBelongsToUser(id, user.id))) {
+    throw new TariffError(
+      403,
+      "forbidden_property",
+      "This property does not belong to the authenticated user.",
+    );
+  }
+  return { userId: user.id, propertyId: id };
+}
+
+// Annual cost of the property's last year of bills under each tariff in the
+// user's library, and the cheapest alternative to the current plan.
+export async function GET(request: Request, context: PropertyRouteContext) {
+  try {
+    const { propertyId } = await requireOwnedProperty(request, context);
+    const { searchParams } = new URL(request.url);
+    const { serviceType } = simulateSchema.parse({
+      serviceType: searchParams.get("serviceType") ?? undefined,
+    });
+    const simulation = await simulatePropertyTariffs({ propertyId, serviceType });
+    return NextResponse.json(simulation);
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof TariffError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// Names the tariff the property is on now (`null` clears it).
+export async function POST(request: Request, context: PropertyRouteContext) {
+  try {
+    const { userId, propertyId } = await requireOwnedProperty(request, context);
+    const body = updateSchema.parse(await request.json());
+    const currentTariffId = await setPropertyCurrentTariff({
+      propertyId,
+      userId,
+      tariffId: body.currentTariffId,
+    });
+    return NextResponse.json({ propertyId, currentTariffId });
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof TariffError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
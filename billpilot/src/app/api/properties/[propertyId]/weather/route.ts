@@ -0,0 +1,116 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { ApiAuthError, requireApiUser } from "@/lib/auth";
+import { propertyBelongsToUser } from "@/lib/properties";
+import { DegreeDayError } from "@/lib/weather/degree-days";
+import {
+  getPropertyWeatherLocation,
+  setPropertyWeatherLocation,
+} from "@/lib/weather/normalization";
+
+export const runtime = "nodejs";
+
+const updateSchema = z.object({
+  location: z.string().trim().min(1).max(80).nullable(),
+});
+
+interface PropertyRouteContext {
+  params: Promise<{
+    propertyId: string;
+  }>;
+}
+
+async function requireOwnedProperty(request: Request, context: PropertyRouteContext) {
+  const user = await requireApiUser(request);
+  const { propertyId } = await context.params;
+  const id = z.string().uuid().parse(propertyId);
+  if (!(await propertyBelongsToUser(id, user.id))) {
+    throw new DegreeDayError(
+      403,
+      "forbidden_property",
+      "This property does not belong to the authenticated user.",
+    );
+  }
+  return { userId: user.id, propertyId: id };
+}
+
+// The degree-day location this property's energy bills are normalized with.
+export async function GET(request: Request, context: PropertyRouteContext) {
+  try {
+    const { propertyId } = await requireOwnedProperty(request, context);
+    const location = await getPropertyWeatherLocation(propertyId);
+    return NextResponse.json({ propertyId, location });
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof DegreeDayError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// Sets the location (which must already have imported degree days), or turns
+// weather normalization off with `{ "location": null }`.
+export async function POST(request: Request, context: PropertyRouteContext) {
+  try {
+    const { userId, propertyId } = await requireOwnedProperty(request, context);
+    const body = updateSchema.parse(await request.json());
+    const location = await setPropertyWeatherLocation({
+      propertyId,
+      userId,
+      location: body.location,
+    });
+    return NextResponse.json({ propertyId, location });
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof DegreeDayError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -3,9 +3,12 @@ import { z } from "zod";
 
 import { ApiAuthError, requireApiUser } from "@/lib/auth";
 import {
+  countAnalysesByProperty,
   FREE_TIER_ANALYSES_PER_MONTH,
   getCurrentQuotaPeriodStart,
 } from "@/lib/billing/quota";
+import { inboundAddressFor } from "@/lib/email/inbound";
+import { isSupportedLocale } from "@/lib/parser/locale";
 import { getServiceSupabaseClient } from "@/lib/supabase";
 
 export const runtime = "nodejs";
@@ -14,6 +17,7 @@ const createPropertySchema = z.object({
   name: z.string().min(2).max(100),
   address: z.string().max(200).optional(),
   timezone: z.string().min(2).max(60).optional(),
+  locale: z.string().min(2).max(35).refine(isSupportedLocale, "Unsupported locale.").optional(),
 });
 
 interface PropertyRow {
@@ -21,6 +25,8 @@ interface PropertyRow {
   name: string;
   address: string | null;
   timezone: string;
+  locale: string | null;
+  inbound_token: string | null;
   created_at: string;
 }
 
@@ -47,31 +53,6 @@ async function ensureSubscriptionRow(userId: string): Promise<void> {
   );
 }
 
-async function listUsageCounts(
-  propertyIds: string[],
-  periodStartIso: string,
-): Promise<Record<string, number>> {
-  const supabase = getServiceSupabaseClient();
-  if (!supabase || propertyIds.length === 0) {
-    return {};
-  }
-
-  const { data, error } = await supabase
-    .from("bills")
-    .select("property_id")
-    .in("property_id", propertyIds)
-    .gte("created_at", periodStartIso);
-
-  if (error || !data) {
-    return {};
-  }
-
-  return data.reduce<Record<string, number>>((acc, row: { property_id: string }) => {
-    acc[row.property_id] = (acc[row.property_id] ?? 0) + 1;
-    return acc;
-  }, {});
-}
-
 export async function GET(request: Request) {
   try {
     const user = await requireApiUser(request);
@@ -94,7 +75,7 @@ export async function GET(request: Request) {
       await Promise.all([
         supabase
           .from("properties")
-          .select("id, name, address, timezone, created_at")
+          .select("id, name, address, timezone, locale, inbound_token, created_at")
           .eq("user_id", user.id)
           .order("created_at", { ascending: true }),
         supabase
@@ -113,7 +94,7 @@ export async function GET(request: Request) {
 
     const properties = (propertiesData ?? []) as PropertyRow[];
     const periodStart = getCurrentQuotaPeriodStart();
-    const counts = await listUsageCounts(
+    const counts = await countAnalysesByProperty(
       properties.map((row) => row.id),
       periodStart,
     );
@@ -150,6 +131,7 @@ export async function GET(request: Request) {
       },
       properties: properties.map((property) => ({
         ...property,
+        inboundAddress: property.inbound_token ? inboundAddressFor(property.inbound_token) : null,
         analysesThisMonth: counts[property.id] ?? 0,
       })),
     });
@@ -194,8 +176,9 @@ export async function POST(request: Request) {
         name: input.name,
         address: input.address ?? null,
         timezone: input.timezone ?? "UTC",
+        locale: input.locale ?? null,
       })
-      .select("id, name, address, timezone, created_at")
+      .select("id, name, address, timezone, locale, inbound_token, created_at")
       .single();
 
     if (error || !data) {
@@ -205,8 +188,12 @@ export async function POST(request: Request) {
       );
     }
 
+    const property = data as PropertyRow;
     return NextResponse.json({
-      property: data,
+      property: {
+        ...property,
+        inboundAddress: property.inbound_token ? inboundAddressFor(property.inbound_token) : null,
+      },
     });
   } catch (error) {
     if (error instanceof ApiAuthError) {
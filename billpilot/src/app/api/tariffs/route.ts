@@ -0,0 +1,200 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { ApiAuthError, requireApiUser } from "@/lib/auth";
+import { SERVICE_TYPES } from "@/lib/parser/services";
+import { deleteTariffs, importTariffs, listTariffs, TariffError } from "@/lib/tariffs/library";
+import { TOU_DAY_TYPES } from "@/lib/tariffs/pricing";
+
+export const runtime = "nodejs";
+
+const rateSchema = z.number().nonnegative().max(10_000);
+
+const energySchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("flat"), rate: rateSchema }),
+  z.object({
+    type: z.literal("tiered"),
+    tiers: z
+      .array(z.object({ upTo: z.number().positive().nullable(), rate: rateSchema }))
+      .min(1)
+      .max(12),
+  }),
+  z.object({
+    type: z.literal("tou"),
+    periods: z
+      .array(
+        z.object({
+          name: z.string().trim().min(1).max(40),
+          rate: rateSchema,
+          hours: z.tuple([z.number().int().min(0).max(23), z.number().int().min(1).max(24)]),
+          days: z.enum(TOU_DAY_TYPES).default("all"),
+          months: z.array(z.number().int().min(1).max(12)).min(1).max(12).optional(),
+        }),
+      )
+      .min(1)
+      .max(24),
+    defaultRate: rateSchema,
+  }),
+]);
+
+const tariffSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .max(60)
+    .regex(/^[A-Za-z0-9][A-Za-z0-9_.-]*$/, "Use letters, digits, dots, dashes and underscores."),
+  name: z.string().trim().min(2).max(120),
+  serviceType: z.enum(SERVICE_TYPES).default("electric"),
+  unit: z.string().trim().min(1).max(20).default("kWh"),
+  currency: z
+    .string()
+    .length(3)
+    .default("USD")
+    .transform((value) => value.toUpperCase()),
+  fixedMonthly: z.number().nonnegative().max(100_000).default(0),
+  energy: energySchema,
+  demandRate: rateSchema.nullable().default(null),
+});
+
+const importSchema = z.object({
+  utility: z.string().trim().min(2).max(120),
+  replace: z.boolean().default(false),
+  tariffs: z.array(tariffSchema).min(1).max(100),
+});
+
+const listSchema = z.object({
+  serviceType: z.enum(SERVICE_TYPES).optional(),
+  utility: z.string().trim().min(2).max(120).optional(),
+});
+
+const deleteSchema = z.union([
+  z.object({ tariffId: z.string().uuid() }),
+  z.object({ utility: z.string().trim().min(2).max(120) }),
+]);
+
+export async function GET(request: Request) {
+  try {
+    const user = await requireApiUser(request);
+    const { searchParams } = new URL(request.url);
+    const filters = listSchema.parse({
+      serviceType: searchParams.get("serviceType") ?? undefined,
+      utility: searchParams.get("utility") ?? undefined,
+    });
+    const tariffs = await listTariffs(user.id, filters);
+    return NextResponse.json({ tariffs });
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof TariffError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// Imports one utility's rate plans; see the README for the tariff format.
+export async function POST(request: Request) {
+  try {
+    const user = await requireApiUser(request);
+    const payload = importSchema.parse(await request.json());
+    const result = await importTariffs({
+      userId: user.id,
+      utility: payload.utility,
+      tariffs: payload.tariffs,
+      replace: payload.replace,
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof TariffError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// `?tariffId=` removes one tariff, `?utility=` a utility's whole library.
+export async function DELETE(request: Request) {
+  try {
+    const user = await requireApiUser(request);
+    const { searchParams } = new URL(request.url);
+    const target = deleteSchema.parse(
+      searchParams.get("tariffId")
+        ? { tariffId: searchParams.get("tariffId") }
+        : { utility: searchParams.get("utility") ?? undefined },
+    );
+    const deleted = await deleteTariffs(user.id, target);
+    return NextResponse.json({ deleted });
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof TariffError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,185 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { ApiAuthError, requireApiUser } from "@/lib/auth";
+import {
+  DEGREE_DAY_FORMATS,
+  DegreeDayError,
+  deleteDegreeDayLocation,
+  importDegreeDays,
+  listDegreeDayLocations,
+  MAX_DEGREE_DAY_FILE_BYTES,
+  TEMPERATURE_UNITS,
+} from "@/lib/weather/degree-days";
+
+export const runtime = "nodejs";
+
+const payloadSchema = z.object({
+  location: z.string().trim().min(1).max(80).optional(),
+  format: z.enum(DEGREE_DAY_FORMATS).optional(),
+  temperatureUnit: z.enum(TEMPERATURE_UNITS).default("F"),
+});
+
+const deleteSchema = z.object({
+  location: z.string().trim().min(1).max(80),
+});
+
+function optionalField(formData: FormData, name: string): string | undefined {
+  const value = formData.get(name);
+  return typeof value === "string" && value ? value : undefined;
+}
+
+// The locations the user has degree days for, with the dates they cover.
+export async function GET(request: Request) {
+  try {
+    const user = await requireApiUser(request);
+    const locations = await listDegreeDayLocations(user.id);
+    return NextResponse.json({ locations });
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof DegreeDayError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const contentType = request.headers.get("content-type") ?? "";
+    if (!contentType.includes("multipart/form-data")) {
+      return NextResponse.json(
+        { error: "invalid_content_type", message: "Use multipart/form-data." },
+        { status: 400 },
+      );
+    }
+
+    const user = await requireApiUser(request);
+    const formData = await request.formData();
+    const payload = payloadSchema.parse({
+      location: optionalField(formData, "location"),
+      format: optionalField(formData, "format"),
+      temperatureUnit: optionalField(formData, "temperatureUnit")?.toUpperCase(),
+    });
+    const file = formData.get("file");
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        {
+          error: "file_required",
+          message: "Attach a degree-day CSV or NOAA export under `file`.",
+        },
+        { status: 400 },
+      );
+    }
+    if (file.size > MAX_DEGREE_DAY_FILE_BYTES) {
+      return NextResponse.json(
+        {
+          error: "file_too_large",
+          message: `Degree-day files are limited to ${MAX_DEGREE_DAY_FILE_BYTES} bytes.`,
+        },
+        { status: 413 },
+      );
+    }
+
+    const result = await importDegreeDays({
+      userId: user.id,
+      text: await file.text(),
+      format: payload.format,
+      location: payload.location,
+      temperatureUnit: payload.temperatureUnit,
+    });
+
+    return NextResponse.json({ fileName: file.name, ...result });
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof DegreeDayError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request) {
+  try {
+    const user = await requireApiUser(request);
+    const { searchParams } = new URL(request.url);
+    const { location } = deleteSchema.parse({
+      location: searchParams.get("location") ?? undefined,
+    });
+    const deleted = await deleteDegreeDayLocation(user.id, location);
+    return NextResponse.json({ location, deleted });
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof DegreeDayError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "invalid_request",
+          details: error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "unknown_error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
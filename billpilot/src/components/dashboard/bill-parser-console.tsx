@@ -29,10 +29,124 @@ interface ParseInsight {
   residual: number | null;
 }
 
+interface ExtractionReadout {
+  source: "pdf_text" | "plain_text" | "ocr";
+  ocr: {
+    engine: string;
+    averageConfidence: number;
+    pages: Array<{ pageNumber: number; confidence: number; characters: number }>;
+  } | null;
+}
+
+interface FieldEvidence {
+  confidence: number;
+  pattern: string;
+  source: "template" | "generic" | "fallback" | "override";
+  span: { start: number; end: number } | null;
+}
+
+interface UsageComponentRow {
+  kind: "tou" | "tier";
+  label: string;
+  blockStart: number | null;
+  blockEnd: number | null;
+  quantity: number | null;
+  unit: string | null;
+  rate: number | null;
+  amount: number | null;
+}
+
+interface HighlightSegment {
+  text: string;
+  label: string | null;
+}
+
+const CORRECTION_FIELDS = [
+  { field: "totalCost", label: "Total cost", numeric: true },
+  { field: "usageValue", label: "Usage", numeric: true },
+  { field: "usageUnit", label: "Usage unit", numeric: false },
+  { field: "periodStart", label: "Period start (YYYY-MM-DD)", numeric: false },
+  { field: "periodEnd", label: "Period end (YYYY-MM-DD)", numeric: false },
+  { field: "provider", label: "Provider", numeric: false },
+  { field: "currency", label: "Currency", numeric: false },
+  { field: "demandKw", label: "Demand (kW)", numeric: true },
+  { field: "demandCharge", label: "Demand charge", numeric: true },
+] as const;
+
+type CorrectionField = (typeof CORRECTION_FIELDS)[number]["field"];
+
+interface ProviderAccuracyRow {
+  provider: string;
+  bills: number;
+  correctedBills: number;
+  accuracy: number;
+  fieldAccuracy: number;
+}
+
+interface LineItemRow {
+  itemName: string;
+  category: string;
+  amount: number;
+  quantity: number | null;
+  unit: string | null;
+  rate: number | null;
+  evidence?: FieldEvidence;
+}
+
+const DUPLICATE_ACTIONS = [
+  { action: "skip", label: "Skip this upload" },
+  { action: "replace", label: "Replace existing" },
+  { action: "keep_both", label: "Keep both" },
+] as const;
+
+type DuplicateAction = (typeof DUPLICATE_ACTIONS)[number]["action"];
+
+interface DuplicateBillRow {
+  billId: string;
+  serviceType: string;
+  provider: string | null;
+  periodStart: string | null;
+  periodEnd: string | null;
+  totalCost: number | null;
+  createdAt: string;
+  reason: "same_file" | "same_bill" | "likely_same_bill";
+}
+
+interface DuplicatePrompt {
+  source: "upload" | "parse";
+  message: string;
+  duplicates: DuplicateBillRow[];
+}
+
+interface NormalizedUnits {
+  kwhEquivalent: number | null;
+  gallons: number | null;
+  costPerUnit: number | null;
+  costPerDay: number | null;
+}
+
+interface ServiceResult {
+  serviceType: string;
+  units: NormalizedUnits;
+  totalCost: number | null;
+  usageValue: number | null;
+  usageUnit: string | null;
+  parseConfidence: number;
+  decision: string;
+  persistedBillId: string | null;
+}
+
 interface ParseResponse {
   parseConfidence: number;
   decision: "SHIP" | "NO-SHIP" | "BOUNDARY-BAND ONLY";
   requiresManualReview: boolean;
+  ambiguousDates: Array<{
+    field: string;
+    raw: string;
+    chosen: string;
+    alternative: string;
+    locale: string;
+  }>;
   priorBillsUsed: number;
   eventId: string;
   inputHash: string;
@@ -44,26 +158,59 @@ interface ParseResponse {
     usageValue: number | null;
     usageUnit: string | null;
     currency: string;
-    lineItems: Array<{ itemName: string; amount: number }>;
+    locale: string;
+    lineItems: LineItemRow[];
+    lineItemReconciliation: {
+      itemsTotal: number;
+      totalCost: number | null;
+      remainder: number | null;
+      reconciled: boolean;
+    };
+    usageComponents: UsageComponentRow[];
+    demandKw: number | null;
+    demandBasis: string | null;
+    demandCharge: number | null;
+    template: { id: string; label: string; score: number };
+    evidence: Record<string, FieldEvidence>;
+    rawText: string;
   };
   framework: {
     residual: {
       cost: number | null;
       usage: number | null;
     };
+    baseline: {
+      kind: string;
+      sampleSize: number;
+    };
   };
+  extraction: ExtractionReadout;
+  statementId: string;
+  services: ServiceResult[];
   quota: QuotaResult;
   insights: ParseInsight[];
   persistedBillId: string | null;
   persistenceError: string | null;
+  duplicates: DuplicateBillRow[];
+  duplicateAction: DuplicateAction | null;
+  replacedBills: number;
 }
 
 interface UploadResponse {
   bucket: string;
-  filePath: string;
-  storageRef: string;
+  filePath: string | null;
+  storageRef: string | null;
   signedUrl: string | null;
   fileName: string;
+  fileHash: string;
+  skipped?: boolean;
+  duplicates: DuplicateBillRow[];
+}
+
+interface DuplicateErrorPayload {
+  error?: string;
+  message?: string;
+  duplicates?: DuplicateBillRow[];
 }
 
 function asCurrency(value: number | null, currency = "USD"): string {
@@ -77,6 +224,34 @@ function asCurrency(value: number | null, currency = "USD"): string {
   }).format(value);
 }
 
+// Overlapping spans keep whichever starts first; the later one is dropped
+// rather than nested so the highlighted text stays readable.
+function buildHighlightSegments(
+  rawText: string,
+  marks: Array<{ label: string; evidence: FieldEvidence }>,
+): HighlightSegment[] {
+  const spans = marks
+    .flatMap((mark) => (mark.evidence.span ? [{ label: mark.label, ...mark.evidence.span }] : []))
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const segments: HighlightSegment[] = [];
+  let cursor = 0;
+  for (const span of spans) {
+    if (span.start < cursor || span.end > rawText.length) {
+      continue;
+    }
+    if (span.start > cursor) {
+      segments.push({ text: rawText.slice(cursor, span.start), label: null });
+    }
+    segments.push({ text: rawText.slice(span.start, span.end), label: span.label });
+    cursor = span.end;
+  }
+  if (cursor < rawText.length) {
+    segments.push({ text: rawText.slice(cursor), label: null });
+  }
+  return segments;
+}
+
 interface BillParserConsoleProps {
   authToken?: string | null;
   initialPropertyId?: string;
@@ -92,7 +267,8 @@ export function BillParserConsole({
 }: BillParserConsoleProps) {
   const [propertyId, setPropertyId] = useState(initialPropertyId);
   const [provider, setProvider] = useState("");
-  const [currency, setCurrency] = useState("USD");
+  const [currency, setCurrency] = useState("");
+  const [locale, setLocale] = useState("");
   const [rawText, setRawText] = useState(SAMPLE_RAW_TEXT);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [uploadResult, setUploadResult] = useState<UploadResponse | null>(null);
@@ -103,6 +279,13 @@ export function BillParserConsole({
   const [reportNote, setReportNote] = useState("");
   const [reportFeedback, setReportFeedback] = useState<string | null>(null);
   const [reportLoading, setReportLoading] = useState(false);
+  const [correctionField, setCorrectionField] = useState<CorrectionField>("totalCost");
+  const [correctionValue, setCorrectionValue] = useState("");
+  const [correctionFeedback, setCorrectionFeedback] = useState<string | null>(null);
+  const [correctionLoading, setCorrectionLoading] = useState(false);
+  const [providerAccuracy, setProviderAccuracy] = useState<ProviderAccuracyRow | null>(null);
+  const [duplicatePrompt, setDuplicatePrompt] = useState<DuplicatePrompt | null>(null);
+  const [duplicateAction, setDuplicateAction] = useState<DuplicateAction | null>(null);
 
   useEffect(() => {
     setPropertyId(initialPropertyId);
@@ -115,6 +298,22 @@ export function BillParserConsole({
     return { Authorization: `Bearer ${authToken}` };
   }, [authToken]);
 
+  const highlightSegments = useMemo(() => {
+    if (!parseResult) {
+      return [];
+    }
+    const marks = [
+      ...Object.entries(parseResult.bill.evidence).map(([field, evidence]) => ({
+        label: `${field} (${evidence.pattern})`,
+        evidence,
+      })),
+      ...parseResult.bill.lineItems.flatMap((item) =>
+        item.evidence ? [{ label: `line item: ${item.itemName}`, evidence: item.evidence }] : [],
+      ),
+    ];
+    return buildHighlightSegments(parseResult.bill.rawText, marks);
+  }, [parseResult]);
+
   const quotaText = useMemo(() => {
     if (!parseResult?.quota.enforced) {
       return "Quota not enforced in this environment.";
@@ -127,7 +326,7 @@ export function BillParserConsole({
     }/${parseResult.quota.limit} | Remaining: ${parseResult.quota.remaining ?? 0}`;
   }, [parseResult]);
 
-  const handleUploadOnly = async () => {
+  const handleUploadOnly = async (onDuplicate?: DuplicateAction) => {
     if (!selectedFile) {
       setErrorMessage("Pick a file first to test /api/bills/upload.");
       return;
@@ -138,6 +337,7 @@ export function BillParserConsole({
     }
 
     setErrorMessage(null);
+    setDuplicatePrompt(null);
     setLoadingUpload(true);
 
     try {
@@ -146,17 +346,25 @@ export function BillParserConsole({
       if (propertyId.trim()) {
         formData.append("propertyId", propertyId.trim());
       }
+      if (onDuplicate) {
+        formData.append("onDuplicate", onDuplicate);
+      }
 
       const response = await fetch("/api/bills/upload", {
         method: "POST",
         headers: authHeaders,
         body: formData,
       });
-      const payload = (await response.json()) as UploadResponse & {
-        error?: string;
-        message?: string;
-      };
+      const payload = (await response.json()) as UploadResponse & DuplicateErrorPayload;
 
+      if (response.status === 409 && payload.error === "duplicate_bill") {
+        setDuplicatePrompt({
+          source: "upload",
+          message: payload.message ?? "This file was already uploaded.",
+          duplicates: payload.duplicates ?? [],
+        });
+        return;
+      }
       if (!response.ok) {
         throw new Error(payload.message ?? payload.error ?? "Upload failed.");
       }
@@ -215,11 +423,102 @@ export function BillParserConsole({
     }
   };
 
-  const handleParse = async (event: FormEvent<HTMLFormElement>) => {
+  const handleCorrection = async () => {
+    const billId = parseResult?.persistedBillId;
+    if (!billId) return;
+    if (!authToken) {
+      setCorrectionFeedback("Sign in to correct saved bills.");
+      return;
+    }
+
+    const definition = CORRECTION_FIELDS.find((row) => row.field === correctionField);
+    const trimmed = correctionValue.trim();
+    const value = !trimmed ? null : definition?.numeric ? Number(trimmed) : trimmed;
+    if (typeof value === "number" && !Number.isFinite(value)) {
+      setCorrectionFeedback("Enter a number for this field.");
+      return;
+    }
+
+    setCorrectionLoading(true);
+    setCorrectionFeedback(null);
+
+    try {
+      const response = await fetch(`/api/bills/${billId}/corrections`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(authHeaders ?? {}),
+        },
+        body: JSON.stringify({ corrections: [{ field: correctionField, value }] }),
+      });
+      const payload = (await response.json()) as {
+        corrections?: Array<{ field: string; label: string | null }>;
+        error?: string;
+        message?: string;
+      };
+      if (!response.ok) {
+        throw new Error(payload.message ?? payload.error ?? "Correction failed.");
+      }
+
+      const saved = payload.corrections?.[0];
+      setCorrectionFeedback(
+        !saved
+          ? "Value already matches the saved bill."
+          : saved.label
+            ? `Saved. Future bills from this provider will also look for "${saved.label}".`
+            : "Saved.",
+      );
+      setCorrectionValue("");
+
+      const accuracyResponse = await fetch("/api/analytics/provider-accuracy", {
+        headers: authHeaders,
+      });
+      if (accuracyResponse.ok) {
+        const accuracyPayload = (await accuracyResponse.json()) as {
+          providers: ProviderAccuracyRow[];
+        };
+        const providerName = (
+          correctionField === "provider" && typeof value === "string"
+            ? value
+            : (parseResult.bill.provider ?? "")
+        ).toLowerCase();
+        setProviderAccuracy(
+          accuracyPayload.providers.find(
+            (row) => row.provider.toLowerCase() === providerName,
+          ) ?? null,
+        );
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Correction failed.";
+      setCorrectionFeedback(message);
+    } finally {
+      setCorrectionLoading(false);
+    }
+  };
+
+  const handleParse = (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
+    void runParse(duplicateAction ?? undefined);
+  };
+
+  const resolveDuplicate = (action: DuplicateAction) => {
+    const source = duplicatePrompt?.source;
+    setDuplicateAction(action);
+    setDuplicatePrompt(null);
+    if (source === "upload") {
+      void handleUploadOnly(action);
+    } else {
+      void runParse(action);
+    }
+  };
+
+  const runParse = async (onDuplicate?: DuplicateAction) => {
     setErrorMessage(null);
+    setDuplicatePrompt(null);
     setParseResult(null);
     setReportFeedback(null);
+    setCorrectionFeedback(null);
+    setProviderAccuracy(null);
 
     const hasRawText = rawText.trim().length >= 20;
     const hasFile = Boolean(selectedFile);
@@ -248,12 +547,21 @@ export function BillParserConsole({
       if (provider.trim()) {
         formData.append("provider", provider.trim());
       }
+      if (locale.trim()) {
+        formData.append("locale", locale.trim());
+      }
       if (currency.trim()) {
         formData.append("currency", currency.trim().toUpperCase());
       }
       if (uploadResult?.storageRef) {
         formData.append("fileUrl", uploadResult.storageRef);
       }
+      if (uploadResult && !hasFile) {
+        formData.append("fileHash", uploadResult.fileHash);
+      }
+      if (onDuplicate) {
+        formData.append("onDuplicate", onDuplicate);
+      }
 
       const response = await fetch("/api/bills/parse", {
         method: "POST",
@@ -261,12 +569,19 @@ export function BillParserConsole({
         body: formData,
       });
 
-      const payload = (await response.json()) as ParseResponse & {
-        error?: string;
-        message?: string;
-        quota?: QuotaResult;
-      };
+      const payload = (await response.json()) as ParseResponse &
+        DuplicateErrorPayload & {
+          quota?: QuotaResult;
+        };
 
+      if (response.status === 409 && payload.error === "duplicate_bill") {
+        setDuplicatePrompt({
+          source: "parse",
+          message: payload.message ?? "This bill looks like one already stored.",
+          duplicates: payload.duplicates ?? [],
+        });
+        return;
+      }
       if (!response.ok) {
         if (response.status === 402) {
           const limit = payload.quota?.limit ?? 2;
@@ -301,7 +616,7 @@ export function BillParserConsole({
           </p>
         </div>
 
-        <div className="grid gap-3 md:grid-cols-3">
+        <div className="grid gap-3 md:grid-cols-4">
           <label className="space-y-1 text-sm">
             <span className="font-medium">Property ID (for quota + persistence)</span>
             <input
@@ -328,7 +643,17 @@ export function BillParserConsole({
               value={currency}
               onChange={(event) => setCurrency(event.target.value)}
               className="w-full rounded-lg border border-zinc-300 px-3 py-2"
-              placeholder="USD"
+              placeholder="Detect from bill"
+            />
+          </label>
+
+          <label className="space-y-1 text-sm">
+            <span className="font-medium">Locale</span>
+            <input
+              value={locale}
+              onChange={(event) => setLocale(event.target.value)}
+              className="w-full rounded-lg border border-zinc-300 px-3 py-2"
+              placeholder="Property default (e.g. en-GB)"
             />
           </label>
         </div>
@@ -337,10 +662,11 @@ export function BillParserConsole({
           <span className="font-medium">Bill file</span>
           <input
             type="file"
-            accept=".pdf,.txt,.csv"
-            onChange={(event) =>
-              setSelectedFile(event.target.files?.[0] ?? null)
-            }
+            accept=".pdf,.txt,.csv,.jpg,.jpeg,.png,.heic,.heif,.webp"
+            onChange={(event) => {
+              setSelectedFile(event.target.files?.[0] ?? null);
+              setDuplicateAction(null);
+            }}
             className="w-full rounded-lg border border-zinc-300 px-3 py-2"
           />
         </label>
@@ -366,7 +692,7 @@ export function BillParserConsole({
           <button
             type="button"
             disabled={loadingUpload}
-            onClick={handleUploadOnly}
+            onClick={() => handleUploadOnly()}
             className="rounded-lg border border-zinc-300 px-4 py-2 text-sm font-semibold disabled:opacity-50"
           >
             {loadingUpload ? "Uploading..." : "Upload only"}
@@ -380,11 +706,45 @@ export function BillParserConsole({
         </div>
       )}
 
+      {duplicatePrompt && (
+        <div className="space-y-3 rounded-xl border border-amber-200 bg-amber-50 p-4 text-sm text-amber-900">
+          <p className="font-semibold">{duplicatePrompt.message}</p>
+          <ul className="space-y-1 text-xs">
+            {duplicatePrompt.duplicates.map((duplicate) => (
+              <li key={duplicate.billId}>
+                {duplicate.reason.replace(/_/g, " ")}: {duplicate.provider ?? "Unknown provider"}{" "}
+                {duplicate.serviceType} | {duplicate.periodStart ?? "-"} to{" "}
+                {duplicate.periodEnd ?? "-"} | {asCurrency(duplicate.totalCost)} | saved{" "}
+                {duplicate.createdAt.slice(0, 10)}
+              </li>
+            ))}
+          </ul>
+          <div className="flex flex-wrap gap-2">
+            {DUPLICATE_ACTIONS.map((option) => (
+              <button
+                key={option.action}
+                type="button"
+                onClick={() => resolveDuplicate(option.action)}
+                className="rounded-lg border border-amber-300 bg-white px-3 py-1 text-xs font-semibold"
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {uploadResult && (
         <div className="rounded-2xl border border-black/10 bg-white p-5 shadow-sm">
           <h3 className="mb-2 text-lg font-semibold">Upload result</h3>
           <p className="text-sm text-zinc-700">
-            Stored as <span className="font-mono">{uploadResult.storageRef}</span>
+            {uploadResult.skipped ? (
+              <>Skipped: this file is already stored with {uploadResult.duplicates.length} bill(s).</>
+            ) : (
+              <>
+                Stored as <span className="font-mono">{uploadResult.storageRef}</span>
+              </>
+            )}
           </p>
           {uploadResult.signedUrl && (
             <a
@@ -411,6 +771,9 @@ export function BillParserConsole({
             <span className="rounded-full bg-zinc-100 px-3 py-1 text-xs font-semibold">
               Manual review: {parseResult.requiresManualReview ? "yes" : "no"}
             </span>
+            <span className="rounded-full bg-zinc-100 px-3 py-1 text-xs font-semibold">
+              Template: {parseResult.bill.template.label}
+            </span>
             <span className="rounded-full bg-zinc-100 px-3 py-1 text-xs font-semibold">
               eventId: {parseResult.eventId}
             </span>
@@ -418,6 +781,38 @@ export function BillParserConsole({
 
           <p className="text-sm text-zinc-700">{quotaText}</p>
 
+          {parseResult.ambiguousDates.length > 0 && (
+            <div className="rounded-xl border border-amber-200 bg-amber-50 p-3 text-xs text-amber-900">
+              <p className="font-semibold">
+                Ambiguous dates read with {parseResult.bill.locale} — set the property locale to
+                confirm:
+              </p>
+              {parseResult.ambiguousDates.map((date) => (
+                <p key={date.field}>
+                  {date.field}: &quot;{date.raw}&quot; read as {date.chosen} (could be{" "}
+                  {date.alternative})
+                </p>
+              ))}
+            </div>
+          )}
+
+          {parseResult.extraction.ocr && (
+            <div className="rounded-xl border border-amber-200 bg-amber-50 p-3 text-xs text-amber-900">
+              <p className="font-semibold">
+                OCR used ({parseResult.extraction.ocr.engine}) | avg confidence{" "}
+                {(parseResult.extraction.ocr.averageConfidence * 100).toFixed(1)}%
+              </p>
+              <p>
+                {parseResult.extraction.ocr.pages
+                  .map(
+                    (page) =>
+                      `p${page.pageNumber}: ${(page.confidence * 100).toFixed(1)}%`,
+                  )
+                  .join(" | ")}
+              </p>
+            </div>
+          )}
+
           <div className="grid gap-3 md:grid-cols-3">
             <div className="rounded-xl border border-zinc-200 p-3">
               <p className="text-xs uppercase text-zinc-500">Provider</p>
@@ -434,7 +829,173 @@ export function BillParserConsole({
               <p className="font-semibold">
                 {parseResult.bill.usageValue ?? "-"} {parseResult.bill.usageUnit ?? ""}
               </p>
+              {parseResult.services[0] && (
+                <p className="text-xs text-zinc-600">
+                  {parseResult.services[0].units.costPerUnit ?? "-"}/
+                  {parseResult.bill.usageUnit ?? "unit"} |{" "}
+                  {asCurrency(parseResult.services[0].units.costPerDay, parseResult.bill.currency)}
+                  /day
+                </p>
+              )}
+            </div>
+          </div>
+
+          {parseResult.bill.demandKw !== null && (
+            <div className="grid gap-3 md:grid-cols-3">
+              <div className="rounded-xl border border-zinc-200 p-3">
+                <p className="text-xs uppercase text-zinc-500">Billed demand</p>
+                <p className="font-semibold">{parseResult.bill.demandKw} kW</p>
+              </div>
+              <div className="rounded-xl border border-zinc-200 p-3">
+                <p className="text-xs uppercase text-zinc-500">Demand basis</p>
+                <p className="font-semibold">{parseResult.bill.demandBasis ?? "-"}</p>
+              </div>
+              <div className="rounded-xl border border-zinc-200 p-3">
+                <p className="text-xs uppercase text-zinc-500">Demand charge</p>
+                <p className="font-semibold">
+                  {asCurrency(parseResult.bill.demandCharge, parseResult.bill.currency)}
+                </p>
+              </div>
+            </div>
+          )}
+
+          {parseResult.services.length > 1 && (
+            <div>
+              <h4 className="mb-2 text-sm font-semibold">
+                Services on this statement ({parseResult.services.length})
+              </h4>
+              <div className="grid gap-3 md:grid-cols-3">
+                {parseResult.services.map((service) => (
+                  <div
+                    key={service.serviceType}
+                    className="rounded-xl border border-zinc-200 p-3 text-sm"
+                  >
+                    <p className="text-xs uppercase text-zinc-500">{service.serviceType}</p>
+                    <p className="font-semibold">
+                      {asCurrency(service.totalCost, parseResult.bill.currency)}
+                    </p>
+                    <p className="text-xs text-zinc-600">
+                      {service.usageValue ?? "-"} {service.usageUnit ?? ""} | confidence{" "}
+                      {(service.parseConfidence * 100).toFixed(1)}% | {service.decision}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {parseResult.bill.lineItems.length > 0 && (
+            <div>
+              <h4 className="mb-2 text-sm font-semibold">Line items</h4>
+              <table className="w-full text-left text-xs">
+                <thead className="text-zinc-500">
+                  <tr>
+                    <th className="py-1">Charge</th>
+                    <th className="py-1">Category</th>
+                    <th className="py-1">Quantity</th>
+                    <th className="py-1">Rate</th>
+                    <th className="py-1">Amount</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {parseResult.bill.lineItems.map((item, index) => (
+                    <tr key={`${item.itemName}-${index}`} className="border-t border-zinc-100">
+                      <td className="py-1">{item.itemName}</td>
+                      <td className="py-1">{item.category.replace(/_/g, " ")}</td>
+                      <td className="py-1">
+                        {item.quantity ?? "-"} {item.unit ?? ""}
+                      </td>
+                      <td className="py-1">{item.rate ?? "-"}</td>
+                      <td className="py-1">{asCurrency(item.amount, parseResult.bill.currency)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p
+                className={`mt-2 text-xs ${
+                  parseResult.bill.lineItemReconciliation.reconciled
+                    ? "text-zinc-600"
+                    : "text-amber-700"
+                }`}
+              >
+                Items total{" "}
+                {asCurrency(
+                  parseResult.bill.lineItemReconciliation.itemsTotal,
+                  parseResult.bill.currency,
+                )}
+                {parseResult.bill.lineItemReconciliation.reconciled
+                  ? " - reconciles with the bill total."
+                  : ` - unexplained remainder ${asCurrency(
+                      parseResult.bill.lineItemReconciliation.remainder,
+                      parseResult.bill.currency,
+                    )}.`}
+              </p>
+            </div>
+          )}
+
+          {parseResult.bill.usageComponents.length > 0 && (
+            <div>
+              <h4 className="mb-2 text-sm font-semibold">Usage components</h4>
+              <table className="w-full text-left text-xs">
+                <thead className="text-zinc-500">
+                  <tr>
+                    <th className="py-1">Component</th>
+                    <th className="py-1">Block</th>
+                    <th className="py-1">Usage</th>
+                    <th className="py-1">Rate</th>
+                    <th className="py-1">Amount</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {parseResult.bill.usageComponents.map((component, index) => (
+                    <tr
+                      key={`${component.label}-${index}`}
+                      className="border-t border-zinc-100"
+                    >
+                      <td className="py-1">{component.label.replace(/_/g, " ")}</td>
+                      <td className="py-1">
+                        {component.kind === "tier"
+                          ? `${component.blockStart ?? "?"}-${component.blockEnd ?? "+"}`
+                          : "-"}
+                      </td>
+                      <td className="py-1">
+                        {component.quantity ?? "-"} {component.unit ?? ""}
+                      </td>
+                      <td className="py-1">{component.rate ?? "-"}</td>
+                      <td className="py-1">
+                        {asCurrency(component.amount, parseResult.bill.currency)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div>
+            <h4 className="mb-2 text-sm font-semibold">Field evidence</h4>
+            <div className="mb-2 flex flex-wrap gap-2">
+              {Object.entries(parseResult.bill.evidence).map(([field, evidence]) => (
+                <span
+                  key={field}
+                  title={`${evidence.source}: ${evidence.pattern}`}
+                  className="rounded-full bg-zinc-100 px-3 py-1 text-xs"
+                >
+                  {field}: {(evidence.confidence * 100).toFixed(0)}%
+                </span>
+              ))}
             </div>
+            <pre className="max-h-64 overflow-auto whitespace-pre-wrap rounded-lg border border-zinc-200 bg-zinc-50 p-3 text-xs">
+              {highlightSegments.map((segment, index) =>
+                segment.label ? (
+                  <mark key={index} title={segment.label} className="rounded bg-amber-200 px-0.5">
+                    {segment.text}
+                  </mark>
+                ) : (
+                  <span key={index}>{segment.text}</span>
+                ),
+              )}
+            </pre>
           </div>
 
           <div>
@@ -457,14 +1018,67 @@ export function BillParserConsole({
           <p className="text-xs text-zinc-600">
             Residual(cost)={parseResult.framework.residual.cost ?? "-"} | Residual(usage)=
             {parseResult.framework.residual.usage ?? "-"} | prior bills used=
-            {parseResult.priorBillsUsed}
+            {parseResult.priorBillsUsed} | baseline={parseResult.framework.baseline.kind} (n=
+            {parseResult.framework.baseline.sampleSize})
           </p>
           <p className="text-xs text-zinc-600">
             persistedBillId={parseResult.persistedBillId ?? "none"}{" "}
             {parseResult.persistenceError
               ? `(persistence error: ${parseResult.persistenceError})`
               : ""}
+            {parseResult.duplicateAction
+              ? ` | duplicates: ${parseResult.duplicateAction.replace("_", " ")} (${
+                  parseResult.duplicates.length
+                } matched, ${parseResult.replacedBills} replaced)`
+              : ""}
           </p>
+          {parseResult.persistedBillId && (
+            <div className="mt-3 space-y-2 rounded-lg border border-zinc-200 p-3">
+              <div>
+                <p className="text-sm font-semibold">Correct a field</p>
+                <p className="text-xs text-zinc-600">
+                  Fixes the saved bill and teaches the parser for this provider.
+                </p>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  value={correctionField}
+                  onChange={(event) => setCorrectionField(event.target.value as CorrectionField)}
+                  className="rounded-lg border border-zinc-300 px-3 py-2 text-sm"
+                >
+                  {CORRECTION_FIELDS.map((row) => (
+                    <option key={row.field} value={row.field}>
+                      {row.label}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  value={correctionValue}
+                  onChange={(event) => setCorrectionValue(event.target.value)}
+                  placeholder="Correct value (blank clears it)"
+                  className="flex-1 rounded-lg border border-zinc-300 px-3 py-2 text-sm"
+                />
+                <button
+                  type="button"
+                  className="rounded-md border border-zinc-300 px-3 py-2 text-xs font-semibold disabled:opacity-50"
+                  onClick={handleCorrection}
+                  disabled={correctionLoading}
+                >
+                  {correctionLoading ? "Saving..." : "Save correction"}
+                </button>
+              </div>
+              {correctionFeedback && (
+                <p className="text-xs text-zinc-600">{correctionFeedback}</p>
+              )}
+              {providerAccuracy && (
+                <p className="text-xs text-zinc-600">
+                  {providerAccuracy.provider}: {(providerAccuracy.accuracy * 100).toFixed(1)}% of{" "}
+                  {providerAccuracy.bills} bills parsed without corrections | field accuracy{" "}
+                  {(providerAccuracy.fieldAccuracy * 100).toFixed(1)}%
+                </p>
+              )}
+            </div>
+          )}
           <div className="mt-3 space-y-2 rounded-lg border border-zinc-200 p-3">
             <div className="flex items-center justify-between gap-3">
               <div>
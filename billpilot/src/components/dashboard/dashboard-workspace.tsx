@@ -19,6 +19,7 @@ interface PropertySummary {
   name: string;
   address: string | null;
   timezone: string;
+  locale: string | null;
   created_at: string;
   analysesThisMonth: number;
 }
@@ -47,6 +48,8 @@ interface BillHistoryRow {
   id: string;
   propertyId: string;
   propertyName: string;
+  statementId: string | null;
+  serviceType: string;
   provider: string | null;
   periodStart: string | null;
   periodEnd: string | null;
@@ -55,6 +58,9 @@ interface BillHistoryRow {
   usageUnit: string | null;
   currency: string;
   confidence: number | null;
+  duplicateOf: string | null;
+  source: "parsed" | "green_button" | "csv_import";
+  parserVersion: string | null;
   createdAt: string;
   insightTotal: number;
   insightHigh: number;
@@ -74,6 +80,74 @@ interface BillHistoryResponse {
   page: BillHistoryPage;
 }
 
+interface BillVersionRow {
+  id: string;
+  parserVersion: string | null;
+  status: "proposed" | "applied" | "previous" | "rejected";
+  changes: Array<{
+    field: string;
+    before: string | number | null;
+    after: string | number | null;
+  }>;
+  createdAt: string;
+}
+
+interface BillVersionsResponse {
+  billId: string;
+  parserVersion: string | null;
+  currentParserVersion: string;
+  versions: BillVersionRow[];
+}
+
+interface ParseJobRow {
+  id: string;
+  kind: "parse" | "batch";
+  status: "queued" | "running" | "succeeded" | "failed";
+  files: Array<{ name: string; type: string; size: number }>;
+  progress: {
+    stage: string;
+    completed: number | null;
+    total: number | null;
+  };
+  errorCode: string | null;
+  error: string | null;
+  attempts: number;
+  maxAttempts: number;
+  createdAt: string;
+  finishedAt: string | null;
+}
+
+interface BillAssignmentRow {
+  id: string;
+  candidates: Array<{ propertyId: string; name: string; score: number; reasons: string[] }>;
+  summary: {
+    provider: string | null;
+    periodStart: string | null;
+    periodEnd: string | null;
+    totalCost: number | null;
+    currency: string;
+    accountLast4: string | null;
+  };
+  createdAt: string;
+}
+
+interface PayableRow {
+  billId: string;
+  propertyName: string;
+  provider: string | null;
+  dueDate: string;
+  daysUntilDue: number;
+  balance: number | null;
+  currency: string;
+  paymentStatus: "unpaid" | "partial" | "paid";
+  lateFee: number | null;
+}
+
+interface PayablesResponse {
+  overdue: PayableRow[];
+  upcoming: PayableRow[];
+}
+
 interface StripeStatusResponse {
   diagnostics: {
     stripeSecretConfigured: boolean;
@@ -132,6 +206,16 @@ interface MonthlyReportStatusResponse {
   logs: MonthlyReportLog[];
 }
 
+type RawTextMode = "redacted" | "encrypted" | "discard";
+
+interface BillPrivacyResponse {
+  setting: {
+    rawTextMode: RawTextMode;
+    updatedAt: string | null;
+  };
+  encryptionAvailable: boolean;
+}
+
 interface HealthStatusResponse {
   status: "ok" | "degraded";
   timestamp: string;
@@ -288,6 +372,7 @@ export function DashboardWorkspace() {
   const [propertyName, setPropertyName] = useState("");
   const [propertyAddress, setPropertyAddress] = useState("");
   const [propertyTimezone, setPropertyTimezone] = useState("UTC");
+  const [propertyLocale, setPropertyLocale] = useState("");
   const [propertiesLoading, setPropertiesLoading] = useState(false);
 
   const [subscription, setSubscription] = useState<PropertiesApiResponse["subscription"] | null>(
@@ -310,6 +395,9 @@ export function DashboardWorkspace() {
   const [reportPropertyId, setReportPropertyId] = useState("");
   const [reportProviderFilter, setReportProviderFilter] = useState("");
   const [reportMonth, setReportMonth] = useState("");
+  const [rawTextMode, setRawTextMode] = useState<RawTextMode>("redacted");
+  const [encryptionAvailable, setEncryptionAvailable] = useState(false);
+  const [privacySaving, setPrivacySaving] = useState(false);
   const [historyRows, setHistoryRows] = useState<BillHistoryRow[]>([]);
   const [historyPage, setHistoryPage] = useState<BillHistoryPage>({
     limit: 25,
@@ -318,6 +406,15 @@ export function DashboardWorkspace() {
     hasMore: false,
   });
   const [historyLoading, setHistoryLoading] = useState(false);
+  const [parseJobs, setParseJobs] = useState<ParseJobRow[]>([]);
+  const [parseJobsLoading, setParseJobsLoading] = useState(false);
+  const [retryingJobId, setRetryingJobId] = useState<string | null>(null);
+  const [billAssignments, setBillAssignments] = useState<BillAssignmentRow[]>([]);
+  const [resolvingAssignmentId, setResolvingAssignmentId] = useState<string | null>(null);
+  const [payables, setPayables] = useState<PayableRow[]>([]);
+  const [payingBillId, setPayingBillId] = useState<string | null>(null);
+  const [billVersions, setBillVersions] = useState<BillVersionsResponse | null>(null);
+  const [versionsLoading, setVersionsLoading] = useState(false);
   const [seedDemoLoading, setSeedDemoLoading] = useState(false);
   const [workspaceRefreshLoading, setWorkspaceRefreshLoading] = useState(false);
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
@@ -517,6 +614,35 @@ export function DashboardWorkspace() {
     }
   }, [authToken]);
 
+  const loadPrivacySetting = useCallback(async () => {
+    if (!authToken) {
+      return;
+    }
+
+    try {
+      const response = await fetch("/api/bills/privacy", {
+        headers: {
+          Authorization: `Bearer ${authToken}`,
+        },
+      });
+      const payload = (await response.json()) as
+        | BillPrivacyResponse
+        | { error?: string; message?: string };
+
+      if (!response.ok) {
+        throw new Error(readApiError(payload, "Failed to load bill text settings."));
+      }
+
+      const data = payload as BillPrivacyResponse;
+      setRawTextMode(data.setting.rawTextMode);
+      setEncryptionAvailable(data.encryptionAvailable);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Failed to load bill text settings.";
+      setStatusMessage(message);
+    }
+  }, [authToken]);
+
   const loadHealthStatus = useCallback(async () => {
     setHealthLoading(true);
     try {
@@ -616,6 +742,341 @@ export function DashboardWorkspace() {
     }
   }, [authToken, historyPage.limit, historyPage.offset, selectedPropertyId]);
 
+  const loadParseJobs = useCallback(async () => {
+    if (!authToken || !selectedPropertyId) {
+      setParseJobs([]);
+      return;
+    }
+
+    setParseJobsLoading(true);
+    try {
+      const response = await fetch(
+        `/api/bills/jobs?propertyId=${encodeURIComponent(selectedPropertyId)}&limit=10`,
+        {
+          headers: {
+            Authorization: `Bearer ${authToken}`,
+          },
+        },
+      );
+      const payload = (await response.json()) as
+        | { jobs: ParseJobRow[] }
+        | { error?: string; message?: string };
+
+      if (!response.ok) {
+        throw new Error(readApiError(payload, "Failed to load parse jobs."));
+      }
+
+      setParseJobs((payload as { jobs: ParseJobRow[] }).jobs);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Failed to load parse jobs.";
+      setStatusMessage(message);
+    } finally {
+      setParseJobsLoading(false);
+    }
+  }, [authToken, selectedPropertyId]);
+
+  const retryParseJob = async (jobId: string, onDuplicate?: "keep_both") => {
+    if (!authToken) {
+      return;
+    }
+
+    setRetryingJobId(jobId);
+    try {
+      const response = await fetch(`/api/bills/jobs/${jobId}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${authToken}`,
+        },
+        body: JSON.stringify(onDuplicate ? { onDuplicate } : {}),
+      });
+      const payload = (await response.json()) as { error?: string; message?: string };
+
+      if (!response.ok) {
+        throw new Error(readApiError(payload, "Failed to retry parse job."));
+      }
+
+      setStatusMessage("Parse job queued again.");
+      await loadParseJobs();
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Failed to retry parse job.";
+      setStatusMessage(message);
+    } finally {
+      setRetryingJobId(null);
+    }
+  };
+
+  const loadBillAssignments = useCallback(async () => {
+    if (!authToken) {
+      setBillAssignments([]);
+      return;
+    }
+
+    try {
+      const response = await fetch("/api/bills/assignments?status=pending", {
+        headers: {
+          Authorization: `Bearer ${authToken}`,
+        },
+      });
+      const payload = (await response.json()) as
+        | { assignments: BillAssignmentRow[] }
+        | { error?: string; message?: string };
+
+      if (!response.ok) {
+        throw new Error(readApiError(payload, "Failed to load bills to confirm."));
+      }
+
+      setBillAssignments((payload as { assignments: BillAssignmentRow[] }).assignments);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Failed to load bills to confirm.";
+      setStatusMessage(message);
+    }
+  }, [authToken]);
+
+  const resolveBillAssignment = async (assignmentId: string, propertyId: string | null) => {
+    if (!authToken) {
+      return;
+    }
+
+    setResolvingAssignmentId(assignmentId);
+    try {
+      const response = await fetch(`/api/bills/assignments/${assignmentId}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${authToken}`,
+        },
+        body: JSON.stringify(
+          propertyId ? { action: "confirm", propertyId } : { action: "dismiss" },
+        ),
+      });
+      const payload = (await response.json()) as { error?: string; message?: string };
+
+      if (!response.ok) {
+        throw new Error(readApiError(payload, "Failed to file the bill."));
+      }
+
+      setStatusMessage(propertyId ? "Bill filed under the property." : "Bill dismissed.");
+      await Promise.all([loadBillAssignments(), loadBillHistory()]);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to file the bill.";
+      setStatusMessage(message);
+    } finally {
+      setResolvingAssignmentId(null);
+    }
+  };
+
+  const loadPayables = useCallback(async () => {
+    if (!authToken) {
+      setPayables([]);
+      return;
+    }
+
+    try {
+      const response = await fetch("/api/bills/payables?days=30", {
+        headers: {
+          Authorization: `Bearer ${authToken}`,
+        },
+      });
+      const payload = (await response.json()) as
+        | PayablesResponse
+        | { error?: string; message?: string };
+
+      if (!response.ok) {
+        throw new Error(readApiError(payload, "Failed to load payables."));
+      }
+
+      const { overdue, upcoming } = payload as PayablesResponse;
+      setPayables([...overdue, ...upcoming]);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to load payables.";
+      setStatusMessage(message);
+    }
+  }, [authToken]);
+
+  const markBillPaid = async (billId: string) => {
+    if (!authToken) {
+      return;
+    }
+
+    setPayingBillId(billId);
+    try {
+      const response = await fetch(`/api/bills/${billId}/payments`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${authToken}`,
+        },
+        body: JSON.stringify({}),
+      });
+      const payload = (await response.json()) as { error?: string; message?: string };
+
+      if (!response.ok) {
+        throw new Error(readApiError(payload, "Failed to record the payment."));
+      }
+
+      setStatusMessage("Payment recorded.");
+      await loadPayables();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to record the payment.";
+      setStatusMessage(message);
+    } finally {
+      setPayingBillId(null);
+    }
+  };
+
+  const loadBillVersions = async (billId: string) => {
+    if (!authToken) {
+      return;
+    }
+
+    setVersionsLoading(true);
+    try {
+      const response = await fetch(`/api/bills/${billId}/versions`, {
+        headers: {
+          Authorization: `Bearer ${authToken}`,
+        },
+      });
+      const payload = (await response.json()) as
+        | BillVersionsResponse
+        | { error?: string; message?: string };
+
+      if (!response.ok) {
+        throw new Error(readApiError(payload, "Failed to load bill versions."));
+      }
+
+      setBillVersions(payload as BillVersionsResponse);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Failed to load bill versions.";
+      setStatusMessage(message);
+    } finally {
+      setVersionsLoading(false);
+    }
+  };
+
+  const reparseBill = async (billId: string) => {
+    if (!authToken) {
+      return;
+    }
+
+    setVersionsLoading(true);
+    try {
+      const response = await fetch(`/api/bills/${billId}/reparse`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${authToken}`,
+        },
+        body: JSON.stringify({}),
+      });
+      const payload = (await response.json()) as {
+        outcome?: string;
+        changes?: unknown[];
+        error?: string;
+        message?: string;
+      };
+
+      if (!response.ok) {
+        throw new Error(readApiError(payload, "Re-parse failed."));
+      }
+
+      setStatusMessage(
+        payload.outcome === "unchanged"
+          ? "Re-parse found no changes."
+          : `Re-parse changed ${payload.changes?.length ?? 0} field(s). Review the proposal below.`,
+      );
+      await Promise.all([loadBillVersions(billId), loadBillHistory()]);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Re-parse failed.";
+      setStatusMessage(message);
+      setVersionsLoading(false);
+    }
+  };
+
+  const resolveBillVersion = async (
+    billId: string,
+    versionId: string,
+    action: "accept" | "reject" | "revert",
+  ) => {
+    if (!authToken) {
+      return;
+    }
+
+    setVersionsLoading(true);
+    try {
+      const response = await fetch(`/api/bills/${billId}/versions/${versionId}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${authToken}`,
+        },
+        body: JSON.stringify({ action }),
+      });
+      const payload = (await response.json()) as { error?: string; message?: string };
+
+      if (!response.ok) {
+        throw new Error(readApiError(payload, "Failed to update bill version."));
+      }
+
+      setStatusMessage(
+        action === "accept"
+          ? "Re-parsed fields saved."
+          : action === "reject"
+            ? "Proposal rejected."
+            : "Bill restored to the selected version.",
+      );
+      await Promise.all([loadBillVersions(billId), loadBillHistory(), loadAnalyticsSummary()]);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Failed to update bill version.";
+      setStatusMessage(message);
+      setVersionsLoading(false);
+    }
+  };
+
+  const reparseOutdatedBills = async () => {
+    if (!authToken || !selectedPropertyId) {
+      return;
+    }
+
+    setVersionsLoading(true);
+    try {
+      const response = await fetch("/api/bills/reparse", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${authToken}`,
+        },
+        body: JSON.stringify({ propertyId: selectedPropertyId }),
+      });
+      const payload = (await response.json()) as {
+        counts?: { unchanged: number; proposed: number; failed: number };
+        remaining?: number;
+        error?: string;
+        message?: string;
+      };
+
+      if (!response.ok || !payload.counts) {
+        throw new Error(readApiError(payload, "Bulk re-parse failed."));
+      }
+
+      setStatusMessage(
+        `Re-parse: ${payload.counts.proposed} proposal(s) to review, ${payload.counts.unchanged} unchanged, ${payload.counts.failed} failed` +
+          (payload.remaining ? `, ${payload.remaining} left for another run.` : "."),
+      );
+      await loadBillHistory();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Bulk re-parse failed.";
+      setStatusMessage(message);
+    } finally {
+      setVersionsLoading(false);
+    }
+  };
+
   useEffect(() => {
     void loadProperties();
   }, [loadProperties]);
@@ -628,12 +1089,17 @@ export function DashboardWorkspace() {
     void loadReportStatus();
   }, [loadReportStatus]);
 
+  useEffect(() => {
+    void loadPrivacySetting();
+  }, [loadPrivacySetting]);
+
   useEffect(() => {
     void loadHealthStatus();
   }, [loadHealthStatus]);
 
   useEffect(() => {
     setHistoryPage((current) => ({ ...current, offset: 0 }));
+    setBillVersions(null);
   }, [selectedPropertyId]);
 
   useEffect(() => {
@@ -644,6 +1110,34 @@ export function DashboardWorkspace() {
     void loadBillHistory();
   }, [loadBillHistory]);
 
+  useEffect(() => {
+    void loadParseJobs();
+  }, [loadParseJobs]);
+
+  useEffect(() => {
+    void loadBillAssignments();
+  }, [loadBillAssignments]);
+
+  useEffect(() => {
+    void loadPayables();
+  }, [loadPayables]);
+
+  // Poll while any job is still queued or running.
+  const hasActiveParseJobs = parseJobs.some(
+    (job) => job.status === "queued" || job.status === "running",
+  );
+  useEffect(() => {
+    if (!hasActiveParseJobs) {
+      return;
+    }
+
+    const timer = window.setInterval(() => {
+      void loadParseJobs();
+      void loadBillHistory();
+    }, 5000);
+    return () => window.clearInterval(timer);
+  }, [hasActiveParseJobs, loadBillHistory, loadParseJobs]);
+
   const refreshWorkspace = async () => {
     setWorkspaceRefreshLoading(true);
     setStatusMessage(null);
@@ -653,8 +1147,12 @@ export function DashboardWorkspace() {
         loadProperties(),
         loadStripeStatus(),
         loadReportStatus(),
+        loadPrivacySetting(),
         loadAnalyticsSummary(),
         loadBillHistory(),
+        loadParseJobs(),
+        loadBillAssignments(),
+        loadPayables(),
       ]);
       setStatusMessage("Workspace refreshed.");
     } catch (error) {
@@ -736,6 +1234,7 @@ export function DashboardWorkspace() {
           name: propertyName.trim(),
           address: propertyAddress.trim() || undefined,
           timezone: propertyTimezone.trim() || "UTC",
+          locale: propertyLocale.trim() || undefined,
         }),
       });
       const payload = (await response.json()) as
@@ -831,6 +1330,47 @@ export function DashboardWorkspace() {
     }
   };
 
+  const savePrivacySetting = async (applyToExisting: boolean) => {
+    if (!authToken) {
+      setStatusMessage("Sign in first.");
+      return;
+    }
+
+    setPrivacySaving(true);
+    setStatusMessage(null);
+    try {
+      const response = await fetch("/api/bills/privacy", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${authToken}`,
+        },
+        body: JSON.stringify({ rawTextMode, applyToExisting }),
+      });
+      const payload = (await response.json()) as {
+        updatedBills?: number;
+        error?: string;
+        message?: string;
+      };
+
+      if (!response.ok) {
+        throw new Error(readApiError(payload, "Failed to save bill text settings."));
+      }
+
+      setStatusMessage(
+        applyToExisting
+          ? `Bill text settings saved; ${payload.updatedBills ?? 0} stored bills updated.`
+          : "Bill text settings saved.",
+      );
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Failed to save bill text settings.";
+      setStatusMessage(message);
+    } finally {
+      setPrivacySaving(false);
+    }
+  };
+
   const saveReportSettings = async () => {
     if (!authToken) {
       setStatusMessage("Sign in first.");
@@ -1749,6 +2289,47 @@ export function DashboardWorkspace() {
         </div>
       </section>
 
+      <section className="rounded-2xl border border-black/10 bg-white p-5 shadow-sm">
+        <h2 className="text-xl font-semibold">Stored bill text</h2>
+        <p className="text-sm text-zinc-600">
+          Account numbers, names and addresses are always masked in stored bill text. Choose
+          whether the original is also kept, encrypted, for re-parsing.
+        </p>
+
+        <div className="mt-3 flex flex-wrap items-end gap-2">
+          <label className="space-y-1 text-sm">
+            <span className="font-medium">Keep</span>
+            <select
+              value={rawTextMode}
+              onChange={(event) => setRawTextMode(event.target.value as RawTextMode)}
+              className="w-full rounded-lg border border-zinc-300 px-3 py-2"
+            >
+              <option value="redacted">Redacted text</option>
+              <option value="encrypted" disabled={!encryptionAvailable}>
+                Redacted text + encrypted original
+              </option>
+              <option value="discard">No text</option>
+            </select>
+          </label>
+          <button
+            type="button"
+            disabled={privacySaving}
+            onClick={() => void savePrivacySetting(false)}
+            className="rounded-lg bg-black px-4 py-2 text-sm font-semibold text-white disabled:opacity-50"
+          >
+            {privacySaving ? "Saving..." : "Save"}
+          </button>
+          <button
+            type="button"
+            disabled={privacySaving}
+            onClick={() => void savePrivacySetting(true)}
+            className="rounded-lg border border-zinc-300 px-4 py-2 text-sm font-semibold disabled:opacity-50"
+          >
+            Save and apply to stored bills
+          </button>
+        </div>
+      </section>
+
       {showAdminPanels ? (
       <section className="rounded-2xl border border-black/10 bg-white p-5 shadow-sm">
         <h2 className="text-xl font-semibold">Webhook diagnostics</h2>
@@ -1845,6 +2426,7 @@ export function DashboardWorkspace() {
                   <li>ID: {selectedProperty.id}</li>
                   <li>Address: {selectedProperty.address ?? "-"}</li>
                   <li>Timezone: {selectedProperty.timezone}</li>
+                  <li>Bill locale: {selectedProperty.locale ?? "auto (en-US)"}</li>
                 </ul>
                 <Link
                   href={`/dashboard/property/${selectedProperty.id}`}
@@ -1859,7 +2441,7 @@ export function DashboardWorkspace() {
           </div>
         </div>
 
-        <form onSubmit={handleCreateProperty} className="mt-4 grid gap-3 md:grid-cols-4">
+        <form onSubmit={handleCreateProperty} className="mt-4 grid gap-3 md:grid-cols-5">
           <input
             value={propertyName}
             onChange={(event) => setPropertyName(event.target.value)}
@@ -1879,6 +2461,12 @@ export function DashboardWorkspace() {
             placeholder="Timezone"
             className="rounded-lg border border-zinc-300 px-3 py-2 text-sm"
           />
+          <input
+            value={propertyLocale}
+            onChange={(event) => setPropertyLocale(event.target.value)}
+            placeholder="Bill locale (e.g. en-GB)"
+            className="rounded-lg border border-zinc-300 px-3 py-2 text-sm"
+          />
           <button
             type="submit"
             disabled={propertiesLoading}
@@ -1944,6 +2532,14 @@ export function DashboardWorkspace() {
           >
             {historyLoading ? "Refreshing..." : "Refresh"}
           </button>
+          <button
+            type="button"
+            disabled={versionsLoading || !selectedPropertyId}
+            onClick={() => void reparseOutdatedBills()}
+            className="rounded-lg border border-zinc-300 px-3 py-2 text-sm font-semibold disabled:opacity-50"
+          >
+            Re-parse outdated bills
+          </button>
         </div>
 
         <div className="mt-3 overflow-x-auto">
@@ -1952,23 +2548,25 @@ export function DashboardWorkspace() {
               <tr className="border-b border-zinc-200 text-left">
                 <th className="px-2 py-2 font-semibold">Created</th>
                 <th className="px-2 py-2 font-semibold">Provider</th>
+                <th className="px-2 py-2 font-semibold">Service</th>
                 <th className="px-2 py-2 font-semibold">Period</th>
                 <th className="px-2 py-2 font-semibold">Cost</th>
                 <th className="px-2 py-2 font-semibold">Usage</th>
                 <th className="px-2 py-2 font-semibold">Confidence</th>
                 <th className="px-2 py-2 font-semibold">Insights</th>
+                <th className="px-2 py-2 font-semibold">Parser</th>
               </tr>
             </thead>
             <tbody>
               {!selectedPropertyId ? (
                 <tr>
-                  <td className="px-2 py-3 text-zinc-500" colSpan={7}>
+                  <td className="px-2 py-3 text-zinc-500" colSpan={9}>
                     Select a property to view bill history.
                   </td>
                 </tr>
               ) : historyRows.length === 0 ? (
                 <tr>
-                  <td className="px-2 py-3 text-zinc-500" colSpan={7}>
+                  <td className="px-2 py-3 text-zinc-500" colSpan={9}>
                     No bills stored yet for this property.
                   </td>
                 </tr>
@@ -1976,7 +2574,26 @@ export function DashboardWorkspace() {
                 historyRows.map((row) => (
                   <tr key={row.id} className="border-b border-zinc-100">
                     <td className="px-2 py-2">{formatDate(row.createdAt)}</td>
-                    <td className="px-2 py-2">{row.provider ?? "-"}</td>
+                    <td className="px-2 py-2">
+                      {row.provider ?? "-"}
+                      {row.duplicateOf && (
+                        <span
+                          className="ml-2 rounded-full bg-amber-100 px-2 py-0.5 text-xs text-amber-900"
+                          title={`Copy of bill ${row.duplicateOf}`}
+                        >
+                          duplicate
+                        </span>
+                      )}
+                      {row.source !== "parsed" && (
+                        <span
+                          className="ml-2 rounded-full bg-sky-100 px-2 py-0.5 text-xs text-sky-900"
+                          title={row.source === "green_button" ? "Imported from Green Button data" : "Imported from a bill-history CSV"}
+                        >
+                          imported
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-2 py-2">{row.serviceType}</td>
                     <td className="px-2 py-2">
                       {row.periodStart ?? "-"} to {row.periodEnd ?? "-"}
                     </td>
@@ -1992,12 +2609,324 @@ export function DashboardWorkspace() {
                     <td className="px-2 py-2">
                       {row.insightTotal} / {row.insightHigh} / {row.insightWatch}
                     </td>
+                    <td className="px-2 py-2">
+                      {row.source === "parsed" ? (
+                        <>
+                          {row.parserVersion ?? "legacy"}
+                          <button
+                            type="button"
+                            disabled={versionsLoading}
+                            onClick={() => void reparseBill(row.id)}
+                            className="ml-2 rounded border border-zinc-300 px-2 py-0.5 font-semibold disabled:opacity-50"
+                          >
+                            Re-parse
+                          </button>
+                          <button
+                            type="button"
+                            disabled={versionsLoading}
+                            onClick={() => void loadBillVersions(row.id)}
+                            className="ml-1 rounded border border-zinc-300 px-2 py-0.5 font-semibold disabled:opacity-50"
+                          >
+                            Versions
+                          </button>
+                        </>
+                      ) : (
+                        "-"
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {billVersions && (
+          <div className="mt-4 rounded-lg border border-zinc-200 p-3 text-xs">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="font-semibold">
+                Versions of bill {billVersions.billId.slice(0, 8)} | parser{" "}
+                {billVersions.parserVersion ?? "legacy"} (current{" "}
+                {billVersions.currentParserVersion})
+              </p>
+              <button
+                type="button"
+                onClick={() => setBillVersions(null)}
+                className="rounded border border-zinc-300 px-2 py-0.5 font-semibold"
+              >
+                Close
+              </button>
+            </div>
+            {billVersions.versions.length === 0 ? (
+              <p className="mt-2 text-zinc-500">No versions yet. Re-parse the bill to create one.</p>
+            ) : (
+              billVersions.versions.map((version) => (
+                <div key={version.id} className="mt-3 border-t border-zinc-100 pt-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-semibold">{version.status}</span>
+                    <span>parser {version.parserVersion ?? "legacy"}</span>
+                    <span className="text-zinc-500">{formatDate(version.createdAt)}</span>
+                    {version.status === "proposed" && (
+                      <>
+                        <button
+                          type="button"
+                          disabled={versionsLoading}
+                          onClick={() =>
+                            void resolveBillVersion(billVersions.billId, version.id, "accept")
+                          }
+                          className="rounded border border-zinc-300 px-2 py-0.5 font-semibold disabled:opacity-50"
+                        >
+                          Accept
+                        </button>
+                        <button
+                          type="button"
+                          disabled={versionsLoading}
+                          onClick={() =>
+                            void resolveBillVersion(billVersions.billId, version.id, "reject")
+                          }
+                          className="rounded border border-zinc-300 px-2 py-0.5 font-semibold disabled:opacity-50"
+                        >
+                          Reject
+                        </button>
+                      </>
+                    )}
+                    {(version.status === "previous" || version.status === "applied") &&
+                      version.changes.length > 0 && (
+                        <button
+                          type="button"
+                          disabled={versionsLoading}
+                          onClick={() =>
+                            void resolveBillVersion(billVersions.billId, version.id, "revert")
+                          }
+                          className="rounded border border-zinc-300 px-2 py-0.5 font-semibold disabled:opacity-50"
+                        >
+                          Revert to this
+                        </button>
+                      )}
+                  </div>
+                  {version.changes.length === 0 ? (
+                    <p className="mt-1 text-zinc-500">Same as the bill now.</p>
+                  ) : (
+                    <ul className="mt-1 space-y-0.5">
+                      {version.changes.map((change) => (
+                        <li key={change.field}>
+                          {change.field}: {change.before ?? "-"} → {change.after ?? "-"}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        )}
+
+        <div className="mt-6 flex flex-wrap items-center justify-between gap-2">
+          <h3 className="text-sm font-semibold">Parse jobs</h3>
+          <button
+            type="button"
+            disabled={parseJobsLoading || !selectedPropertyId}
+            onClick={() => void loadParseJobs()}
+            className="rounded-lg border border-zinc-300 px-3 py-2 text-sm font-semibold disabled:opacity-50"
+          >
+            {parseJobsLoading ? "Refreshing..." : "Refresh jobs"}
+          </button>
+        </div>
+
+        <div className="mt-3 overflow-x-auto">
+          <table className="min-w-full border-collapse text-xs">
+            <thead>
+              <tr className="border-b border-zinc-200 text-left">
+                <th className="px-2 py-2 font-semibold">Created</th>
+                <th className="px-2 py-2 font-semibold">Files</th>
+                <th className="px-2 py-2 font-semibold">Status</th>
+                <th className="px-2 py-2 font-semibold">Progress</th>
+                <th className="px-2 py-2 font-semibold">Attempts</th>
+                <th className="px-2 py-2 font-semibold">Error</th>
+                <th className="px-2 py-2 font-semibold" />
+              </tr>
+            </thead>
+            <tbody>
+              {parseJobs.length === 0 ? (
+                <tr>
+                  <td className="px-2 py-3 text-zinc-500" colSpan={7}>
+                    No background parse jobs for this property.
+                  </td>
+                </tr>
+              ) : (
+                parseJobs.map((job) => (
+                  <tr key={job.id} className="border-b border-zinc-100">
+                    <td className="px-2 py-2">{formatDate(job.createdAt)}</td>
+                    <td className="px-2 py-2">
+                      {job.files.length > 0
+                        ? job.files.map((file) => file.name).join(", ")
+                        : "pasted text"}
+                    </td>
+                    <td className="px-2 py-2">{job.status}</td>
+                    <td className="px-2 py-2">
+                      {job.progress.stage}
+                      {job.progress.total !== null &&
+                        ` ${job.progress.completed ?? 0}/${job.progress.total}`}
+                    </td>
+                    <td className="px-2 py-2">
+                      {job.attempts} / {job.maxAttempts}
+                    </td>
+                    <td className="px-2 py-2">{job.error ?? "-"}</td>
+                    <td className="px-2 py-2">
+                      {job.status === "failed" && (
+                        <button
+                          type="button"
+                          disabled={retryingJobId === job.id}
+                          onClick={() =>
+                            void retryParseJob(
+                              job.id,
+                              job.errorCode === "duplicate_bill" ? "keep_both" : undefined,
+                            )
+                          }
+                          className="rounded border border-zinc-300 px-2 py-1 font-semibold disabled:opacity-50"
+                        >
+                          {retryingJobId === job.id
+                            ? "Retrying..."
+                            : job.errorCode === "duplicate_bill"
+                              ? "Keep both"
+                              : "Retry"}
+                        </button>
+                      )}
+                    </td>
                   </tr>
                 ))
               )}
             </tbody>
           </table>
         </div>
+
+        {billAssignments.length > 0 && (
+          <>
+            <h3 className="mt-5 text-sm font-semibold">Bills to confirm</h3>
+            <p className="text-xs text-zinc-600">
+              These bills matched more than one property. Pick where each belongs.
+            </p>
+            <div className="mt-3 overflow-x-auto">
+              <table className="min-w-full border-collapse text-xs">
+                <thead>
+                  <tr className="border-b border-zinc-200 text-left">
+                    <th className="px-2 py-2 font-semibold">Received</th>
+                    <th className="px-2 py-2 font-semibold">Provider</th>
+                    <th className="px-2 py-2 font-semibold">Period</th>
+                    <th className="px-2 py-2 font-semibold">Total</th>
+                    <th className="px-2 py-2 font-semibold">Account</th>
+                    <th className="px-2 py-2 font-semibold" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {billAssignments.map((assignment) => (
+                    <tr key={assignment.id} className="border-b border-zinc-100">
+                      <td className="px-2 py-2">{formatDate(assignment.createdAt)}</td>
+                      <td className="px-2 py-2">{assignment.summary.provider ?? "-"}</td>
+                      <td className="px-2 py-2">
+                        {formatDate(assignment.summary.periodStart)} to{" "}
+                        {formatDate(assignment.summary.periodEnd)}
+                      </td>
+                      <td className="px-2 py-2">
+                        {assignment.summary.totalCost !== null
+                          ? `${assignment.summary.totalCost.toFixed(2)} ${assignment.summary.currency}`
+                          : "-"}
+                      </td>
+                      <td className="px-2 py-2">
+                        {assignment.summary.accountLast4
+                          ? `...${assignment.summary.accountLast4}`
+                          : "-"}
+                      </td>
+                      <td className="flex flex-wrap gap-1 px-2 py-2">
+                        {assignment.candidates.map((candidate) => (
+                          <button
+                            key={candidate.propertyId}
+                            type="button"
+                            disabled={resolvingAssignmentId === assignment.id}
+                            onClick={() =>
+                              void resolveBillAssignment(assignment.id, candidate.propertyId)
+                            }
+                            className="rounded border border-zinc-300 px-2 py-1 font-semibold disabled:opacity-50"
+                          >
+                            {candidate.name}
+                          </button>
+                        ))}
+                        <button
+                          type="button"
+                          disabled={resolvingAssignmentId === assignment.id}
+                          onClick={() => void resolveBillAssignment(assignment.id, null)}
+                          className="rounded border border-zinc-300 px-2 py-1 text-zinc-600 disabled:opacity-50"
+                        >
+                          Dismiss
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        {payables.length > 0 && (
+          <>
+            <h3 className="mt-5 text-sm font-semibold">Payables</h3>
+            <p className="text-xs text-zinc-600">
+              Unpaid bills that are overdue or due in the next 30 days.
+            </p>
+            <div className="mt-3 overflow-x-auto">
+              <table className="min-w-full border-collapse text-xs">
+                <thead>
+                  <tr className="border-b border-zinc-200 text-left">
+                    <th className="px-2 py-2 font-semibold">Due</th>
+                    <th className="px-2 py-2 font-semibold">Property</th>
+                    <th className="px-2 py-2 font-semibold">Provider</th>
+                    <th className="px-2 py-2 font-semibold">Balance</th>
+                    <th className="px-2 py-2 font-semibold">Status</th>
+                    <th className="px-2 py-2 font-semibold" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {payables.map((payable) => (
+                    <tr key={payable.billId} className="border-b border-zinc-100">
+                      <td
+                        className={`px-2 py-2 ${payable.daysUntilDue < 0 ? "font-semibold text-red-700" : ""}`}
+                      >
+                        {formatDate(payable.dueDate)}
+                        {payable.daysUntilDue < 0
+                          ? ` (${-payable.daysUntilDue}d overdue)`
+                          : ` (in ${payable.daysUntilDue}d)`}
+                      </td>
+                      <td className="px-2 py-2">{payable.propertyName}</td>
+                      <td className="px-2 py-2">{payable.provider ?? "-"}</td>
+                      <td className="px-2 py-2">
+                        {payable.balance !== null
+                          ? `${payable.balance.toFixed(2)} ${payable.currency}`
+                          : "-"}
+                        {payable.lateFee !== null && (
+                          <span className="ml-1 text-amber-700">
+                            (late fee {payable.lateFee.toFixed(2)})
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-2 py-2">{payable.paymentStatus}</td>
+                      <td className="px-2 py-2">
+                        <button
+                          type="button"
+                          disabled={payingBillId === payable.billId}
+                          onClick={() => void markBillPaid(payable.billId)}
+                          className="rounded border border-zinc-300 px-2 py-1 font-semibold disabled:opacity-50"
+                        >
+                          Mark paid
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
       </section>
 
       {statusMessage && (
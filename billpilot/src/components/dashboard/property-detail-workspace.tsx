@@ -48,6 +48,36 @@ interface PropertiesApiResponse {
   properties: PropertySummary[];
 }
 
+interface TariffPlanRow {
+  tariffId: string;
+  utility: string;
+  code: string;
+  name: string;
+  kind: string;
+  currency: string;
+  status: string;
+  current: boolean;
+  annualCost: number | null;
+  method: string | null;
+}
+
+interface TariffSimulationResponse {
+  currency: string | null;
+  from: string | null;
+  to: string | null;
+  bills: number;
+  intervalBills: number;
+  currentTariffId: string | null;
+  current: { basis: "tariff" | "bills"; annualCost: number | null };
+  plans: TariffPlanRow[];
+  bestAlternative: {
+    tariffId: string;
+    name: string;
+    annualCost: number;
+    annualSavings: number;
+  } | null;
+}
+
 function readApiError(payload: unknown, fallback: string): string {
   if (!payload || typeof payload !== "object") {
     return fallback;
@@ -94,6 +124,8 @@ export function PropertyDetailWorkspace({ propertyId }: { propertyId: string })
   const [providerFilter, setProviderFilter] = useState("");
   const [dateFrom, setDateFrom] = useState("");
   const [dateTo, setDateTo] = useState("");
+  const [ratePlans, setRatePlans] = useState<TariffSimulationResponse | null>(null);
+  const [ratePlansLoading, setRatePlansLoading] = useState(false);
 
   const buildFilterQuery = useCallback((filters?: {
     provider?: string;
@@ -208,6 +240,63 @@ export function PropertyDetailWorkspace({ propertyId }: { propertyId: string })
     void loadData();
   }, [loadData]);
 
+  const loadRatePlans = useCallback(async () => {
+    if (!authToken) {
+      return;
+    }
+
+    setRatePlansLoading(true);
+    try {
+      const response = await fetch(`/api/properties/${propertyId}/tariffs`, {
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      const payload = (await response.json()) as
+        | TariffSimulationResponse
+        | { error?: string; message?: string };
+      if (!response.ok) {
+        throw new Error(readApiError(payload, "Failed to compare rate plans."));
+      }
+      setRatePlans(payload as TariffSimulationResponse);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Failed to compare rate plans.";
+      setErrorMessage(message);
+    } finally {
+      setRatePlansLoading(false);
+    }
+  }, [authToken, propertyId]);
+
+  useEffect(() => {
+    void loadRatePlans();
+  }, [loadRatePlans]);
+
+  const setCurrentTariff = async (tariffId: string | null) => {
+    if (!authToken) {
+      return;
+    }
+
+    setErrorMessage(null);
+    try {
+      const response = await fetch(`/api/properties/${propertyId}/tariffs`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${authToken}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ currentTariffId: tariffId }),
+      });
+      if (!response.ok) {
+        const payload = (await response.json()) as { error?: string; message?: string };
+        throw new Error(readApiError(payload, "Failed to set the current plan."));
+      }
+      await loadRatePlans();
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Failed to set the current plan.";
+      setErrorMessage(message);
+    }
+  };
+
   const downloadExport = async (format: "csv" | "pdf") => {
     if (!authToken) {
       setErrorMessage("Sign in to export data.");
@@ -527,6 +616,85 @@ export function PropertyDetailWorkspace({ propertyId }: { propertyId: string })
         </section>
       </div>
 
+      <section className="rounded-2xl border border-zinc-200 bg-white p-4">
+        <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+          <h3 className="text-sm font-semibold">Rate plans</h3>
+          {ratePlans && ratePlans.plans.length > 0 && (
+            <label className="flex items-center gap-2 text-xs">
+              <span className="font-medium">Current plan</span>
+              <select
+                value={ratePlans.currentTariffId ?? ""}
+                onChange={(event) => void setCurrentTariff(event.target.value || null)}
+                className="rounded-lg border border-zinc-300 px-2 py-1"
+              >
+                <option value="">Not set (compare with billed totals)</option>
+                {ratePlans.plans.map((plan) => (
+                  <option key={plan.tariffId} value={plan.tariffId}>
+                    {plan.utility} {plan.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+        {ratePlansLoading && !ratePlans ? (
+          <p className="text-xs text-zinc-500">Comparing rate plans...</p>
+        ) : !ratePlans || ratePlans.plans.length === 0 ? (
+          <p className="text-xs text-zinc-500">
+            Import a tariff library through /api/tariffs to compare rate plans for this property.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-xs text-zinc-600">
+              {ratePlans.bills} bills from {ratePlans.from ?? "-"} to {ratePlans.to ?? "-"} (
+              {ratePlans.intervalBills} with interval data). Current:{" "}
+              {asCurrency(ratePlans.current.annualCost, ratePlans.currency ?? "USD")} per year
+              {ratePlans.current.basis === "bills" ? " as billed" : " on the current plan"}.{" "}
+              {ratePlans.bestAlternative
+                ? `Best alternative: ${ratePlans.bestAlternative.name}, saving ${asCurrency(
+                    ratePlans.bestAlternative.annualSavings,
+                    ratePlans.currency ?? "USD",
+                  )} a year.`
+                : "No cheaper plan in the library."}
+            </p>
+            <div className="overflow-x-auto">
+              <table className="min-w-full border-collapse text-xs">
+                <thead>
+                  <tr className="border-b border-zinc-200 text-left">
+                    <th className="px-2 py-2 font-semibold">Plan</th>
+                    <th className="px-2 py-2 font-semibold">Type</th>
+                    <th className="px-2 py-2 font-semibold">Annual cost</th>
+                    <th className="px-2 py-2 font-semibold">Priced from</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {ratePlans.plans.map((plan) => (
+                    <tr
+                      key={plan.tariffId}
+                      className={`border-b border-zinc-100 ${
+                        plan.tariffId === ratePlans.bestAlternative?.tariffId ? "bg-emerald-50" : ""
+                      }`}
+                    >
+                      <td className="px-2 py-2">
+                        {plan.utility} {plan.name}
+                        {plan.current ? " (current)" : ""}
+                      </td>
+                      <td className="px-2 py-2">{plan.kind}</td>
+                      <td className="px-2 py-2">
+                        {plan.annualCost !== null
+                          ? asCurrency(plan.annualCost, plan.currency)
+                          : plan.status.replace(/_/g, " ")}
+                      </td>
+                      <td className="px-2 py-2">{plan.method?.replace(/_/g, " ") ?? "-"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </section>
+
       <section className="rounded-2xl border border-zinc-200 bg-white p-4">
         <h3 className="mb-3 text-sm font-semibold">Recent bill rows</h3>
         <div className="overflow-x-auto">
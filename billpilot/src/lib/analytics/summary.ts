@@ -3,6 +3,9 @@ import { BillHistoryRow } from "@/lib/bills/history-query";
 export interface AnalyticsPoint {
   date: string;
   cost: number | null;
+  costPerDay: number | null;
+  kwhEquivalent: number | null;
+  gallons: number | null;
   confidence: number | null;
   high: number;
   watch: number;
@@ -12,6 +15,13 @@ export interface AnalyticsSummary {
   billCount: number;
   avgCost: number | null;
   avgUsage: number | null;
+  usageUnit: string | null;
+  totalKwhEquivalent: number | null;
+  totalMmbtu: number | null;
+  totalGallons: number | null;
+  costPerKwh: number | null;
+  costPerGallon: number | null;
+  avgCostPerDay: number | null;
   avgConfidence: number | null;
   latestCost: number | null;
   previousCost: number | null;
@@ -40,6 +50,35 @@ function average(values: number[]): number | null {
   return values.reduce((sum, value) => sum + value, 0) / values.length;
 }
 
+function sum(values: number[]): number | null {
+  return values.length === 0 ? null : values.reduce((total, value) => total + value, 0);
+}
+
+// Raw usage is only averaged when every bill reports the same unit; mixed
+// portfolios are compared through the canonical totals instead.
+function sharedUsageUnit(rows: BillHistoryRow[]): string | null {
+  const units = new Set(
+    rows
+      .filter((row) => row.usageValue !== null)
+      .map((row) => row.usageUnit?.toLowerCase() ?? ""),
+  );
+  const [unit] = Array.from(units);
+  return units.size === 1 && unit ? unit : null;
+}
+
+// Blended rate: total cost over total quantity of the bills that have both.
+function blendedRate(
+  rows: BillHistoryRow[],
+  quantity: (row: BillHistoryRow) => number | null,
+): number | null {
+  const priced = rows.filter(
+    (row) => row.totalCost !== null && (quantity(row) ?? 0) > 0,
+  );
+  const totalQuantity = sum(priced.map((row) => quantity(row) ?? 0));
+  const totalCost = sum(priced.map((row) => row.totalCost ?? 0));
+  return totalQuantity && totalCost !== null ? totalCost / totalQuantity : null;
+}
+
 function resolveParseQuality(avgConfidence: number | null): AnalyticsSummary["parseQuality"] {
   if (avgConfidence === null) {
     return "unknown";
@@ -143,8 +182,23 @@ export function buildAnalyticsSummary(rows: BillHistoryRow[]): {
   const costs = rows
     .map((row) => row.totalCost)
     .filter((value): value is number => value !== null);
-  const usageValues = rows
-    .map((row) => row.usageValue)
+  const usageUnit = sharedUsageUnit(rows);
+  const usageValues = usageUnit
+    ? rows
+        .map((row) => row.usageValue)
+        .filter((value): value is number => value !== null)
+    : [];
+  const kwhValues = rows
+    .map((row) => row.units.kwhEquivalent)
+    .filter((value): value is number => value !== null);
+  const mmbtuValues = rows
+    .map((row) => row.units.mmbtu)
+    .filter((value): value is number => value !== null);
+  const gallonValues = rows
+    .map((row) => row.units.gallons)
+    .filter((value): value is number => value !== null);
+  const costPerDayValues = rows
+    .map((row) => row.units.costPerDay)
     .filter((value): value is number => value !== null);
   const confidences = rows
     .map((row) => row.confidence)
@@ -167,6 +221,13 @@ export function buildAnalyticsSummary(rows: BillHistoryRow[]): {
     billCount: rows.length,
     avgCost: round(average(costs), 2),
     avgUsage: round(average(usageValues), 2),
+    usageUnit,
+    totalKwhEquivalent: round(sum(kwhValues), 3),
+    totalMmbtu: round(sum(mmbtuValues), 4),
+    totalGallons: round(sum(gallonValues), 2),
+    costPerKwh: round(blendedRate(rows, (row) => row.units.kwhEquivalent), 6),
+    costPerGallon: round(blendedRate(rows, (row) => row.units.gallons), 6),
+    avgCostPerDay: round(average(costPerDayValues), 2),
     avgConfidence: round(avgConfidence, 4),
     latestCost,
     previousCost,
@@ -183,6 +244,9 @@ export function buildAnalyticsSummary(rows: BillHistoryRow[]): {
     .map((row) => ({
       date: shortDate(row.periodEnd ?? row.createdAt),
       cost: row.totalCost,
+      costPerDay: row.units.costPerDay,
+      kwhEquivalent: row.units.kwhEquivalent,
+      gallons: row.units.gallons,
       confidence: row.confidence,
       high: row.insightHigh,
       watch: row.insightWatch,
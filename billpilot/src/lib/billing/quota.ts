@@ -3,6 +3,15 @@ import { getServiceSupabaseClient } from "@/lib/supabase";
 export const FREE_TIER_ANALYSES_PER_MONTH = 2;
 const ACTIVE_SUBSCRIPTION_STATUSES = new Set(["active", "trialing"]);
 
+// How a batch upload is charged: "batch" counts the whole backfill as one
+// analysis so onboarding fits in the free tier, "bill" counts each statement.
+export type BatchQuotaMode = "batch" | "bill";
+
+const BATCH_QUOTA_MODE_BY_PLAN: Record<string, BatchQuotaMode> = {
+  free: "batch",
+};
+const DEFAULT_BATCH_QUOTA_MODE: BatchQuotaMode = "bill";
+
 interface PropertyRow {
   id: string;
   user_id: string;
@@ -33,6 +42,10 @@ export function getCurrentQuotaPeriodStart(): string {
   return startOfUtcMonthIso();
 }
 
+export function batchQuotaMode(plan: string | null): BatchQuotaMode {
+  return BATCH_QUOTA_MODE_BY_PLAN[(plan ?? "free").toLowerCase()] ?? DEFAULT_BATCH_QUOTA_MODE;
+}
+
 function isPaidPlan(subscription: SubscriptionRow | null): boolean {
   if (!subscription) {
     return false;
@@ -96,22 +109,68 @@ async function listPropertyIdsForUser(userId: string): Promise<string[]> {
   return data.map((row: { id: string }) => row.id);
 }
 
-async function countAnalysesThisMonth(
+// Analyses per property since periodStartIso, counted the way the quota
+// charges them.
+export async function countAnalysesByProperty(
   propertyIds: string[],
   periodStartIso: string,
-): Promise<number> {
+): Promise<Record<string, number>> {
   const supabase = getServiceSupabaseClient();
   if (!supabase || propertyIds.length === 0) {
-    return 0;
+    return {};
   }
 
-  const { count } = await supabase
+  // A multi-service statement creates one bills row per service; it still
+  // counts as a single analysis, and so does every bill of a batch charged
+  // as one unit. Imported history is not an analysis.
+  const { data } = await supabase
     .from("bills")
-    .select("id", { count: "exact", head: true })
+    .select("id, property_id, statement_id, batch_id")
     .in("property_id", propertyIds)
+    .eq("source", "parsed")
     .gte("created_at", periodStartIso);
 
-  return count ?? 0;
+  const rows =
+    (data as Array<{
+      id: string;
+      property_id: string;
+      statement_id: string | null;
+      batch_id: string | null;
+    }> | null) ?? [];
+  const batchIds = [...new Set(rows.flatMap((row) => (row.batch_id ? [row.batch_id] : [])))];
+  let singleUnitBatches = new Set<string>();
+  if (batchIds.length > 0) {
+    const { data: batchData } = await supabase
+      .from("bill_batches")
+      .select("id")
+      .in("id", batchIds)
+      .eq("quota_mode", "batch");
+    singleUnitBatches = new Set(
+      ((batchData as Array<{ id: string }> | null) ?? []).map((batch) => batch.id),
+    );
+  }
+
+  const seen = new Set<string>();
+  const counts: Record<string, number> = {};
+  for (const row of rows) {
+    const key =
+      row.batch_id && singleUnitBatches.has(row.batch_id)
+        ? row.batch_id
+        : row.statement_id ?? row.id;
+    if (!seen.has(key)) {
+      seen.add(key);
+      counts[row.property_id] = (counts[row.property_id] ?? 0) + 1;
+    }
+  }
+  return counts;
+}
+
+async function countAnalysesThisMonth(
+  propertyIds: string[],
+  periodStartIso: string,
+): Promise<number> {
+  const counts = await countAnalysesByProperty(propertyIds, periodStartIso);
+  return Object.values(counts).reduce((sum, count) => sum + count, 0);
 }
 
 export async function getAnalysisQuota(
@@ -0,0 +1,290 @@
+import { getAnalysisQuota } from "@/lib/billing/quota";
+import { ExtractedText, ParsedBill } from "@/lib/parser/types";
+import { propertyBelongsToUser } from "@/lib/properties";
+import { getServiceSupabaseClient } from "@/lib/supabase";
+
+import { DuplicateAction } from "./duplicates";
+import { parseStatement, ParseStatementOutcome } from "./parse-statement";
+import { getBillPrivacySetting, readStoredRawText, toStoredRawText } from "./privacy";
+import {
+  BillIdentifierHashes,
+  PropertyMatchCandidate,
+  rememberPropertyIdentifiers,
+} from "./property-accounts";
+
+export const BILL_ASSIGNMENT_STATUSES = ["pending", "confirmed", "dismissed"] as const;
+export type BillAssignmentStatus = (typeof BILL_ASSIGNMENT_STATUSES)[number];
+
+export const BILL_ASSIGNMENT_ACTIONS = ["confirm", "dismiss"] as const;
+export type BillAssignmentAction = (typeof BILL_ASSIGNMENT_ACTIONS)[number];
+
+export class BillAssignmentError extends Error {
+  status: number;
+  code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// The parse request options replayed once the property is picked.
+export interface BillAssignmentOptions {
+  fileUrl?: string;
+  fileHash?: string;
+  provider?: string;
+  currency?: string;
+  template?: string;
+  locale?: string;
+  extraction: Omit<ExtractedText, "text">;
+}
+
+export interface BillAssignmentSummary {
+  provider: string | null;
+  periodStart: string | null;
+  periodEnd: string | null;
+  totalCost: number | null;
+  currency: string;
+  accountLast4: string | null;
+  meterLast4: Array<string | null>;
+}
+
+export interface BillAssignment {
+  id: string;
+  status: BillAssignmentStatus;
+  candidates: PropertyMatchCandidate[];
+  summary: BillAssignmentSummary;
+  propertyId: string | null;
+  billIds: string[];
+  createdAt: string;
+  resolvedAt: string | null;
+}
+
+interface BillAssignmentRow {
+  id: string;
+  user_id: string;
+  status: BillAssignmentStatus;
+  candidates: PropertyMatchCandidate[];
+  identifiers: BillIdentifierHashes;
+  summary: BillAssignmentSummary;
+  options: BillAssignmentOptions;
+  raw_text: string;
+  raw_text_encrypted: string | null;
+  property_id: string | null;
+  bill_ids: string[];
+  created_at: string;
+  resolved_at: string | null;
+}
+
+const LIST_COLUMNS = "id, status, candidates, summary, property_id, bill_ids, created_at, resolved_at";
+const ROW_COLUMNS = `${LIST_COLUMNS}, user_id, identifiers, options, raw_text, raw_text_encrypted`;
+
+function requireSupabase() {
+  const supabase = getServiceSupabaseClient();
+  if (!supabase) {
+    throw new BillAssignmentError(500, "supabase_not_configured", "Supabase is not configured.");
+  }
+  return supabase;
+}
+
+function toBillAssignment(row: BillAssignmentRow): BillAssignment {
+  return {
+    id: row.id,
+    status: row.status,
+    candidates: row.candidates ?? [],
+    summary: row.summary,
+    propertyId: row.property_id,
+    billIds: row.bill_ids ?? [],
+    createdAt: row.created_at,
+    resolvedAt: row.resolved_at,
+  };
+}
+
+async function loadPendingAssignment(assignmentId: string, userId: string): Promise<BillAssignmentRow> {
+  const supabase = requireSupabase();
+  const { data, error } = await supabase
+    .from("bill_assignments")
+    .select(ROW_COLUMNS)
+    .eq("id", assignmentId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new BillAssignmentError(500, "assignment_lookup_failed", error.message);
+  }
+  if (!data) {
+    throw new BillAssignmentError(404, "assignment_not_found", "No bill assignment with this id.");
+  }
+  const row = data as BillAssignmentRow;
+  if (row.status !== "pending") {
+    throw new BillAssignmentError(
+      409,
+      "assignment_resolved",
+      `This bill assignment is already ${row.status}.`,
+    );
+  }
+  return row;
+}
+
+async function resolveAssignment(
+  assignmentId: string,
+  update: { status: BillAssignmentStatus; propertyId: string | null; billIds: string[] },
+): Promise<BillAssignment> {
+  const supabase = requireSupabase();
+  const { data, error } = await supabase
+    .from("bill_assignments")
+    .update({
+      status: update.status,
+      property_id: update.propertyId,
+      bill_ids: update.billIds,
+      raw_text: "",
+      raw_text_encrypted: null,
+      resolved_at: new Date().toISOString(),
+    })
+    .eq("id", assignmentId)
+    .select(LIST_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new BillAssignmentError(
+      500,
+      "assignment_update_failed",
+      error?.message ?? "Failed to update the bill assignment.",
+    );
+  }
+  return toBillAssignment(data as BillAssignmentRow);
+}
+
+// Holds a bill whose property could not be told apart until the user picks
+// one. The text is kept redacted (with the encrypted original when the user
+// keeps originals) whatever the retention mode, and cleared on resolution.
+export async function queueBillAssignment(input: {
+  userId: string;
+  bill: ParsedBill;
+  rawText: string;
+  candidates: PropertyMatchCandidate[];
+  hashes: BillIdentifierHashes;
+  options: BillAssignmentOptions;
+}): Promise<BillAssignment> {
+  const supabase = requireSupabase();
+  const setting = await getBillPrivacySetting(input.userId);
+  const stored = toStoredRawText(
+    input.rawText,
+    setting.rawTextMode === "encrypted" ? "encrypted" : "redacted",
+  );
+  const summary: BillAssignmentSummary = {
+    provider: input.bill.provider,
+    periodStart: input.bill.periodStart,
+    periodEnd: input.bill.periodEnd,
+    totalCost: input.bill.totalCost,
+    currency: input.bill.currency,
+    accountLast4:
+      input.hashes.identifiers.find((identifier) => identifier.kind === "account")?.last4 ?? null,
+    meterLast4: input.hashes.identifiers
+      .filter((identifier) => identifier.kind === "meter")
+      .map((identifier) => identifier.last4),
+  };
+
+  const { data, error } = await supabase
+    .from("bill_assignments")
+    .insert({
+      user_id: input.userId,
+      candidates: input.candidates,
+      identifiers: input.hashes,
+      summary,
+      options: input.options,
+      raw_text: stored.raw_text,
+      raw_text_encrypted: stored.raw_text_encrypted,
+    })
+    .select(LIST_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new BillAssignmentError(
+      500,
+      "assignment_create_failed",
+      error?.message ?? "Failed to queue the bill for confirmation.",
+    );
+  }
+  return toBillAssignment(data as BillAssignmentRow);
+}
+
+export async function listBillAssignments(input: {
+  userId: string;
+  status?: BillAssignmentStatus;
+  limit: number;
+}): Promise<BillAssignment[]> {
+  const supabase = requireSupabase();
+  let query = supabase.from("bill_assignments").select(LIST_COLUMNS).eq("user_id", input.userId);
+  if (input.status) {
+    query = query.eq("status", input.status);
+  }
+
+  const { data, error } = await query.order("created_at", { ascending: false }).limit(input.limit);
+  if (error) {
+    throw new BillAssignmentError(500, "assignment_lookup_failed", error.message);
+  }
+  return ((data as BillAssignmentRow[] | null) ?? []).map(toBillAssignment);
+}
+
+// Parses the held bill into the chosen property and remembers its account and
+// meter numbers there, so the next bill from that account is filed on its
+// own. A likely duplicate leaves the assignment pending for onDuplicate.
+export async function confirmBillAssignment(
+  assignmentId: string,
+  userId: string,
+  input: { propertyId: string; onDuplicate?: DuplicateAction },
+): Promise<{ assignment: BillAssignment | null; outcome: ParseStatementOutcome }> {
+  const row = await loadPendingAssignment(assignmentId, userId);
+  if (!(await propertyBelongsToUser(input.propertyId, userId))) {
+    throw new BillAssignmentError(
+      403,
+      "forbidden_property",
+      "This property does not belong to the authenticated user.",
+    );
+  }
+
+  const quota = await getAnalysisQuota(input.propertyId, userId);
+  if (!quota.allowed) {
+    throw new BillAssignmentError(
+      402,
+      "free_tier_limit_reached",
+      "Free plan allows 2 analyses per month. Upgrade to continue.",
+    );
+  }
+
+  const outcome = await parseStatement({
+    ...row.options,
+    userId,
+    rawText: readStoredRawText(row),
+    propertyId: input.propertyId,
+    onDuplicate: input.onDuplicate,
+    quota,
+  });
+  if (outcome.kind === "duplicate") {
+    return { assignment: null, outcome };
+  }
+
+  await rememberPropertyIdentifiers({
+    propertyId: input.propertyId,
+    identifiers: row.identifiers.identifiers ?? [],
+    provider: row.summary.provider,
+    source: "confirmed",
+    userId,
+  });
+  const assignment = await resolveAssignment(row.id, {
+    status: "confirmed",
+    propertyId: input.propertyId,
+    billIds: outcome.result.persistedBillIds,
+  });
+  return { assignment, outcome };
+}
+
+export async function dismissBillAssignment(
+  assignmentId: string,
+  userId: string,
+): Promise<BillAssignment> {
+  const row = await loadPendingAssignment(assignmentId, userId);
+  return resolveAssignment(row.id, { status: "dismissed", propertyId: null, billIds: [] });
+}
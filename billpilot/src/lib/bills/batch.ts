@@ -0,0 +1,382 @@
+import { Buffer } from "node:buffer";
+import { randomUUID } from "node:crypto";
+
+import { AnalysisQuota, batchQuotaMode, BatchQuotaMode } from "@/lib/billing/quota";
+import { extractTextFromFile } from "@/lib/parser/extractText";
+import { parseBillFields } from "@/lib/parser/parseFields";
+import { ExtractedText, ParsedBill } from "@/lib/parser/types";
+import { getServiceSupabaseClient } from "@/lib/supabase";
+import { loadTariffSuggestion } from "@/lib/tariffs/simulator";
+import { loadWeatherNormalization } from "@/lib/weather/normalization";
+
+import { loadProviderLearning } from "./corrections";
+import {
+  DuplicateAction,
+  DuplicateBill,
+  findDuplicateBills,
+  hashFileContent,
+  removeDuplicateBills,
+} from "./duplicates";
+import { analyzeParsedBill, loadPriorBillsFromDb, persistParseResult } from "./ingest";
+import { loadInsightRules } from "./insight-rules";
+import { isZipArchive, readZipEntries } from "./zip-archive";
+
+export const MAX_BATCH_FILES = 36;
+export const MAX_BATCH_FILE_BYTES = 15 * 1024 * 1024;
+const MIN_BILL_TEXT_LENGTH = 20;
+const MANUAL_REVIEW_CONFIDENCE = 0.8;
+
+export type BatchFileStatus =
+  | "parsed"
+  | "low_confidence"
+  | "duplicate"
+  | "failed"
+  | "quota_exceeded";
+
+export class BillBatchError extends Error {
+  status: number;
+  code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export interface BatchFile {
+  name: string;
+  type: string;
+  data: Uint8Array;
+  archive: string | null;
+}
+
+export interface BatchFileReport {
+  fileName: string;
+  archive: string | null;
+  status: BatchFileStatus;
+  fileHash: string | null;
+  statementId: string | null;
+  billIds: string[];
+  serviceTypes: string[];
+  provider: string | null;
+  periodStart: string | null;
+  periodEnd: string | null;
+  totalCost: number | null;
+  currency: string | null;
+  parseConfidence: number | null;
+  requiresManualReview: boolean;
+  insights: number;
+  duplicates: DuplicateBill[];
+  error: string | null;
+}
+
+export interface BatchProgress {
+  stage: "parsing" | "storing";
+  completed: number;
+  total: number;
+}
+
+export interface BillBatchResult {
+  batchId: string;
+  quotaMode: BatchQuotaMode;
+  quotaUnitsUsed: number;
+  counts: Record<BatchFileStatus, number>;
+  files: BatchFileReport[];
+}
+
+interface ParsedBatchFile {
+  file: BatchFile;
+  fileHash: string;
+  ocr: ExtractedText["ocr"];
+  bill: ParsedBill;
+}
+
+function emptyReport(
+  file: Pick<BatchFile, "name" | "archive">,
+  fileHash: string | null,
+): BatchFileReport {
+  return {
+    fileName: file.name,
+    archive: file.archive,
+    status: "failed",
+    fileHash,
+    statementId: null,
+    billIds: [],
+    serviceTypes: [],
+    provider: null,
+    periodStart: null,
+    periodEnd: null,
+    totalCost: null,
+    currency: null,
+    parseConfidence: null,
+    requiresManualReview: false,
+    insights: 0,
+    duplicates: [],
+    error: null,
+  };
+}
+
+function failedReport(
+  file: Pick<BatchFile, "name" | "archive">,
+  fileHash: string | null,
+  error: unknown,
+): BatchFileReport {
+  return {
+    ...emptyReport(file, fileHash),
+    error: error instanceof Error ? error.message : String(error),
+  };
+}
+
+// Bills without a period end go last; the rest run oldest first so each one
+// is scored against the bills before it.
+function comparePeriods(left: ParsedBatchFile, right: ParsedBatchFile): number {
+  const leftEnd = left.bill.periodEnd ?? "9999-12-31";
+  const rightEnd = right.bill.periodEnd ?? "9999-12-31";
+  return (
+    leftEnd.localeCompare(rightEnd) ||
+    (left.bill.periodStart ?? "").localeCompare(right.bill.periodStart ?? "") ||
+    left.file.name.localeCompare(right.file.name)
+  );
+}
+
+// Unpacks ZIP archives into their entries and reads plain uploads as they
+// are. Files that cannot be read are reported rather than failing the batch.
+export async function expandBatchFiles(
+  uploads: File[],
+): Promise<{ files: BatchFile[]; failures: BatchFileReport[] }> {
+  const files: BatchFile[] = [];
+  const failures: BatchFileReport[] = [];
+
+  for (const upload of uploads) {
+    const data = new Uint8Array(await upload.arrayBuffer());
+    if (!isZipArchive(upload.name, upload.type, data)) {
+      if (data.byteLength > MAX_BATCH_FILE_BYTES) {
+        failures.push(
+          failedReport(
+            { name: upload.name, archive: null },
+            null,
+            `File is larger than ${MAX_BATCH_FILE_BYTES} bytes.`,
+          ),
+        );
+        continue;
+      }
+      files.push({ name: upload.name, type: upload.type, data, archive: null });
+      continue;
+    }
+
+    try {
+      const entries = readZipEntries(data, {
+        maxEntries: MAX_BATCH_FILES,
+        maxEntryBytes: MAX_BATCH_FILE_BYTES,
+      });
+      for (const entry of entries) {
+        files.push({ name: entry.name, type: "", data: entry.data, archive: upload.name });
+      }
+    } catch (error) {
+      failures.push(failedReport({ name: upload.name, archive: null }, null, error));
+    }
+  }
+
+  if (files.length > MAX_BATCH_FILES) {
+    throw new BillBatchError(
+      400,
+      "too_many_files",
+      `A batch holds at most ${MAX_BATCH_FILES} bills; received ${files.length}.`,
+    );
+  }
+
+  return { files, failures };
+}
+
+// Parses every file, then analyzes and stores the bills in period order so
+// each one sees the bills before it (including earlier bills of the same
+// batch) as prior-bill context.
+export async function runBillBatch(input: {
+  userId: string;
+  propertyId: string;
+  files: BatchFile[];
+  failures: BatchFileReport[];
+  locale: string | null;
+  currency?: string;
+  onDuplicate?: DuplicateAction;
+  quota: AnalysisQuota;
+  onProgress?: (progress: BatchProgress) => Promise<void>;
+}): Promise<BillBatchResult> {
+  const supabase = getServiceSupabaseClient();
+  if (!supabase) {
+    throw new BillBatchError(
+      500,
+      "supabase_not_configured",
+      "Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY first.",
+    );
+  }
+
+  const quotaMode = batchQuotaMode(input.quota.plan);
+  const { data: batchRow, error: batchError } = await supabase
+    .from("bill_batches")
+    .insert({
+      user_id: input.userId,
+      property_id: input.propertyId,
+      quota_mode: quotaMode,
+      file_count: input.files.length + input.failures.length,
+    })
+    .select("id")
+    .single();
+
+  if (batchError || !batchRow?.id) {
+    throw new BillBatchError(
+      500,
+      "batch_create_failed",
+      batchError?.message ?? "Unable to create the batch.",
+    );
+  }
+  const batchId = batchRow.id as string;
+
+  const reports: BatchFileReport[] = [...input.failures];
+  const parsed: ParsedBatchFile[] = [];
+  const overrides = { currencyOverride: input.currency, locale: input.locale };
+
+  for (const [index, file] of input.files.entries()) {
+    await input.onProgress?.({ stage: "parsing", completed: index, total: input.files.length });
+    const fileHash = hashFileContent(file.data);
+    try {
+      const extracted = await extractTextFromFile(
+        new File([Buffer.from(file.data)], file.name, { type: file.type }),
+      );
+      if (extracted.text.trim().length < MIN_BILL_TEXT_LENGTH) {
+        reports.push(failedReport(file, fileHash, "No bill text found in this file."));
+        continue;
+      }
+      const firstPass = parseBillFields(extracted.text, overrides);
+      const learned = await loadProviderLearning(input.userId, firstPass.provider);
+      parsed.push({
+        file,
+        fileHash,
+        ocr: extracted.ocr,
+        bill: learned ? parseBillFields(extracted.text, { ...overrides, learned }) : firstPass,
+      });
+    } catch (error) {
+      reports.push(failedReport(file, fileHash, error));
+    }
+  }
+
+  let remainingUnits = quotaMode === "bill" ? input.quota.remaining : null;
+  let storedStatements = 0;
+
+  const rules = await loadInsightRules({ propertyId: input.propertyId });
+  for (const [index, entry] of parsed.sort(comparePeriods).entries()) {
+    await input.onProgress?.({ stage: "storing", completed: index, total: parsed.length });
+    const { bill } = entry;
+    const analyses = await analyzeParsedBill(bill, {
+      ocr: entry.ocr,
+      loadPriorBills: (serviceType) =>
+        loadPriorBillsFromDb(input.propertyId, serviceType, bill.periodEnd),
+      loadWeather: (serviceType, serviceBill) =>
+        loadWeatherNormalization(input.propertyId, serviceType, serviceBill),
+      loadTariffSuggestion: (serviceType) => loadTariffSuggestion(input.propertyId, serviceType),
+      rules,
+    });
+    const confidence = Math.min(...analyses.map((analysis) => analysis.confidence));
+    const requiresManualReview =
+      confidence < MANUAL_REVIEW_CONFIDENCE || bill.ambiguousDates.length > 0;
+    const duplicates = await findDuplicateBills({
+      propertyId: input.propertyId,
+      fileHash: entry.fileHash,
+      bills: analyses.map((analysis) => ({
+        ...analysis.bill,
+        serviceType: analysis.serviceType,
+      })),
+    });
+    const report: BatchFileReport = {
+      ...emptyReport(entry.file, entry.fileHash),
+      serviceTypes: analyses.map((analysis) => analysis.serviceType),
+      provider: bill.provider,
+      periodStart: bill.periodStart,
+      periodEnd: bill.periodEnd,
+      totalCost: bill.totalCost,
+      currency: bill.currency,
+      parseConfidence: confidence,
+      requiresManualReview,
+      insights: analyses.reduce((sum, analysis) => sum + analysis.output.insights.length, 0),
+      duplicates,
+    };
+    reports.push(report);
+
+    if (duplicates.length > 0 && (!input.onDuplicate || input.onDuplicate === "skip")) {
+      report.status = "duplicate";
+      continue;
+    }
+    if (remainingUnits !== null && remainingUnits <= 0) {
+      report.status = "quota_exceeded";
+      continue;
+    }
+    if (duplicates.length > 0 && input.onDuplicate === "replace") {
+      await removeDuplicateBills(
+        input.propertyId,
+        duplicates.map((duplicate) => duplicate.billId),
+      );
+    }
+
+    const statementId = randomUUID();
+    let persistenceError: string | null = null;
+    for (const analysis of analyses) {
+      const original =
+        duplicates.find((duplicate) => duplicate.serviceType === analysis.serviceType) ??
+        duplicates.find((duplicate) => duplicate.reason === "same_file");
+      const persistence = await persistParseResult({
+        propertyId: input.propertyId,
+        statementId,
+        serviceType: analysis.serviceType,
+        fileHash: entry.fileHash,
+        duplicateOf: input.onDuplicate === "keep_both" ? (original?.billId ?? null) : null,
+        batchId,
+        confidence: analysis.confidence,
+        ocrConfidence: entry.ocr?.averageConfidence ?? null,
+        parsedBill: analysis.bill,
+        units: analysis.units,
+        insights: analysis.output.insights,
+      });
+      if (persistence.billId) {
+        report.billIds.push(persistence.billId);
+      }
+      persistenceError = persistenceError ?? persistence.persistenceError;
+    }
+
+    if (report.billIds.length === 0) {
+      report.error = persistenceError ?? "Bill was not stored.";
+      continue;
+    }
+    report.statementId = statementId;
+    report.error = persistenceError;
+    report.status = requiresManualReview ? "low_confidence" : "parsed";
+    storedStatements += 1;
+    if (remainingUnits !== null) {
+      remainingUnits -= 1;
+    }
+  }
+
+  const counts: Record<BatchFileStatus, number> = {
+    parsed: 0,
+    low_confidence: 0,
+    duplicate: 0,
+    failed: 0,
+    quota_exceeded: 0,
+  };
+  for (const report of reports) {
+    counts[report.status] += 1;
+  }
+
+  await supabase
+    .from("bill_batches")
+    .update({ report: reports, completed_at: new Date().toISOString() })
+    .eq("id", batchId);
+
+  return {
+    batchId,
+    quotaMode,
+    quotaUnitsUsed: quotaMode === "batch" ? Math.min(1, storedStatements) : storedStatements,
+    counts,
+    files: reports,
+  };
+}
@@ -0,0 +1,446 @@
+import { billFingerprint } from "@/lib/bills/duplicates";
+import { BillOwnershipError, findOwnedBill } from "@/lib/bills/ownership";
+import { BillPaymentError, refreshBillPaymentStatus } from "@/lib/bills/payments";
+import { readStoredRawText } from "@/lib/bills/privacy";
+import { findCorrectionLabel } from "@/lib/parser/parseFields";
+import {
+  FieldEvidenceMap,
+  LearnedExtraction,
+  LearnedField,
+  ServiceType,
+} from "@/lib/parser/types";
+import { normalizeBillUnits, toUnitColumns } from "@/lib/parser/units";
+import { getServiceSupabaseClient } from "@/lib/supabase";
+
+export const CORRECTABLE_FIELDS = [
+  "provider",
+  "periodStart",
+  "periodEnd",
+  "totalCost",
+  "usageValue",
+  "usageUnit",
+  "currency",
+  "demandKw",
+  "demandCharge",
+] as const;
+
+export type CorrectableField = (typeof CORRECTABLE_FIELDS)[number];
+
+export type CorrectionValue = string | number | null;
+
+export class BillCorrectionError extends Error {
+  status: number;
+  code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export interface BillCorrectionInput {
+  field: CorrectableField;
+  value: CorrectionValue;
+}
+
+export interface BillCorrection {
+  id: string;
+  billId: string;
+  field: CorrectableField;
+  originalValue: string | null;
+  correctedValue: string | null;
+  provider: string | null;
+  label: string | null;
+  createdAt: string;
+}
+
+export interface ProviderAccuracy {
+  provider: string;
+  bills: number;
+  correctedBills: number;
+  corrections: number;
+  accuracy: number;
+  fieldAccuracy: number;
+  fieldCorrections: Partial<Record<CorrectableField, number>>;
+}
+
+const FIELD_COLUMNS: Record<CorrectableField, string> = {
+  provider: "provider",
+  periodStart: "period_start",
+  periodEnd: "period_end",
+  totalCost: "total_cost",
+  usageValue: "usage_value",
+  usageUnit: "usage_unit",
+  currency: "currency",
+  demandKw: "demand_kw",
+  demandCharge: "demand_charge",
+};
+
+const LEARNED_FIELDS: Partial<Record<CorrectableField, LearnedField>> = {
+  periodStart: "period",
+  periodEnd: "period",
+  totalCost: "totalCost",
+  usageValue: "usageValue",
+  usageUnit: "usageValue",
+};
+
+// Enough to cover a provider's recent history without loading every row.
+const BILL_COLUMNS =
+  "id, property_id, service_type, provider, period_start, period_end, total_cost, usage_value, usage_unit, currency, locale, demand_kw, demand_charge, field_evidence, raw_text, raw_text_encrypted";
+const MAX_LEARNING_ROWS = 500;
+const MAX_ALIASES_PER_FIELD = 3;
+
+interface BillRow {
+  id: string;
+  property_id: string;
+  service_type: ServiceType | null;
+  provider: string | null;
+  period_start: string | null;
+  period_end: string | null;
+  total_cost: number | string | null;
+  usage_value: number | string | null;
+  usage_unit: string | null;
+  currency: string | null;
+  locale: string | null;
+  demand_kw: number | string | null;
+  demand_charge: number | string | null;
+  field_evidence: FieldEvidenceMap | null;
+  raw_text: string | null;
+  raw_text_encrypted: string | null;
+}
+
+interface CorrectionRow {
+  id: string;
+  bill_id: string;
+  field: CorrectableField;
+  original_value: string | null;
+  corrected_value: string | null;
+  provider_key: string | null;
+  label: string | null;
+  original_pattern: string | null;
+  created_at: string;
+}
+
+function requireSupabase() {
+  const supabase = getServiceSupabaseClient();
+  if (!supabase) {
+    throw new BillCorrectionError(
+      500,
+      "supabase_not_configured",
+      "Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY first.",
+    );
+  }
+  return supabase;
+}
+
+export function providerKey(provider: string | null | undefined): string | null {
+  const key = provider?.trim().toLowerCase();
+  return key ? key : null;
+}
+
+function toNumberOrNull(value: number | string | null): number | null {
+  if (value === null) {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function toStoredValue(value: CorrectionValue | undefined): string | null {
+  return value === null || value === undefined ? null : String(value);
+}
+
+function toCorrection(row: CorrectionRow): BillCorrection {
+  return {
+    id: row.id,
+    billId: row.bill_id,
+    field: row.field,
+    originalValue: row.original_value,
+    correctedValue: row.corrected_value,
+    provider: row.provider_key,
+    label: row.label,
+    createdAt: row.created_at,
+  };
+}
+
+async function loadOwnedBill(userId: string, billId: string): Promise<BillRow> {
+  try {
+    return await findOwnedBill<BillRow>(userId, billId, BILL_COLUMNS);
+  } catch (error) {
+    if (error instanceof BillOwnershipError) {
+      throw new BillCorrectionError(error.status, error.code, error.message);
+    }
+    throw error;
+  }
+}
+
+export async function listBillCorrections(
+  userId: string,
+  billId: string,
+): Promise<BillCorrection[]> {
+  await loadOwnedBill(userId, billId);
+  const supabase = requireSupabase();
+  const { data, error } = await supabase
+    .from("bill_corrections")
+    .select(
+      "id, bill_id, field, original_value, corrected_value, provider_key, label, original_pattern, created_at",
+    )
+    .eq("bill_id", billId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new BillCorrectionError(500, "corrections_lookup_failed", error.message);
+  }
+  return ((data as CorrectionRow[] | null) ?? []).map(toCorrection);
+}
+
+// Writes the corrected values onto the bill (recomputing its normalized units)
+// and records one bill_corrections row per changed field.
+export async function applyBillCorrections(input: {
+  userId: string;
+  billId: string;
+  corrections: BillCorrectionInput[];
+}): Promise<{ billId: string; corrections: BillCorrection[] }> {
+  const bill = await loadOwnedBill(input.userId, input.billId);
+  const supabase = requireSupabase();
+
+  const current: Record<CorrectableField, CorrectionValue> = {
+    provider: bill.provider,
+    periodStart: bill.period_start,
+    periodEnd: bill.period_end,
+    totalCost: toNumberOrNull(bill.total_cost),
+    usageValue: toNumberOrNull(bill.usage_value),
+    usageUnit: bill.usage_unit,
+    currency: bill.currency,
+    demandKw: toNumberOrNull(bill.demand_kw),
+    demandCharge: toNumberOrNull(bill.demand_charge),
+  };
+  const changes = input.corrections.filter(
+    (correction) =>
+      toStoredValue(correction.value) !== toStoredValue(current[correction.field]),
+  );
+  if (changes.length === 0) {
+    return { billId: bill.id, corrections: [] };
+  }
+
+  const corrected = { ...current };
+  const evidence: FieldEvidenceMap = { ...(bill.field_evidence ?? {}) };
+  const update: Record<string, unknown> = {};
+  for (const change of changes) {
+    corrected[change.field] = change.value;
+    update[FIELD_COLUMNS[change.field]] = change.value;
+    evidence[change.field] = {
+      confidence: 1,
+      pattern: "user.correction",
+      source: "override",
+      span: null,
+    };
+  }
+
+  const units = normalizeBillUnits({
+    totalCost: corrected.totalCost as number | null,
+    usageValue: corrected.usageValue as number | null,
+    usageUnit: corrected.usageUnit as string | null,
+    periodStart: corrected.periodStart as string | null,
+    periodEnd: corrected.periodEnd as string | null,
+    serviceType: bill.service_type ?? "unknown",
+  });
+  const { error: updateError } = await supabase
+    .from("bills")
+    .update({
+      ...update,
+      ...toUnitColumns(units),
+      bill_fingerprint: billFingerprint({
+        serviceType: bill.service_type ?? "unknown",
+        provider: corrected.provider as string | null,
+        periodStart: corrected.periodStart as string | null,
+        periodEnd: corrected.periodEnd as string | null,
+        totalCost: corrected.totalCost as number | null,
+      }),
+      field_evidence: evidence,
+    })
+    .eq("id", bill.id);
+
+  if (updateError) {
+    throw new BillCorrectionError(500, "bill_update_failed", updateError.message);
+  }
+  if (changes.some((change) => change.field === "totalCost")) {
+    try {
+      await refreshBillPaymentStatus(bill.id);
+    } catch (error) {
+      if (error instanceof BillPaymentError) {
+        throw new BillCorrectionError(error.status, error.code, error.message);
+      }
+      throw error;
+    }
+  }
+
+  // Values the stored text masks are only found in the encrypted original.
+  const rawText = readStoredRawText(bill);
+  const provider = providerKey(corrected.provider as string | null);
+  const { data, error } = await supabase
+    .from("bill_corrections")
+    .insert(
+      changes.map((change) => ({
+        user_id: input.userId,
+        bill_id: bill.id,
+        property_id: bill.property_id,
+        provider_key: provider,
+        field: change.field,
+        original_value: toStoredValue(current[change.field]),
+        corrected_value: toStoredValue(change.value),
+        label:
+          change.value === null
+            ? null
+            : (findCorrectionLabel(rawText, change.field, change.value, bill.locale)
+                ?.label ?? null),
+        original_pattern: bill.field_evidence?.[change.field]?.pattern ?? null,
+      })),
+    )
+    .select(
+      "id, bill_id, field, original_value, corrected_value, provider_key, label, original_pattern, created_at",
+    );
+
+  if (error) {
+    throw new BillCorrectionError(500, "correction_insert_failed", error.message);
+  }
+
+  return {
+    billId: bill.id,
+    corrections: ((data as CorrectionRow[] | null) ?? []).map(toCorrection),
+  };
+}
+
+// A corrected provider name is learned from the parsed name it replaced; the
+// other hints are then read from corrections to that (corrected) provider.
+export async function loadProviderLearning(
+  userId: string,
+  provider: string | null,
+): Promise<LearnedExtraction | null> {
+  const parsedKey = providerKey(provider);
+  const supabase = getServiceSupabaseClient();
+  if (!supabase || !parsedKey) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("bill_corrections")
+    .select("field, original_value, corrected_value, provider_key, label, original_pattern")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(MAX_LEARNING_ROWS);
+
+  if (error || !data) {
+    return null;
+  }
+
+  const rows = data as Array<
+    Pick<
+      CorrectionRow,
+      "field" | "original_value" | "corrected_value" | "provider_key" | "label" | "original_pattern"
+    >
+  >;
+  const renamed = rows.find(
+    (row) =>
+      row.field === "provider" &&
+      providerKey(row.original_value) === parsedKey &&
+      row.corrected_value,
+  );
+  const key = providerKey(renamed?.corrected_value) ?? parsedKey;
+
+  const aliases: Partial<Record<LearnedField, string[]>> = {};
+  const rejectedPatterns = new Set<string>();
+  for (const row of rows) {
+    const learnedField = LEARNED_FIELDS[row.field];
+    if (row.provider_key !== key || !learnedField) {
+      continue;
+    }
+    if (row.original_pattern && !row.original_pattern.startsWith("learned.")) {
+      rejectedPatterns.add(row.original_pattern);
+    }
+    const labels = aliases[learnedField] ?? [];
+    if (row.label && !labels.includes(row.label) && labels.length < MAX_ALIASES_PER_FIELD) {
+      aliases[learnedField] = [...labels, row.label];
+    }
+  }
+
+  if (!renamed && rejectedPatterns.size === 0 && Object.keys(aliases).length === 0) {
+    return null;
+  }
+  return {
+    provider: renamed?.corrected_value ?? null,
+    aliases,
+    rejectedPatterns: Array.from(rejectedPatterns),
+  };
+}
+
+// accuracy is the share of a provider's bills that needed no correction;
+// fieldAccuracy the share of correctable fields across those bills that did not.
+export async function getProviderAccuracy(userId: string): Promise<ProviderAccuracy[]> {
+  const supabase = requireSupabase();
+  const { data: propertiesData, error: propertiesError } = await supabase
+    .from("properties")
+    .select("id")
+    .eq("user_id", userId);
+
+  if (propertiesError) {
+    throw new BillCorrectionError(500, "property_lookup_failed", propertiesError.message);
+  }
+  const propertyIds = ((propertiesData as Array<{ id: string }> | null) ?? []).map(
+    (row) => row.id,
+  );
+  if (propertyIds.length === 0) {
+    return [];
+  }
+
+  const [billsResult, correctionsResult] = await Promise.all([
+    supabase.from("bills").select("id, provider").in("property_id", propertyIds),
+    supabase.from("bill_corrections").select("bill_id, field").eq("user_id", userId),
+  ]);
+  if (billsResult.error || correctionsResult.error) {
+    throw new BillCorrectionError(
+      500,
+      "accuracy_lookup_failed",
+      billsResult.error?.message ?? correctionsResult.error?.message ?? "lookup_failed",
+    );
+  }
+
+  const correctionsByBill = new Map<string, CorrectableField[]>();
+  for (const row of (correctionsResult.data as Array<{ bill_id: string; field: CorrectableField }>) ??
+    []) {
+    correctionsByBill.set(row.bill_id, [...(correctionsByBill.get(row.bill_id) ?? []), row.field]);
+  }
+
+  const byProvider = new Map<string, ProviderAccuracy>();
+  for (const bill of (billsResult.data as Array<{ id: string; provider: string | null }>) ?? []) {
+    const key = providerKey(bill.provider) ?? "unknown";
+    const entry = byProvider.get(key) ?? {
+      provider: bill.provider?.trim() || "Unknown provider",
+      bills: 0,
+      correctedBills: 0,
+      corrections: 0,
+      accuracy: 1,
+      fieldAccuracy: 1,
+      fieldCorrections: {},
+    };
+    const fields = correctionsByBill.get(bill.id) ?? [];
+    entry.bills += 1;
+    entry.correctedBills += fields.length > 0 ? 1 : 0;
+    entry.corrections += fields.length;
+    for (const field of fields) {
+      entry.fieldCorrections[field] = (entry.fieldCorrections[field] ?? 0) + 1;
+    }
+    byProvider.set(key, entry);
+  }
+
+  return Array.from(byProvider.values())
+    .map((entry) => ({
+      ...entry,
+      accuracy: Number((1 - entry.correctedBills / entry.bills).toFixed(4)),
+      fieldAccuracy: Number(
+        Math.max(0, 1 - entry.corrections / (entry.bills * CORRECTABLE_FIELDS.length)).toFixed(4),
+      ),
+    }))
+    .sort((a, b) => b.bills - a.bills);
+}
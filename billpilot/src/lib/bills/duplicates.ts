@@ -0,0 +1,208 @@
+import { createHash } from "node:crypto";
+
+import { ServiceType } from "@/lib/parser/types";
+import { getServiceSupabaseClient } from "@/lib/supabase";
+
+export const DUPLICATE_ACTIONS = ["skip", "replace", "keep_both"] as const;
+
+export type DuplicateAction = (typeof DUPLICATE_ACTIONS)[number];
+
+// same_file: byte-identical upload. same_bill: provider, service, period and
+// total all match. likely_same_bill: period end and total match but the
+// provider reads differently, which is typical of a re-scanned paper bill.
+export type DuplicateReason = "same_file" | "same_bill" | "likely_same_bill";
+
+export class BillDuplicateError extends Error {
+  status: number;
+  code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export interface BillFingerprintInput {
+  serviceType: ServiceType | string;
+  provider: string | null;
+  periodStart: string | null;
+  periodEnd: string | null;
+  totalCost: number | null;
+}
+
+export interface DuplicateBill {
+  billId: string;
+  statementId: string | null;
+  serviceType: string;
+  provider: string | null;
+  periodStart: string | null;
+  periodEnd: string | null;
+  totalCost: number | null;
+  fileUrl: string | null;
+  createdAt: string;
+  reason: DuplicateReason;
+}
+
+interface DuplicateBillRow {
+  id: string;
+  statement_id: string | null;
+  service_type: string | null;
+  provider: string | null;
+  period_start: string | null;
+  period_end: string | null;
+  total_cost: number | string | null;
+  file_url: string | null;
+  file_hash: string | null;
+  bill_fingerprint: string | null;
+  created_at: string;
+}
+
+const DUPLICATE_BILL_COLUMNS =
+  "id, statement_id, service_type, provider, period_start, period_end, total_cost, file_url, file_hash, bill_fingerprint, created_at";
+
+const REASON_RANK: Record<DuplicateReason, number> = {
+  same_file: 0,
+  same_bill: 1,
+  likely_same_bill: 2,
+};
+
+function requireSupabase() {
+  const supabase = getServiceSupabaseClient();
+  if (!supabase) {
+    throw new BillDuplicateError(
+      500,
+      "supabase_not_configured",
+      "Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY first.",
+    );
+  }
+  return supabase;
+}
+
+function toNumberOrNull(value: number | string | null): number | null {
+  if (value === null) {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export function hashFileContent(content: Uint8Array): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+// Kept in step with the backfill in 20260219090000_bill_duplicates.sql so
+// fingerprints written by either side compare equal.
+export function billFingerprint(input: BillFingerprintInput): string | null {
+  if (!input.periodEnd || input.totalCost === null) {
+    return null;
+  }
+  return [
+    input.provider?.trim().toLowerCase() ?? "",
+    input.serviceType,
+    input.periodStart ?? "",
+    input.periodEnd,
+    input.totalCost.toFixed(2),
+  ].join("|");
+}
+
+// Looks up bills on the property that repeat the given file or any of the
+// given statement's service bills. Each existing bill is reported once, under
+// its strongest reason.
+export async function findDuplicateBills(input: {
+  propertyId: string;
+  fileHash?: string | null;
+  bills: BillFingerprintInput[];
+}): Promise<DuplicateBill[]> {
+  const supabase = requireSupabase();
+  const rows: DuplicateBillRow[] = [];
+
+  if (input.fileHash) {
+    const { data, error } = await supabase
+      .from("bills")
+      .select(DUPLICATE_BILL_COLUMNS)
+      .eq("property_id", input.propertyId)
+      .eq("file_hash", input.fileHash);
+
+    if (error) {
+      throw new BillDuplicateError(500, "duplicate_lookup_failed", error.message);
+    }
+    rows.push(...((data as DuplicateBillRow[] | null) ?? []));
+  }
+
+  const fingerprints = new Set<string>();
+  for (const bill of input.bills) {
+    const fingerprint = billFingerprint(bill);
+    if (!fingerprint || !bill.periodEnd || bill.totalCost === null) {
+      continue;
+    }
+    fingerprints.add(fingerprint);
+
+    const { data, error } = await supabase
+      .from("bills")
+      .select(DUPLICATE_BILL_COLUMNS)
+      .eq("property_id", input.propertyId)
+      .eq("service_type", bill.serviceType)
+      .eq("period_end", bill.periodEnd)
+      .eq("total_cost", bill.totalCost);
+
+    if (error) {
+      throw new BillDuplicateError(500, "duplicate_lookup_failed", error.message);
+    }
+    rows.push(...((data as DuplicateBillRow[] | null) ?? []));
+  }
+
+  const duplicates = new Map<string, DuplicateBill>();
+  for (const row of rows) {
+    const reason: DuplicateReason =
+      input.fileHash && row.file_hash === input.fileHash
+        ? "same_file"
+        : row.bill_fingerprint && fingerprints.has(row.bill_fingerprint)
+          ? "same_bill"
+          : "likely_same_bill";
+    const existing = duplicates.get(row.id);
+    if (existing && REASON_RANK[existing.reason] <= REASON_RANK[reason]) {
+      continue;
+    }
+    duplicates.set(row.id, {
+      billId: row.id,
+      statementId: row.statement_id,
+      serviceType: row.service_type ?? "unknown",
+      provider: row.provider,
+      periodStart: row.period_start,
+      periodEnd: row.period_end,
+      totalCost: toNumberOrNull(row.total_cost),
+      fileUrl: row.file_url,
+      createdAt: row.created_at,
+      reason,
+    });
+  }
+
+  return [...duplicates.values()].sort(
+    (left, right) =>
+      REASON_RANK[left.reason] - REASON_RANK[right.reason] ||
+      left.createdAt.localeCompare(right.createdAt),
+  );
+}
+
+// Deletes the bills a "replace" upload supersedes; line items, insights and
+// corrections go with them through their foreign keys.
+export async function removeDuplicateBills(
+  propertyId: string,
+  billIds: string[],
+): Promise<number> {
+  if (billIds.length === 0) {
+    return 0;
+  }
+  const supabase = requireSupabase();
+  const { error, count } = await supabase
+    .from("bills")
+    .delete({ count: "exact" })
+    .eq("property_id", propertyId)
+    .in("id", billIds);
+
+  if (error) {
+    throw new BillDuplicateError(500, "duplicate_replace_failed", error.message);
+  }
+  return count ?? billIds.length;
+}
@@ -0,0 +1,353 @@
+import { ServiceType } from "@/lib/parser/types";
+
+import { ImportedBill, ImportedInterval, ImportRejection, ParsedImport } from "./import";
+
+interface FeedEntry {
+  self: string | null;
+  up: string | null;
+  related: string[];
+  content: string;
+}
+
+interface ReadingType {
+  unit: string;
+  // Multiplies a raw reading into `unit` (power of ten and Wh -> kWh).
+  scale: number;
+  currency: string | null;
+}
+
+interface UsagePoint {
+  key: string;
+  serviceType: ServiceType;
+}
+
+// ESPI ServiceCategory kinds we bill for; anything else stays "unknown".
+const SERVICE_KINDS: Record<string, ServiceType> = {
+  "0": "electric",
+  "1": "gas",
+  "2": "water",
+  "5": "trash",
+  "6": "sewer",
+};
+
+// ESPI UnitSymbolKind codes mapped to the units the bill parser uses.
+const UNIT_SYMBOLS: Record<string, { unit: string; factor: number }> = {
+  "72": { unit: "kwh", factor: 0.001 },
+  "169": { unit: "therms", factor: 1 },
+  "42": { unit: "m3", factor: 1 },
+  "119": { unit: "ccf", factor: 0.01 },
+  "128": { unit: "gallons", factor: 1 },
+};
+
+// ISO 4217 numeric codes seen in Green Button files.
+const CURRENCY_CODES: Record<string, string> = {
+  "36": "AUD",
+  "124": "CAD",
+  "826": "GBP",
+  "840": "USD",
+  "978": "EUR",
+};
+
+// ESPI amounts are in hundred-thousandths of the currency unit.
+const COST_SCALE = 1e-5;
+const DEFAULT_USAGE_POINT = "default";
+
+function escapeTag(name: string): string {
+  return name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Inner XML of every <name> element, whatever its namespace prefix. ESPI does
+// not nest an element inside one of the same name, so a lazy match suffices.
+function elements(xml: string, name: string): string[] {
+  const tag = escapeTag(name);
+  const pattern = new RegExp(
+    `<(?:[\\w-]+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)<\\/(?:[\\w-]+:)?${tag}\\s*>`,
+    "g",
+  );
+  return [...xml.matchAll(pattern)].map((match) => match[1]);
+}
+
+function text(xml: string, name: string): string | null {
+  const value = elements(xml, name)[0]?.trim();
+  return value ? value.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1").trim() : null;
+}
+
+function numberAt(xml: string, name: string): number | null {
+  const value = text(xml, name);
+  if (value === null) {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function readEntries(xml: string): FeedEntry[] {
+  const blocks = elements(xml, "entry");
+  // A bare ESPI document (no Atom feed) is read as a single entry.
+  const sources = blocks.length > 0 ? blocks : [xml];
+
+  return sources.map((block) => {
+    const links = [...block.matchAll(/<(?:[\w-]+:)?link\s([^>]*?)\/?>/g)].map((match) => {
+      const attributes = match[1];
+      return {
+        rel: /\brel\s*=\s*"([^"]*)"/.exec(attributes)?.[1] ?? "",
+        href: /\bhref\s*=\s*"([^"]*)"/.exec(attributes)?.[1] ?? "",
+      };
+    });
+    return {
+      self: links.find((link) => link.rel === "self")?.href ?? null,
+      up: links.find((link) => link.rel === "up")?.href ?? null,
+      related: links.filter((link) => link.rel === "related").map((link) => link.href),
+      content: elements(block, "content")[0] ?? block,
+    };
+  });
+}
+
+function usagePointKey(entry: FeedEntry): string {
+  for (const href of [entry.self, entry.up]) {
+    const match = href ? /\/UsagePoint\/([^/]+)/.exec(href) : null;
+    if (match) {
+      return match[1];
+    }
+  }
+  return DEFAULT_USAGE_POINT;
+}
+
+function meterReadingPath(entry: FeedEntry): string | null {
+  for (const href of [entry.self, entry.up]) {
+    const match = href ? /^(.*\/MeterReading\/[^/]+)/.exec(href) : null;
+    if (match) {
+      return match[1];
+    }
+  }
+  return null;
+}
+
+function readUnit(xml: string): ReadingType | null {
+  const symbol = UNIT_SYMBOLS[text(xml, "uom") ?? ""];
+  if (!symbol) {
+    return null;
+  }
+  const power = numberAt(xml, "powerOfTenMultiplier") ?? 0;
+  return {
+    unit: symbol.unit,
+    scale: symbol.factor * 10 ** power,
+    currency: CURRENCY_CODES[text(xml, "currency") ?? ""] ?? null,
+  };
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+// Calendar date of an epoch-seconds instant in the feed's local time.
+function localDate(epochSeconds: number, tzOffsetSeconds: number): string {
+  return new Date((epochSeconds + tzOffsetSeconds) * 1000).toISOString().slice(0, 10);
+}
+
+// Groups intervals into calendar-month bills for usage points that came
+// without UsageSummary billing periods.
+function monthlyBills(
+  intervals: ImportedInterval[],
+  options: { provider?: string; currency: string; tzOffset: number },
+): ImportedBill[] {
+  const months = new Map<string, ImportedInterval[]>();
+  for (const interval of intervals) {
+    const start = Date.parse(interval.startAt) / 1000;
+    const month = localDate(start, options.tzOffset).slice(0, 7);
+    const key = `${interval.usagePoint}|${interval.unit}|${month}`;
+    const readings = months.get(key);
+    if (readings) {
+      readings.push(interval);
+    } else {
+      months.set(key, [interval]);
+    }
+  }
+
+  return [...months.values()].map((readings) => {
+    const first = readings.reduce((left, right) => (left.startAt <= right.startAt ? left : right));
+    const last = readings.reduce((left, right) => (left.startAt >= right.startAt ? left : right));
+    const periodStart = localDate(Date.parse(first.startAt) / 1000, options.tzOffset);
+    const periodEnd = localDate(
+      Date.parse(last.startAt) / 1000 + last.durationSeconds - 1,
+      options.tzOffset,
+    );
+    const usageValue = round(readings.reduce((sum, reading) => sum + reading.value, 0), 3);
+    const totalCost = readings.every((reading) => reading.cost !== null)
+      ? round(readings.reduce((sum, reading) => sum + (reading.cost ?? 0), 0), 2)
+      : null;
+
+    return {
+      serviceType: first.serviceType,
+      provider: options.provider ?? null,
+      periodStart,
+      periodEnd,
+      totalCost,
+      usageValue,
+      usageUnit: first.unit,
+      currency: options.currency,
+      rawText: [
+        "Green Button interval data",
+        `Usage point: ${first.usagePoint}`,
+        `Period: ${periodStart} to ${periodEnd}`,
+        `Readings: ${readings.length}`,
+        `Usage: ${usageValue} ${first.unit}`,
+        totalCost !== null ? `Cost: ${totalCost}` : null,
+      ]
+        .filter(Boolean)
+        .join("\n"),
+    };
+  });
+}
+
+// Reads a Green Button (ESPI) feed: UsageSummary entries become one bill per
+// billing period, IntervalBlock readings are returned as intervals and, for
+// usage points without summaries, rolled up into monthly bills.
+export function parseGreenButtonXml(
+  xml: string,
+  options: { provider?: string; currency: string },
+): ParsedImport {
+  if (!/<(?:[\w-]+:)?(feed|entry|IntervalBlock|UsageSummary)\b/.test(xml)) {
+    return {
+      bills: [],
+      intervals: [],
+      rejected: [{ line: null, message: "The file is not a Green Button (ESPI) XML document." }],
+    };
+  }
+
+  const entries = readEntries(xml);
+  const rejected: ImportRejection[] = [];
+  const timeParameters = entries.find((entry) => elements(entry.content, "LocalTimeParameters").length > 0);
+  const tzOffset = timeParameters ? numberAt(timeParameters.content, "tzOffset") ?? 0 : 0;
+
+  const usagePoints = new Map<string, UsagePoint>();
+  const readingTypes = new Map<string, ReadingType>();
+  const meterReadingTypes = new Map<string, string>();
+  for (const entry of entries) {
+    const usagePoint = elements(entry.content, "UsagePoint")[0];
+    if (usagePoint !== undefined) {
+      const key = usagePointKey(entry);
+      const kind = text(elements(usagePoint, "ServiceCategory")[0] ?? "", "kind") ?? "";
+      usagePoints.set(key, { key, serviceType: SERVICE_KINDS[kind] ?? "unknown" });
+    }
+    const readingType = elements(entry.content, "ReadingType")[0];
+    if (readingType !== undefined) {
+      const unit = readUnit(readingType);
+      if (unit) {
+        readingTypes.set(entry.self ?? `reading-type-${readingTypes.size}`, unit);
+      } else {
+        rejected.push({ line: null, message: `Unsupported reading unit ${text(readingType, "uom") ?? "(none)"}.` });
+      }
+    }
+    // MeterReading entries are usually empty (<MeterReading/>); their related
+    // link names the ReadingType of the blocks underneath them.
+    const meterReading = meterReadingPath(entry);
+    const readingTypeHref = entry.related.find((href) => /\/ReadingType\//.test(href));
+    if (/<(?:[\w-]+:)?MeterReading\b/.test(entry.content) && meterReading && readingTypeHref) {
+      meterReadingTypes.set(meterReading, readingTypeHref);
+    }
+  }
+
+  // Files from some utilities drop the links; with a single ReadingType the
+  // blocks can only belong to it.
+  const onlyReadingType = readingTypes.size === 1 ? [...readingTypes.values()][0] : null;
+  const serviceTypeFor = (key: string, unit: string): ServiceType =>
+    usagePoints.get(key)?.serviceType ??
+    (unit === "kwh" ? "electric" : unit === "therms" ? "gas" : unit === "gallons" ? "water" : "unknown");
+
+  const intervals: ImportedInterval[] = [];
+  for (const entry of entries) {
+    const blocks = elements(entry.content, "IntervalBlock");
+    if (blocks.length === 0) {
+      continue;
+    }
+    const meterReading = meterReadingPath(entry);
+    const readingType =
+      (meterReading ? readingTypes.get(meterReadingTypes.get(meterReading) ?? "") : undefined) ??
+      onlyReadingType;
+    if (!readingType) {
+      rejected.push({ line: null, message: "An IntervalBlock has no ReadingType with a supported unit." });
+      continue;
+    }
+
+    const key = usagePointKey(entry);
+    for (const block of blocks) {
+      for (const reading of elements(block, "IntervalReading")) {
+        const period = elements(reading, "timePeriod")[0] ?? "";
+        const start = numberAt(period, "start");
+        const duration = numberAt(period, "duration");
+        const value = numberAt(reading, "value");
+        if (start === null || duration === null || duration <= 0 || value === null) {
+          continue;
+        }
+        const cost = numberAt(reading, "cost");
+        intervals.push({
+          usagePoint: key,
+          serviceType: serviceTypeFor(key, readingType.unit),
+          startAt: new Date(start * 1000).toISOString(),
+          durationSeconds: duration,
+          value: round(value * readingType.scale, 6),
+          unit: readingType.unit,
+          cost: cost === null ? null : round(cost * COST_SCALE, 5),
+          quality: text(elements(reading, "ReadingQuality")[0] ?? "", "quality"),
+        });
+      }
+    }
+  }
+
+  const bills: ImportedBill[] = [];
+  const summarized = new Set<string>();
+  for (const entry of entries) {
+    for (const summary of elements(entry.content, "UsageSummary")) {
+      const period = elements(summary, "billingPeriod")[0] ?? "";
+      const start = numberAt(period, "start");
+      const duration = numberAt(period, "duration");
+      if (start === null || duration === null || duration <= 0) {
+        rejected.push({ line: null, message: "A UsageSummary has no billingPeriod." });
+        continue;
+      }
+
+      const key = usagePointKey(entry);
+      const consumption = elements(summary, "overallConsumptionLastPeriod")[0];
+      const usageUnit = consumption ? readUnit(consumption) : null;
+      const rawUsage = consumption ? numberAt(consumption, "value") : null;
+      const usageValue = usageUnit && rawUsage !== null ? round(rawUsage * usageUnit.scale, 3) : null;
+      const rawCost = numberAt(summary, "billLastPeriod");
+      const totalCost = rawCost === null ? null : round(rawCost * COST_SCALE, 2);
+      if (usageValue === null && totalCost === null) {
+        continue;
+      }
+
+      const periodStart = localDate(start, tzOffset);
+      const periodEnd = localDate(start + duration - 1, tzOffset);
+      const serviceType = serviceTypeFor(key, usageUnit?.unit ?? "");
+      summarized.add(key);
+      bills.push({
+        serviceType,
+        provider: options.provider ?? null,
+        periodStart,
+        periodEnd,
+        totalCost,
+        usageValue,
+        usageUnit: usageValue === null ? null : usageUnit?.unit ?? null,
+        currency: CURRENCY_CODES[text(summary, "currency") ?? ""] ?? options.currency,
+        rawText: [
+          "Green Button usage summary",
+          `Usage point: ${key}`,
+          `Period: ${periodStart} to ${periodEnd}`,
+          usageValue !== null ? `Usage: ${usageValue} ${usageUnit?.unit}` : null,
+          totalCost !== null ? `Total: ${totalCost}` : null,
+        ]
+          .filter(Boolean)
+          .join("\n"),
+      });
+    }
+  }
+
+  const unsummarized = intervals.filter((interval) => !summarized.has(interval.usagePoint));
+  const currency = onlyReadingType?.currency ?? options.currency;
+  bills.push(...monthlyBills(unsummarized, { provider: options.provider, currency, tzOffset }));
+
+  return { bills, intervals, rejected };
+}
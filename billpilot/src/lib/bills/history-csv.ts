@@ -0,0 +1,209 @@
+import { inferServiceType, SERVICE_TYPES } from "@/lib/parser/services";
+import { ServiceType } from "@/lib/parser/types";
+
+import { ImportedBill, ImportRejection, ParsedImport } from "./import";
+
+// The documented bill-history CSV: one bill per row, a header row naming the
+// columns in any order. period_end and one of total_cost / usage_value are
+// required; `period` ("<start> to <end>", as written by the CSV export) may
+// stand in for period_start + period_end. Lines starting with # are skipped.
+export const BILL_HISTORY_CSV_COLUMNS = [
+  "period_start",
+  "period_end",
+  "service_type",
+  "provider",
+  "total_cost",
+  "usage_value",
+  "usage_unit",
+  "currency",
+] as const;
+
+// Splits RFC 4180 text into rows of cells, keeping each row's line number.
+export function readCsvRows(text: string): Array<{ line: number; cells: string[] }> {
+  const rows: Array<{ line: number; cells: string[] }> = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some((value) => value.trim() !== "") && !cells[0].trimStart().startsWith("#")) {
+      rows.push({ line: rowLine, cells });
+    }
+    cells = [];
+    cell = "";
+    rowLine = line;
+  };
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") {
+          line += 1;
+        }
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n") {
+      line += 1;
+      endRow();
+    } else if (char !== "\r") {
+      cell += char;
+    }
+  }
+  if (cell !== "" || cells.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+export function parseDate(value: string): string | null {
+  const text = value.trim();
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(text);
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(text);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (us) {
+    [year, month, day] = [Number(us[3]), Number(us[1]), Number(us[2])];
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function parseAmount(value: string): number | null | undefined {
+  const text = value.replace(/[\s$€£,]/g, "");
+  if (text === "") {
+    return null;
+  }
+  return /^-?\d+(\.\d+)?$/.test(text) ? Number(text) : undefined;
+}
+
+function readBillRow(
+  record: Map<string, string>,
+  options: { provider?: string; currency: string },
+): ImportedBill | string {
+  const field = (name: string) => record.get(name)?.trim() ?? "";
+
+  let periodStartText = field("period_start");
+  let periodEndText = field("period_end");
+  const combined = /^(.+?)\s+to\s+(.+)$/i.exec(field("period"));
+  if (!periodEndText && combined) {
+    periodStartText = combined[1] === "-" ? "" : combined[1];
+    periodEndText = combined[2];
+  }
+
+  const periodEnd = parseDate(periodEndText);
+  if (!periodEnd) {
+    return periodEndText ? `Unreadable period_end "${periodEndText}".` : "period_end is required.";
+  }
+  const periodStart = periodStartText ? parseDate(periodStartText) : null;
+  if (periodStartText && !periodStart) {
+    return `Unreadable period_start "${periodStartText}".`;
+  }
+  if (periodStart && periodStart > periodEnd) {
+    return "period_start is after period_end.";
+  }
+
+  const totalCost = parseAmount(field("total_cost"));
+  const usageValue = parseAmount(field("usage_value"));
+  if (totalCost === undefined) {
+    return `Unreadable total_cost "${field("total_cost")}".`;
+  }
+  if (usageValue === undefined) {
+    return `Unreadable usage_value "${field("usage_value")}".`;
+  }
+  if (totalCost === null && usageValue === null) {
+    return "Either total_cost or usage_value is required.";
+  }
+
+  const usageUnit = field("usage_unit").toLowerCase() || null;
+  const serviceTypeText = field("service_type").toLowerCase();
+  if (serviceTypeText && !(SERVICE_TYPES as readonly string[]).includes(serviceTypeText)) {
+    return `Unknown service_type "${serviceTypeText}".`;
+  }
+  const serviceType = (serviceTypeText || inferServiceType(usageUnit)) as ServiceType;
+
+  const currency = (field("currency") || options.currency).toUpperCase();
+  if (!/^[A-Z]{3}$/.test(currency)) {
+    return `Unknown currency "${currency}".`;
+  }
+
+  return {
+    serviceType,
+    provider: field("provider") || options.provider || null,
+    periodStart,
+    periodEnd,
+    totalCost,
+    usageValue,
+    usageUnit,
+    currency,
+    rawText: [...record.entries()]
+      .filter(([, value]) => value.trim() !== "")
+      .map(([name, value]) => `${name}: ${value.trim()}`)
+      .join("\n"),
+  };
+}
+
+export function parseBillHistoryCsv(
+  text: string,
+  options: { provider?: string; currency: string },
+): ParsedImport {
+  const [header, ...rows] = readCsvRows(text.replace(/^\ufeff/, ""));
+  if (!header) {
+    return { bills: [], intervals: [], rejected: [{ line: null, message: "The CSV file is empty." }] };
+  }
+
+  const columns = header.cells.map((cell) => cell.trim().toLowerCase().replace(/\s+/g, "_"));
+  if (!columns.includes("period_end") && !columns.includes("period")) {
+    return {
+      bills: [],
+      intervals: [],
+      rejected: [
+        {
+          line: header.line,
+          message: `The header row needs a period_end column (columns: ${BILL_HISTORY_CSV_COLUMNS.join(", ")}).`,
+        },
+      ],
+    };
+  }
+
+  const bills: ImportedBill[] = [];
+  const rejected: ImportRejection[] = [];
+  for (const row of rows) {
+    const record = new Map(columns.map((column, index) => [column, row.cells[index] ?? ""]));
+    const bill = readBillRow(record, options);
+    if (typeof bill === "string") {
+      rejected.push({ line: row.line, message: bill });
+    } else {
+      bills.push(bill);
+    }
+  }
+
+  return { bills, intervals: [], rejected };
+}
@@ -1,5 +1,8 @@
+import { NormalizedBillUnits } from "@/lib/parser/types";
 import { getServiceSupabaseClient } from "@/lib/supabase";
 
+import { BillSource } from "./import";
+
 export class BillHistoryQueryError extends Error {
   status: number;
   code: string;
@@ -15,14 +18,20 @@ export interface BillHistoryRow {
   id: string;
   propertyId: string;
   propertyName: string;
+  statementId: string | null;
+  serviceType: string;
   provider: string | null;
   periodStart: string | null;
   periodEnd: string | null;
   totalCost: number | null;
   usageValue: number | null;
   usageUnit: string | null;
+  units: NormalizedBillUnits;
   currency: string;
   confidence: number | null;
+  duplicateOf: string | null;
+  source: BillSource;
+  parserVersion: string | null;
   createdAt: string;
   insightTotal: number;
   insightHigh: number;
@@ -38,14 +47,28 @@ interface PropertyRow {
 interface BillRow {
   id: string;
   property_id: string;
+  statement_id: string | null;
+  service_type: string | null;
   provider: string | null;
   period_start: string | null;
   period_end: string | null;
   total_cost: number | string | null;
   usage_value: number | string | null;
   usage_unit: string | null;
+  usage_kwh_equivalent: number | string | null;
+  usage_mmbtu: number | string | null;
+  usage_gallons: number | string | null;
+  billing_days: number | null;
+  cost_per_unit: number | string | null;
+  cost_per_kwh: number | string | null;
+  cost_per_mmbtu: number | string | null;
+  cost_per_gallon: number | string | null;
+  cost_per_day: number | string | null;
   currency: string | null;
   confidence: number | string | null;
+  duplicate_of: string | null;
+  source: BillSource | null;
+  parser_version: string | null;
   created_at: string;
 }
 
@@ -55,18 +78,28 @@ interface InsightRow {
   message: string | null;
 }
 
+// "exclude" leaves out bills marked as copies of an earlier bill (what
+// totals and trends want); "only" lists just those copies.
+export type DuplicateFilter = "include" | "exclude" | "only";
+
 interface HistoryFilterInput {
   userId: string;
   propertyId?: string;
   provider?: string;
+  serviceType?: string;
   dateFrom?: string;
   dateTo?: string;
+  duplicates?: DuplicateFilter;
+  source?: BillSource;
 }
 
 interface BillFilterOps<T> {
+  eq(column: string, value: string): T;
   ilike(column: string, pattern: string): T;
   gte(column: string, value: string): T;
   lte(column: string, value: string): T;
+  is(column: string, value: null): T;
+  not(column: string, operator: string, value: null): T;
 }
 
 function toNumberOrNull(value: number | string | null): number | null {
@@ -77,6 +110,23 @@ function toNumberOrNull(value: number | string | null): number | null {
   return Number.isFinite(parsed) ? parsed : null;
 }
 
+function toNormalizedUnits(bill: BillRow): NormalizedBillUnits {
+  const kwhEquivalent = toNumberOrNull(bill.usage_kwh_equivalent);
+  const gallons = toNumberOrNull(bill.usage_gallons);
+  return {
+    canonicalKind: kwhEquivalent !== null ? "energy" : gallons !== null ? "water" : null,
+    kwhEquivalent,
+    mmbtu: toNumberOrNull(bill.usage_mmbtu),
+    gallons,
+    billingDays: bill.billing_days,
+    costPerUnit: toNumberOrNull(bill.cost_per_unit),
+    costPerKwh: toNumberOrNull(bill.cost_per_kwh),
+    costPerMmbtu: toNumberOrNull(bill.cost_per_mmbtu),
+    costPerGallon: toNumberOrNull(bill.cost_per_gallon),
+    costPerDay: toNumberOrNull(bill.cost_per_day),
+  };
+}
+
 async function resolvePropertyScope(
   input: HistoryFilterInput,
 ): Promise<{ propertyIds: string[]; propertyMap: Map<string, string> }> {
@@ -148,12 +198,23 @@ function applyCommonBillFilters<T extends BillFilterOps<T>>(
   if (input.provider && input.provider.trim()) {
     next = next.ilike("provider", `%${input.provider.trim()}%`) as T;
   }
+  if (input.serviceType) {
+    next = next.eq("service_type", input.serviceType) as T;
+  }
   if (input.dateFrom) {
     next = next.gte("period_end", input.dateFrom) as T;
   }
   if (input.dateTo) {
     next = next.lte("period_end", input.dateTo) as T;
   }
+  if (input.source) {
+    next = next.eq("source", input.source) as T;
+  }
+  if (input.duplicates === "exclude") {
+    next = next.is("duplicate_of", null) as T;
+  } else if (input.duplicates === "only") {
+    next = next.not("duplicate_of", "is", null) as T;
+  }
   return next;
 }
 
@@ -161,8 +222,11 @@ export async function getBillHistoryForUser(input: {
   userId: string;
   propertyId?: string;
   provider?: string;
+  serviceType?: string;
   dateFrom?: string;
   dateTo?: string;
+  duplicates?: DuplicateFilter;
+  source?: BillSource;
   limit: number;
   offset?: number;
 }): Promise<BillHistoryRow[]> {
@@ -187,7 +251,7 @@ export async function getBillHistoryForUser(input: {
   let billQuery = supabase
     .from("bills")
     .select(
-      "id, property_id, provider, period_start, period_end, total_cost, usage_value, usage_unit, currency, confidence, created_at",
+      "id, property_id, statement_id, service_type, provider, period_start, period_end, total_cost, usage_value, usage_unit, usage_kwh_equivalent, usage_mmbtu, usage_gallons, billing_days, cost_per_unit, cost_per_kwh, cost_per_mmbtu, cost_per_gallon, cost_per_day, currency, confidence, duplicate_of, source, parser_version, created_at",
     )
     .in("property_id", propertyIds);
 
@@ -262,14 +326,20 @@ export async function getBillHistoryForUser(input: {
       id: bill.id,
       propertyId: bill.property_id,
       propertyName: propertyMap.get(bill.property_id) ?? "Unknown property",
+      statementId: bill.statement_id,
+      serviceType: bill.service_type ?? "unknown",
       provider: bill.provider,
       periodStart: bill.period_start,
       periodEnd: bill.period_end,
       totalCost: toNumberOrNull(bill.total_cost),
       usageValue: toNumberOrNull(bill.usage_value),
       usageUnit: bill.usage_unit,
+      units: toNormalizedUnits(bill),
       currency: bill.currency ?? "USD",
       confidence: toNumberOrNull(bill.confidence),
+      duplicateOf: bill.duplicate_of,
+      source: bill.source ?? "parsed",
+      parserVersion: bill.parser_version,
       createdAt: bill.created_at,
       insightTotal: counters.total,
       insightHigh: counters.high,
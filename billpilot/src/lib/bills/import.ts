@@ -0,0 +1,266 @@
+import { normalizeBillUnits, toUnitColumns } from "@/lib/parser/units";
+import { ServiceType } from "@/lib/parser/types";
+import { getServiceSupabaseClient } from "@/lib/supabase";
+
+import { billFingerprint } from "./duplicates";
+import { parseGreenButtonXml } from "./green-button";
+import { parseBillHistoryCsv } from "./history-csv";
+import { rawTextModeForProperty, toStoredRawText } from "./privacy";
+
+export const BILL_IMPORT_FORMATS = ["green_button", "csv"] as const;
+export type BillImportFormat = (typeof BILL_IMPORT_FORMATS)[number];
+
+// Where a bills row came from: the statement parser or one of the importers.
+export const BILL_SOURCES = ["parsed", "green_button", "csv_import"] as const;
+export type BillSource = (typeof BILL_SOURCES)[number];
+
+export const MAX_IMPORT_FILE_BYTES = 25 * 1024 * 1024;
+const MAX_IMPORT_BILLS = 500;
+const MAX_IMPORT_INTERVALS = 200_000;
+const INTERVAL_INSERT_CHUNK = 1000;
+
+export class BillImportError extends Error {
+  status: number;
+  code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export interface ImportedBill {
+  serviceType: ServiceType;
+  provider: string | null;
+  periodStart: string | null;
+  periodEnd: string;
+  totalCost: number | null;
+  usageValue: number | null;
+  usageUnit: string | null;
+  currency: string;
+  rawText: string;
+}
+
+export interface ImportedInterval {
+  usagePoint: string;
+  serviceType: ServiceType;
+  startAt: string;
+  durationSeconds: number;
+  value: number;
+  unit: string;
+  cost: number | null;
+  quality: string | null;
+}
+
+export interface ImportRejection {
+  line: number | null;
+  message: string;
+}
+
+export interface ParsedImport {
+  bills: ImportedBill[];
+  intervals: ImportedInterval[];
+  rejected: ImportRejection[];
+}
+
+export interface BillImportResult {
+  format: BillImportFormat;
+  billIds: string[];
+  created: number;
+  skipped: Array<{ serviceType: ServiceType; periodStart: string | null; periodEnd: string }>;
+  rejected: ImportRejection[];
+  intervalCount: number;
+}
+
+function requireSupabase() {
+  const supabase = getServiceSupabaseClient();
+  if (!supabase) {
+    throw new BillImportError(
+      500,
+      "supabase_not_configured",
+      "Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY first.",
+    );
+  }
+  return supabase;
+}
+
+export function detectImportFormat(fileName: string, text: string): BillImportFormat | null {
+  const head = text.slice(0, 4096).trimStart();
+  if (head.startsWith("<") || /\.xml$/i.test(fileName)) {
+    return "green_button";
+  }
+  if (/\.(csv|txt)$/i.test(fileName) || /period_end/i.test(head.split(/\r?\n/, 1)[0] ?? "")) {
+    return "csv";
+  }
+  return null;
+}
+
+function periodKey(bill: { serviceType: string; periodStart: string | null; periodEnd: string | null }) {
+  return `${bill.serviceType}|${bill.periodStart ?? ""}|${bill.periodEnd ?? ""}`;
+}
+
+// A bill already stored for the same service and period (parsed or imported
+// earlier) wins, so re-importing a file only adds the periods it did not have.
+async function loadExistingPeriods(propertyId: string, bills: ImportedBill[]): Promise<Set<string>> {
+  const supabase = requireSupabase();
+  const periodEnds = [...new Set(bills.map((bill) => bill.periodEnd))];
+  const existing = new Set<string>();
+
+  for (let index = 0; index < periodEnds.length; index += 200) {
+    const { data, error } = await supabase
+      .from("bills")
+      .select("service_type, period_start, period_end")
+      .eq("property_id", propertyId)
+      .in("period_end", periodEnds.slice(index, index + 200));
+
+    if (error) {
+      throw new BillImportError(500, "bills_lookup_failed", error.message);
+    }
+    for (const row of (data as Array<{
+      service_type: string;
+      period_start: string | null;
+      period_end: string | null;
+    }> | null) ?? []) {
+      existing.add(
+        periodKey({ serviceType: row.service_type, periodStart: row.period_start, periodEnd: row.period_end }),
+      );
+    }
+  }
+
+  return existing;
+}
+
+async function storeIntervals(
+  propertyId: string,
+  intervals: ImportedInterval[],
+  source: BillSource,
+): Promise<void> {
+  const supabase = requireSupabase();
+  for (let index = 0; index < intervals.length; index += INTERVAL_INSERT_CHUNK) {
+    const { error } = await supabase.from("usage_intervals").upsert(
+      intervals.slice(index, index + INTERVAL_INSERT_CHUNK).map((interval) => ({
+        property_id: propertyId,
+        usage_point: interval.usagePoint,
+        service_type: interval.serviceType,
+        start_at: interval.startAt,
+        duration_seconds: interval.durationSeconds,
+        value: interval.value,
+        unit: interval.unit,
+        cost: interval.cost,
+        quality: interval.quality,
+        source,
+      })),
+      { onConflict: "property_id,usage_point,start_at,duration_seconds", ignoreDuplicates: true },
+    );
+
+    if (error) {
+      throw new BillImportError(500, "interval_insert_failed", error.message);
+    }
+  }
+}
+
+export function parseImportFile(
+  format: BillImportFormat,
+  text: string,
+  options: { provider?: string; currency: string },
+): ParsedImport {
+  return format === "green_button"
+    ? parseGreenButtonXml(text, options)
+    : parseBillHistoryCsv(text, options);
+}
+
+// Imported rows come from the utility's own data, so they are stored with
+// confidence 1 and no insights; they count as history, not as analyses.
+export async function importBillHistory(input: {
+  propertyId: string;
+  format: BillImportFormat;
+  text: string;
+  provider?: string;
+  currency: string;
+}): Promise<BillImportResult> {
+  const supabase = requireSupabase();
+  const parsed = parseImportFile(input.format, input.text, {
+    provider: input.provider,
+    currency: input.currency,
+  });
+
+  if (parsed.bills.length === 0 && parsed.intervals.length === 0) {
+    throw new BillImportError(
+      422,
+      "no_bills_found",
+      parsed.rejected[0]?.message ?? "The file did not contain any bills or interval readings.",
+    );
+  }
+  if (parsed.bills.length > MAX_IMPORT_BILLS) {
+    throw new BillImportError(
+      413,
+      "too_many_bills",
+      `Imports are limited to ${MAX_IMPORT_BILLS} bills per file.`,
+    );
+  }
+  if (parsed.intervals.length > MAX_IMPORT_INTERVALS) {
+    throw new BillImportError(
+      413,
+      "too_many_intervals",
+      `Imports are limited to ${MAX_IMPORT_INTERVALS} interval readings per file.`,
+    );
+  }
+
+  const source: BillSource = input.format === "green_button" ? "green_button" : "csv_import";
+  const existing = await loadExistingPeriods(input.propertyId, parsed.bills);
+  const skipped: BillImportResult["skipped"] = [];
+  const fresh: ImportedBill[] = [];
+
+  for (const bill of parsed.bills) {
+    const key = periodKey(bill);
+    if (existing.has(key)) {
+      skipped.push({ serviceType: bill.serviceType, periodStart: bill.periodStart, periodEnd: bill.periodEnd });
+      continue;
+    }
+    existing.add(key);
+    fresh.push(bill);
+  }
+
+  let billIds: string[] = [];
+  if (fresh.length > 0) {
+    const rawTextMode = await rawTextModeForProperty(input.propertyId);
+    const { data, error } = await supabase
+      .from("bills")
+      .insert(
+        fresh.map((bill) => ({
+          property_id: input.propertyId,
+          source,
+          service_type: bill.serviceType,
+          bill_fingerprint: billFingerprint(bill),
+          provider: bill.provider,
+          period_start: bill.periodStart,
+          period_end: bill.periodEnd,
+          total_cost: bill.totalCost,
+          usage_value: bill.usageValue,
+          usage_unit: bill.usageUnit,
+          currency: bill.currency,
+          confidence: 1,
+          ...toUnitColumns(normalizeBillUnits(bill)),
+          ...toStoredRawText(bill.rawText, rawTextMode),
+        })),
+      )
+      .select("id");
+
+    if (error) {
+      throw new BillImportError(500, "bill_insert_failed", error.message);
+    }
+    billIds = ((data as Array<{ id: string }> | null) ?? []).map((row) => row.id);
+  }
+
+  await storeIntervals(input.propertyId, parsed.intervals, source);
+
+  return {
+    format: input.format,
+    billIds,
+    created: billIds.length,
+    skipped,
+    rejected: parsed.rejected,
+    intervalCount: parsed.intervals.length,
+  };
+}
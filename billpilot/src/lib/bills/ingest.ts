@@ -0,0 +1,274 @@
+import { estimateParseConfidence } from "@/lib/parser/confidence";
+import { buildInsights, InsightEngineOutput } from "@/lib/parser/insights";
+import { InsightRules } from "@/lib/parser/rules";
+import { toServiceBill } from "@/lib/parser/services";
+import { normalizeBillUnits, toUnitColumns } from "@/lib/parser/units";
+import { PARSER_VERSION } from "@/lib/parser/version";
+import {
+  ExtractedText,
+  HistoricalBillSnapshot,
+  Insight,
+  NormalizedBillUnits,
+  ParsedBill,
+  ServiceType,
+  TariffSuggestion,
+  WeatherNormalization,
+} from "@/lib/parser/types";
+import { getServiceSupabaseClient } from "@/lib/supabase";
+
+import { billFingerprint } from "./duplicates";
+import { paymentStatusFor } from "./payments";
+import { rawTextModeForProperty, toStoredRawText } from "./privacy";
+import { hashBillIdentifiers, rememberPropertyIdentifiers } from "./property-accounts";
+
+export interface ServiceAnalysis {
+  serviceType: ServiceType;
+  bill: ParsedBill;
+  units: NormalizedBillUnits;
+  confidence: number;
+  priorBills: HistoricalBillSnapshot[];
+  output: InsightEngineOutput;
+}
+
+interface BillsRow {
+  total_cost: number | string | null;
+  usage_value: number | string | null;
+  usage_unit: string | null;
+  period_end: string | null;
+  demand_charge: number | string | null;
+  late_fee: number | string | null;
+}
+
+// Monthly bills reach the same month two years back; quarterly ones further.
+const PRIOR_BILL_HISTORY = 24;
+
+function toNumberOrNull(value: number | string | null): number | null {
+  if (value === null) {
+    return null;
+  }
+
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function coerceHistoricalRows(rows: BillsRow[]): HistoricalBillSnapshot[] {
+  return rows
+    .map((row): HistoricalBillSnapshot | null => {
+      const totalCost = toNumberOrNull(row.total_cost);
+      if (totalCost === null || totalCost <= 0) {
+        return null;
+      }
+
+      return {
+        totalCost,
+        usageValue: toNumberOrNull(row.usage_value),
+        usageUnit: row.usage_unit,
+        periodEnd: row.period_end,
+        demandCharge: toNumberOrNull(row.demand_charge),
+        lateFee: toNumberOrNull(row.late_fee),
+      };
+    })
+    .filter((row): row is HistoricalBillSnapshot => row !== null);
+}
+
+// Up to two years of stored bills of one service, newest first, skipping bills
+// marked as duplicates; the insight engine picks its seasonal baseline from
+// them. A backfilled bill passes its own period end so it is compared only with
+// bills that came before it.
+export async function loadPriorBillsFromDb(
+  propertyId: string,
+  serviceType: ServiceType,
+  beforePeriodEnd?: string | null,
+): Promise<HistoricalBillSnapshot[]> {
+  const supabase = getServiceSupabaseClient();
+  if (!supabase) {
+    return [];
+  }
+
+  let query = supabase
+    .from("bills")
+    .select("total_cost, usage_value, usage_unit, period_end, demand_charge, late_fee")
+    .eq("property_id", propertyId)
+    .eq("service_type", serviceType)
+    .is("duplicate_of", null);
+  if (beforePeriodEnd) {
+    query = query.lt("period_end", beforePeriodEnd);
+  }
+
+  const { data, error } = await query
+    .order("period_end", { ascending: false })
+    .limit(PRIOR_BILL_HISTORY);
+
+  if (error || !data) {
+    return [];
+  }
+
+  return coerceHistoricalRows(data as BillsRow[]);
+}
+
+// Splits a parsed statement into its services and scores each one against the
+// prior bills returned for that service, weather-adjusted when loadWeather
+// finds a model for it and with the cheaper tariff loadTariffSuggestion finds.
+// `rules` are the user's or property's insight rules; defaults when omitted.
+export async function analyzeParsedBill(
+  parsedBill: ParsedBill,
+  options: {
+    ocr: ExtractedText["ocr"];
+    loadPriorBills: (serviceType: ServiceType) => Promise<HistoricalBillSnapshot[]>;
+    loadWeather?: (
+      serviceType: ServiceType,
+      bill: ParsedBill,
+    ) => Promise<WeatherNormalization | null>;
+    loadTariffSuggestion?: (serviceType: ServiceType) => Promise<TariffSuggestion | null>;
+    rules?: InsightRules;
+  },
+): Promise<ServiceAnalysis[]> {
+  const analyses: ServiceAnalysis[] = [];
+
+  for (const service of parsedBill.services) {
+    const serviceBill = toServiceBill(parsedBill, service);
+    const serviceConfidence = estimateParseConfidence(serviceBill, {
+      ocr: options.ocr,
+    });
+    const servicePriorBills = await options.loadPriorBills(service.serviceType);
+    const weather = (await options.loadWeather?.(service.serviceType, serviceBill)) ?? null;
+    const tariffSuggestion =
+      (await options.loadTariffSuggestion?.(service.serviceType)) ?? null;
+    analyses.push({
+      serviceType: service.serviceType,
+      bill: serviceBill,
+      units: normalizeBillUnits({ ...serviceBill, serviceType: service.serviceType }),
+      confidence: serviceConfidence,
+      priorBills: servicePriorBills,
+      output: buildInsights({
+        bill: serviceBill,
+        priorBills: servicePriorBills,
+        parseConfidence: serviceConfidence,
+        weather,
+        tariffSuggestion,
+        rules: options.rules,
+      }),
+    });
+  }
+
+  return analyses;
+}
+
+export async function persistParseResult(params: {
+  propertyId: string;
+  statementId: string;
+  serviceType: ServiceType;
+  fileUrl?: string;
+  fileHash?: string;
+  duplicateOf: string | null;
+  batchId?: string;
+  confidence: number;
+  ocrConfidence?: number | null;
+  parsedBill: ParsedBill;
+  units: NormalizedBillUnits;
+  insights: Insight[];
+}): Promise<{ billId: string | null; persistenceError: string | null }> {
+  const supabase = getServiceSupabaseClient();
+  if (!supabase) {
+    return { billId: null, persistenceError: null };
+  }
+
+  const {
+    parsedBill,
+    propertyId,
+    statementId,
+    serviceType,
+    fileUrl,
+    fileHash,
+    duplicateOf,
+    batchId,
+    confidence,
+    ocrConfidence,
+    units,
+    insights,
+  } = params;
+  const { data: insertedBill, error: billError } = await supabase
+    .from("bills")
+    .insert({
+      property_id: propertyId,
+      statement_id: statementId,
+      batch_id: batchId ?? null,
+      service_type: serviceType,
+      file_url: fileUrl ?? null,
+      file_hash: fileHash ?? null,
+      bill_fingerprint: billFingerprint({ ...parsedBill, serviceType }),
+      duplicate_of: duplicateOf,
+      provider: parsedBill.provider,
+      period_start: parsedBill.periodStart,
+      period_end: parsedBill.periodEnd,
+      total_cost: parsedBill.totalCost,
+      usage_value: parsedBill.usageValue,
+      usage_unit: parsedBill.usageUnit,
+      currency: parsedBill.currency,
+      locale: parsedBill.locale,
+      confidence,
+      ocr_confidence: ocrConfidence ?? null,
+      field_evidence: parsedBill.evidence,
+      usage_components: parsedBill.usageComponents,
+      demand_kw: parsedBill.demandKw,
+      demand_basis: parsedBill.demandBasis,
+      demand_ratchet: parsedBill.demandRatchet,
+      demand_charge: parsedBill.demandCharge,
+      line_items_total: parsedBill.lineItemReconciliation.itemsTotal,
+      line_item_remainder: parsedBill.lineItemReconciliation.remainder,
+      due_date: parsedBill.dueDate,
+      previous_balance: parsedBill.previousBalance,
+      payments_received: parsedBill.paymentsReceived,
+      late_fee: parsedBill.lateFee,
+      payment_status: paymentStatusFor(parsedBill.totalCost, 0),
+      ...toUnitColumns(units),
+      ...toStoredRawText(parsedBill.rawText, await rawTextModeForProperty(propertyId)),
+      parser_version: PARSER_VERSION,
+    })
+    .select("id")
+    .single();
+
+  if (billError || !insertedBill?.id) {
+    return { billId: null, persistenceError: billError?.message ?? "insert_failed" };
+  }
+
+  const billId = insertedBill.id as string;
+
+  if (parsedBill.lineItems.length > 0) {
+    await supabase.from("bill_line_items").insert(
+      parsedBill.lineItems.map((line) => ({
+        bill_id: billId,
+        item_name: line.itemName,
+        category: line.category,
+        amount: line.amount,
+        quantity: line.quantity,
+        unit: line.unit,
+        rate: line.rate,
+        evidence: line.evidence ?? null,
+      })),
+    );
+  }
+
+  if (insights.length > 0) {
+    await supabase.from("insights").insert(
+      insights.map((insight) => ({
+        bill_id: billId,
+        type: insight.type,
+        severity: insight.severity,
+        message: insight.message,
+        est_savings: insight.estSavings,
+        residual: insight.residual,
+        metadata: insight.metadata ?? {},
+      })),
+    );
+  }
+
+  await rememberPropertyIdentifiers({
+    propertyId,
+    identifiers: hashBillIdentifiers(parsedBill).identifiers,
+    provider: parsedBill.provider,
+    source: "parsed",
+  });
+
+  return { billId, persistenceError: null };
+}
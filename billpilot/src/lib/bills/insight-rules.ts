@@ -0,0 +1,165 @@
+import {
+  DEFAULT_INSIGHT_RULES,
+  InsightRuleOverrides,
+  InsightRules,
+  resolveInsightRules,
+  SeverityThreshold,
+  THRESHOLD_RULES,
+} from "@/lib/parser/rules";
+import { getPropertyOwner } from "@/lib/properties";
+import { getServiceSupabaseClient } from "@/lib/supabase";
+
+export class InsightRuleError extends Error {
+  status: number;
+  code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export interface InsightRuleSettings {
+  userRules: InsightRuleOverrides;
+  // Null when the property only follows the user's rules.
+  propertyRules: InsightRuleOverrides | null;
+  effective: InsightRules;
+}
+
+function requireSupabase() {
+  const supabase = getServiceSupabaseClient();
+  if (!supabase) {
+    throw new InsightRuleError(500, "supabase_not_configured", "Supabase is not configured.");
+  }
+  return supabase;
+}
+
+// resolveInsightRules quietly lifts a high threshold up to its watch one; when
+// saving, the merged values are checked instead so the user hears about it.
+function resolveChecked(...layers: Array<InsightRuleOverrides | null>): InsightRules {
+  for (const rule of THRESHOLD_RULES) {
+    const merged = Object.assign(
+      { ...DEFAULT_INSIGHT_RULES.thresholds[rule] },
+      ...layers.map((layer) => layer?.thresholds?.[rule] ?? {}),
+    ) as SeverityThreshold;
+    if (merged.watch > merged.high) {
+      throw new InsightRuleError(
+        400,
+        "invalid_thresholds",
+        `The ${rule} watch threshold (${merged.watch}) is above its high threshold (${merged.high}).`,
+      );
+    }
+  }
+  return resolveInsightRules(...layers);
+}
+
+export async function getUserInsightRules(userId: string): Promise<InsightRuleOverrides> {
+  const supabase = requireSupabase();
+  const { data, error } = await supabase
+    .from("insight_rule_settings")
+    .select("rules")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new InsightRuleError(500, "insight_rules_lookup_failed", error.message);
+  }
+  return (data as { rules: InsightRuleOverrides } | null)?.rules ?? {};
+}
+
+export async function getPropertyInsightRules(
+  propertyId: string,
+): Promise<InsightRuleOverrides | null> {
+  const supabase = requireSupabase();
+  const { data, error } = await supabase
+    .from("properties")
+    .select("insight_rules")
+    .eq("id", propertyId)
+    .maybeSingle();
+
+  if (error) {
+    throw new InsightRuleError(500, "insight_rules_lookup_failed", error.message);
+  }
+  return (data as { insight_rules: InsightRuleOverrides | null } | null)?.insight_rules ?? null;
+}
+
+export async function getInsightRuleSettings(
+  userId: string,
+  propertyId?: string,
+): Promise<InsightRuleSettings> {
+  const [userRules, propertyRules] = await Promise.all([
+    getUserInsightRules(userId),
+    propertyId ? getPropertyInsightRules(propertyId) : Promise.resolve(null),
+  ]);
+  return {
+    userRules,
+    propertyRules,
+    effective: resolveInsightRules(userRules, propertyRules),
+  };
+}
+
+export async function saveUserInsightRules(
+  userId: string,
+  rules: InsightRuleOverrides,
+): Promise<InsightRuleSettings> {
+  const supabase = requireSupabase();
+  const effective = resolveChecked(rules);
+
+  const { error } = await supabase.from("insight_rule_settings").upsert(
+    {
+      user_id: userId,
+      rules,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "user_id" },
+  );
+  if (error) {
+    throw new InsightRuleError(500, "insight_rules_save_failed", error.message);
+  }
+  return { userRules: rules, propertyRules: null, effective };
+}
+
+// Null clears the property's overrides so it follows the user's rules again.
+export async function savePropertyInsightRules(input: {
+  userId: string;
+  propertyId: string;
+  rules: InsightRuleOverrides | null;
+}): Promise<InsightRuleSettings> {
+  const supabase = requireSupabase();
+  const userRules = await getUserInsightRules(input.userId);
+  const effective = resolveChecked(userRules, input.rules);
+
+  const { error } = await supabase
+    .from("properties")
+    .update({ insight_rules: input.rules })
+    .eq("id", input.propertyId);
+  if (error) {
+    throw new InsightRuleError(500, "insight_rules_save_failed", error.message);
+  }
+  return { userRules, propertyRules: input.rules, effective };
+}
+
+// The rules a bill is scored with at parse and re-parse time. Like the other
+// lookups around scoring, a failure falls back to the defaults rather than
+// failing the parse.
+export async function loadInsightRules(input: {
+  userId?: string | null;
+  propertyId?: string | null;
+}): Promise<InsightRules> {
+  if (!getServiceSupabaseClient()) {
+    return resolveInsightRules();
+  }
+  try {
+    const userId =
+      input.userId ??
+      (input.propertyId ? (await getPropertyOwner(input.propertyId))?.user_id : null);
+    if (!userId) {
+      return resolveInsightRules();
+    }
+    const settings = await getInsightRuleSettings(userId, input.propertyId ?? undefined);
+    return settings.effective;
+  } catch {
+    return resolveInsightRules();
+  }
+}
@@ -0,0 +1,611 @@
+import { Buffer } from "node:buffer";
+import { randomUUID } from "node:crypto";
+
+import { AnalysisQuota, getAnalysisQuota } from "@/lib/billing/quota";
+import { extractTextFromFile } from "@/lib/parser/extractText";
+import { ExtractedText } from "@/lib/parser/types";
+import { getPropertyLocale } from "@/lib/properties";
+import { getServiceSupabaseClient } from "@/lib/supabase";
+
+import { expandBatchFiles, runBillBatch } from "./batch";
+import { DUPLICATE_ACTIONS, DuplicateAction, hashFileContent } from "./duplicates";
+import { parseStatement } from "./parse-statement";
+import { encryptRawText, readStoredRawText } from "./privacy";
+import { redactBillText } from "./redaction";
+
+export const PARSE_JOB_KINDS = ["parse", "batch"] as const;
+export type ParseJobKind = (typeof PARSE_JOB_KINDS)[number];
+
+export const PARSE_JOB_STATUSES = ["queued", "running", "succeeded", "failed"] as const;
+export type ParseJobStatus = (typeof PARSE_JOB_STATUSES)[number];
+
+const DEFAULT_BUCKET = "bill-files";
+const DEFAULT_MAX_ATTEMPTS = 3;
+const RETRY_BASE_SECONDS = 30;
+// A running job whose lock is older than this is taken to have died with its
+// worker and is claimed again.
+const STALE_LOCK_MS = 15 * 60 * 1000;
+const MIN_BILL_TEXT_LENGTH = 20;
+const JOB_COLUMNS =
+  "id, user_id, property_id, kind, status, payload, files, progress, result, error_code, error, attempts, max_attempts, run_after, locked_at, started_at, finished_at, created_at, updated_at";
+
+export class ParseJobError extends Error {
+  status: number;
+  code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export interface ParseJobOptions {
+  rawText?: string;
+  fileUrl?: string;
+  onDuplicate?: DuplicateAction;
+  provider?: string;
+  currency?: string;
+  template?: string;
+  locale?: string;
+}
+
+export interface ParseJobFile {
+  bucket: string;
+  path: string;
+  name: string;
+  type: string;
+  size: number;
+}
+
+export interface ParseJobProgress {
+  stage: "queued" | "extracting" | "parsing" | "storing" | "done";
+  completed: number | null;
+  total: number | null;
+}
+
+export interface ParseJob {
+  id: string;
+  userId: string;
+  propertyId: string;
+  kind: ParseJobKind;
+  status: ParseJobStatus;
+  options: ParseJobOptions;
+  files: Array<Omit<ParseJobFile, "bucket" | "path">>;
+  progress: ParseJobProgress;
+  result: unknown;
+  errorCode: string | null;
+  error: string | null;
+  attempts: number;
+  maxAttempts: number;
+  runAfter: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ParseJobRunSummary {
+  claimed: number;
+  succeeded: number;
+  failed: number;
+  retried: number;
+  jobs: Array<{ id: string; status: ParseJobStatus; error: string | null }>;
+}
+
+// Pasted text waits for its job encrypted, never in the clear, so the parse
+// still reads the full original (account and meter numbers, service address).
+// rawText is only read from jobs queued before this.
+interface StoredJobPayload extends ParseJobOptions {
+  rawTextEncrypted?: string;
+}
+
+interface ParseJobRow {
+  id: string;
+  user_id: string;
+  property_id: string;
+  kind: ParseJobKind;
+  status: ParseJobStatus;
+  payload: StoredJobPayload | null;
+  files: ParseJobFile[] | null;
+  progress: Partial<ParseJobProgress> | null;
+  result: unknown;
+  error_code: string | null;
+  error: string | null;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  locked_at: string | null;
+  started_at: string | null;
+  finished_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// How a claimed job ended when it did not throw: succeeded, or failed for a
+// reason retrying cannot fix (duplicate, quota, no bill text).
+interface JobOutcome {
+  status: "succeeded" | "failed";
+  result: unknown;
+  errorCode: string | null;
+  error: string | null;
+}
+
+function requireSupabase() {
+  const supabase = getServiceSupabaseClient();
+  if (!supabase) {
+    throw new ParseJobError(
+      500,
+      "supabase_not_configured",
+      "Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY first.",
+    );
+  }
+  return supabase;
+}
+
+function sanitizeFilename(name: string): string {
+  return name.replace(/[^a-zA-Z0-9._-]/g, "_").slice(0, 140);
+}
+
+function toParseJob(row: ParseJobRow): ParseJob {
+  const options: StoredJobPayload = { ...row.payload };
+  delete options.rawTextEncrypted;
+  return {
+    id: row.id,
+    userId: row.user_id,
+    propertyId: row.property_id,
+    kind: row.kind,
+    status: row.status,
+    options,
+    files: (row.files ?? []).map((file) => ({ name: file.name, type: file.type, size: file.size })),
+    progress: {
+      stage: row.progress?.stage ?? "queued",
+      completed: row.progress?.completed ?? null,
+      total: row.progress?.total ?? null,
+    },
+    result: row.result,
+    errorCode: row.error_code,
+    error: row.error,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    runAfter: row.run_after,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Domain errors below 500 (bad input, ownership) fail the job for good;
+// anything else (storage, database, OCR crashes) is retried.
+function isRetryable(error: unknown): boolean {
+  if (error && typeof error === "object" && "status" in error && typeof error.status === "number") {
+    return error.status >= 500;
+  }
+  return true;
+}
+
+function retryDelaySeconds(attempts: number): number {
+  return RETRY_BASE_SECONDS * 4 ** Math.max(0, attempts - 1);
+}
+
+function failedOutcome(errorCode: string, error: string, result: unknown = null): JobOutcome {
+  return { status: "failed", result, errorCode, error };
+}
+
+function quotaFailure(quota: AnalysisQuota): JobOutcome | null {
+  if (quota.reason === "property_not_owned" || quota.reason === "property_not_found") {
+    return failedOutcome(quota.reason, "The job's property is missing or no longer owned by its user.");
+  }
+  if (!quota.allowed) {
+    return failedOutcome(
+      "free_tier_limit_reached",
+      "Free plan allows 2 analyses per month. Upgrade to continue.",
+      { quota },
+    );
+  }
+  return null;
+}
+
+// Files are stored under the bills bucket before the job is queued so any
+// worker can pick it up; a parse job's bill points at its stored file.
+export async function enqueueParseJob(input: {
+  userId: string;
+  propertyId: string;
+  kind: ParseJobKind;
+  options: ParseJobOptions;
+  files: File[];
+}): Promise<ParseJob> {
+  const supabase = requireSupabase();
+  const jobId = randomUUID();
+  const bucket = process.env.SUPABASE_BILLS_BUCKET ?? DEFAULT_BUCKET;
+  const stored: ParseJobFile[] = [];
+
+  for (const [index, file] of input.files.entries()) {
+    const path = `${input.propertyId}/jobs/${jobId}/${index + 1}-${sanitizeFilename(file.name)}`;
+    const type = file.type || "application/octet-stream";
+    const { error } = await supabase.storage
+      .from(bucket)
+      .upload(path, Buffer.from(await file.arrayBuffer()), { contentType: type, upsert: false });
+
+    if (error) {
+      throw new ParseJobError(500, "upload_failed", error.message);
+    }
+    stored.push({ bucket, path, name: file.name, type, size: file.size });
+  }
+
+  let payload: StoredJobPayload = input.options;
+  if (input.options.rawText) {
+    const encrypted = encryptRawText(input.options.rawText);
+    if (!encrypted) {
+      throw new ParseJobError(
+        409,
+        "encryption_not_configured",
+        "Queued text parses need BILL_TEXT_ENCRYPTION_KEY to be set on the server; send the text to /api/bills/parse instead.",
+      );
+    }
+    payload = { ...input.options, rawText: undefined, rawTextEncrypted: encrypted };
+  }
+
+  const { data, error } = await supabase
+    .from("parse_jobs")
+    .insert({
+      id: jobId,
+      user_id: input.userId,
+      property_id: input.propertyId,
+      kind: input.kind,
+      payload,
+      files: stored,
+      progress: { stage: "queued", completed: null, total: null },
+      max_attempts: DEFAULT_MAX_ATTEMPTS,
+    })
+    .select(JOB_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new ParseJobError(500, "job_create_failed", error?.message ?? "Unable to queue the job.");
+  }
+  return toParseJob(data as ParseJobRow);
+}
+
+async function loadJobRow(jobId: string, userId: string): Promise<ParseJobRow | null> {
+  const supabase = requireSupabase();
+  const { data, error } = await supabase
+    .from("parse_jobs")
+    .select(JOB_COLUMNS)
+    .eq("id", jobId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new ParseJobError(500, "job_lookup_failed", error.message);
+  }
+  return (data as ParseJobRow | null) ?? null;
+}
+
+export async function getParseJobForUser(jobId: string, userId: string): Promise<ParseJob | null> {
+  const row = await loadJobRow(jobId, userId);
+  return row ? toParseJob(row) : null;
+}
+
+export async function listParseJobs(input: {
+  userId: string;
+  propertyId?: string;
+  status?: ParseJobStatus;
+  limit: number;
+}): Promise<ParseJob[]> {
+  const supabase = requireSupabase();
+  let query = supabase
+    .from("parse_jobs")
+    .select(JOB_COLUMNS)
+    .eq("user_id", input.userId);
+  if (input.propertyId) {
+    query = query.eq("property_id", input.propertyId);
+  }
+  if (input.status) {
+    query = query.eq("status", input.status);
+  }
+
+  const { data, error } = await query.order("created_at", { ascending: false }).limit(input.limit);
+  if (error) {
+    throw new ParseJobError(500, "job_lookup_failed", error.message);
+  }
+  return ((data as ParseJobRow[] | null) ?? []).map(toParseJob);
+}
+
+// Puts a failed job back in the queue with a fresh set of attempts. A job that
+// stopped on a duplicate bill is retried with onDuplicate set.
+export async function retryParseJob(
+  jobId: string,
+  userId: string,
+  overrides: { onDuplicate?: DuplicateAction } = {},
+): Promise<ParseJob> {
+  const existing = await loadJobRow(jobId, userId);
+  if (!existing) {
+    throw new ParseJobError(404, "job_not_found", "No parse job with this id.");
+  }
+  if (existing.status !== "failed") {
+    throw new ParseJobError(409, "job_not_failed", `Only failed jobs can be retried; this one is ${existing.status}.`);
+  }
+
+  const supabase = requireSupabase();
+  const { data, error } = await supabase
+    .from("parse_jobs")
+    .update({
+      status: "queued",
+      payload: { ...existing.payload, ...overrides },
+      attempts: 0,
+      run_after: new Date().toISOString(),
+      progress: { stage: "queued", completed: null, total: null },
+      result: null,
+      error_code: null,
+      error: null,
+      locked_at: null,
+      finished_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", jobId)
+    .eq("user_id", userId)
+    .eq("status", "failed")
+    .select(JOB_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new ParseJobError(500, "job_update_failed", error.message);
+  }
+  if (!data) {
+    throw new ParseJobError(409, "job_not_failed", "The job was picked up again before this retry.");
+  }
+  return toParseJob(data as ParseJobRow);
+}
+
+async function setProgress(jobId: string, progress: ParseJobProgress): Promise<void> {
+  const supabase = requireSupabase();
+  await supabase
+    .from("parse_jobs")
+    .update({ progress, updated_at: new Date().toISOString() })
+    .eq("id", jobId);
+}
+
+async function downloadJobFile(file: ParseJobFile): Promise<File> {
+  const supabase = requireSupabase();
+  const { data, error } = await supabase.storage.from(file.bucket).download(file.path);
+  if (error || !data) {
+    throw new ParseJobError(500, "download_failed", error?.message ?? `Unable to read ${file.name}.`);
+  }
+  return new File([await data.arrayBuffer()], file.name, { type: file.type });
+}
+
+async function runParseKind(job: ParseJobRow): Promise<JobOutcome> {
+  const options = job.payload ?? {};
+  const quota = await getAnalysisQuota(job.property_id, job.user_id);
+  const quotaOutcome = quotaFailure(quota);
+  if (quotaOutcome) {
+    return quotaOutcome;
+  }
+
+  await setProgress(job.id, { stage: "extracting", completed: 0, total: 1 });
+  const stored = job.files?.[0];
+  let rawText = readStoredRawText({
+    raw_text: options.rawText ?? null,
+    raw_text_encrypted: options.rawTextEncrypted,
+  });
+  let fileHash: string | undefined;
+  let extraction: Omit<ExtractedText, "text"> = { source: "plain_text", ocr: null };
+  if (stored) {
+    const file = await downloadJobFile(stored);
+    fileHash = hashFileContent(new Uint8Array(await file.arrayBuffer()));
+    const extracted = await extractTextFromFile(file);
+    rawText = extracted.text;
+    extraction = { source: extracted.source, ocr: extracted.ocr };
+  }
+  if (rawText.trim().length < MIN_BILL_TEXT_LENGTH) {
+    return failedOutcome("no_bill_text", "No bill text found in this file.");
+  }
+
+  await setProgress(job.id, { stage: "parsing", completed: 0, total: 1 });
+  const outcome = await parseStatement({
+    userId: job.user_id,
+    rawText,
+    propertyId: job.property_id,
+    fileUrl: options.fileUrl ?? (stored ? `${stored.bucket}/${stored.path}` : undefined),
+    fileHash,
+    onDuplicate: options.onDuplicate,
+    provider: options.provider,
+    currency: options.currency,
+    template: options.template,
+    locale: options.locale,
+    extraction,
+    quota,
+  });
+
+  if (outcome.kind === "duplicate") {
+    return failedOutcome(
+      "duplicate_bill",
+      "This bill looks like one already stored for the property. Retry the job with onDuplicate set to skip, replace or keep_both.",
+      { options: DUPLICATE_ACTIONS, duplicates: outcome.duplicates, statementId: outcome.statementId },
+    );
+  }
+  // The job row outlives the bill, so it keeps the redacted text only and
+  // none of the identifiers read from the original.
+  const result = {
+    ...outcome.result,
+    bill: {
+      ...outcome.result.bill,
+      rawText: redactBillText(outcome.result.bill.rawText).text,
+      accountNumber: null,
+      meterNumbers: [],
+      serviceAddress: null,
+    },
+  };
+  return { status: "succeeded", result, errorCode: null, error: null };
+}
+
+async function runBatchKind(job: ParseJobRow): Promise<JobOutcome> {
+  const options = job.payload ?? {};
+  const quota = await getAnalysisQuota(job.property_id, job.user_id);
+  const quotaOutcome = quotaFailure(quota);
+  if (quotaOutcome) {
+    return quotaOutcome;
+  }
+
+  const stored = job.files ?? [];
+  const uploads: File[] = [];
+  for (const [index, file] of stored.entries()) {
+    await setProgress(job.id, { stage: "extracting", completed: index, total: stored.length });
+    uploads.push(await downloadJobFile(file));
+  }
+
+  const { files, failures } = await expandBatchFiles(uploads);
+  const result = await runBillBatch({
+    userId: job.user_id,
+    propertyId: job.property_id,
+    files,
+    failures,
+    locale: options.locale ?? (await getPropertyLocale(job.property_id)),
+    currency: options.currency,
+    onDuplicate: options.onDuplicate,
+    quota,
+    onProgress: (progress) => setProgress(job.id, progress),
+  });
+  return { status: "succeeded", result, errorCode: null, error: null };
+}
+
+// Takes a job for this worker; the status/attempts match makes the update a
+// compare-and-set, so two runners never process the same job.
+async function claimJob(row: ParseJobRow): Promise<ParseJobRow | null> {
+  const supabase = requireSupabase();
+  const now = new Date().toISOString();
+  const { data } = await supabase
+    .from("parse_jobs")
+    .update({
+      status: "running",
+      attempts: row.attempts + 1,
+      locked_at: now,
+      started_at: row.started_at ?? now,
+      updated_at: now,
+    })
+    .eq("id", row.id)
+    .eq("status", row.status)
+    .eq("attempts", row.attempts)
+    .select(JOB_COLUMNS)
+    .maybeSingle();
+
+  return (data as ParseJobRow | null) ?? null;
+}
+
+async function finishJob(
+  row: ParseJobRow,
+  outcome: JobOutcome | { status: "queued"; error: string; errorCode: string; runAfter: string },
+): Promise<void> {
+  const supabase = requireSupabase();
+  const now = new Date().toISOString();
+  const update =
+    outcome.status === "queued"
+      ? {
+          status: "queued",
+          run_after: outcome.runAfter,
+          error_code: outcome.errorCode,
+          error: outcome.error,
+          progress: { stage: "queued", completed: null, total: null },
+          locked_at: null,
+          updated_at: now,
+        }
+      : {
+          status: outcome.status,
+          // Pasted bill text is only needed until the bill is stored; a failed
+          // job keeps it, still encrypted, so it can be retried.
+          payload:
+            outcome.status === "succeeded" && (row.payload?.rawText || row.payload?.rawTextEncrypted)
+              ? { ...row.payload, rawText: undefined, rawTextEncrypted: undefined }
+              : row.payload,
+          result: outcome.result,
+          error_code: outcome.errorCode,
+          error: outcome.error,
+          progress: {
+            ...(row.progress ?? {}),
+            stage: outcome.status === "succeeded" ? "done" : row.progress?.stage ?? "queued",
+          },
+          locked_at: null,
+          finished_at: now,
+          updated_at: now,
+        };
+
+  await supabase.from("parse_jobs").update(update).eq("id", row.id);
+}
+
+async function processJob(row: ParseJobRow): Promise<{ status: ParseJobStatus; error: string | null }> {
+  try {
+    const outcome = row.kind === "batch" ? await runBatchKind(row) : await runParseKind(row);
+    await finishJob(row, outcome);
+    return { status: outcome.status, error: outcome.error };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const errorCode =
+      error && typeof error === "object" && "code" in error && typeof error.code === "string"
+        ? error.code
+        : "job_failed";
+
+    if (isRetryable(error) && row.attempts < row.max_attempts) {
+      await finishJob(row, {
+        status: "queued",
+        errorCode,
+        error: message,
+        runAfter: new Date(Date.now() + retryDelaySeconds(row.attempts) * 1000).toISOString(),
+      });
+      return { status: "queued", error: message };
+    }
+    await finishJob(row, failedOutcome(errorCode, message));
+    return { status: "failed", error: message };
+  }
+}
+
+// Claims up to `limit` due jobs (or just `jobId`) and runs them one after
+// another. Called by the cron runner and right after a job is queued.
+export async function runParseJobs(input: { limit: number; jobId?: string }): Promise<ParseJobRunSummary> {
+  const supabase = requireSupabase();
+  const now = new Date().toISOString();
+  const staleBefore = new Date(Date.now() - STALE_LOCK_MS).toISOString();
+  let query = supabase
+    .from("parse_jobs")
+    .select(JOB_COLUMNS)
+    .or(`and(status.eq.queued,run_after.lte.${now}),and(status.eq.running,locked_at.lt.${staleBefore})`);
+  if (input.jobId) {
+    query = query.eq("id", input.jobId);
+  }
+
+  const { data, error } = await query.order("run_after", { ascending: true }).limit(input.limit);
+  if (error) {
+    throw new ParseJobError(500, "job_lookup_failed", error.message);
+  }
+
+  const summary: ParseJobRunSummary = { claimed: 0, succeeded: 0, failed: 0, retried: 0, jobs: [] };
+  for (const candidate of (data as ParseJobRow[] | null) ?? []) {
+    const row = await claimJob(candidate);
+    if (!row) {
+      continue;
+    }
+    summary.claimed += 1;
+
+    // A stale job that already used its attempts is not run again.
+    if (row.attempts > row.max_attempts) {
+      const message = row.error ?? "The worker stopped before the job finished.";
+      await finishJob(row, failedOutcome("attempts_exhausted", message));
+      summary.failed += 1;
+      summary.jobs.push({ id: row.id, status: "failed", error: message });
+      continue;
+    }
+
+    const { status, error: jobError } = await processJob(row);
+    if (status === "succeeded") {
+      summary.succeeded += 1;
+    } else if (status === "failed") {
+      summary.failed += 1;
+    } else {
+      summary.retried += 1;
+    }
+    summary.jobs.push({ id: row.id, status, error: jobError });
+  }
+
+  return summary;
+}
@@ -0,0 +1,42 @@
+import { propertyBelongsToUser } from "@/lib/properties";
+import { getServiceSupabaseClient } from "@/lib/supabase";
+
+export class BillOwnershipError extends Error {
+  status: number;
+  code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// Loads a bill by id with the given columns, for the user who owns its
+// property. Bills of other users are reported as missing rather than forbidden
+// so ids cannot be probed. Callers map BillOwnershipError to their own error.
+export async function findOwnedBill<Row extends { property_id: string }>(
+  userId: string,
+  billId: string,
+  columns: string,
+): Promise<Row> {
+  const supabase = getServiceSupabaseClient();
+  if (!supabase) {
+    throw new BillOwnershipError(500, "supabase_not_configured", "Supabase is not configured.");
+  }
+
+  const { data, error } = await supabase
+    .from("bills")
+    .select(columns)
+    .eq("id", billId)
+    .returns<Row[]>()
+    .maybeSingle();
+
+  if (error) {
+    throw new BillOwnershipError(500, "bill_lookup_failed", error.message);
+  }
+  if (!data || !(await propertyBelongsToUser(data.property_id, userId))) {
+    throw new BillOwnershipError(404, "bill_not_found", "Bill not found for this user.");
+  }
+  return data;
+}
@@ -0,0 +1,246 @@
+import { randomUUID } from "node:crypto";
+
+import { AnalysisQuota } from "@/lib/billing/quota";
+import { InsightEngineOutput } from "@/lib/parser/insights";
+import { parseBillFields } from "@/lib/parser/parseFields";
+import { ExtractedText, HistoricalBillSnapshot, Insight, ParsedBill } from "@/lib/parser/types";
+import { getPropertyLocale } from "@/lib/properties";
+import { loadTariffSuggestion } from "@/lib/tariffs/simulator";
+import { loadWeatherNormalization } from "@/lib/weather/normalization";
+
+import { loadProviderLearning } from "./corrections";
+import {
+  DuplicateAction,
+  DuplicateBill,
+  findDuplicateBills,
+  removeDuplicateBills,
+} from "./duplicates";
+import { analyzeParsedBill, loadPriorBillsFromDb, persistParseResult, ServiceAnalysis } from "./ingest";
+import { loadInsightRules } from "./insight-rules";
+
+export interface ParseStatementInput {
+  userId: string | null;
+  rawText: string;
+  propertyId?: string;
+  fileUrl?: string;
+  fileHash?: string;
+  onDuplicate?: DuplicateAction;
+  provider?: string;
+  currency?: string;
+  template?: string;
+  locale?: string;
+  priorBills?: HistoricalBillSnapshot[];
+  extraction: Omit<ExtractedText, "text">;
+  quota: AnalysisQuota;
+}
+
+export interface ParseStatementResult {
+  bill: ParsedBill;
+  template: ParsedBill["template"];
+  extraction: Omit<ExtractedText, "text">;
+  parseConfidence: number;
+  requiresManualReview: boolean;
+  ambiguousDates: ParsedBill["ambiguousDates"];
+  priorBillsUsed: number;
+  expectedCost: InsightEngineOutput["expectedCost"];
+  expectedUsage: InsightEngineOutput["expectedUsage"];
+  framework: InsightEngineOutput["framework"];
+  decision: InsightEngineOutput["decision"];
+  insights: Insight[];
+  statementId: string;
+  services: Array<ReturnType<typeof serviceSummary>>;
+  quota: AnalysisQuota;
+  persistedBillId: string | null;
+  persistedBillIds: string[];
+  persistenceError: string | null;
+  duplicates: DuplicateBill[];
+  duplicateAction: DuplicateAction | null;
+  replacedBills: number;
+}
+
+// A likely duplicate stops the parse before anything is stored; the caller
+// asks what to do and sends the statement again with onDuplicate set.
+export type ParseStatementOutcome =
+  | { kind: "duplicate"; duplicates: DuplicateBill[]; statementId: string }
+  | { kind: "parsed"; result: ParseStatementResult };
+
+const DECISION_RANK: Record<InsightEngineOutput["decision"], number> = {
+  SHIP: 0,
+  "BOUNDARY-BAND ONLY": 1,
+  "NO-SHIP": 2,
+};
+
+function serviceSummary(analysis: ServiceAnalysis, persistedBillId: string | null) {
+  return {
+    serviceType: analysis.serviceType,
+    totalCost: analysis.bill.totalCost,
+    usageValue: analysis.bill.usageValue,
+    usageUnit: analysis.bill.usageUnit,
+    lineItems: analysis.bill.lineItems,
+    lineItemReconciliation: analysis.bill.lineItemReconciliation,
+    units: analysis.units,
+    usageComponents: analysis.bill.usageComponents,
+    demandKw: analysis.bill.demandKw,
+    demandCharge: analysis.bill.demandCharge,
+    evidence: analysis.bill.evidence,
+    parseConfidence: analysis.confidence,
+    priorBillsUsed: analysis.priorBills.length,
+    expectedCost: analysis.output.expectedCost,
+    expectedUsage: analysis.output.expectedUsage,
+    framework: analysis.output.framework,
+    decision: analysis.output.decision,
+    insights: analysis.output.insights,
+    persistedBillId,
+  };
+}
+
+// Parses extracted statement text, scores each service against prior bills
+// and, with a propertyId, stores the bills. Shared by POST /api/bills/parse
+// and the parse job runner; quota and ownership are checked by the caller.
+export async function parseStatement(input: ParseStatementInput): Promise<ParseStatementOutcome> {
+  const locale =
+    input.locale ?? (input.propertyId ? await getPropertyLocale(input.propertyId) : null);
+  const parseOverrides = {
+    providerOverride: input.provider,
+    currencyOverride: input.currency,
+    templateOverride: input.template,
+    locale,
+  };
+  const firstPass = parseBillFields(input.rawText, parseOverrides);
+  // The parsed provider picks which of the user's corrections apply; when any
+  // do, the bill is read again with what they taught.
+  const learned = input.userId ? await loadProviderLearning(input.userId, firstPass.provider) : null;
+  const parsedBill = learned
+    ? parseBillFields(input.rawText, { ...parseOverrides, learned })
+    : firstPass;
+  const statementId = randomUUID();
+  const rules = await loadInsightRules({ userId: input.userId, propertyId: input.propertyId });
+  const analyses = await analyzeParsedBill(parsedBill, {
+    ocr: input.extraction.ocr,
+    loadPriorBills: async (serviceType) =>
+      input.priorBills ??
+      (input.propertyId ? loadPriorBillsFromDb(input.propertyId, serviceType) : []),
+    // Explicit priorBills mean the caller wants the bill scored against them
+    // alone, so stored weather history is only used with stored bills.
+    loadWeather: async (serviceType, bill) =>
+      input.propertyId && !input.priorBills
+        ? loadWeatherNormalization(input.propertyId, serviceType, bill)
+        : null,
+    loadTariffSuggestion: async (serviceType) =>
+      input.propertyId ? loadTariffSuggestion(input.propertyId, serviceType) : null,
+    rules,
+  });
+
+  const primary = analyses[0];
+  const insightOutput = primary.output;
+  const confidence = Math.min(...analyses.map((analysis) => analysis.confidence));
+  const decision = analyses.reduce(
+    (worst, analysis) =>
+      DECISION_RANK[analysis.output.decision] > DECISION_RANK[worst]
+        ? analysis.output.decision
+        : worst,
+    insightOutput.decision,
+  );
+  const insights = analyses.flatMap((analysis) =>
+    analyses.length > 1
+      ? analysis.output.insights.map((insight) => ({
+          ...insight,
+          metadata: { ...insight.metadata, serviceType: analysis.serviceType },
+        }))
+      : analysis.output.insights,
+  );
+
+  const persistedBillIds: Array<string | null> = analyses.map(() => null);
+  let persistenceError: string | null = null;
+  let quota = input.quota;
+  let duplicates: DuplicateBill[] = [];
+  let replacedBills = 0;
+
+  if (input.propertyId) {
+    duplicates = await findDuplicateBills({
+      propertyId: input.propertyId,
+      fileHash: input.fileHash,
+      bills: analyses.map((analysis) => ({
+        ...analysis.bill,
+        serviceType: analysis.serviceType,
+      })),
+    });
+
+    if (duplicates.length > 0 && !input.onDuplicate) {
+      return { kind: "duplicate", duplicates, statementId };
+    }
+
+    if (duplicates.length > 0 && input.onDuplicate === "replace") {
+      replacedBills = await removeDuplicateBills(
+        input.propertyId,
+        duplicates.map((duplicate) => duplicate.billId),
+      );
+    }
+  }
+
+  if (input.propertyId && !(duplicates.length > 0 && input.onDuplicate === "skip")) {
+    for (const [index, analysis] of analyses.entries()) {
+      const original =
+        duplicates.find((duplicate) => duplicate.serviceType === analysis.serviceType) ??
+        duplicates.find((duplicate) => duplicate.reason === "same_file");
+      const duplicateOf =
+        input.onDuplicate === "keep_both" ? (original?.billId ?? null) : null;
+      const persistence = await persistParseResult({
+        propertyId: input.propertyId,
+        statementId,
+        serviceType: analysis.serviceType,
+        fileUrl: input.fileUrl,
+        fileHash: input.fileHash,
+        duplicateOf,
+        confidence: analysis.confidence,
+        ocrConfidence: input.extraction.ocr?.averageConfidence ?? null,
+        parsedBill: analysis.bill,
+        units: analysis.units,
+        insights: analysis.output.insights,
+      });
+      persistedBillIds[index] = persistence.billId;
+      persistenceError = persistenceError ?? persistence.persistenceError;
+    }
+
+    if (
+      persistedBillIds[0] &&
+      quota.enforced &&
+      quota.limit !== null &&
+      quota.usedThisMonth !== null
+    ) {
+      const usedThisMonth = quota.usedThisMonth + 1;
+      quota = {
+        ...quota,
+        usedThisMonth,
+        remaining: Math.max(0, quota.limit - usedThisMonth),
+      };
+    }
+  }
+
+  return {
+    kind: "parsed",
+    result: {
+      bill: parsedBill,
+      template: parsedBill.template,
+      extraction: input.extraction,
+      parseConfidence: confidence,
+      requiresManualReview: confidence < 0.8 || parsedBill.ambiguousDates.length > 0,
+      ambiguousDates: parsedBill.ambiguousDates,
+      priorBillsUsed: primary.priorBills.length,
+      expectedCost: insightOutput.expectedCost,
+      expectedUsage: insightOutput.expectedUsage,
+      framework: insightOutput.framework,
+      decision,
+      insights,
+      statementId,
+      services: analyses.map((analysis, index) => serviceSummary(analysis, persistedBillIds[index])),
+      quota,
+      persistedBillId: persistedBillIds[0],
+      persistedBillIds: persistedBillIds.filter((id): id is string => id !== null),
+      persistenceError,
+      duplicates,
+      duplicateAction: duplicates.length > 0 ? input.onDuplicate ?? null : null,
+      replacedBills,
+    },
+  };
+}
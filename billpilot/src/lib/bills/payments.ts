@@ -0,0 +1,439 @@
+import { getServiceSupabaseClient } from "@/lib/supabase";
+
+import { BillOwnershipError, findOwnedBill } from "./ownership";
+
+export const BILL_PAYMENT_STATUSES = ["unpaid", "partial", "paid"] as const;
+export type BillPaymentStatus = (typeof BILL_PAYMENT_STATUSES)[number];
+
+export const DEFAULT_PAYABLES_WINDOW_DAYS = 30;
+
+export class BillPaymentError extends Error {
+  status: number;
+  code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export interface BillPayment {
+  id: string;
+  billId: string;
+  amount: number;
+  paidOn: string;
+  method: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+export interface BillBalance {
+  billId: string;
+  totalCost: number | null;
+  currency: string;
+  dueDate: string | null;
+  amountPaid: number;
+  // What is left to pay; null when the bill has no total.
+  balance: number | null;
+  paymentStatus: BillPaymentStatus;
+  paidAt: string | null;
+}
+
+export interface Payable {
+  billId: string;
+  propertyId: string;
+  propertyName: string;
+  serviceType: string | null;
+  provider: string | null;
+  periodStart: string | null;
+  periodEnd: string | null;
+  dueDate: string;
+  // Negative once the due date has passed.
+  daysUntilDue: number;
+  totalCost: number | null;
+  amountPaid: number;
+  balance: number | null;
+  currency: string;
+  paymentStatus: BillPaymentStatus;
+  lateFee: number | null;
+}
+
+export interface PayablesTotal {
+  currency: string;
+  overdue: number;
+  upcoming: number;
+}
+
+export interface PayablesView {
+  asOf: string;
+  days: number;
+  overdue: Payable[];
+  upcoming: Payable[];
+  totals: PayablesTotal[];
+}
+
+interface BillBalanceRow {
+  id: string;
+  property_id: string;
+  total_cost: number | string | null;
+  currency: string | null;
+  due_date: string | null;
+  amount_paid: number | string | null;
+  payment_status: BillPaymentStatus;
+  paid_at: string | null;
+}
+
+interface PaymentRow {
+  id: string;
+  bill_id: string;
+  amount: number | string;
+  paid_on: string;
+  method: string | null;
+  note: string | null;
+  created_at: string;
+}
+
+interface PayableRow extends BillBalanceRow {
+  service_type: string | null;
+  provider: string | null;
+  period_start: string | null;
+  period_end: string | null;
+  late_fee: number | string | null;
+}
+
+const BALANCE_COLUMNS = "id, property_id, total_cost, currency, due_date, amount_paid, payment_status, paid_at";
+const PAYMENT_COLUMNS = "id, bill_id, amount, paid_on, method, note, created_at";
+const PAYABLE_COLUMNS = `${BALANCE_COLUMNS}, service_type, provider, period_start, period_end, late_fee`;
+// Cents left over from rounding do not keep a bill open.
+const BALANCE_TOLERANCE = 0.005;
+const MAX_PAYABLES = 500;
+
+function requireSupabase() {
+  const supabase = getServiceSupabaseClient();
+  if (!supabase) {
+    throw new BillPaymentError(500, "supabase_not_configured", "Supabase is not configured.");
+  }
+  return supabase;
+}
+
+function toNumberOrNull(value: unknown): number | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function roundCents(value: number): number {
+  return Number(value.toFixed(2));
+}
+
+function isoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / 86_400_000);
+}
+
+// A bill without a total is paid by any payment, since there is nothing to
+// compare the payments with. A zero or credit total owes nothing and is
+// settled as it stands.
+export function paymentStatusFor(totalCost: number | null, amountPaid: number): BillPaymentStatus {
+  if (totalCost !== null && totalCost <= BALANCE_TOLERANCE) {
+    return "paid";
+  }
+  if (amountPaid <= 0) {
+    return "unpaid";
+  }
+  if (totalCost === null || amountPaid >= totalCost - BALANCE_TOLERANCE) {
+    return "paid";
+  }
+  return "partial";
+}
+
+function outstanding(totalCost: number | null, amountPaid: number): number | null {
+  return totalCost === null ? null : Math.max(roundCents(totalCost - amountPaid), 0);
+}
+
+function toBillBalance(row: BillBalanceRow): BillBalance {
+  const totalCost = toNumberOrNull(row.total_cost);
+  const amountPaid = toNumberOrNull(row.amount_paid) ?? 0;
+  return {
+    billId: row.id,
+    totalCost,
+    currency: row.currency ?? "USD",
+    dueDate: row.due_date,
+    amountPaid,
+    balance: outstanding(totalCost, amountPaid),
+    paymentStatus: row.payment_status,
+    paidAt: row.paid_at,
+  };
+}
+
+function toBillPayment(row: PaymentRow): BillPayment {
+  return {
+    id: row.id,
+    billId: row.bill_id,
+    amount: toNumberOrNull(row.amount) ?? 0,
+    paidOn: row.paid_on,
+    method: row.method,
+    note: row.note,
+    createdAt: row.created_at,
+  };
+}
+
+async function loadOwnedBill(userId: string, billId: string): Promise<BillBalanceRow> {
+  try {
+    return await findOwnedBill<BillBalanceRow>(userId, billId, BALANCE_COLUMNS);
+  } catch (error) {
+    if (error instanceof BillOwnershipError) {
+      throw new BillPaymentError(error.status, error.code, error.message);
+    }
+    throw error;
+  }
+}
+
+async function loadPayments(billId: string): Promise<BillPayment[]> {
+  const supabase = requireSupabase();
+  const { data, error } = await supabase
+    .from("bill_payments")
+    .select(PAYMENT_COLUMNS)
+    .eq("bill_id", billId)
+    .order("paid_on", { ascending: true });
+
+  if (error) {
+    throw new BillPaymentError(500, "payment_lookup_failed", error.message);
+  }
+  return ((data as PaymentRow[] | null) ?? []).map(toBillPayment);
+}
+
+// amount_paid and payment_status are worked out from the payments on record
+// rather than adjusted in place, so two payments saved at once cannot lose one.
+async function refreshBillBalance(bill: BillBalanceRow, payments: BillPayment[]): Promise<BillBalance> {
+  const supabase = requireSupabase();
+  const amountPaid = roundCents(payments.reduce((sum, payment) => sum + payment.amount, 0));
+  const paymentStatus = paymentStatusFor(toNumberOrNull(bill.total_cost), amountPaid);
+  const { data, error } = await supabase
+    .from("bills")
+    .update({
+      amount_paid: amountPaid,
+      payment_status: paymentStatus,
+      paid_at:
+        paymentStatus === "paid" ? (bill.paid_at ?? new Date().toISOString()) : null,
+    })
+    .eq("id", bill.id)
+    .select(BALANCE_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new BillPaymentError(
+      500,
+      "bill_update_failed",
+      error?.message ?? "Failed to update the bill's payment status.",
+    );
+  }
+  return toBillBalance(data as BillBalanceRow);
+}
+
+// Works the payment status out again after something other than a payment
+// changed the bill's total: a correction, a re-parse or a revert.
+export async function refreshBillPaymentStatus(billId: string): Promise<void> {
+  const supabase = requireSupabase();
+  const { data, error } = await supabase
+    .from("bills")
+    .select(BALANCE_COLUMNS)
+    .eq("id", billId)
+    .maybeSingle();
+
+  if (error) {
+    throw new BillPaymentError(500, "bill_lookup_failed", error.message);
+  }
+  if (data) {
+    await refreshBillBalance(data as BillBalanceRow, await loadPayments(billId));
+  }
+}
+
+export async function listBillPayments(
+  userId: string,
+  billId: string,
+): Promise<{ bill: BillBalance; payments: BillPayment[] }> {
+  const bill = await loadOwnedBill(userId, billId);
+  return { bill: toBillBalance(bill), payments: await loadPayments(billId) };
+}
+
+// Records a payment against a bill. Without an amount the payment settles
+// whatever is still owed.
+export async function recordBillPayment(input: {
+  userId: string;
+  billId: string;
+  amount?: number;
+  paidOn?: string;
+  method?: string;
+  note?: string;
+}): Promise<{ bill: BillBalance; payment: BillPayment }> {
+  const supabase = requireSupabase();
+  const bill = await loadOwnedBill(input.userId, input.billId);
+  const current = toBillBalance(bill);
+
+  if (current.paymentStatus === "paid") {
+    throw new BillPaymentError(409, "bill_already_paid", "This bill is already paid in full.");
+  }
+  const amount = input.amount ?? current.balance;
+  if (amount === null) {
+    throw new BillPaymentError(
+      400,
+      "amount_required",
+      "This bill has no total, so the payment amount is required.",
+    );
+  }
+  if (current.balance !== null && amount > current.balance + BALANCE_TOLERANCE) {
+    throw new BillPaymentError(
+      409,
+      "payment_exceeds_balance",
+      `The payment is more than the ${current.balance.toFixed(2)} ${current.currency} still owed on this bill.`,
+    );
+  }
+
+  const { data, error } = await supabase
+    .from("bill_payments")
+    .insert({
+      bill_id: bill.id,
+      property_id: bill.property_id,
+      user_id: input.userId,
+      amount: roundCents(amount),
+      paid_on: input.paidOn ?? isoDay(new Date()),
+      method: input.method ?? null,
+      note: input.note ?? null,
+    })
+    .select(PAYMENT_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new BillPaymentError(
+      500,
+      "payment_create_failed",
+      error?.message ?? "Failed to record the payment.",
+    );
+  }
+
+  const balance = await refreshBillBalance(bill, await loadPayments(bill.id));
+  return { bill: balance, payment: toBillPayment(data as PaymentRow) };
+}
+
+export async function deleteBillPayment(
+  userId: string,
+  billId: string,
+  paymentId: string,
+): Promise<BillBalance> {
+  const supabase = requireSupabase();
+  const bill = await loadOwnedBill(userId, billId);
+  const { data, error } = await supabase
+    .from("bill_payments")
+    .delete()
+    .eq("bill_id", bill.id)
+    .eq("id", paymentId)
+    .select("id");
+
+  if (error) {
+    throw new BillPaymentError(500, "payment_delete_failed", error.message);
+  }
+  if (!data || data.length === 0) {
+    throw new BillPaymentError(404, "payment_not_found", "No such payment on this bill.");
+  }
+  return refreshBillBalance(bill, await loadPayments(bill.id));
+}
+
+// Unpaid and part-paid bills across the user's properties: everything past its
+// due date, and what falls due within the next `days` days. Bills without a
+// due date, and bills marked as duplicates, are left out.
+export async function listPayables(input: {
+  userId: string;
+  days: number;
+  propertyId?: string;
+}): Promise<PayablesView> {
+  const supabase = requireSupabase();
+  const today = isoDay(new Date());
+  const horizon = isoDay(new Date(Date.now() + input.days * 86_400_000));
+
+  const { data: properties, error: propertiesError } = await supabase
+    .from("properties")
+    .select("id, name")
+    .eq("user_id", input.userId);
+  if (propertiesError) {
+    throw new BillPaymentError(500, "property_lookup_failed", propertiesError.message);
+  }
+  const names = new Map(
+    ((properties as Array<{ id: string; name: string }> | null) ?? []).map((row) => [
+      row.id,
+      row.name,
+    ]),
+  );
+  if (input.propertyId && !names.has(input.propertyId)) {
+    throw new BillPaymentError(
+      403,
+      "forbidden_property",
+      "This property does not belong to the authenticated user.",
+    );
+  }
+  const propertyIds = input.propertyId ? [input.propertyId] : [...names.keys()];
+  if (propertyIds.length === 0) {
+    return { asOf: today, days: input.days, overdue: [], upcoming: [], totals: [] };
+  }
+
+  const { data, error } = await supabase
+    .from("bills")
+    .select(PAYABLE_COLUMNS)
+    .in("property_id", propertyIds)
+    .in("payment_status", ["unpaid", "partial"])
+    .is("duplicate_of", null)
+    .not("due_date", "is", null)
+    .lte("due_date", horizon)
+    .order("due_date", { ascending: true })
+    .limit(MAX_PAYABLES);
+  if (error) {
+    throw new BillPaymentError(500, "payables_lookup_failed", error.message);
+  }
+
+  const overdue: Payable[] = [];
+  const upcoming: Payable[] = [];
+  const totals = new Map<string, PayablesTotal>();
+  for (const row of (data as PayableRow[] | null) ?? []) {
+    const balance = toBillBalance(row);
+    // Bills stored before zero and credit totals counted as settled.
+    if (paymentStatusFor(balance.totalCost, balance.amountPaid) === "paid") {
+      continue;
+    }
+    const dueDate = row.due_date as string;
+    const payable: Payable = {
+      billId: row.id,
+      propertyId: row.property_id,
+      propertyName: names.get(row.property_id) ?? "",
+      serviceType: row.service_type,
+      provider: row.provider,
+      periodStart: row.period_start,
+      periodEnd: row.period_end,
+      dueDate,
+      daysUntilDue: daysBetween(today, dueDate),
+      totalCost: balance.totalCost,
+      amountPaid: balance.amountPaid,
+      balance: balance.balance,
+      currency: balance.currency,
+      paymentStatus: balance.paymentStatus,
+      lateFee: toNumberOrNull(row.late_fee),
+    };
+
+    const bucket = dueDate < today ? "overdue" : "upcoming";
+    (bucket === "overdue" ? overdue : upcoming).push(payable);
+    const total = totals.get(payable.currency) ?? {
+      currency: payable.currency,
+      overdue: 0,
+      upcoming: 0,
+    };
+    total[bucket] = roundCents(total[bucket] + (payable.balance ?? 0));
+    totals.set(payable.currency, total);
+  }
+
+  return { asOf: today, days: input.days, overdue, upcoming, totals: [...totals.values()] };
+}
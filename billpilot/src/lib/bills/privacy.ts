@@ -0,0 +1,286 @@
+import { createCipheriv, createDecipheriv, hkdfSync, randomBytes } from "node:crypto";
+
+import { getPropertyOwner } from "@/lib/properties";
+import { getServiceSupabaseClient } from "@/lib/supabase";
+
+import { redactBillText, RedactionEntry } from "./redaction";
+
+// What is kept of a bill's raw text once it has been parsed:
+// - redacted: the text with account/meter/card numbers, names and addresses
+//   masked (the default).
+// - encrypted: the redacted text, plus the original encrypted with
+//   BILL_TEXT_ENCRYPTION_KEY so a re-parse can read it in full.
+// - discard: no text at all; only the redaction map is kept.
+export const RAW_TEXT_MODES = ["redacted", "encrypted", "discard"] as const;
+export type RawTextMode = (typeof RAW_TEXT_MODES)[number];
+
+export interface BillPrivacySetting {
+  userId: string;
+  rawTextMode: RawTextMode;
+  updatedAt: string | null;
+}
+
+export interface StoredRawText {
+  raw_text: string;
+  raw_text_encrypted: string | null;
+  raw_text_mode: RawTextMode;
+  redaction_map: RedactionEntry[];
+}
+
+interface StoredTextRow {
+  id: string;
+  raw_text: string | null;
+  raw_text_mode: RawTextMode | null;
+  raw_text_encrypted: string | null;
+}
+
+interface PrivacySettingRow {
+  user_id: string;
+  raw_text_mode: string;
+  updated_at: string | null;
+}
+
+const MIN_KEY_LENGTH = 32;
+const CIPHER_PREFIX = "v1:";
+const APPLY_PAGE_SIZE = 200;
+
+function secretKeyMaterial(): string | null {
+  const secret = process.env.BILL_TEXT_ENCRYPTION_KEY?.trim();
+  return secret && secret.length >= MIN_KEY_LENGTH ? secret : null;
+}
+
+function deriveKey(purpose: string): Buffer | null {
+  const secret = secretKeyMaterial();
+  if (!secret) {
+    return null;
+  }
+  return Buffer.from(hkdfSync("sha256", secret, "billpilot", purpose, 32));
+}
+
+export function isRawTextEncryptionConfigured(): boolean {
+  return secretKeyMaterial() !== null;
+}
+
+// Keys the hashes in redaction maps and known property accounts. Null without
+// BILL_TEXT_ENCRYPTION_KEY: account and meter numbers are short enough to
+// brute-force from a hash under a known key, so none are stored at all.
+// Hashes stored under one key do not match another.
+export function redactionHashKey(): Buffer | null {
+  return deriveKey("redaction-hash");
+}
+
+// AES-256-GCM; the stored value is the version prefix, then IV, auth tag and
+// ciphertext as one base64 string.
+export function encryptRawText(text: string): string | null {
+  const key = deriveKey("raw-text");
+  if (!key) {
+    return null;
+  }
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(text, "utf8"), cipher.final()]);
+  return CIPHER_PREFIX + Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+}
+
+// Returns null when the key is missing, has changed, or the value was tampered
+// with; callers fall back to the redacted text.
+export function decryptRawText(value: string): string | null {
+  const key = deriveKey("raw-text");
+  if (!key || !value.startsWith(CIPHER_PREFIX)) {
+    return null;
+  }
+  try {
+    const payload = Buffer.from(value.slice(CIPHER_PREFIX.length), "base64");
+    const decipher = createDecipheriv("aes-256-gcm", key, payload.subarray(0, 12));
+    decipher.setAuthTag(payload.subarray(12, 28));
+    return Buffer.concat([decipher.update(payload.subarray(28)), decipher.final()]).toString("utf8");
+  } catch {
+    return null;
+  }
+}
+
+function normalizeMode(value: string | null | undefined): RawTextMode {
+  return RAW_TEXT_MODES.find((mode) => mode === value) ?? "redacted";
+}
+
+export function defaultBillPrivacySetting(userId: string): BillPrivacySetting {
+  return {
+    userId,
+    rawTextMode: "redacted",
+    updatedAt: null,
+  };
+}
+
+export async function getBillPrivacySetting(userId: string): Promise<BillPrivacySetting> {
+  const supabase = getServiceSupabaseClient();
+  if (!supabase) {
+    return defaultBillPrivacySetting(userId);
+  }
+
+  const { data } = await supabase
+    .from("bill_privacy_settings")
+    .select("user_id, raw_text_mode, updated_at")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (!data) {
+    return defaultBillPrivacySetting(userId);
+  }
+
+  const row = data as PrivacySettingRow;
+  return {
+    userId: row.user_id,
+    rawTextMode: normalizeMode(row.raw_text_mode),
+    updatedAt: row.updated_at,
+  };
+}
+
+export async function upsertBillPrivacySetting(input: {
+  userId: string;
+  rawTextMode: RawTextMode;
+}): Promise<BillPrivacySetting> {
+  const supabase = getServiceSupabaseClient();
+  if (!supabase) {
+    return { ...defaultBillPrivacySetting(input.userId), rawTextMode: input.rawTextMode };
+  }
+
+  const { data, error } = await supabase
+    .from("bill_privacy_settings")
+    .upsert(
+      {
+        user_id: input.userId,
+        raw_text_mode: input.rawTextMode,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "user_id" },
+    )
+    .select("user_id, raw_text_mode, updated_at")
+    .single();
+
+  if (error || !data) {
+    throw new Error(error?.message ?? "Failed to save bill privacy settings.");
+  }
+
+  const row = data as PrivacySettingRow;
+  return {
+    userId: row.user_id,
+    rawTextMode: normalizeMode(row.raw_text_mode),
+    updatedAt: row.updated_at,
+  };
+}
+
+export async function rawTextModeForProperty(propertyId: string): Promise<RawTextMode> {
+  const owner = await getPropertyOwner(propertyId);
+  return owner ? (await getBillPrivacySetting(owner.user_id)).rawTextMode : "redacted";
+}
+
+// Builds the raw text columns for a bill under the given mode. "encrypted"
+// without a configured key stores the redacted text only.
+export function toStoredRawText(rawText: string, mode: RawTextMode): StoredRawText {
+  const redacted = redactBillText(rawText, { hashKey: redactionHashKey() });
+  if (mode === "discard") {
+    return {
+      raw_text: "",
+      raw_text_encrypted: null,
+      raw_text_mode: "discard",
+      redaction_map: redacted.map,
+    };
+  }
+
+  const encrypted = mode === "encrypted" ? encryptRawText(rawText) : null;
+  return {
+    raw_text: redacted.text,
+    raw_text_encrypted: encrypted,
+    raw_text_mode: encrypted ? "encrypted" : "redacted",
+    redaction_map: redacted.map,
+  };
+}
+
+// The fullest text still available for a stored bill: the decrypted original
+// when there is one, otherwise the redacted text.
+export function readStoredRawText(row: {
+  raw_text: string | null;
+  raw_text_encrypted?: string | null;
+}): string {
+  const original = row.raw_text_encrypted ? decryptRawText(row.raw_text_encrypted) : null;
+  return original ?? row.raw_text ?? "";
+}
+
+// What a stored bill's text columns become under a new mode, or null when they
+// stay as they are. Bills stored before redaction still hold the original, so
+// they get any mode; afterwards the original only survives encrypted, and a
+// redacted bill cannot become an encrypted one.
+function columnsUnderMode(row: StoredTextRow, mode: RawTextMode): Partial<StoredRawText> | null {
+  if (row.raw_text_mode === null) {
+    return toStoredRawText(row.raw_text ?? "", mode);
+  }
+  if (row.raw_text_mode === mode) {
+    return null;
+  }
+  if (mode === "discard") {
+    return { raw_text: "", raw_text_encrypted: null, raw_text_mode: "discard" };
+  }
+  if (mode === "redacted" && row.raw_text_mode === "encrypted") {
+    return { raw_text_encrypted: null, raw_text_mode: "redacted" };
+  }
+  return null;
+}
+
+// Rewrites the raw text of every bill on the user's properties to match mode.
+export async function applyRawTextModeToStoredBills(
+  userId: string,
+  mode: RawTextMode,
+): Promise<{ updated: number }> {
+  const supabase = getServiceSupabaseClient();
+  if (!supabase) {
+    return { updated: 0 };
+  }
+
+  const { data: properties, error: propertiesError } = await supabase
+    .from("properties")
+    .select("id")
+    .eq("user_id", userId);
+  if (propertiesError) {
+    throw new Error(propertiesError.message);
+  }
+  const propertyIds = ((properties as Array<{ id: string }> | null) ?? []).map((row) => row.id);
+  if (propertyIds.length === 0) {
+    return { updated: 0 };
+  }
+
+  let updated = 0;
+  let cursor: string | null = null;
+  for (;;) {
+    let query = supabase
+      .from("bills")
+      .select("id, raw_text, raw_text_mode, raw_text_encrypted")
+      .in("property_id", propertyIds)
+      .order("id", { ascending: true })
+      .limit(APPLY_PAGE_SIZE);
+    if (cursor) {
+      query = query.gt("id", cursor);
+    }
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const rows = (data as StoredTextRow[] | null) ?? [];
+    for (const row of rows) {
+      const columns = columnsUnderMode(row, mode);
+      if (!columns) {
+        continue;
+      }
+      const { error: updateError } = await supabase.from("bills").update(columns).eq("id", row.id);
+      if (updateError) {
+        throw new Error(updateError.message);
+      }
+      updated += 1;
+    }
+
+    if (rows.length < APPLY_PAGE_SIZE) {
+      return { updated };
+    }
+    cursor = rows[rows.length - 1].id;
+  }
+}
@@ -0,0 +1,363 @@
+import { normalizeIdentifier } from "@/lib/parser/identifiers";
+import { parseBillFields } from "@/lib/parser/parseFields";
+import { ParsedBill } from "@/lib/parser/types";
+import { getPropertyOwner } from "@/lib/properties";
+import { getServiceSupabaseClient } from "@/lib/supabase";
+
+import { redactionHashKey } from "./privacy";
+import { hashRedactedValue } from "./redaction";
+
+export const PROPERTY_ACCOUNT_KINDS = ["account", "meter"] as const;
+export type PropertyAccountKind = (typeof PROPERTY_ACCOUNT_KINDS)[number];
+
+export type PropertyAccountSource = "parsed" | "manual" | "confirmed";
+
+export type PropertyMatchReason = "account" | "meter" | "address";
+
+export class PropertyAccountError extends Error {
+  status: number;
+  code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export interface PropertyAccount {
+  id: string;
+  propertyId: string;
+  kind: PropertyAccountKind;
+  last4: string | null;
+  provider: string | null;
+  source: PropertyAccountSource;
+  createdAt: string;
+  lastSeenAt: string;
+}
+
+export interface HashedIdentifier {
+  kind: PropertyAccountKind;
+  // Null when no hash key is configured.
+  hash: string | null;
+  last4: string | null;
+}
+
+// What a bill says about where it belongs, without the numbers themselves.
+export interface BillIdentifierHashes {
+  identifiers: HashedIdentifier[];
+  addressKey: string | null;
+}
+
+export interface PropertyMatchCandidate {
+  propertyId: string;
+  name: string;
+  score: number;
+  reasons: PropertyMatchReason[];
+}
+
+export interface PropertyMatch {
+  status: "matched" | "ambiguous" | "unmatched";
+  propertyId: string | null;
+  candidates: PropertyMatchCandidate[];
+}
+
+interface PropertyAccountRow {
+  id: string;
+  property_id: string;
+  kind: PropertyAccountKind;
+  last4: string | null;
+  provider: string | null;
+  source: PropertyAccountSource;
+  created_at: string;
+  last_seen_at: string;
+}
+
+interface PropertyRow {
+  id: string;
+  name: string;
+  address: string | null;
+}
+
+const ACCOUNT_COLUMNS = "id, property_id, kind, last4, provider, source, created_at, last_seen_at";
+// An account number outweighs a meter, and either outweighs an address.
+const REASON_WEIGHTS: Record<PropertyMatchReason, number> = {
+  account: 1,
+  meter: 0.8,
+  address: 0.5,
+};
+// Street types, directions and unit words are skipped when picking the street
+// name out of an address.
+const STREET_WORDS = new Set(
+  "st street ave avenue rd road blvd boulevard dr drive ln lane way ct court pl place pkwy parkway hwy highway n s e w north south east west apt unit suite ste".split(
+    " ",
+  ),
+);
+
+function requireSupabase() {
+  const supabase = getServiceSupabaseClient();
+  if (!supabase) {
+    throw new PropertyAccountError(500, "supabase_not_configured", "Supabase is not configured.");
+  }
+  return supabase;
+}
+
+function rowToAccount(row: PropertyAccountRow): PropertyAccount {
+  return {
+    id: row.id,
+    propertyId: row.property_id,
+    kind: row.kind,
+    last4: row.last4,
+    provider: row.provider,
+    source: row.source,
+    createdAt: row.created_at,
+    lastSeenAt: row.last_seen_at,
+  };
+}
+
+export function hashIdentifier(kind: PropertyAccountKind, value: string): HashedIdentifier {
+  const normalized = normalizeIdentifier(value);
+  const hashKey = redactionHashKey();
+  return {
+    kind,
+    hash: hashKey ? hashRedactedValue(kind, normalized, hashKey) : null,
+    last4: normalized.length > 4 ? normalized.slice(-4) : null,
+  };
+}
+
+// House number plus the first word of the street name ("123 main"), so
+// "123 Main St." and "123 MAIN STREET, Springfield" compare equal.
+export function addressKey(address: string | null | undefined): string | null {
+  const tokens = (address ?? "").toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  const numberIndex = tokens.findIndex((token) => /^\d+[a-z]?$/.test(token));
+  if (numberIndex === -1) {
+    return null;
+  }
+  const street = tokens
+    .slice(numberIndex + 1)
+    .find((token) => !STREET_WORDS.has(token) && !/^\d/.test(token));
+  return street ? `${tokens[numberIndex]} ${street}` : null;
+}
+
+export function hashBillIdentifiers(
+  bill: Pick<ParsedBill, "accountNumber" | "meterNumbers" | "serviceAddress">,
+): BillIdentifierHashes {
+  return {
+    identifiers: [
+      ...(bill.accountNumber ? [hashIdentifier("account", bill.accountNumber)] : []),
+      ...bill.meterNumbers.map((meter) => hashIdentifier("meter", meter)),
+    ],
+    addressKey: addressKey(bill.serviceAddress),
+  };
+}
+
+// Records the bill's account and meter numbers against the property so later
+// bills without a propertyId can find it. Best effort, like the other writes
+// that follow a stored bill; without a hash key nothing is remembered and
+// matching goes by address alone.
+export async function rememberPropertyIdentifiers(input: {
+  propertyId: string;
+  identifiers: HashedIdentifier[];
+  provider: string | null;
+  source: PropertyAccountSource;
+  userId?: string;
+}): Promise<void> {
+  const supabase = getServiceSupabaseClient();
+  const identifiers = input.identifiers.filter(
+    (identifier): identifier is HashedIdentifier & { hash: string } => identifier.hash !== null,
+  );
+  if (!supabase || identifiers.length === 0) {
+    return;
+  }
+  const userId = input.userId ?? (await getPropertyOwner(input.propertyId))?.user_id;
+  if (!userId) {
+    return;
+  }
+
+  const now = new Date().toISOString();
+  await supabase.from("property_accounts").upsert(
+    identifiers.map((identifier) => ({
+      property_id: input.propertyId,
+      user_id: userId,
+      kind: identifier.kind,
+      identifier_hash: identifier.hash,
+      last4: identifier.last4,
+      provider: input.provider,
+      source: input.source,
+      last_seen_at: now,
+    })),
+    { onConflict: "property_id,kind,identifier_hash" },
+  );
+}
+
+// Scores the user's properties against a bill's identifiers. A single
+// property with the best score wins; a tie at the top is ambiguous.
+export async function matchBillToProperty(
+  userId: string,
+  hashes: BillIdentifierHashes,
+): Promise<PropertyMatch> {
+  const unmatched: PropertyMatch = { status: "unmatched", propertyId: null, candidates: [] };
+  const supabase = getServiceSupabaseClient();
+  if (!supabase) {
+    return unmatched;
+  }
+
+  const { data: properties, error: propertiesError } = await supabase
+    .from("properties")
+    .select("id, name, address")
+    .eq("user_id", userId);
+  if (propertiesError) {
+    throw new PropertyAccountError(500, "property_lookup_failed", propertiesError.message);
+  }
+  const owned = (properties as PropertyRow[] | null) ?? [];
+  if (owned.length === 0) {
+    return unmatched;
+  }
+
+  const reasons = new Map<string, Set<PropertyMatchReason>>();
+  const addReason = (propertyId: string, reason: PropertyMatchReason) => {
+    reasons.set(propertyId, (reasons.get(propertyId) ?? new Set()).add(reason));
+  };
+
+  const identifierHashes = hashes.identifiers.flatMap((identifier) =>
+    identifier.hash ? [identifier.hash] : [],
+  );
+  if (identifierHashes.length > 0) {
+    const { data, error } = await supabase
+      .from("property_accounts")
+      .select("property_id, kind, identifier_hash")
+      .eq("user_id", userId)
+      .in("identifier_hash", identifierHashes);
+    if (error) {
+      throw new PropertyAccountError(500, "property_account_lookup_failed", error.message);
+    }
+    for (const row of (data as Array<{ property_id: string; kind: PropertyAccountKind }> | null) ?? []) {
+      addReason(row.property_id, row.kind);
+    }
+  }
+  if (hashes.addressKey) {
+    for (const property of owned) {
+      if (addressKey(property.address) === hashes.addressKey) {
+        addReason(property.id, "address");
+      }
+    }
+  }
+
+  const candidates = owned
+    .filter((property) => reasons.has(property.id))
+    .map((property) => {
+      const propertyReasons = [...(reasons.get(property.id) ?? [])];
+      return {
+        propertyId: property.id,
+        name: property.name,
+        score: Number(
+          propertyReasons.reduce((sum, reason) => sum + REASON_WEIGHTS[reason], 0).toFixed(2),
+        ),
+        reasons: propertyReasons,
+      };
+    })
+    .sort((left, right) => right.score - left.score);
+
+  if (candidates.length === 0) {
+    return unmatched;
+  }
+  if (candidates.length > 1 && candidates[0].score === candidates[1].score) {
+    return { status: "ambiguous", propertyId: null, candidates };
+  }
+  return { status: "matched", propertyId: candidates[0].propertyId, candidates };
+}
+
+// Reads the identifiers off statement text and matches them for a caller who
+// sent no propertyId.
+export async function matchStatementToProperty(
+  userId: string,
+  rawText: string,
+  locale?: string,
+): Promise<{ match: PropertyMatch; hashes: BillIdentifierHashes; bill: ParsedBill }> {
+  const bill = parseBillFields(rawText, { locale });
+  const hashes = hashBillIdentifiers(bill);
+  return { match: await matchBillToProperty(userId, hashes), hashes, bill };
+}
+
+export async function listPropertyAccounts(propertyId: string): Promise<PropertyAccount[]> {
+  const supabase = requireSupabase();
+  const { data, error } = await supabase
+    .from("property_accounts")
+    .select(ACCOUNT_COLUMNS)
+    .eq("property_id", propertyId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new PropertyAccountError(500, "property_account_lookup_failed", error.message);
+  }
+  return ((data as PropertyAccountRow[] | null) ?? []).map(rowToAccount);
+}
+
+export async function addPropertyAccount(input: {
+  propertyId: string;
+  userId: string;
+  kind: PropertyAccountKind;
+  value: string;
+  provider: string | null;
+}): Promise<PropertyAccount> {
+  const supabase = requireSupabase();
+  if (normalizeIdentifier(input.value).length < 4) {
+    throw new PropertyAccountError(
+      400,
+      "invalid_identifier",
+      "Account and meter numbers need at least four letters or digits.",
+    );
+  }
+  const identifier = hashIdentifier(input.kind, input.value);
+  if (!identifier.hash) {
+    throw new PropertyAccountError(
+      409,
+      "hash_key_not_configured",
+      "Known account and meter numbers need BILL_TEXT_ENCRYPTION_KEY to be set on the server.",
+    );
+  }
+
+  const { data, error } = await supabase
+    .from("property_accounts")
+    .upsert(
+      {
+        property_id: input.propertyId,
+        user_id: input.userId,
+        kind: identifier.kind,
+        identifier_hash: identifier.hash,
+        last4: identifier.last4,
+        provider: input.provider,
+        source: "manual",
+        last_seen_at: new Date().toISOString(),
+      },
+      { onConflict: "property_id,kind,identifier_hash" },
+    )
+    .select(ACCOUNT_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new PropertyAccountError(
+      500,
+      "property_account_save_failed",
+      error?.message ?? "Failed to save the account.",
+    );
+  }
+  return rowToAccount(data as PropertyAccountRow);
+}
+
+export async function removePropertyAccount(propertyId: string, accountId: string): Promise<void> {
+  const supabase = requireSupabase();
+  const { data, error } = await supabase
+    .from("property_accounts")
+    .delete()
+    .eq("property_id", propertyId)
+    .eq("id", accountId)
+    .select("id");
+
+  if (error) {
+    throw new PropertyAccountError(500, "property_account_delete_failed", error.message);
+  }
+  if (!data || data.length === 0) {
+    throw new PropertyAccountError(404, "property_account_not_found", "No such account on this property.");
+  }
+}
@@ -0,0 +1,263 @@
+import { createHmac } from "node:crypto";
+
+export const REDACTION_KINDS = ["account", "meter", "card", "name", "address"] as const;
+export type RedactionKind = (typeof REDACTION_KINDS)[number];
+
+// One masked stretch of a bill's raw text. Offsets are the same in the original
+// and the redacted text, because masking swaps characters one for one. hash is
+// an HMAC of the normalized value, so two bills can be matched on an account or
+// meter number without either value being stored.
+export interface RedactionEntry {
+  kind: RedactionKind;
+  start: number;
+  end: number;
+  last4: string | null;
+  hash: string | null;
+}
+
+export interface RedactedText {
+  text: string;
+  map: RedactionEntry[];
+}
+
+interface RedactionRule {
+  kind: RedactionKind;
+  pattern: RegExp;
+  // Keeps the last four letters or digits readable, as a printed bill does.
+  keepLast4: boolean;
+  accept?: (value: string, line: string) => boolean;
+}
+
+const MASK_CHAR = "*";
+const LABEL_SEPARATOR = String.raw`[ \t]*(?:number|num|no\.?|nr\.?|#|id)?[ \t]*[:#]?[ \t]*`;
+// Identifier tokens: up to four letters, then something with a digit in it.
+const IDENTIFIER = String.raw`((?:[A-Z]{0,4}\d[\w/-]*)(?:[ -]\d[\w/-]*)*)`;
+// A value runs to the end of the line or to a column gap.
+const LINE_VALUE = String.raw`([^\n\t]*?[^\s:])(?=[ ]{2,}|\t|[ \t]*$)`;
+const STREET_SUFFIXES =
+  "st|street|ave|avenue|rd|road|blvd|boulevard|dr|drive|ln|lane|way|ct|court|pl|place|pkwy|parkway|hwy|highway|ter|terrace|cir|circle|sq|square|trl|trail";
+
+function digitCount(value: string): number {
+  return value.replace(/\D/g, "").length;
+}
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let index = 0; index < digits.length; index += 1) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// Rules run in priority order: where two matches overlap, the one that starts
+// first wins, and on a tie the earlier rule.
+const RULES: RedactionRule[] = [
+  {
+    kind: "account",
+    pattern: new RegExp(
+      String.raw`\b(?:account|acct\.?|customer|kundennummer|vertragskonto|vertragsnummer)${LABEL_SEPARATOR}${IDENTIFIER}`,
+      "gim",
+    ),
+    keepLast4: true,
+    accept: (value) => digitCount(value) >= 4,
+  },
+  {
+    kind: "meter",
+    pattern: new RegExp(
+      String.raw`\b(?:meter|z(?:ä|ae)hler(?:nummer)?|service[ \t]+point|esi[ \t]*id|premise)${LABEL_SEPARATOR}${IDENTIFIER}`,
+      "gim",
+    ),
+    keepLast4: true,
+    accept: (value) => digitCount(value) >= 4,
+  },
+  {
+    kind: "card",
+    pattern: /\b(?:ending|ends)[ \t]+(?:in|with)[ \t]+(\d{4})\b/gi,
+    keepLast4: false,
+    accept: (_value, line) => /card|visa|master|amex|american express|discover|debit|credit/i.test(line),
+  },
+  {
+    kind: "account",
+    pattern: /\b(?:ending|ends)[ \t]+(?:in|with)[ \t]+(\d{4})\b/gi,
+    keepLast4: false,
+  },
+  {
+    kind: "card",
+    pattern: /((?:[x*•]{4}[ -]?){2,3}[x*•]{0,4}[ -]?\d{4})\b/gi,
+    keepLast4: false,
+  },
+  {
+    kind: "card",
+    pattern: /\b(\d(?:[ -]?\d){12,18})\b/g,
+    keepLast4: true,
+    accept: (value) => passesLuhn(value.replace(/\D/g, "")),
+  },
+  {
+    kind: "name",
+    pattern: new RegExp(
+      String.raw`\b(?:customer[ \t]+name|account[ \t]+(?:holder|name)|name|bill(?:ed)?[ \t]+to|prepared[ \t]+for|customer|kunde|kundin)[ \t]*:[ \t]*${LINE_VALUE}`,
+      "gim",
+    ),
+    keepLast4: false,
+    accept: (value) => /\p{L}/u.test(value) && value.length <= 80,
+  },
+  {
+    kind: "name",
+    pattern: /^[ \t]*dear[ \t]+([^,\n]{2,60}),/gim,
+    keepLast4: false,
+  },
+  {
+    kind: "address",
+    pattern: new RegExp(
+      String.raw`\b(?:(?:service|mailing|billing|premise|property|supply)[ \t]+address|service[ \t]+(?:for|location)|lieferanschrift|anschrift|lieferstelle)[ \t]*:?[ \t]*${LINE_VALUE}`,
+      "gim",
+    ),
+    keepLast4: false,
+    accept: (value) => /\d/.test(value) && value.length <= 120,
+  },
+  {
+    kind: "address",
+    pattern: new RegExp(
+      String.raw`^[ \t]*(\d{1,6}[A-Za-z]?[ \t]+(?:[\p{L}0-9.'#-]+[ \t]+){0,5}?(?:${STREET_SUFFIXES})\b\.?(?:,?[ \t]+(?:apt|unit|suite|ste|#)\.?[ \t]*[\w-]+)?)(?=[ \t]{2,}|[ \t]*,|[ \t]*$)`,
+      "gimu",
+    ),
+    keepLast4: false,
+  },
+  {
+    kind: "address",
+    pattern: new RegExp(
+      String.raw`^[ \t]*((?:[\p{L}.'-]+[ \t]+){0,3}[\p{L}.'-]*(?:straße|strasse|str\.|weg|gasse|platz|allee)[ \t]+\d{1,5}[a-z]?)(?=[ \t]{2,}|[ \t]*,|[ \t]*$)`,
+      "gimu",
+    ),
+    keepLast4: false,
+  },
+  {
+    kind: "address",
+    pattern: /\b([A-Z][A-Za-z.'-]*(?:[ \t][A-Z][A-Za-z.'-]*){0,3},[ \t]*[A-Z]{2}[ \t]+\d{5}(?:-\d{4})?)\b/g,
+    keepLast4: false,
+  },
+];
+
+interface RedactionMatch {
+  kind: RedactionKind;
+  start: number;
+  end: number;
+  keepLast4: boolean;
+  priority: number;
+}
+
+function lineAround(text: string, index: number): string {
+  const start = text.lastIndexOf("\n", index - 1) + 1;
+  const end = text.indexOf("\n", index);
+  return text.slice(start, end === -1 ? text.length : end);
+}
+
+function findMatches(text: string): RedactionMatch[] {
+  const matches: RedactionMatch[] = [];
+  RULES.forEach((rule, priority) => {
+    for (const match of text.matchAll(rule.pattern)) {
+      const value = match[1];
+      if (!value || match.index === undefined) {
+        continue;
+      }
+      const start = match.index + match[0].lastIndexOf(value);
+      if (rule.accept && !rule.accept(value, lineAround(text, start))) {
+        continue;
+      }
+      matches.push({
+        kind: rule.kind,
+        start,
+        end: start + value.length,
+        keepLast4: rule.keepLast4,
+        priority,
+      });
+    }
+  });
+
+  matches.sort((left, right) => left.start - right.start || left.priority - right.priority);
+  const kept: RedactionMatch[] = [];
+  for (const match of matches) {
+    const previous = kept[kept.length - 1];
+    if (previous && match.start < previous.end) {
+      continue;
+    }
+    kept.push(match);
+  }
+  return kept;
+}
+
+function normalizeForHash(kind: RedactionKind, value: string): string {
+  if (kind === "name" || kind === "address") {
+    return value.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+  }
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+export function hashRedactedValue(
+  kind: RedactionKind,
+  value: string,
+  hashKey: Buffer,
+): string {
+  return createHmac("sha256", hashKey)
+    .update(`${kind}:${normalizeForHash(kind, value)}`)
+    .digest("hex")
+    .slice(0, 32);
+}
+
+function maskValue(value: string, keepLast4: boolean): { masked: string; last4: string | null } {
+  const alphanumeric = value.replace(/[^\p{L}\p{N}]/gu, "");
+  const keep = keepLast4 && alphanumeric.length > 4 ? 4 : 0;
+  let remaining = alphanumeric.length - keep;
+  let masked = "";
+  for (const char of value) {
+    if (remaining > 0 && /[\p{L}\p{N}]/u.test(char)) {
+      masked += MASK_CHAR.repeat(char.length);
+      remaining -= 1;
+    } else {
+      masked += char;
+    }
+  }
+  return { masked, last4: keep > 0 ? alphanumeric.slice(-keep) : null };
+}
+
+// Masks account, meter and card numbers, customer names and addresses in bill
+// text. The masked text has the same length as the input, so field evidence
+// spans found on the original still point at the same characters. Amounts,
+// dates and usage are left alone, so the redacted text parses like the
+// original.
+export function redactBillText(
+  text: string,
+  options: { hashKey?: Buffer | null } = {},
+): RedactedText {
+  const matches = findMatches(text);
+  if (matches.length === 0) {
+    return { text, map: [] };
+  }
+
+  let redacted = "";
+  let cursor = 0;
+  const map: RedactionEntry[] = [];
+  for (const match of matches) {
+    const value = text.slice(match.start, match.end);
+    const { masked, last4 } = maskValue(value, match.keepLast4);
+    redacted += text.slice(cursor, match.start) + masked;
+    cursor = match.end;
+    map.push({
+      kind: match.kind,
+      start: match.start,
+      end: match.end,
+      last4,
+      hash: options.hashKey ? hashRedactedValue(match.kind, value, options.hashKey) : null,
+    });
+  }
+  redacted += text.slice(cursor);
+
+  return { text: redacted, map };
+}
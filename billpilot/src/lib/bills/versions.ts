@@ -0,0 +1,795 @@
+import { estimateParseConfidence } from "@/lib/parser/confidence";
+import { buildInsights } from "@/lib/parser/insights";
+import { parseBillFields } from "@/lib/parser/parseFields";
+import { toServiceBill } from "@/lib/parser/services";
+import { EvidenceField, FieldEvidenceMap, ParsedBill, ServiceType } from "@/lib/parser/types";
+import { normalizeBillUnits, toUnitColumns } from "@/lib/parser/units";
+import { PARSER_VERSION } from "@/lib/parser/version";
+import { propertyBelongsToUser } from "@/lib/properties";
+import { getServiceSupabaseClient } from "@/lib/supabase";
+import { loadTariffSuggestion } from "@/lib/tariffs/simulator";
+import { loadWeatherNormalization } from "@/lib/weather/normalization";
+
+import { CorrectableField, loadProviderLearning } from "./corrections";
+import { billFingerprint } from "./duplicates";
+import { loadPriorBillsFromDb } from "./ingest";
+import { loadInsightRules } from "./insight-rules";
+import { BillOwnershipError, findOwnedBill } from "./ownership";
+import { BillPaymentError, refreshBillPaymentStatus } from "./payments";
+import { decryptRawText, RawTextMode } from "./privacy";
+
+export const BILL_VERSION_STATUSES = ["proposed", "applied", "previous", "rejected"] as const;
+export type BillVersionStatus = (typeof BILL_VERSION_STATUSES)[number];
+
+export const BILL_VERSION_ACTIONS = ["accept", "reject", "revert"] as const;
+export type BillVersionAction = (typeof BILL_VERSION_ACTIONS)[number];
+
+export const MAX_BULK_REPARSE = 200;
+
+export class BillVersionError extends Error {
+  status: number;
+  code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export type VersionedField =
+  | CorrectableField
+  | "confidence"
+  | "lineItemsTotal"
+  | "dueDate"
+  | "lateFee"
+  | "lineItems"
+  | "insights";
+
+export type VersionValue = string | number | null;
+
+export interface BillFieldChange {
+  field: VersionedField;
+  before: VersionValue;
+  after: VersionValue;
+}
+
+export interface BillVersion {
+  id: string;
+  billId: string;
+  parserVersion: string | null;
+  status: BillVersionStatus;
+  // What applying this version would change on the bill as it is now.
+  changes: BillFieldChange[];
+  createdAt: string;
+  resolvedAt: string | null;
+}
+
+export interface BillReparseResult {
+  billId: string;
+  outcome: "unchanged" | "proposed" | "applied" | "failed";
+  changes: BillFieldChange[];
+  version: BillVersion | null;
+  error: string | null;
+}
+
+export interface BulkReparseResult {
+  parserVersion: string;
+  counts: Record<BillReparseResult["outcome"], number>;
+  remaining: number;
+  nextCursor: string | null;
+  results: BillReparseResult[];
+}
+
+interface LineItemSnapshot {
+  item_name: string;
+  category: string;
+  amount: number | string;
+  quantity: number | string | null;
+  unit: string | null;
+  rate: number | string | null;
+  evidence: unknown;
+}
+
+interface InsightSnapshot {
+  type: string;
+  severity: string;
+  message: string;
+  est_savings: number | string | null;
+  residual: number | string | null;
+  metadata: unknown;
+}
+
+// Everything a parse writes for one bill: its parsed columns, line items and
+// insights. Versions store this so any of them can be written back.
+interface BillSnapshot {
+  columns: Record<string, unknown>;
+  lineItems: LineItemSnapshot[];
+  insights: InsightSnapshot[];
+}
+
+const SNAPSHOT_COLUMNS = [
+  "provider",
+  "period_start",
+  "period_end",
+  "total_cost",
+  "usage_value",
+  "usage_unit",
+  "currency",
+  "locale",
+  "confidence",
+  "field_evidence",
+  "usage_components",
+  "demand_kw",
+  "demand_basis",
+  "demand_ratchet",
+  "demand_charge",
+  "line_items_total",
+  "line_item_remainder",
+  "due_date",
+  "previous_balance",
+  "payments_received",
+  "late_fee",
+  "usage_kwh_equivalent",
+  "usage_mmbtu",
+  "usage_gallons",
+  "billing_days",
+  "cost_per_unit",
+  "cost_per_kwh",
+  "cost_per_mmbtu",
+  "cost_per_gallon",
+  "cost_per_day",
+  "bill_fingerprint",
+  "parser_version",
+] as const;
+type SnapshotColumn = (typeof SNAPSHOT_COLUMNS)[number];
+
+// Compared columns and the scale they are stored at, so a re-parse is not
+// reported as a change only because the database rounded the old value.
+const DIFF_COLUMNS: Array<{ field: VersionedField; column: string; scale?: number }> = [
+  { field: "provider", column: "provider" },
+  { field: "periodStart", column: "period_start" },
+  { field: "periodEnd", column: "period_end" },
+  { field: "totalCost", column: "total_cost", scale: 2 },
+  { field: "usageValue", column: "usage_value", scale: 3 },
+  { field: "usageUnit", column: "usage_unit" },
+  { field: "currency", column: "currency" },
+  { field: "demandKw", column: "demand_kw", scale: 3 },
+  { field: "demandCharge", column: "demand_charge", scale: 2 },
+  { field: "confidence", column: "confidence", scale: 3 },
+  { field: "lineItemsTotal", column: "line_items_total", scale: 2 },
+  { field: "dueDate", column: "due_date" },
+  { field: "lateFee", column: "late_fee", scale: 2 },
+];
+
+const BILL_COLUMNS = `id, property_id, service_type, source, raw_text, raw_text_encrypted, raw_text_mode, ocr_confidence, ${SNAPSHOT_COLUMNS.join(", ")}`;
+// Read from the original only; redacted text masks them.
+const IDENTIFIER_EVIDENCE: EvidenceField[] = ["accountNumber", "meterNumber", "serviceAddress"];
+const LINE_ITEM_COLUMNS = "item_name, category, amount, quantity, unit, rate, evidence";
+const INSIGHT_COLUMNS = "type, severity, message, est_savings, residual, metadata";
+const VERSION_COLUMNS = "id, bill_id, property_id, parser_version, status, snapshot, created_at, resolved_at";
+const MIN_RAW_TEXT_LENGTH = 20;
+
+// The snapshot columns are read as they are stored; the ones parsing needs
+// are typed below.
+interface BillRow extends Record<SnapshotColumn, unknown> {
+  id: string;
+  property_id: string;
+  service_type: ServiceType | null;
+  source: string;
+  raw_text: string | null;
+  raw_text_encrypted: string | null;
+  raw_text_mode: RawTextMode | null;
+  ocr_confidence: number | string | null;
+  provider: string | null;
+  period_start: string | null;
+  period_end: string | null;
+  total_cost: number | string | null;
+  usage_value: number | string | null;
+  usage_unit: string | null;
+  currency: string | null;
+  locale: string | null;
+  demand_kw: number | string | null;
+  demand_charge: number | string | null;
+  field_evidence: FieldEvidenceMap | null;
+  parser_version: string | null;
+}
+
+interface VersionRow {
+  id: string;
+  bill_id: string;
+  property_id: string;
+  parser_version: string | null;
+  status: BillVersionStatus;
+  snapshot: BillSnapshot;
+  created_at: string;
+  resolved_at: string | null;
+}
+
+function requireSupabase() {
+  const supabase = getServiceSupabaseClient();
+  if (!supabase) {
+    throw new BillVersionError(
+      500,
+      "supabase_not_configured",
+      "Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY first.",
+    );
+  }
+  return supabase;
+}
+
+function toNumberOrNull(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function comparable(value: unknown, scale?: number): VersionValue {
+  if (scale !== undefined) {
+    const parsed = toNumberOrNull(value);
+    return parsed === null ? null : Number(parsed.toFixed(scale));
+  }
+  return value === null || value === undefined ? null : String(value);
+}
+
+function lineItemSummary(items: LineItemSnapshot[]): string | null {
+  return (
+    items.map((item) => `${item.item_name} ${Number(item.amount).toFixed(2)}`).join("; ") || null
+  );
+}
+
+function insightSummary(insights: InsightSnapshot[]): string | null {
+  return insights.map((insight) => `${insight.type} (${insight.severity})`).join("; ") || null;
+}
+
+function diffSnapshots(before: BillSnapshot, after: BillSnapshot): BillFieldChange[] {
+  const changes: BillFieldChange[] = [];
+  for (const { field, column, scale } of DIFF_COLUMNS) {
+    const from = comparable(before.columns[column], scale);
+    const to = comparable(after.columns[column], scale);
+    if (from !== to) {
+      changes.push({ field, before: from, after: to });
+    }
+  }
+
+  const itemsBefore = lineItemSummary(before.lineItems);
+  const itemsAfter = lineItemSummary(after.lineItems);
+  if (itemsBefore !== itemsAfter) {
+    changes.push({ field: "lineItems", before: itemsBefore, after: itemsAfter });
+  }
+  const insightsBefore = insightSummary(before.insights);
+  const insightsAfter = insightSummary(after.insights);
+  if (insightsBefore !== insightsAfter) {
+    changes.push({ field: "insights", before: insightsBefore, after: insightsAfter });
+  }
+  return changes;
+}
+
+function toBillVersion(row: VersionRow, current: BillSnapshot): BillVersion {
+  return {
+    id: row.id,
+    billId: row.bill_id,
+    parserVersion: row.parser_version,
+    status: row.status,
+    changes: diffSnapshots(current, row.snapshot),
+    createdAt: row.created_at,
+    resolvedAt: row.resolved_at,
+  };
+}
+
+async function loadOwnedBill(userId: string, billId: string): Promise<BillRow> {
+  try {
+    return await findOwnedBill<BillRow>(userId, billId, BILL_COLUMNS);
+  } catch (error) {
+    if (error instanceof BillOwnershipError) {
+      throw new BillVersionError(error.status, error.code, error.message);
+    }
+    throw error;
+  }
+}
+
+async function loadCurrentSnapshot(bill: BillRow): Promise<BillSnapshot> {
+  const supabase = requireSupabase();
+  const [lineItemsResult, insightsResult] = await Promise.all([
+    supabase.from("bill_line_items").select(LINE_ITEM_COLUMNS).eq("bill_id", bill.id),
+    supabase.from("insights").select(INSIGHT_COLUMNS).eq("bill_id", bill.id),
+  ]);
+  if (lineItemsResult.error || insightsResult.error) {
+    throw new BillVersionError(
+      500,
+      "bill_lookup_failed",
+      lineItemsResult.error?.message ?? insightsResult.error?.message ?? "lookup_failed",
+    );
+  }
+
+  return {
+    columns: Object.fromEntries(SNAPSHOT_COLUMNS.map((column) => [column, bill[column] ?? null])),
+    lineItems: (lineItemsResult.data as LineItemSnapshot[] | null) ?? [],
+    insights: (insightsResult.data as InsightSnapshot[] | null) ?? [],
+  };
+}
+
+// Reads the stored raw text with the current parser, using the encrypted
+// original when the bill kept one. Redacted text has its identifiers masked,
+// so without the original their evidence is carried over from the bill. Fields the user corrected keep the corrected
+// value; confidence and insights are worked out again from the result, against
+// the bills that came before this one.
+async function buildReparsedSnapshot(bill: BillRow, userId: string): Promise<BillSnapshot> {
+  const original = bill.raw_text_encrypted ? decryptRawText(bill.raw_text_encrypted) : null;
+  const rawText = original ?? bill.raw_text ?? "";
+  // Bills stored before redaction still hold the original as raw_text.
+  const hasOriginal = original !== null || bill.raw_text_mode === null;
+  if (bill.source !== "parsed" || rawText.trim().length < MIN_RAW_TEXT_LENGTH) {
+    throw new BillVersionError(
+      409,
+      "bill_not_reparseable",
+      "Only bills parsed from statement text can be parsed again.",
+    );
+  }
+
+  const overrides = { locale: bill.locale };
+  const firstPass = parseBillFields(rawText, overrides);
+  const learned = await loadProviderLearning(userId, firstPass.provider);
+  const parsed = learned ? parseBillFields(rawText, { ...overrides, learned }) : firstPass;
+  const serviceType = bill.service_type ?? "unknown";
+  const service =
+    parsed.services.find((candidate) => candidate.serviceType === serviceType) ??
+    (parsed.services.length === 1 ? parsed.services[0] : null);
+  if (!service) {
+    throw new BillVersionError(
+      409,
+      "service_not_found",
+      `The parser no longer finds a ${serviceType} service on this statement.`,
+    );
+  }
+
+  const serviceBill = toServiceBill(parsed, service);
+  const corrected = (field: CorrectableField) =>
+    bill.field_evidence?.[field]?.pattern === "user.correction";
+  const evidence: FieldEvidenceMap = { ...serviceBill.evidence };
+  for (const [field, entry] of Object.entries(bill.field_evidence ?? {})) {
+    if (entry?.pattern === "user.correction") {
+      evidence[field as keyof FieldEvidenceMap] = entry;
+    }
+  }
+  if (!hasOriginal) {
+    for (const field of IDENTIFIER_EVIDENCE) {
+      if (bill.field_evidence?.[field]) {
+        evidence[field] = bill.field_evidence[field];
+      } else {
+        delete evidence[field];
+      }
+    }
+  }
+  const reparsed: ParsedBill = {
+    ...serviceBill,
+    provider: corrected("provider") ? bill.provider : serviceBill.provider,
+    periodStart: corrected("periodStart") ? bill.period_start : serviceBill.periodStart,
+    periodEnd: corrected("periodEnd") ? bill.period_end : serviceBill.periodEnd,
+    totalCost: corrected("totalCost") ? toNumberOrNull(bill.total_cost) : serviceBill.totalCost,
+    usageValue: corrected("usageValue") ? toNumberOrNull(bill.usage_value) : serviceBill.usageValue,
+    usageUnit: corrected("usageUnit") ? bill.usage_unit : serviceBill.usageUnit,
+    currency: corrected("currency") && bill.currency ? bill.currency : serviceBill.currency,
+    demandKw: corrected("demandKw") ? toNumberOrNull(bill.demand_kw) : serviceBill.demandKw,
+    demandCharge: corrected("demandCharge")
+      ? toNumberOrNull(bill.demand_charge)
+      : serviceBill.demandCharge,
+    evidence,
+  };
+
+  const ocrConfidence = toNumberOrNull(bill.ocr_confidence);
+  const confidence = estimateParseConfidence(reparsed, {
+    ocr: ocrConfidence === null ? null : { averageConfidence: ocrConfidence },
+  });
+  const priorBills = await loadPriorBillsFromDb(
+    bill.property_id,
+    serviceType,
+    reparsed.periodEnd ?? bill.period_end,
+  );
+  const weather = await loadWeatherNormalization(bill.property_id, serviceType, reparsed);
+  const tariffSuggestion = await loadTariffSuggestion(bill.property_id, serviceType);
+  const rules = await loadInsightRules({ propertyId: bill.property_id });
+  const output = buildInsights({
+    bill: reparsed,
+    priorBills,
+    parseConfidence: confidence,
+    weather,
+    tariffSuggestion,
+    rules,
+  });
+  const units = normalizeBillUnits({ ...reparsed, serviceType });
+
+  return {
+    columns: {
+      provider: reparsed.provider,
+      period_start: reparsed.periodStart,
+      period_end: reparsed.periodEnd,
+      total_cost: reparsed.totalCost,
+      usage_value: reparsed.usageValue,
+      usage_unit: reparsed.usageUnit,
+      currency: reparsed.currency,
+      locale: reparsed.locale,
+      confidence,
+      field_evidence: reparsed.evidence,
+      usage_components: reparsed.usageComponents,
+      demand_kw: reparsed.demandKw,
+      demand_basis: reparsed.demandBasis,
+      demand_ratchet: reparsed.demandRatchet,
+      demand_charge: reparsed.demandCharge,
+      line_items_total: reparsed.lineItemReconciliation.itemsTotal,
+      line_item_remainder: reparsed.lineItemReconciliation.remainder,
+      due_date: reparsed.dueDate,
+      previous_balance: reparsed.previousBalance,
+      payments_received: reparsed.paymentsReceived,
+      late_fee: reparsed.lateFee,
+      ...toUnitColumns(units),
+      bill_fingerprint: billFingerprint({ ...reparsed, serviceType }),
+      parser_version: PARSER_VERSION,
+    },
+    lineItems: reparsed.lineItems.map((line) => ({
+      item_name: line.itemName,
+      category: line.category,
+      amount: line.amount,
+      quantity: line.quantity,
+      unit: line.unit,
+      rate: line.rate,
+      evidence: line.evidence ?? null,
+    })),
+    insights: output.insights.map((insight) => ({
+      type: insight.type,
+      severity: insight.severity,
+      message: insight.message,
+      est_savings: insight.estSavings,
+      residual: insight.residual,
+      metadata: insight.metadata ?? {},
+    })),
+  };
+}
+
+function throwOnWriteError(error: { message: string } | null): void {
+  if (error) {
+    throw new BillVersionError(500, "bill_update_failed", error.message);
+  }
+}
+
+async function writeSnapshot(billId: string, snapshot: BillSnapshot): Promise<void> {
+  const supabase = requireSupabase();
+  throwOnWriteError(
+    (await supabase.from("bills").update(snapshot.columns).eq("id", billId)).error,
+  );
+  // The total may have moved, and with it what is still owed.
+  try {
+    await refreshBillPaymentStatus(billId);
+  } catch (error) {
+    if (error instanceof BillPaymentError) {
+      throw new BillVersionError(error.status, error.code, error.message);
+    }
+    throw error;
+  }
+
+  throwOnWriteError((await supabase.from("bill_line_items").delete().eq("bill_id", billId)).error);
+  if (snapshot.lineItems.length > 0) {
+    throwOnWriteError(
+      (
+        await supabase
+          .from("bill_line_items")
+          .insert(snapshot.lineItems.map((line) => ({ ...line, bill_id: billId })))
+      ).error,
+    );
+  }
+
+  throwOnWriteError((await supabase.from("insights").delete().eq("bill_id", billId)).error);
+  if (snapshot.insights.length > 0) {
+    throwOnWriteError(
+      (
+        await supabase
+          .from("insights")
+          .insert(snapshot.insights.map((insight) => ({ ...insight, bill_id: billId })))
+      ).error,
+    );
+  }
+}
+
+async function insertVersion(
+  bill: BillRow,
+  userId: string,
+  status: BillVersionStatus,
+  snapshot: BillSnapshot,
+): Promise<VersionRow> {
+  const supabase = requireSupabase();
+  const { data, error } = await supabase
+    .from("bill_versions")
+    .insert({
+      bill_id: bill.id,
+      property_id: bill.property_id,
+      user_id: userId,
+      parser_version: (snapshot.columns.parser_version as string | null) ?? null,
+      status,
+      snapshot,
+      resolved_at: status === "proposed" ? null : new Date().toISOString(),
+    })
+    .select(VERSION_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new BillVersionError(500, "version_insert_failed", error?.message ?? "insert_failed");
+  }
+  return data as VersionRow;
+}
+
+// Keeps the bill as it is now as a 'previous' version, then writes the chosen
+// version onto it.
+async function applyVersion(
+  bill: BillRow,
+  userId: string,
+  version: VersionRow,
+  current: BillSnapshot,
+): Promise<VersionRow> {
+  await insertVersion(bill, userId, "previous", current);
+  await writeSnapshot(bill.id, version.snapshot);
+  if (version.status !== "proposed") {
+    return version;
+  }
+
+  const supabase = requireSupabase();
+  const { data, error } = await supabase
+    .from("bill_versions")
+    .update({ status: "applied", resolved_at: new Date().toISOString() })
+    .eq("id", version.id)
+    .select(VERSION_COLUMNS)
+    .single();
+  if (error || !data) {
+    throw new BillVersionError(500, "version_update_failed", error?.message ?? "update_failed");
+  }
+  return data as VersionRow;
+}
+
+async function reparseLoadedBill(
+  bill: BillRow,
+  userId: string,
+  autoAccept: boolean,
+): Promise<BillReparseResult> {
+  const supabase = requireSupabase();
+  const current = await loadCurrentSnapshot(bill);
+  const next = await buildReparsedSnapshot(bill, userId);
+  const changes = diffSnapshots(current, next);
+
+  if (changes.length === 0) {
+    if (bill.parser_version !== PARSER_VERSION) {
+      await supabase.from("bills").update({ parser_version: PARSER_VERSION }).eq("id", bill.id);
+    }
+    return { billId: bill.id, outcome: "unchanged", changes, version: null, error: null };
+  }
+
+  // A bill has at most one open proposal; a newer re-parse replaces it.
+  await supabase
+    .from("bill_versions")
+    .update({ status: "rejected", resolved_at: new Date().toISOString() })
+    .eq("bill_id", bill.id)
+    .eq("status", "proposed");
+  const proposal = await insertVersion(bill, userId, "proposed", next);
+
+  if (!autoAccept) {
+    return {
+      billId: bill.id,
+      outcome: "proposed",
+      changes,
+      version: toBillVersion(proposal, current),
+      error: null,
+    };
+  }
+
+  const applied = await applyVersion(bill, userId, proposal, current);
+  return {
+    billId: bill.id,
+    outcome: "applied",
+    changes,
+    version: toBillVersion(applied, next),
+    error: null,
+  };
+}
+
+// Re-parses one bill. The result is a proposal to accept or reject unless
+// autoAccept is set; a re-parse that changes nothing only updates the tag.
+export async function reparseBill(input: {
+  userId: string;
+  billId: string;
+  autoAccept?: boolean;
+}): Promise<BillReparseResult> {
+  const bill = await loadOwnedBill(input.userId, input.billId);
+  return reparseLoadedBill(bill, input.userId, Boolean(input.autoAccept));
+}
+
+// Re-parses the parsed bills of one property, or of every property the user
+// owns, in id order from `cursor`. Bills already read by the current parser,
+// or with an open proposal from it, are left alone unless force is set.
+export async function reparseBills(input: {
+  userId: string;
+  propertyId?: string;
+  autoAccept?: boolean;
+  force?: boolean;
+  cursor?: string;
+  limit: number;
+}): Promise<BulkReparseResult> {
+  const supabase = requireSupabase();
+  let propertyIds: string[];
+  if (input.propertyId) {
+    if (!(await propertyBelongsToUser(input.propertyId, input.userId))) {
+      throw new BillVersionError(404, "property_not_found", "Property not found for this user.");
+    }
+    propertyIds = [input.propertyId];
+  } else {
+    const { data, error } = await supabase
+      .from("properties")
+      .select("id")
+      .eq("user_id", input.userId);
+    if (error) {
+      throw new BillVersionError(500, "property_lookup_failed", error.message);
+    }
+    propertyIds = ((data as Array<{ id: string }> | null) ?? []).map((row) => row.id);
+  }
+
+  const counts: BulkReparseResult["counts"] = { unchanged: 0, proposed: 0, applied: 0, failed: 0 };
+  if (propertyIds.length === 0) {
+    return { parserVersion: PARSER_VERSION, counts, remaining: 0, nextCursor: null, results: [] };
+  }
+
+  let query = supabase
+    .from("bills")
+    .select("id")
+    .in("property_id", propertyIds)
+    .eq("source", "parsed");
+  if (!input.force) {
+    query = query.or(`parser_version.is.null,parser_version.neq.${PARSER_VERSION}`);
+  }
+  if (input.cursor) {
+    query = query.gt("id", input.cursor);
+  }
+  const { data: billsData, error: billsError } = await query.order("id", { ascending: true });
+  if (billsError) {
+    throw new BillVersionError(500, "bill_lookup_failed", billsError.message);
+  }
+
+  let billIds = ((billsData as Array<{ id: string }> | null) ?? []).map((row) => row.id);
+  if (!input.force && billIds.length > 0) {
+    const { data: proposals } = await supabase
+      .from("bill_versions")
+      .select("bill_id")
+      .in("property_id", propertyIds)
+      .eq("status", "proposed")
+      .eq("parser_version", PARSER_VERSION);
+    const pending = new Set(
+      ((proposals as Array<{ bill_id: string }> | null) ?? []).map((row) => row.bill_id),
+    );
+    billIds = billIds.filter((id) => !pending.has(id));
+  }
+
+  const results: BillReparseResult[] = [];
+  for (const billId of billIds.slice(0, input.limit)) {
+    let result: BillReparseResult;
+    try {
+      const bill = await loadOwnedBill(input.userId, billId);
+      result = await reparseLoadedBill(bill, input.userId, Boolean(input.autoAccept));
+    } catch (error) {
+      result = {
+        billId,
+        outcome: "failed",
+        changes: [],
+        version: null,
+        error: error instanceof Error ? error.message : "reparse_failed",
+      };
+    }
+    counts[result.outcome] += 1;
+    results.push(result);
+  }
+
+  const remaining = Math.max(0, billIds.length - input.limit);
+  return {
+    parserVersion: PARSER_VERSION,
+    counts,
+    remaining,
+    nextCursor: remaining > 0 ? (results[results.length - 1]?.billId ?? null) : null,
+    results,
+  };
+}
+
+export async function listBillVersions(
+  userId: string,
+  billId: string,
+): Promise<{ billId: string; parserVersion: string | null; versions: BillVersion[] }> {
+  const bill = await loadOwnedBill(userId, billId);
+  const supabase = requireSupabase();
+  const [current, versionsResult] = await Promise.all([
+    loadCurrentSnapshot(bill),
+    supabase
+      .from("bill_versions")
+      .select(VERSION_COLUMNS)
+      .eq("bill_id", bill.id)
+      .order("created_at", { ascending: false }),
+  ]);
+  if (versionsResult.error) {
+    throw new BillVersionError(500, "version_lookup_failed", versionsResult.error.message);
+  }
+
+  return {
+    billId: bill.id,
+    parserVersion: bill.parser_version,
+    versions: ((versionsResult.data as VersionRow[] | null) ?? []).map((row) =>
+      toBillVersion(row, current),
+    ),
+  };
+}
+
+// accept and reject settle an open proposal; revert writes back a version the
+// bill held before (a 'previous' snapshot or an earlier accepted re-parse).
+export async function resolveBillVersion(input: {
+  userId: string;
+  billId: string;
+  versionId: string;
+  action: BillVersionAction;
+}): Promise<{ billId: string; action: BillVersionAction; changes: BillFieldChange[]; version: BillVersion }> {
+  const bill = await loadOwnedBill(input.userId, input.billId);
+  const supabase = requireSupabase();
+  const { data, error } = await supabase
+    .from("bill_versions")
+    .select(VERSION_COLUMNS)
+    .eq("id", input.versionId)
+    .eq("bill_id", bill.id)
+    .maybeSingle();
+  if (error) {
+    throw new BillVersionError(500, "version_lookup_failed", error.message);
+  }
+  if (!data) {
+    throw new BillVersionError(404, "version_not_found", "No version with this id for the bill.");
+  }
+
+  const version = data as VersionRow;
+  if (input.action !== "revert" && version.status !== "proposed") {
+    throw new BillVersionError(
+      409,
+      "version_not_proposed",
+      `Only a proposed version can be accepted or rejected; this one is ${version.status}.`,
+    );
+  }
+  if (input.action === "revert" && version.status !== "previous" && version.status !== "applied") {
+    throw new BillVersionError(
+      409,
+      "version_not_restorable",
+      `Only a previous or applied version can be restored; this one is ${version.status}.`,
+    );
+  }
+
+  const current = await loadCurrentSnapshot(bill);
+  const changes = diffSnapshots(current, version.snapshot);
+  if (input.action === "reject") {
+    const { data: rejected, error: rejectError } = await supabase
+      .from("bill_versions")
+      .update({ status: "rejected", resolved_at: new Date().toISOString() })
+      .eq("id", version.id)
+      .select(VERSION_COLUMNS)
+      .single();
+    if (rejectError || !rejected) {
+      throw new BillVersionError(
+        500,
+        "version_update_failed",
+        rejectError?.message ?? "update_failed",
+      );
+    }
+    return {
+      billId: bill.id,
+      action: input.action,
+      changes: [],
+      version: toBillVersion(rejected as VersionRow, current),
+    };
+  }
+
+  const applied = await applyVersion(bill, input.userId, version, current);
+  return {
+    billId: bill.id,
+    action: input.action,
+    changes,
+    version: toBillVersion(applied, version.snapshot),
+  };
+}
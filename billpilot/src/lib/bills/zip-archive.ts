@@ -0,0 +1,113 @@
+import { inflateRawSync } from "node:zlib";
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const END_RECORD_MIN_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+const ZIP64_MARKER = 0xffffffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+const FLAG_ENCRYPTED = 0x1;
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+export interface ZipReadOptions {
+  maxEntries: number;
+  maxEntryBytes: number;
+}
+
+export function isZipArchive(name: string, type: string, data: Uint8Array): boolean {
+  if (name.toLowerCase().endsWith(".zip") || type.toLowerCase().includes("zip")) {
+    return true;
+  }
+  return data.length >= 4 && new DataView(data.buffer, data.byteOffset).getUint32(0, true) === LOCAL_FILE_HEADER;
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  const lowest = Math.max(0, view.byteLength - END_RECORD_MIN_SIZE - MAX_COMMENT_SIZE);
+  for (let offset = view.byteLength - END_RECORD_MIN_SIZE; offset >= lowest; offset -= 1) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new Error("Not a ZIP archive (end of central directory not found).");
+}
+
+// Folders, macOS resource forks and hidden files are packed alongside the
+// bills by most archivers and are never bills themselves.
+function isSkippedEntry(name: string): boolean {
+  if (name.endsWith("/")) {
+    return true;
+  }
+  return name.split("/").some((part) => part.startsWith(".") || part === "__MACOSX");
+}
+
+// Reads the stored and deflated entries of a ZIP archive from its central
+// directory. ZIP64 and encrypted archives are rejected rather than guessed at.
+export function readZipEntries(data: Uint8Array, options: ZipReadOptions): ZipEntry[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const end = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (offset === ZIP64_MARKER) {
+    throw new Error("ZIP64 archives are not supported.");
+  }
+
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  for (let index = 0; index < entryCount; index += 1) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error("Corrupt ZIP central directory.");
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (isSkippedEntry(name)) {
+      continue;
+    }
+    if (flags & FLAG_ENCRYPTED) {
+      throw new Error(`${name} is encrypted.`);
+    }
+    if (compressedSize === ZIP64_MARKER || size === ZIP64_MARKER) {
+      throw new Error("ZIP64 archives are not supported.");
+    }
+    if (size > options.maxEntryBytes) {
+      throw new Error(`${name} is larger than ${options.maxEntryBytes} bytes.`);
+    }
+    if (entries.length >= options.maxEntries) {
+      throw new Error(`Archive holds more than ${options.maxEntries} files.`);
+    }
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt ZIP entry ${name}.`);
+    }
+
+    const dataStart =
+      localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const compressed = data.subarray(dataStart, dataStart + compressedSize);
+    if (method === METHOD_STORED) {
+      entries.push({ name, data: compressed });
+    } else if (method === METHOD_DEFLATE) {
+      entries.push({
+        name,
+        data: new Uint8Array(inflateRawSync(compressed, { maxOutputLength: options.maxEntryBytes })),
+      });
+    } else {
+      throw new Error(`${name} uses unsupported compression method ${method}.`);
+    }
+  }
+
+  return entries;
+}
@@ -0,0 +1,352 @@
+import { randomUUID } from "node:crypto";
+
+import { getAnalysisQuota } from "@/lib/billing/quota";
+import {
+  BatchFileReport,
+  BatchFileStatus,
+  BillBatchError,
+  expandBatchFiles,
+  runBillBatch,
+} from "@/lib/bills/batch";
+import { getPropertyLocale } from "@/lib/properties";
+import { getServiceSupabaseClient } from "@/lib/supabase";
+
+import { htmlToText, MimeMessage, MimePart, parseMimeMessage, partText } from "./mime";
+
+const INBOUND_TOKEN_IN_ADDRESS = /(?:^|[<\s"+.,])([a-f0-9]{32})@/i;
+const RECIPIENT_HEADERS = ["to", "cc", "delivered-to", "x-original-to", "x-forwarded-to", "envelope-to"];
+const BILL_FILE_TYPES = /^(application\/pdf|image\/|application\/(x-)?zip)/;
+const BILL_FILE_EXTENSIONS = /\.(pdf|zip|jpe?g|png|heic|heif|webp|tiff?)$/i;
+// A body is only handed to the parser when it reads like a bill, so receipts
+// and newsletters sent to the address are logged as no_bill instead.
+const BILL_BODY_PATTERN =
+  /(amount due|total due|balance due|total amount|new charges|current charges|kwh|therms|gallons|ccf)/i;
+
+export type InboundEmailStatus =
+  | "processed"
+  | "duplicate"
+  | "failed"
+  | "no_bill"
+  | "unknown_recipient"
+  | "quota_exceeded";
+
+export type InboundBodySource = "attachments" | "html_body" | "text_body";
+
+export class InboundEmailError extends Error {
+  status: number;
+  code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export interface InboundEmailResult {
+  messageLogId: string | null;
+  status: InboundEmailStatus;
+  propertyId: string | null;
+  messageId: string | null;
+  subject: string | null;
+  source: InboundBodySource | null;
+  batchId: string | null;
+  counts: Record<BatchFileStatus, number> | null;
+  files: BatchFileReport[];
+  error: string | null;
+}
+
+export interface InboundEmailLog {
+  id: string;
+  messageId: string | null;
+  fromAddress: string | null;
+  subject: string | null;
+  status: InboundEmailStatus;
+  source: InboundBodySource | null;
+  attachmentCount: number;
+  billIds: string[];
+  error: string | null;
+  createdAt: string;
+}
+
+interface InboundPropertyRow {
+  id: string;
+  user_id: string;
+  inbound_token: string;
+}
+
+interface InboundLogRow {
+  id: string;
+  message_id: string | null;
+  from_address: string | null;
+  subject: string | null;
+  status: InboundEmailStatus;
+  body_source: InboundBodySource | null;
+  attachment_count: number;
+  bill_ids: string[] | null;
+  error: string | null;
+  created_at: string;
+}
+
+function requireSupabase() {
+  const supabase = getServiceSupabaseClient();
+  if (!supabase) {
+    throw new InboundEmailError(
+      500,
+      "supabase_not_configured",
+      "Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY first.",
+    );
+  }
+  return supabase;
+}
+
+// Addresses take the form bills+<token>@<INBOUND_EMAIL_DOMAIN>; any local
+// part works as long as the token sits right before the @.
+export function inboundAddressFor(token: string): string | null {
+  const domain = process.env.INBOUND_EMAIL_DOMAIN?.trim();
+  return domain ? `bills+${token}@${domain}` : null;
+}
+
+export function findInboundToken(addresses: string[]): string | null {
+  for (const address of addresses) {
+    const match = INBOUND_TOKEN_IN_ADDRESS.exec(address);
+    if (match) {
+      return match[1].toLowerCase();
+    }
+  }
+  return null;
+}
+
+function isBillAttachment(part: MimePart): boolean {
+  if (!part.filename && part.disposition !== "attachment") {
+    return false;
+  }
+  return BILL_FILE_TYPES.test(part.contentType) || BILL_FILE_EXTENSIONS.test(part.filename ?? "");
+}
+
+// PDF, image and ZIP attachments win; otherwise the HTML body (or, failing
+// that, the plain-text body) becomes a single text file when it reads like a
+// bill.
+export function collectBillFiles(
+  message: MimeMessage,
+): { files: File[]; source: InboundBodySource | null } {
+  const attachments = message.parts.filter(isBillAttachment);
+  if (attachments.length > 0) {
+    return {
+      source: "attachments",
+      files: attachments.map(
+        (part, index) =>
+          new File([new Uint8Array(part.data)], part.filename ?? `attachment-${index + 1}.pdf`, {
+            type: part.contentType,
+          }),
+      ),
+    };
+  }
+
+  const bodyParts = message.parts.filter((part) => part.disposition !== "attachment");
+  const html = bodyParts.find((part) => part.contentType === "text/html");
+  const plain = bodyParts.find((part) => part.contentType === "text/plain");
+  const candidates: Array<{ source: InboundBodySource; text: string }> = [];
+  if (html) {
+    candidates.push({ source: "html_body", text: htmlToText(partText(html)) });
+  }
+  if (plain) {
+    candidates.push({ source: "text_body", text: partText(plain).trim() });
+  }
+
+  const body = candidates.find((candidate) => BILL_BODY_PATTERN.test(candidate.text));
+  if (!body) {
+    return { files: [], source: null };
+  }
+  return {
+    source: body.source,
+    files: [new File([body.text], "email-body.txt", { type: "text/plain" })],
+  };
+}
+
+async function findPropertyByToken(token: string | null): Promise<InboundPropertyRow | null> {
+  if (!token) {
+    return null;
+  }
+  const supabase = requireSupabase();
+  const { data, error } = await supabase
+    .from("properties")
+    .select("id, user_id, inbound_token")
+    .eq("inbound_token", token)
+    .maybeSingle();
+
+  if (error) {
+    throw new InboundEmailError(500, "property_lookup_failed", error.message);
+  }
+  return (data as InboundPropertyRow | null) ?? null;
+}
+
+function receivedAt(date: string | null): string | null {
+  const parsed = date ? Date.parse(date) : Number.NaN;
+  return Number.isNaN(parsed) ? null : new Date(parsed).toISOString();
+}
+
+function statusFromCounts(counts: Record<BatchFileStatus, number>): InboundEmailStatus {
+  if (counts.parsed + counts.low_confidence > 0) {
+    return "processed";
+  }
+  if (counts.duplicate > 0) {
+    return "duplicate";
+  }
+  if (counts.quota_exceeded > 0) {
+    return "quota_exceeded";
+  }
+  return "failed";
+}
+
+// Parses a raw message sent to a property's inbound address, runs its bills
+// through the batch pipeline and logs the message with its outcome, whatever
+// the outcome is.
+export async function ingestInboundEmail(input: {
+  raw: string | Uint8Array;
+  recipients?: string[];
+}): Promise<InboundEmailResult> {
+  const supabase = requireSupabase();
+  const message = parseMimeMessage(input.raw);
+  const addresses = [
+    ...(input.recipients ?? []),
+    ...RECIPIENT_HEADERS.flatMap((name) => message.headers.get(name) ?? []),
+  ];
+  const token = findInboundToken(addresses);
+  const property = await findPropertyByToken(token);
+  const { files: billFiles, source } = property
+    ? collectBillFiles(message)
+    : { files: [], source: null };
+
+  const result: InboundEmailResult = {
+    messageLogId: null,
+    status: "failed",
+    propertyId: property?.id ?? null,
+    messageId: message.messageId,
+    subject: message.subject,
+    source,
+    batchId: null,
+    counts: null,
+    files: [],
+    error: null,
+  };
+
+  if (!property) {
+    result.status = "unknown_recipient";
+    result.error = token
+      ? "No property uses this inbound address."
+      : "No inbound address token found in the recipients.";
+  } else if (billFiles.length === 0) {
+    result.status = "no_bill";
+  } else {
+    try {
+      const quota = await getAnalysisQuota(property.id, property.user_id);
+      if (!quota.allowed) {
+        result.status = "quota_exceeded";
+        result.error = "The property owner has no analyses left this month.";
+      } else {
+        const { files, failures } = await expandBatchFiles(billFiles);
+        const batch = await runBillBatch({
+          userId: property.user_id,
+          propertyId: property.id,
+          files,
+          failures,
+          locale: await getPropertyLocale(property.id),
+          quota,
+        });
+        result.batchId = batch.batchId;
+        result.counts = batch.counts;
+        result.files = batch.files;
+        result.status = statusFromCounts(batch.counts);
+      }
+    } catch (error) {
+      if (!(error instanceof BillBatchError)) {
+        throw error;
+      }
+      result.status = "failed";
+      result.error = error.message;
+    }
+  }
+
+  const { data: logRow } = await supabase
+    .from("inbound_email_messages")
+    .insert({
+      property_id: property?.id ?? null,
+      user_id: property?.user_id ?? null,
+      message_id: message.messageId,
+      from_address: message.from,
+      to_addresses: message.to,
+      subject: message.subject,
+      received_at: receivedAt(message.date),
+      status: result.status,
+      body_source: source,
+      attachment_count: source === "attachments" ? billFiles.length : 0,
+      batch_id: result.batchId,
+      bill_ids: result.files.flatMap((file) => file.billIds),
+      error: result.error,
+    })
+    .select("id")
+    .single();
+
+  result.messageLogId = (logRow?.id as string | undefined) ?? null;
+  return result;
+}
+
+export async function getInboundToken(propertyId: string): Promise<string | null> {
+  const supabase = requireSupabase();
+  const { data, error } = await supabase
+    .from("properties")
+    .select("inbound_token")
+    .eq("id", propertyId)
+    .maybeSingle();
+
+  if (error) {
+    throw new InboundEmailError(500, "property_lookup_failed", error.message);
+  }
+  return (data as { inbound_token: string } | null)?.inbound_token ?? null;
+}
+
+// Issues a new inbound address; mail sent to the old one is logged as
+// unknown_recipient from then on.
+export async function rotateInboundToken(propertyId: string): Promise<string> {
+  const supabase = requireSupabase();
+  const token = randomUUID().replace(/-/g, "");
+  const { error } = await supabase
+    .from("properties")
+    .update({ inbound_token: token })
+    .eq("id", propertyId);
+
+  if (error) {
+    throw new InboundEmailError(500, "inbound_token_rotate_failed", error.message);
+  }
+  return token;
+}
+
+export async function listInboundEmailLog(propertyId: string, limit: number): Promise<InboundEmailLog[]> {
+  const supabase = requireSupabase();
+  const { data, error } = await supabase
+    .from("inbound_email_messages")
+    .select(
+      "id, message_id, from_address, subject, status, body_source, attachment_count, bill_ids, error, created_at",
+    )
+    .eq("property_id", propertyId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new InboundEmailError(500, "inbound_log_lookup_failed", error.message);
+  }
+
+  return ((data as InboundLogRow[] | null) ?? []).map((row) => ({
+    id: row.id,
+    messageId: row.message_id,
+    fromAddress: row.from_address,
+    subject: row.subject,
+    status: row.status,
+    source: row.body_source,
+    attachmentCount: row.attachment_count,
+    billIds: row.bill_ids ?? [],
+    error: row.error,
+    createdAt: row.created_at,
+  }));
+}
@@ -0,0 +1,287 @@
+import { Buffer } from "node:buffer";
+
+export interface MimePart {
+  contentType: string;
+  charset: string | null;
+  filename: string | null;
+  disposition: "attachment" | "inline" | null;
+  data: Buffer;
+}
+
+export interface MimeMessage {
+  headers: Map<string, string[]>;
+  messageId: string | null;
+  subject: string | null;
+  from: string | null;
+  to: string[];
+  date: string | null;
+  parts: MimePart[];
+}
+
+interface HeaderValue {
+  value: string;
+  params: Record<string, string>;
+}
+
+const MAX_NESTING = 8;
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  euro: "€",
+  pound: "£",
+  yen: "¥",
+  cent: "¢",
+  ndash: "-",
+  mdash: "-",
+};
+
+function decodeCharset(data: Buffer, charset: string | null): string {
+  try {
+    return new TextDecoder(charset ?? "utf-8").decode(data);
+  } catch {
+    return data.toString("utf8");
+  }
+}
+
+function decodeQuotedPrintable(text: string): Buffer {
+  const bytes: number[] = [];
+  const input = text.replace(/=\r?\n/g, "");
+  for (let index = 0; index < input.length; index += 1) {
+    const char = input[index];
+    const hex = input.slice(index + 1, index + 3);
+    if (char === "=" && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      index += 2;
+    } else {
+      bytes.push(input.charCodeAt(index) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// RFC 2047 encoded words ("=?utf-8?B?...?="); whitespace between two encoded
+// words is dropped as the RFC requires.
+function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, "$1")
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_match, charset: string, encoding: string, text: string) => {
+      const data =
+        encoding.toUpperCase() === "B"
+          ? Buffer.from(text, "base64")
+          : decodeQuotedPrintable(text.replace(/_/g, " "));
+      return decodeCharset(data, charset);
+    });
+}
+
+function splitHeaderBlock(raw: string): { headerText: string; body: string } {
+  const match = /\r?\n\r?\n/.exec(raw);
+  if (!match) {
+    return { headerText: raw, body: "" };
+  }
+  return {
+    headerText: raw.slice(0, match.index),
+    body: raw.slice(match.index + match[0].length),
+  };
+}
+
+function parseHeaders(headerText: string): Map<string, string[]> {
+  const headers = new Map<string, string[]>();
+  const unfolded = headerText.replace(/\r?\n[ \t]+/g, " ");
+  for (const line of unfolded.split(/\r?\n/)) {
+    const separator = line.indexOf(":");
+    if (separator <= 0) {
+      continue;
+    }
+    const name = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+    headers.set(name, [...(headers.get(name) ?? []), value]);
+  }
+  return headers;
+}
+
+function firstHeader(headers: Map<string, string[]>, name: string): string | null {
+  return headers.get(name)?.[0] ?? null;
+}
+
+// Splits "type/subtype; key=value; key*=utf-8''x" into its value and params,
+// joining RFC 2231 continuations (filename*0*, filename*1*, ...).
+function parseHeaderValue(header: string | null): HeaderValue {
+  if (!header) {
+    return { value: "", params: {} };
+  }
+  const [value, ...rest] = header.split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  const pieces = new Map<string, Array<{ index: number; text: string; extended: boolean }>>();
+
+  for (const param of rest) {
+    const separator = param.indexOf("=");
+    if (separator <= 0) {
+      continue;
+    }
+    const rawKey = param.slice(0, separator).trim().toLowerCase();
+    const text = param.slice(separator + 1).trim().replace(/^"(.*)"$/, "$1");
+    const match = /^([^*]+)(?:\*(\d+))?(\*)?$/.exec(rawKey);
+    if (!match) {
+      continue;
+    }
+    const key = match[1];
+    pieces.set(key, [
+      ...(pieces.get(key) ?? []),
+      { index: Number(match[2] ?? 0), text, extended: Boolean(match[3]) },
+    ]);
+  }
+
+  const params: Record<string, string> = {};
+  for (const [key, list] of pieces) {
+    const ordered = list.sort((left, right) => left.index - right.index);
+    let charset = "utf-8";
+    params[key] = ordered
+      .map((piece, position) => {
+        if (!piece.extended) {
+          return decodeEncodedWords(piece.text);
+        }
+        let text = piece.text;
+        if (position === 0) {
+          const prefix = /^([^']*)'[^']*'(.*)$/.exec(text);
+          if (prefix) {
+            charset = prefix[1] || charset;
+            text = prefix[2];
+          }
+        }
+        return decodeCharset(
+          Buffer.from(text.replace(/%([0-9A-Fa-f]{2})/g, (_m, hex: string) =>
+            String.fromCharCode(parseInt(hex, 16)),
+          ), "latin1"),
+          charset,
+        );
+      })
+      .join("");
+  }
+
+  return { value: value.trim().toLowerCase(), params };
+}
+
+function decodeBody(body: string, encoding: string | null): Buffer {
+  switch ((encoding ?? "").trim().toLowerCase()) {
+    case "base64":
+      return Buffer.from(body.replace(/\s+/g, ""), "base64");
+    case "quoted-printable":
+      return decodeQuotedPrintable(body);
+    default:
+      return Buffer.from(body, "latin1");
+  }
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+  let current: string[] | null = null;
+
+  for (const line of body.split(/\r?\n/)) {
+    const trimmed = line.trimEnd();
+    if (trimmed === `${delimiter}--`) {
+      break;
+    }
+    if (trimmed === delimiter) {
+      if (current) {
+        parts.push(current.join("\n"));
+      }
+      current = [];
+      continue;
+    }
+    current?.push(line);
+  }
+  if (current && current.length > 0) {
+    parts.push(current.join("\n"));
+  }
+  return parts;
+}
+
+// Walks the entity tree and returns its leaf parts. Attached messages
+// (message/rfc822) are walked too so a forwarded bill's attachments count.
+function collectParts(headers: Map<string, string[]>, body: string, depth: number): MimePart[] {
+  const contentType = parseHeaderValue(firstHeader(headers, "content-type") ?? "text/plain");
+  const encoding = firstHeader(headers, "content-transfer-encoding");
+
+  if (depth < MAX_NESTING && contentType.value.startsWith("multipart/") && contentType.params.boundary) {
+    return splitMultipart(body, contentType.params.boundary).flatMap((part) => {
+      const { headerText, body: partBody } = splitHeaderBlock(part);
+      return collectParts(parseHeaders(headerText), partBody, depth + 1);
+    });
+  }
+
+  if (depth < MAX_NESTING && contentType.value === "message/rfc822") {
+    const inner = decodeBody(body, encoding).toString("latin1");
+    const { headerText, body: innerBody } = splitHeaderBlock(inner);
+    return collectParts(parseHeaders(headerText), innerBody, depth + 1);
+  }
+
+  const disposition = parseHeaderValue(firstHeader(headers, "content-disposition"));
+  return [
+    {
+      contentType: contentType.value || "text/plain",
+      charset: contentType.params.charset ?? null,
+      filename: disposition.params.filename ?? contentType.params.name ?? null,
+      disposition:
+        disposition.value === "attachment" || disposition.value === "inline"
+          ? disposition.value
+          : null,
+      data: decodeBody(body, encoding),
+    },
+  ];
+}
+
+function splitAddresses(value: string | null): string[] {
+  if (!value) {
+    return [];
+  }
+  return value
+    .split(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/)
+    .map((address) => decodeEncodedWords(address.trim()))
+    .filter(Boolean);
+}
+
+// Reads a raw RFC 5322 message. Bytes are kept as latin1 until a part's
+// charset is known so 8-bit bodies survive the round trip.
+export function parseMimeMessage(raw: string | Uint8Array): MimeMessage {
+  const text = typeof raw === "string" ? raw : Buffer.from(raw).toString("latin1");
+  const { headerText, body } = splitHeaderBlock(text.replace(/^\s+/, ""));
+  const headers = parseHeaders(headerText);
+  const subject = firstHeader(headers, "subject");
+
+  return {
+    headers,
+    messageId: firstHeader(headers, "message-id"),
+    subject: subject ? decodeEncodedWords(subject) : null,
+    from: splitAddresses(firstHeader(headers, "from"))[0] ?? null,
+    to: (headers.get("to") ?? []).flatMap(splitAddresses),
+    date: firstHeader(headers, "date"),
+    parts: collectParts(headers, body, 0),
+  };
+}
+
+export function partText(part: MimePart): string {
+  return decodeCharset(part.data, part.charset);
+}
+
+// Turns an HTML e-bill into lines the bill parser can read: block elements
+// and rows end a line, table cells are separated by spaces.
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|head)\b[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|tr|li|h[1-6]|table|section)>/gi, "\n")
+    .replace(/<\/(td|th)>/gi, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&#x([0-9a-f]+);/gi, (_match, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_match, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&([a-z]+);/gi, (match, name: string) => HTML_ENTITIES[name.toLowerCase()] ?? match)
+    .split("\n")
+    .map((line) => line.replace(/[ \t\u00a0]+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+}
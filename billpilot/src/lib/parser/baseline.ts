@@ -0,0 +1,71 @@
+import { BaselineKind, HistoricalBillSnapshot } from "./types";
+
+export interface SeasonalBaseline {
+  kind: BaselineKind;
+  // The bills the expected cost and usage are averaged from.
+  bills: HistoricalBillSnapshot[];
+  // The latest few bills, for checks that follow recent habits (demand share,
+  // repeated late fees) rather than the season.
+  recent: HistoricalBillSnapshot[];
+}
+
+const DAY_MS = 86_400_000;
+const YEAR_DAYS = 365;
+// A prior bill is the same billing month when its period ends within this many
+// days of a whole number of years before this bill's; read dates drift a few
+// days from year to year.
+const SAME_MONTH_TOLERANCE_DAYS = 20;
+const SAME_MONTH_MAX_YEARS = 2;
+// The trailing average only stands in for the season once the history reaches
+// back most of a year; shorter history is biased to the months it covers.
+const TRAILING_MIN_SPAN_DAYS = 300;
+export const RECENT_BASELINE_BILLS = 3;
+
+// Picks the baseline the history supports: the same month in each of the last
+// two years when those bills exist, otherwise the trailing twelve months when
+// they span most of a year, otherwise the latest three bills. Prior bills
+// without a period end (or a bill without one) can only be used as the latest
+// bills, in the order given.
+export function selectBaseline(
+  periodEnd: string | null,
+  priorBills: HistoricalBillSnapshot[],
+): SeasonalBaseline {
+  if (priorBills.length === 0) {
+    return { kind: "none", bills: [], recent: [] };
+  }
+
+  const end = periodEnd ? Date.parse(periodEnd) : Number.NaN;
+  const dated = priorBills
+    .map((bill) => ({
+      bill,
+      age: bill.periodEnd ? (end - Date.parse(bill.periodEnd)) / DAY_MS : Number.NaN,
+    }))
+    .filter((entry) => Number.isFinite(entry.age) && entry.age > 0)
+    .sort((left, right) => left.age - right.age);
+  if (dated.length === 0) {
+    const recent = priorBills.slice(0, RECENT_BASELINE_BILLS);
+    return { kind: "recent_trend", bills: recent, recent };
+  }
+  const recent = dated.slice(0, RECENT_BASELINE_BILLS).map((entry) => entry.bill);
+
+  const sameMonth: HistoricalBillSnapshot[] = [];
+  for (let years = 1; years <= SAME_MONTH_MAX_YEARS; years += 1) {
+    const target = years * YEAR_DAYS;
+    const closest = dated
+      .filter((entry) => Math.abs(entry.age - target) <= SAME_MONTH_TOLERANCE_DAYS)
+      .sort((left, right) => Math.abs(left.age - target) - Math.abs(right.age - target))[0];
+    if (closest) {
+      sameMonth.push(closest.bill);
+    }
+  }
+  if (sameMonth.length > 0) {
+    return { kind: "same_month_last_year", bills: sameMonth, recent };
+  }
+
+  const trailing = dated.filter((entry) => entry.age < YEAR_DAYS);
+  if (trailing.length > 0 && trailing[trailing.length - 1].age >= TRAILING_MIN_SPAN_DAYS) {
+    return { kind: "trailing_12_months", bills: trailing.map((entry) => entry.bill), recent };
+  }
+
+  return { kind: "recent_trend", bills: recent, recent };
+}
@@ -1,22 +1,59 @@
-import { ParsedBill } from "./types";
+import { EvidenceField, OcrReadout, ParsedBill } from "./types";
 
-export function estimateParseConfidence(parsed: ParsedBill): number {
+// OCR text is never as trustworthy as embedded PDF text, even at 100% engine
+// confidence, so the field score is scaled into [OCR_FLOOR, OCR_CEILING].
+const OCR_FLOOR = 0.5;
+const OCR_CEILING = 0.9;
+
+// A stored bill keeps only the engine's average confidence, which is all the
+// score needs.
+interface ConfidenceContext {
+  ocr?: Pick<OcrReadout, "averageConfidence"> | null;
+}
+
+// Fields without recorded evidence (e.g. rows parsed before evidence existed)
+// keep full weight, matching the old presence-only scoring.
+function fieldConfidence(parsed: ParsedBill, field: EvidenceField): number {
+  return parsed.evidence[field]?.confidence ?? 1;
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+export function estimateParseConfidence(
+  parsed: ParsedBill,
+  context: ConfidenceContext = {},
+): number {
   let score = 0;
 
   if (parsed.totalCost !== null) {
-    score += 0.3;
+    score += 0.3 * fieldConfidence(parsed, "totalCost");
   }
   if (parsed.periodStart && parsed.periodEnd) {
-    score += 0.2;
+    score +=
+      0.2 *
+      average([
+        fieldConfidence(parsed, "periodStart"),
+        fieldConfidence(parsed, "periodEnd"),
+      ]);
   }
   if (parsed.usageValue !== null && parsed.usageUnit) {
-    score += 0.2;
+    score +=
+      0.2 *
+      Math.min(fieldConfidence(parsed, "usageValue"), fieldConfidence(parsed, "usageUnit"));
   }
   if (parsed.provider) {
-    score += 0.1;
+    score += 0.1 * fieldConfidence(parsed, "provider");
   }
   if (parsed.lineItems.length > 0) {
-    score += 0.2;
+    score +=
+      0.2 * average(parsed.lineItems.map((item) => item.evidence?.confidence ?? 1));
+  }
+
+  if (context.ocr) {
+    const ocrConfidence = Math.max(0, Math.min(1, context.ocr.averageConfidence));
+    score *= OCR_FLOOR + (OCR_CEILING - OCR_FLOOR) * ocrConfidence;
   }
 
   return Math.max(0, Math.min(1, Number(score.toFixed(3))));
@@ -0,0 +1,469 @@
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+
+import { estimateParseConfidence } from "./confidence";
+import { extractTextFromFile } from "./extractText";
+import { parseBillFields } from "./parseFields";
+import { EvidenceField, ExtractedText, ParsedBill } from "./types";
+import { PARSER_VERSION } from "./version";
+
+// Labeled fields a corpus can score. Each label file holds the expected values
+// of a bill; a field left out is not scored, a null says the bill has none.
+export const EVALUATED_FIELDS: EvidenceField[] = [
+  "provider",
+  "periodStart",
+  "periodEnd",
+  "totalCost",
+  "usageValue",
+  "usageUnit",
+  "currency",
+  "demandKw",
+  "demandCharge",
+  "accountNumber",
+  "meterNumber",
+  "serviceAddress",
+  "dueDate",
+  "previousBalance",
+  "paymentsReceived",
+  "lateFee",
+];
+
+export type ExpectedValue = string | number | null;
+
+export interface EvaluationSample {
+  id: string;
+  file: string;
+  rawText: string;
+  extraction: Omit<ExtractedText, "text">;
+  locale: string | null;
+  expected: Partial<Record<EvidenceField, ExpectedValue>>;
+}
+
+export interface FieldMetrics {
+  field: EvidenceField;
+  labeled: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  trueNegatives: number;
+  precision: number | null;
+  recall: number | null;
+  accuracy: number | null;
+}
+
+export interface ProviderMetrics {
+  provider: string;
+  bills: number;
+  exactBills: number;
+  accuracy: number;
+  fieldAccuracy: number;
+}
+
+export interface CalibrationBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanConfidence: number | null;
+  accuracy: number | null;
+}
+
+export interface CalibrationCurve {
+  bins: CalibrationBin[];
+  // Count-weighted gap between stated confidence and observed accuracy.
+  expectedCalibrationError: number | null;
+}
+
+export interface FieldMismatch {
+  field: EvidenceField;
+  expected: ExpectedValue;
+  actual: ExpectedValue;
+  confidence: number | null;
+}
+
+export interface SampleResult {
+  id: string;
+  file: string;
+  provider: string;
+  template: string;
+  confidence: number;
+  correct: boolean;
+  mismatches: FieldMismatch[];
+}
+
+export interface EvaluationReport {
+  parserVersion: string;
+  generatedAt: string;
+  corpus: string;
+  samples: number;
+  skipped: Array<{ file: string; reason: string }>;
+  overall: {
+    precision: number | null;
+    recall: number | null;
+    accuracy: number | null;
+    exactBills: number;
+    exactBillRate: number | null;
+  };
+  fields: FieldMetrics[];
+  providers: ProviderMetrics[];
+  calibration: {
+    bill: CalibrationCurve;
+    field: CalibrationCurve;
+  };
+  results: SampleResult[];
+}
+
+export interface EvaluationComparison {
+  baselineParserVersion: string;
+  overall: Record<"precision" | "recall" | "accuracy" | "exactBillRate", number | null>;
+  fields: Array<{
+    field: EvidenceField;
+    precision: number | null;
+    recall: number | null;
+    accuracy: number | null;
+  }>;
+  // Bills that were fully correct in the baseline and are not any more.
+  regressed: string[];
+  fixed: string[];
+}
+
+const TEXT_EXTENSIONS = new Set([".txt", ".text"]);
+const FILE_TYPES: Record<string, string> = {
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".heic": "image/heic",
+  ".heif": "image/heif",
+  ".webp": "image/webp",
+  ".tif": "image/tiff",
+  ".tiff": "image/tiff",
+};
+const NUMERIC_FIELDS = new Set<EvidenceField>([
+  "totalCost",
+  "usageValue",
+  "demandKw",
+  "demandCharge",
+  "previousBalance",
+  "paymentsReceived",
+  "lateFee",
+]);
+const NUMBER_TOLERANCE = 0.005;
+const CALIBRATION_BINS = 10;
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator === 0 ? null : Number((numerator / denominator).toFixed(4));
+}
+
+function delta(current: number | null, baseline: number | null): number | null {
+  return current === null || baseline === null ? null : Number((current - baseline).toFixed(4));
+}
+
+function parsedValue(bill: ParsedBill, field: EvidenceField): ExpectedValue {
+  if (field === "meterNumber") {
+    return bill.meterNumbers[0] ?? null;
+  }
+  return bill[field] ?? null;
+}
+
+function normalizeString(field: EvidenceField, value: string): string {
+  const trimmed = value.trim().replace(/\s+/g, " ");
+  return field === "currency" ? trimmed.toUpperCase() : trimmed.toLowerCase();
+}
+
+function valuesMatch(field: EvidenceField, expected: ExpectedValue, actual: ExpectedValue): boolean {
+  if (expected === null || actual === null) {
+    return expected === actual;
+  }
+  if (NUMERIC_FIELDS.has(field)) {
+    return Math.abs(Number(expected) - Number(actual)) <= NUMBER_TOLERANCE;
+  }
+  return normalizeString(field, String(expected)) === normalizeString(field, String(actual));
+}
+
+function calibrationCurve(points: Array<{ confidence: number; correct: boolean }>): CalibrationCurve {
+  const bins = Array.from({ length: CALIBRATION_BINS }, (_, index) => ({
+    lower: index / CALIBRATION_BINS,
+    upper: (index + 1) / CALIBRATION_BINS,
+    confidences: [] as number[],
+    correct: 0,
+  }));
+  for (const point of points) {
+    const index = Math.min(CALIBRATION_BINS - 1, Math.floor(point.confidence * CALIBRATION_BINS));
+    bins[Math.max(0, index)].confidences.push(point.confidence);
+    bins[Math.max(0, index)].correct += point.correct ? 1 : 0;
+  }
+
+  let gap = 0;
+  const curve = bins.map((bin): CalibrationBin => {
+    const count = bin.confidences.length;
+    const meanConfidence = ratio(
+      bin.confidences.reduce((sum, value) => sum + value, 0),
+      count,
+    );
+    const accuracy = ratio(bin.correct, count);
+    if (meanConfidence !== null && accuracy !== null) {
+      gap += count * Math.abs(meanConfidence - accuracy);
+    }
+    return { lower: bin.lower, upper: bin.upper, count, meanConfidence, accuracy };
+  });
+
+  return { bins: curve, expectedCalibrationError: ratio(gap, points.length) };
+}
+
+async function walk(directory: string): Promise<string[]> {
+  const entries = await readdir(directory, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const fullPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await walk(fullPath)));
+    } else if (entry.isFile()) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+async function readBillText(file: string): Promise<ExtractedText> {
+  const extension = path.extname(file).toLowerCase();
+  if (TEXT_EXTENSIONS.has(extension)) {
+    return { text: await readFile(file, "utf8"), source: "plain_text", ocr: null };
+  }
+  const bytes = await readFile(file);
+  return extractTextFromFile(
+    new File([new Uint8Array(bytes)], path.basename(file), {
+      type: FILE_TYPES[extension] ?? "application/octet-stream",
+    }),
+  );
+}
+
+// Pairs every `<name>.json` label in the directory tree with the bill file of
+// the same name (.txt, .pdf or an image) and extracts its text.
+export async function loadEvaluationCorpus(
+  directory: string,
+): Promise<{ samples: EvaluationSample[]; skipped: Array<{ file: string; reason: string }> }> {
+  const files = await walk(directory);
+  const byStem = new Map<string, string[]>();
+  for (const file of files) {
+    const stem = file.slice(0, file.length - path.extname(file).length);
+    byStem.set(stem, [...(byStem.get(stem) ?? []), file]);
+  }
+
+  const samples: EvaluationSample[] = [];
+  const skipped: Array<{ file: string; reason: string }> = [];
+  for (const [stem, group] of byStem) {
+    const labelFile = group.find((file) => path.extname(file).toLowerCase() === ".json");
+    const billFile = group.find((file) => {
+      const extension = path.extname(file).toLowerCase();
+      return TEXT_EXTENSIONS.has(extension) || extension in FILE_TYPES;
+    });
+    const relative = path.relative(directory, billFile ?? labelFile ?? stem);
+    if (!labelFile || !billFile) {
+      skipped.push({ file: relative, reason: labelFile ? "no_bill_file" : "no_label_file" });
+      continue;
+    }
+
+    try {
+      const label = JSON.parse(await readFile(labelFile, "utf8")) as Record<string, unknown>;
+      const expected: Partial<Record<EvidenceField, ExpectedValue>> = {};
+      for (const field of EVALUATED_FIELDS) {
+        const value = label[field];
+        if (value === null || typeof value === "string" || typeof value === "number") {
+          expected[field] = value;
+        }
+      }
+      const extracted = await readBillText(billFile);
+      samples.push({
+        id: path.relative(directory, stem),
+        file: relative,
+        rawText: extracted.text,
+        extraction: { source: extracted.source, ocr: extracted.ocr },
+        locale: typeof label.locale === "string" ? label.locale : null,
+        expected,
+      });
+    } catch (error) {
+      skipped.push({
+        file: relative,
+        reason: error instanceof Error ? error.message : "unreadable",
+      });
+    }
+  }
+
+  return { samples, skipped };
+}
+
+// Parses every sample and scores it field by field. A value the parser
+// returns counts as a true positive when it matches the label and a false
+// positive otherwise; a labeled value it misses or gets wrong is a false
+// negative. Calibration compares the bill confidence with fully correct bills,
+// and each returned field's evidence confidence with that field being right.
+export function evaluateParser(
+  samples: EvaluationSample[],
+  options: { corpus: string; skipped?: Array<{ file: string; reason: string }> },
+): EvaluationReport {
+  const fields = new Map<EvidenceField, FieldMetrics>(
+    EVALUATED_FIELDS.map((field) => [
+      field,
+      {
+        field,
+        labeled: 0,
+        truePositives: 0,
+        falsePositives: 0,
+        falseNegatives: 0,
+        trueNegatives: 0,
+        precision: null,
+        recall: null,
+        accuracy: null,
+      },
+    ]),
+  );
+  const providers = new Map<string, { bills: number; exactBills: number; labeled: number; matched: number }>();
+  const billPoints: Array<{ confidence: number; correct: boolean }> = [];
+  const fieldPoints: Array<{ confidence: number; correct: boolean }> = [];
+  const results: SampleResult[] = [];
+
+  for (const sample of samples) {
+    const parsed = parseBillFields(sample.rawText, { locale: sample.locale });
+    const confidence = estimateParseConfidence(parsed, { ocr: sample.extraction.ocr });
+    const mismatches: FieldMismatch[] = [];
+    let labeled = 0;
+
+    for (const field of EVALUATED_FIELDS) {
+      if (!(field in sample.expected)) {
+        continue;
+      }
+      const metrics = fields.get(field)!;
+      const expected = sample.expected[field] ?? null;
+      const actual = parsedValue(parsed, field);
+      const match = valuesMatch(field, expected, actual);
+      const fieldConfidence = actual === null ? null : (parsed.evidence[field]?.confidence ?? 1);
+      labeled += 1;
+      metrics.labeled += 1;
+
+      if (actual !== null && match) {
+        metrics.truePositives += 1;
+      } else if (actual === null && expected === null) {
+        metrics.trueNegatives += 1;
+      } else {
+        if (actual !== null) {
+          metrics.falsePositives += 1;
+        }
+        if (expected !== null) {
+          metrics.falseNegatives += 1;
+        }
+      }
+      if (fieldConfidence !== null) {
+        fieldPoints.push({ confidence: fieldConfidence, correct: match });
+      }
+      if (!match) {
+        mismatches.push({ field, expected, actual, confidence: fieldConfidence });
+      }
+    }
+
+    const correct = mismatches.length === 0;
+    const providerName =
+      (typeof sample.expected.provider === "string" ? sample.expected.provider : null) ??
+      parsed.provider ??
+      "Unknown provider";
+    const providerKey = providerName.trim().toLowerCase();
+    const entry = providers.get(providerKey) ?? { bills: 0, exactBills: 0, labeled: 0, matched: 0 };
+    entry.bills += 1;
+    entry.exactBills += correct ? 1 : 0;
+    entry.labeled += labeled;
+    entry.matched += labeled - mismatches.length;
+    providers.set(providerKey, entry);
+    billPoints.push({ confidence, correct });
+
+    results.push({
+      id: sample.id,
+      file: sample.file,
+      provider: providerName,
+      template: parsed.template.id,
+      confidence,
+      correct,
+      mismatches,
+    });
+  }
+
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+  let matched = 0;
+  let labeled = 0;
+  for (const metrics of fields.values()) {
+    metrics.precision = ratio(metrics.truePositives, metrics.truePositives + metrics.falsePositives);
+    metrics.recall = ratio(metrics.truePositives, metrics.truePositives + metrics.falseNegatives);
+    metrics.accuracy = ratio(metrics.truePositives + metrics.trueNegatives, metrics.labeled);
+    truePositives += metrics.truePositives;
+    falsePositives += metrics.falsePositives;
+    falseNegatives += metrics.falseNegatives;
+    matched += metrics.truePositives + metrics.trueNegatives;
+    labeled += metrics.labeled;
+  }
+  const exactBills = results.filter((result) => result.correct).length;
+
+  return {
+    parserVersion: PARSER_VERSION,
+    generatedAt: new Date().toISOString(),
+    corpus: options.corpus,
+    samples: samples.length,
+    skipped: options.skipped ?? [],
+    overall: {
+      precision: ratio(truePositives, truePositives + falsePositives),
+      recall: ratio(truePositives, truePositives + falseNegatives),
+      accuracy: ratio(matched, labeled),
+      exactBills,
+      exactBillRate: ratio(exactBills, results.length),
+    },
+    fields: Array.from(fields.values()),
+    providers: Array.from(providers.entries())
+      .map(([key, entry]) => ({
+        provider: results.find((result) => result.provider.trim().toLowerCase() === key)?.provider ?? key,
+        bills: entry.bills,
+        exactBills: entry.exactBills,
+        accuracy: ratio(entry.exactBills, entry.bills) ?? 0,
+        fieldAccuracy: ratio(entry.matched, entry.labeled) ?? 1,
+      }))
+      .sort((a, b) => b.bills - a.bills || a.provider.localeCompare(b.provider)),
+    calibration: {
+      bill: calibrationCurve(billPoints),
+      field: calibrationCurve(fieldPoints),
+    },
+    results,
+  };
+}
+
+// Differences against an earlier report (current minus baseline), matched by
+// field and by sample id.
+export function compareEvaluationReports(
+  current: EvaluationReport,
+  baseline: EvaluationReport,
+): EvaluationComparison {
+  const baselineFields = new Map(baseline.fields.map((metrics) => [metrics.field, metrics]));
+  const baselineResults = new Map(baseline.results.map((result) => [result.id, result]));
+
+  return {
+    baselineParserVersion: baseline.parserVersion,
+    overall: {
+      precision: delta(current.overall.precision, baseline.overall.precision),
+      recall: delta(current.overall.recall, baseline.overall.recall),
+      accuracy: delta(current.overall.accuracy, baseline.overall.accuracy),
+      exactBillRate: delta(current.overall.exactBillRate, baseline.overall.exactBillRate),
+    },
+    fields: current.fields.map((metrics) => {
+      const before = baselineFields.get(metrics.field);
+      return {
+        field: metrics.field,
+        precision: delta(metrics.precision, before?.precision ?? null),
+        recall: delta(metrics.recall, before?.recall ?? null),
+        accuracy: delta(metrics.accuracy, before?.accuracy ?? null),
+      };
+    }),
+    regressed: current.results
+      .filter((result) => !result.correct && baselineResults.get(result.id)?.correct)
+      .map((result) => result.id),
+    fixed: current.results
+      .filter((result) => result.correct && baselineResults.get(result.id)?.correct === false)
+      .map((result) => result.id),
+  };
+}
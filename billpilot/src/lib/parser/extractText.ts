@@ -1,7 +1,18 @@
 import { Buffer } from "node:buffer";
 
+import heicConvert from "heic-convert";
 import { PDFParse } from "pdf-parse";
 
+import { recognizeImages } from "./ocr";
+import { ExtractedText } from "./types";
+
+const MIN_PDF_TEXT_CHARS = 40;
+const MAX_OCR_PAGES = 10;
+const OCR_RENDER_SCALE = 2;
+
+const IMAGE_EXTENSIONS = [".jpg", ".jpeg", ".png", ".webp", ".bmp", ".tif", ".tiff"];
+const HEIC_EXTENSIONS = [".heic", ".heif"];
+
 function normalizeExtractedText(rawText: string): string {
   return rawText
     .replace(/\u0000/g, " ")
@@ -10,6 +21,11 @@ function normalizeExtractedText(rawText: string): string {
     .trim();
 }
 
+function hasExtension(file: File, extensions: string[]): boolean {
+  const name = file.name.toLowerCase();
+  return extensions.some((extension) => name.endsWith(extension));
+}
+
 function isPdf(file: File): boolean {
   return (
     file.type.toLowerCase().includes("pdf") ||
@@ -17,15 +33,78 @@ function isPdf(file: File): boolean {
   );
 }
 
-export async function extractTextFromFile(file: File): Promise<string> {
-  if (isPdf(file)) {
-    const buffer = Buffer.from(await file.arrayBuffer());
-    const parser = new PDFParse({ data: buffer });
+function isHeic(file: File): boolean {
+  const type = file.type.toLowerCase();
+  return type === "image/heic" || type === "image/heif" || hasExtension(file, HEIC_EXTENSIONS);
+}
+
+function isImage(file: File): boolean {
+  return (
+    isHeic(file) ||
+    file.type.toLowerCase().startsWith("image/") ||
+    hasExtension(file, IMAGE_EXTENSIONS)
+  );
+}
+
+function isNearlyEmpty(text: string): boolean {
+  return text.replace(/\s+/g, "").length < MIN_PDF_TEXT_CHARS;
+}
+
+async function ocrImageFile(file: File): Promise<ExtractedText> {
+  let data: Uint8Array = new Uint8Array(await file.arrayBuffer());
+  if (isHeic(file)) {
+    data = await heicConvert({ buffer: data, format: "PNG" });
+  }
+
+  const { text, readout } = await recognizeImages([{ pageNumber: 1, data }]);
+  return { text: normalizeExtractedText(text), source: "ocr", ocr: readout };
+}
+
+async function extractPdf(file: File): Promise<ExtractedText> {
+  const buffer = Buffer.from(await file.arrayBuffer());
+  const parser = new PDFParse({ data: buffer });
+
+  try {
     const data = await parser.getText();
+    const text = normalizeExtractedText(data.text ?? "");
+    if (!isNearlyEmpty(text)) {
+      return { text, source: "pdf_text", ocr: null };
+    }
+
+    const screenshots = await parser.getScreenshot({
+      first: MAX_OCR_PAGES,
+      scale: OCR_RENDER_SCALE,
+      imageDataUrl: false,
+      imageBuffer: true,
+    });
+    const images = screenshots.pages.map((page) => ({
+      pageNumber: page.pageNumber,
+      data: page.data,
+    }));
+    if (images.length === 0) {
+      return { text, source: "pdf_text", ocr: null };
+    }
+
+    const ocr = await recognizeImages(images);
+    return {
+      text: normalizeExtractedText(ocr.text),
+      source: "ocr",
+      ocr: ocr.readout,
+    };
+  } finally {
     await parser.destroy();
-    return normalizeExtractedText(data.text ?? "");
+  }
+}
+
+export async function extractTextFromFile(file: File): Promise<ExtractedText> {
+  if (isPdf(file)) {
+    return extractPdf(file);
+  }
+
+  if (isImage(file)) {
+    return ocrImageFile(file);
   }
 
   const text = await file.text();
-  return normalizeExtractedText(text);
+  return { text: normalizeExtractedText(text), source: "plain_text", ocr: null };
 }
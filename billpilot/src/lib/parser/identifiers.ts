@@ -0,0 +1,153 @@
+import { FieldEvidence } from "./types";
+
+export interface ExtractedIdentifier {
+  value: string | null;
+  evidence: FieldEvidence | null;
+}
+
+export interface BillIdentifiers {
+  accountNumber: ExtractedIdentifier;
+  meterNumbers: string[];
+  meterEvidence: FieldEvidence | null;
+  serviceAddress: ExtractedIdentifier;
+}
+
+interface IdentifierPattern {
+  id: string;
+  confidence: number;
+  regex: RegExp;
+}
+
+const MIN_IDENTIFIER_DIGITS = 4;
+const MAX_ADDRESS_LENGTH = 120;
+// Up to four letters, then a token with a digit; more digit tokens may follow
+// after a space or dash ("12-3456-7890", "ESY 1160 1234").
+const IDENTIFIER = String.raw`((?:[A-Z]{0,4}\d[A-Z0-9-]*)(?: \d[A-Z0-9-]*)*)`;
+const NUMBER_LABEL = String.raw` ?(?:number|num|no\.?|nr\.?|#|id)? ?[:#]? ?`;
+
+const ACCOUNT_PATTERNS: IdentifierPattern[] = [
+  {
+    id: "account.labeled_number",
+    confidence: 0.9,
+    regex: new RegExp(String.raw`\b(?:account|acct\.?)${NUMBER_LABEL}${IDENTIFIER}`, "i"),
+  },
+  {
+    id: "account.customer_number",
+    confidence: 0.75,
+    regex: new RegExp(
+      String.raw`\b(?:customer|kundennummer|vertragskonto|vertragsnummer)${NUMBER_LABEL}${IDENTIFIER}`,
+      "i",
+    ),
+  },
+];
+
+const METER_PATTERN: IdentifierPattern = {
+  id: "meter.labeled_number",
+  confidence: 0.85,
+  regex: new RegExp(String.raw`\b(?:meter|z(?:ä|ae)hler(?:nummer)?)${NUMBER_LABEL}${IDENTIFIER}`, "gi"),
+};
+
+const ADDRESS_PATTERN: IdentifierPattern = {
+  id: "address.service_label",
+  confidence: 0.85,
+  regex:
+    /\b(?:service (?:address|for|location)|premise address|property address|lieferstelle|lieferanschrift|verbrauchsstelle) ?:? ?([^\n]+)/i,
+};
+
+// Another label on the same line ends the address.
+const ADDRESS_STOP_LABEL = / (?=(?:account|acct|meter|customer|invoice|bill date|due date)\b)/i;
+const CITY_LINE = /^[\p{L}][\p{L} .'-]*,? [A-Z]{2} \d{5}(?:-\d{4})?$|^\d{4,5} [\p{L}][\p{L} .'-]*$/u;
+
+function digitCount(value: string): number {
+  return value.replace(/\D/g, "").length;
+}
+
+function evidenceFor(pattern: IdentifierPattern, start: number, end: number): FieldEvidence {
+  return {
+    confidence: pattern.confidence,
+    pattern: pattern.id,
+    source: "generic",
+    span: { start, end },
+  };
+}
+
+// Offset of the captured group inside the whole match.
+function groupStart(match: RegExpExecArray | RegExpMatchArray, group: string): number {
+  return (match.index ?? 0) + match[0].lastIndexOf(group);
+}
+
+function extractAccountNumber(text: string): ExtractedIdentifier {
+  for (const pattern of ACCOUNT_PATTERNS) {
+    const match = pattern.regex.exec(text);
+    const value = match?.[1]?.trim();
+    if (!match || !value || digitCount(value) < MIN_IDENTIFIER_DIGITS) {
+      continue;
+    }
+    const start = groupStart(match, value);
+    return { value, evidence: evidenceFor(pattern, start, start + value.length) };
+  }
+  return { value: null, evidence: null };
+}
+
+function extractMeterNumbers(text: string): { values: string[]; evidence: FieldEvidence | null } {
+  const values: string[] = [];
+  let evidence: FieldEvidence | null = null;
+  for (const match of text.matchAll(METER_PATTERN.regex)) {
+    const value = match[1]?.trim();
+    if (!value || digitCount(value) < MIN_IDENTIFIER_DIGITS) {
+      continue;
+    }
+    const key = normalizeIdentifier(value);
+    if (values.some((existing) => normalizeIdentifier(existing) === key)) {
+      continue;
+    }
+    if (!evidence) {
+      const start = groupStart(match, value);
+      evidence = evidenceFor(METER_PATTERN, start, start + value.length);
+    }
+    values.push(value);
+  }
+  return { values, evidence };
+}
+
+// The labeled line, plus the next line when it is a city/state/ZIP or
+// postcode/town line.
+function extractServiceAddress(text: string): ExtractedIdentifier {
+  const match = ADDRESS_PATTERN.regex.exec(text);
+  const street = match?.[1]
+    ?.split(ADDRESS_STOP_LABEL)[0]
+    .trim()
+    .replace(/[,;]+$/, "");
+  if (!match || !street || !/\d/.test(street) || street.length > MAX_ADDRESS_LENGTH) {
+    return { value: null, evidence: null };
+  }
+
+  const start = groupStart(match, street);
+  let end = start + street.length;
+  let value = street;
+  const lineEnd = text.indexOf("\n", end);
+  if (lineEnd !== -1) {
+    const nextEnd = text.indexOf("\n", lineEnd + 1);
+    const nextLine = text.slice(lineEnd + 1, nextEnd === -1 ? text.length : nextEnd).trim();
+    if (CITY_LINE.test(nextLine) && !street.includes(nextLine)) {
+      value = `${street}, ${nextLine}`;
+      end = text.indexOf(nextLine, lineEnd + 1) + nextLine.length;
+    }
+  }
+  return { value, evidence: evidenceFor(ADDRESS_PATTERN, start, end) };
+}
+
+// Account and meter numbers compare without spacing, dashes or case.
+export function normalizeIdentifier(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+export function extractBillIdentifiers(text: string): BillIdentifiers {
+  const meters = extractMeterNumbers(text);
+  return {
+    accountNumber: extractAccountNumber(text),
+    meterNumbers: meters.values,
+    meterEvidence: meters.evidence,
+    serviceAddress: extractServiceAddress(text),
+  };
+}
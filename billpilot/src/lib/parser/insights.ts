@@ -1,9 +1,23 @@
+import { SeasonalBaseline, selectBaseline } from "./baseline";
+import {
+  DEFAULT_INSIGHT_RULES,
+  InsightRules,
+  LineItemRule,
+  SeverityThreshold,
+  severityFor,
+} from "./rules";
+import { inferServiceType } from "./services";
 import {
   FrameworkReadout,
   HistoricalBillSnapshot,
   Insight,
   ParsedBill,
+  TariffSuggestion,
+  UsageComponent,
+  WeatherNormalization,
 } from "./types";
+import { billingDays, canonicalKindFor, convertUsage } from "./units";
+import { predictDegreeDayUsage } from "./weather";
 
 type Decision = "SHIP" | "NO-SHIP" | "BOUNDARY-BAND ONLY";
 
@@ -19,6 +33,14 @@ interface BuildInsightArgs {
   bill: ParsedBill;
   priorBills: HistoricalBillSnapshot[];
   parseConfidence: number;
+  // When set, usage is compared with what the weather predicts instead of
+  // the plain average of the prior bills.
+  weather?: WeatherNormalization | null;
+  // A cheaper plan from the tariff simulator; without one the tariff tip
+  // carries no savings estimate.
+  tariffSuggestion?: TariffSuggestion | null;
+  // The user's and property's rule configuration; the defaults without one.
+  rules?: InsightRules;
 }
 
 function average(values: number[]): number | null {
@@ -32,6 +54,17 @@ function percentage(value: number): string {
   return `${(value * 100).toFixed(1)}%`;
 }
 
+function describeBaseline(baseline: SeasonalBaseline): string {
+  const count = baseline.bills.length;
+  if (baseline.kind === "same_month_last_year") {
+    return count > 1 ? `the same month in the last ${count} years` : "the same month last year";
+  }
+  if (baseline.kind === "trailing_12_months") {
+    return `your 12-month average (${count} bills)`;
+  }
+  return `your ${count}-bill average`;
+}
+
 function pickSavings(totalCost: number | null, ratio: number): number | null {
   if (totalCost === null) {
     return null;
@@ -39,19 +72,401 @@ function pickSavings(totalCost: number | null, ratio: number): number | null {
   return Number((totalCost * ratio).toFixed(2));
 }
 
+// Share of on-peak usage assumed movable (laundry, dishwashing, EV and pool
+// pump schedules) when estimating load-shifting savings.
+const SHIFTABLE_ON_PEAK_SHARE = 0.2;
+
+function roundTo(value: number, digits: number): number {
+  return Number(value.toFixed(digits));
+}
+
+function componentRate(component: UsageComponent): number | null {
+  if (component.rate !== null) {
+    return component.rate;
+  }
+  if (component.amount !== null && component.quantity) {
+    return component.amount / component.quantity;
+  }
+  return null;
+}
+
+function formatRate(rate: number, unit: string | null): string {
+  return `${rate.toFixed(3)}/${unit ?? "unit"}`;
+}
+
+function buildLoadShiftInsight(components: UsageComponent[]): Insight | null {
+  const touRows = components.filter(
+    (row) => row.kind === "tou" && row.quantity !== null && row.quantity > 0,
+  );
+  const onPeak = touRows.find((row) => row.period === "on_peak");
+  const onPeakRate = onPeak ? componentRate(onPeak) : null;
+  if (!onPeak?.quantity || onPeakRate === null) {
+    return null;
+  }
+
+  const cheapest = touRows
+    .filter((row) => row.period !== "on_peak")
+    .map((row) => ({ row, rate: componentRate(row) }))
+    .filter((entry): entry is { row: UsageComponent; rate: number } => entry.rate !== null)
+    .sort((a, b) => a.rate - b.rate)[0];
+  if (!cheapest || cheapest.rate >= onPeakRate) {
+    return null;
+  }
+
+  const touUsage = touRows.reduce((sum, row) => sum + (row.quantity ?? 0), 0);
+  const onPeakShare = onPeak.quantity / touUsage;
+  const shiftableUsage = onPeak.quantity * SHIFTABLE_ON_PEAK_SHARE;
+  const savings = shiftableUsage * (onPeakRate - cheapest.rate);
+  const targetLabel = cheapest.row.label.replace(/_/g, "-");
+
+  return {
+    type: "saving_action",
+    severity: onPeakShare >= 0.4 ? "watch" : "info",
+    message:
+      `On-peak usage is ${percentage(onPeakShare)} of time-of-use consumption at ` +
+      `${formatRate(onPeakRate, onPeak.unit)} vs ${formatRate(cheapest.rate, cheapest.row.unit)} ` +
+      `${targetLabel}. Moving ${roundTo(shiftableUsage, 0)} ${onPeak.unit ?? ""} to ` +
+      `${targetLabel} hours would save about ${savings.toFixed(2)}.`,
+    estSavings: roundTo(savings, 2),
+    residual: null,
+    metadata: {
+      kind: "load_shift",
+      onPeakShare: roundTo(onPeakShare, 4),
+      onPeakRate: roundTo(onPeakRate, 6),
+      targetPeriod: cheapest.row.label,
+      targetRate: roundTo(cheapest.rate, 6),
+      shiftableUsage: roundTo(shiftableUsage, 2),
+    },
+  };
+}
+
+function buildTierInsight(components: UsageComponent[]): Insight | null {
+  const tiers = components
+    .filter((row) => row.kind === "tier" && row.tier !== null)
+    .sort((a, b) => (a.tier ?? 0) - (b.tier ?? 0));
+  const base = tiers[0];
+  const top = [...tiers].reverse().find((row) => row.quantity !== null && row.quantity > 0);
+  const baseRate = base ? componentRate(base) : null;
+  const topRate = top ? componentRate(top) : null;
+  if (
+    !base ||
+    !top?.quantity ||
+    top === base ||
+    baseRate === null ||
+    topRate === null ||
+    topRate <= baseRate
+  ) {
+    return null;
+  }
+
+  const savings = top.quantity * topRate;
+  return {
+    type: "saving_action",
+    severity: "info",
+    message:
+      `${roundTo(top.quantity, 2)} ${top.unit ?? ""} was billed in tier ${top.tier} at ` +
+      `${formatRate(topRate, top.unit)} vs ${formatRate(baseRate, base.unit)} in tier ` +
+      `${base.tier}. Staying under the ${top.blockStart ?? "tier"} ${top.unit ?? ""} ` +
+      `threshold would save about ${savings.toFixed(2)}.`,
+    estSavings: roundTo(savings, 2),
+    residual: null,
+    metadata: {
+      kind: "tier_threshold",
+      tier: top.tier,
+      tierUsage: top.quantity,
+      tierRate: roundTo(topRate, 6),
+      baseRate: roundTo(baseRate, 6),
+      threshold: top.blockStart,
+    },
+  };
+}
+
+// Demand charges above this share of the bill are flagged outright; a jump of
+// DEMAND_SHARE_JUMP over the property's recent share is flagged as well.
+const DEMAND_SHARE_WATCH = 0.3;
+const DEMAND_SHARE_HIGH = 0.45;
+const DEMAND_SHARE_JUMP = 0.1;
+
+function buildDemandSpikeInsight(
+  bill: ParsedBill,
+  priorBills: HistoricalBillSnapshot[],
+): Insight | null {
+  if (bill.demandCharge === null || bill.totalCost === null || bill.totalCost <= 0) {
+    return null;
+  }
+
+  const demandShare = bill.demandCharge / bill.totalCost;
+  const expectedShare = average(
+    priorBills
+      .filter((row) => typeof row.demandCharge === "number" && row.totalCost > 0)
+      .map((row) => (row.demandCharge ?? 0) / row.totalCost),
+  );
+  const jumped =
+    expectedShare !== null && demandShare - expectedShare >= DEMAND_SHARE_JUMP;
+  if (demandShare < DEMAND_SHARE_WATCH && !jumped) {
+    return null;
+  }
+
+  const basisNote =
+    bill.demandBasis && bill.demandBasis !== "measured"
+      ? ` on a ${bill.demandBasis} basis`
+      : "";
+  const demandDetail =
+    bill.demandKw !== null ? ` (${bill.demandKw} kW billed${basisNote})` : "";
+  const baseline =
+    expectedShare !== null ? ` vs ${percentage(expectedShare)} on recent bills` : "";
+
+  return {
+    type: "demand_spike",
+    severity: demandShare >= DEMAND_SHARE_HIGH ? "high" : "watch",
+    message: `Demand charges are ${percentage(demandShare)} of this bill${demandDetail}${baseline}.`,
+    estSavings: pickSavings(bill.demandCharge, 0.1),
+    residual: Number(demandShare.toFixed(4)),
+    metadata: {
+      demandKw: bill.demandKw,
+      demandCharge: bill.demandCharge,
+      demandBasis: bill.demandBasis,
+      expectedShare: expectedShare !== null ? Number(expectedShare.toFixed(4)) : null,
+    },
+  };
+}
+
+// A water bill this far above the usual usage, with enough history to know
+// what usual is, is more often a running toilet or broken irrigation line than
+// a change in occupancy.
+const LEAK_USAGE_RATIO_WATCH = 1.5;
+const LEAK_USAGE_RATIO_HIGH = 2;
+const LEAK_MIN_PRIOR_BILLS = 2;
+
+function buildLeakInsight(
+  bill: ParsedBill,
+  priorUsage: number[],
+  expectedUsage: number | null,
+  baselineLabel: string,
+): Insight | null {
+  if (
+    bill.usageValue === null ||
+    expectedUsage === null ||
+    expectedUsage <= 0 ||
+    priorUsage.length < LEAK_MIN_PRIOR_BILLS
+  ) {
+    return null;
+  }
+
+  const ratio = bill.usageValue / expectedUsage;
+  if (ratio < LEAK_USAGE_RATIO_WATCH) {
+    return null;
+  }
+
+  // The usage above baseline, priced at this bill's average rate.
+  const excessUsage = bill.usageValue - expectedUsage;
+  const excessCost =
+    bill.totalCost !== null && bill.usageValue > 0
+      ? roundTo((excessUsage / bill.usageValue) * bill.totalCost, 2)
+      : null;
+  const unit = bill.usageUnit ?? "units";
+
+  return {
+    type: "possible_leak",
+    severity: ratio >= LEAK_USAGE_RATIO_HIGH ? "high" : "watch",
+    message: `Water usage is ${ratio.toFixed(1)}x ${baselineLabel} (${roundTo(excessUsage, 1)} ${unit} above baseline); check for leaks, running toilets or irrigation faults.`,
+    estSavings: excessCost,
+    residual: roundTo(ratio - 1, 4),
+    metadata: {
+      expectedUsage: roundTo(expectedUsage, 2),
+      excessUsage: roundTo(excessUsage, 2),
+      unit: bill.usageUnit,
+    },
+  };
+}
+
+// A late fee is money spent for nothing; a second one within the prior bills
+// makes it a habit worth fixing with autopay or a reminder.
+function buildLateFeeInsight(bill: ParsedBill, priorBills: HistoricalBillSnapshot[]): Insight | null {
+  if (bill.lateFee === null || bill.lateFee <= 0) {
+    return null;
+  }
+
+  const priorLateFees = priorBills.filter((row) => (row.lateFee ?? 0) > 0).length;
+  const due = bill.dueDate ? ` Paying by the due date (${bill.dueDate}) avoids the next one.` : "";
+  return {
+    type: "late_fee",
+    severity: priorLateFees > 0 ? "high" : "watch",
+    message:
+      priorLateFees > 0
+        ? `A late fee of ${bill.lateFee.toFixed(2)} ${bill.currency} was charged again (${priorLateFees + 1} of the last ${priorBills.length + 1} bills); autopay or a due-date reminder would stop it.`
+        : `A late fee of ${bill.lateFee.toFixed(2)} ${bill.currency} was charged on this bill.${due}`,
+    estSavings: roundTo(bill.lateFee, 2),
+    residual: null,
+    metadata: {
+      lateFee: roundTo(bill.lateFee, 2),
+      dueDate: bill.dueDate,
+      priorLateFees,
+    },
+  };
+}
+
+function signedAmount(value: number, unit: string): string {
+  return `${value >= 0 ? "+" : "-"}${Math.abs(Math.round(value)).toLocaleString("en-US")} ${unit}`;
+}
+
+// Splits the change from the usual usage (the fitted bills' average, scaled to
+// this period) into the part the model puts down to this period's degree days
+// and the rest, which is behavior. The residual is taken against the
+// weather-adjusted expectation, so a cold snap alone does not read as an
+// anomaly.
+function buildWeatherUsageInsight(
+  bill: ParsedBill,
+  weather: WeatherNormalization,
+  threshold: SeverityThreshold,
+): { insight: Insight; residual: number } | null {
+  const { model, periodDays: days, degreeDays, reference } = weather;
+  const expected = predictDegreeDayUsage(model, days, degreeDays);
+  if (bill.usageValue === null || expected <= 0 || reference.usagePerDay <= 0) {
+    return null;
+  }
+
+  const usual = reference.usagePerDay * days;
+  const usualWeather = predictDegreeDayUsage(model, days, {
+    hdd: reference.hddPerDay * days,
+    cdd: reference.cddPerDay * days,
+  });
+  const change = bill.usageValue - usual;
+  const weatherEffect = expected - usualWeather;
+  const behaviorEffect = change - weatherEffect;
+  const residual = Math.abs(bill.usageValue - expected) / expected;
+  const unit = bill.usageUnit ?? "units";
+  const drivers = [
+    model.heatingSlope > 0
+      ? `${Math.round(degreeDays.hdd)} HDD vs a typical ${Math.round(reference.hddPerDay * days)}`
+      : null,
+    model.coolingSlope > 0
+      ? `${Math.round(degreeDays.cdd)} CDD vs a typical ${Math.round(reference.cddPerDay * days)}`
+      : null,
+  ].filter(Boolean);
+
+  return {
+    residual,
+    insight: {
+      type: "usage_anomaly",
+      severity: severityFor(residual, threshold),
+      message:
+        `Usage is ${percentage(Math.abs(change) / usual)} ${change >= 0 ? "above" : "below"} your usual ${Math.round(usual).toLocaleString("en-US")} ${unit} for ${days} days. ` +
+        `Weather accounts for ${signedAmount(weatherEffect, unit)} (${drivers.join(", ")}) and behavior for ${signedAmount(behaviorEffect, unit)}, ` +
+        `${percentage(residual)} ${bill.usageValue >= expected ? "above" : "below"} the weather-adjusted ${Math.round(expected).toLocaleString("en-US")} ${unit}.`,
+      estSavings: pickSavings(bill.totalCost, 0.05),
+      residual: Number(residual.toFixed(4)),
+      metadata: {
+        weatherAdjusted: true,
+        weatherLocation: weather.location,
+        expectedUsage: roundTo(expected, 2),
+        usualUsage: roundTo(usual, 2),
+        weatherEffect: roundTo(weatherEffect, 2),
+        behaviorEffect: roundTo(behaviorEffect, 2),
+        hdd: degreeDays.hdd,
+        cdd: degreeDays.cdd,
+        rSquared: model.rSquared,
+        samples: model.samples,
+      },
+    },
+  };
+}
+
+// One alert per rule, for the largest line item it matches by printed label or
+// category when that item is over the rule's limit.
+function buildLineItemAlerts(bill: ParsedBill, rules: LineItemRule[]): Insight[] {
+  const alerts: Insight[] = [];
+  for (const rule of rules) {
+    const match = rule.match.toLowerCase();
+    const largest = bill.lineItems
+      .filter(
+        (item) =>
+          item.itemName.toLowerCase().includes(match) || item.category.toLowerCase().includes(match),
+      )
+      .sort((left, right) => right.amount - left.amount)[0];
+    if (!largest || largest.amount <= rule.maxAmount) {
+      continue;
+    }
+
+    alerts.push({
+      type: "line_item_alert",
+      severity: rule.severity,
+      message: `${largest.itemName} is ${largest.amount.toFixed(2)} ${bill.currency}, over your ${rule.maxAmount.toFixed(2)} limit for "${rule.match}".`,
+      estSavings: null,
+      residual:
+        rule.maxAmount > 0 ? roundTo((largest.amount - rule.maxAmount) / rule.maxAmount, 4) : null,
+      metadata: {
+        match: rule.match,
+        maxAmount: rule.maxAmount,
+        itemName: largest.itemName,
+        category: largest.category,
+        amount: largest.amount,
+      },
+    });
+  }
+  return alerts;
+}
+
+// The simulator's best alternative, with this bill's share of the yearly
+// savings (by its days) as the estimate.
+function buildTariffInsight(bill: ParsedBill, suggestion: TariffSuggestion | null): Insight {
+  if (!suggestion) {
+    return {
+      type: "saving_action",
+      severity: "info",
+      message: "Review tariff plan eligibility based on current usage profile.",
+      estSavings: null,
+      residual: null,
+    };
+  }
+
+  const days = billingDays(bill.periodStart, bill.periodEnd) ?? 365 / 12;
+  const basis = suggestion.basis === "tariff" ? "your current plan" : "what you were billed";
+  return {
+    type: "saving_action",
+    severity: "info",
+    message: `Switching to ${suggestion.name} would have cost about ${suggestion.annualSavings.toFixed(2)} ${suggestion.currency} less over the last year than ${basis}.`,
+    estSavings: roundTo((suggestion.annualSavings * days) / 365, 2),
+    residual: null,
+    metadata: {
+      tariffCode: suggestion.code,
+      annualCost: suggestion.annualCost,
+      annualSavings: suggestion.annualSavings,
+      basis: suggestion.basis,
+    },
+  };
+}
+
 export function buildInsights({
   bill,
   priorBills,
   parseConfidence,
+  weather,
+  tariffSuggestion,
+  rules = DEFAULT_INSIGHT_RULES,
 }: BuildInsightArgs): InsightEngineOutput {
   const insights: Insight[] = [];
+  const { thresholds } = rules;
+  const baseline = selectBaseline(bill.periodEnd, priorBills);
+  const baselineLabel = describeBaseline(baseline);
 
-  const priorCosts = priorBills
+  const priorCosts = baseline.bills
     .map((row) => row.totalCost)
     .filter((value) => Number.isFinite(value) && value > 0);
-  const priorUsage = priorBills
-    .map((row) => row.usageValue)
-    .filter((value): value is number => value !== null && Number.isFinite(value));
+  // Prior usage is converted into this bill's unit; rows without a unit are
+  // taken to share it, and rows in an incompatible unit are left out.
+  const serviceType =
+    bill.services[0]?.serviceType ?? inferServiceType(bill.usageUnit, bill.rawText);
+  const isWaterBill = canonicalKindFor(bill.usageUnit, serviceType) === "water";
+  const toBillUsage = (rows: HistoricalBillSnapshot[]) =>
+    rows
+      .map((row) =>
+        row.usageValue === null || !row.usageUnit || !bill.usageUnit
+          ? row.usageValue
+          : convertUsage(row.usageValue, row.usageUnit, bill.usageUnit, serviceType),
+      )
+      .filter((value): value is number => value !== null && Number.isFinite(value));
+  const priorUsage = toBillUsage(baseline.bills);
 
   const expectedCost = average(priorCosts);
   const expectedUsage = average(priorUsage);
@@ -60,14 +475,17 @@ export function buildInsights({
     expectedCost !== null && bill.totalCost !== null
       ? Math.abs(bill.totalCost - expectedCost) / expectedCost
       : null;
-  const usageResidual =
-    expectedUsage !== null && bill.usageValue !== null
+  const weatherUsage = weather
+    ? buildWeatherUsageInsight(bill, weather, thresholds.usage)
+    : null;
+  const usageResidual = weatherUsage
+    ? weatherUsage.residual
+    : expectedUsage !== null && bill.usageValue !== null
       ? Math.abs(bill.usageValue - expectedUsage) / expectedUsage
       : null;
 
   if (costResidual !== null) {
-    const severity =
-      costResidual >= 0.25 ? "high" : costResidual >= 0.1 ? "watch" : "info";
+    const severity = severityFor(costResidual, thresholds.cost);
     const direction =
       bill.totalCost !== null && expectedCost !== null && bill.totalCost >= expectedCost
         ? "higher"
@@ -76,41 +494,43 @@ export function buildInsights({
     insights.push({
       type: "cost_anomaly",
       severity,
-      message: `Cost is ${percentage(costResidual)} ${direction} than your 3-bill average.`,
+      message: `Cost is ${percentage(costResidual)} ${direction} than ${baselineLabel}.`,
       estSavings: pickSavings(bill.totalCost, 0.08),
       residual: Number(costResidual.toFixed(4)),
       metadata: {
         expectedCost: Number(expectedCost?.toFixed(2) ?? 0),
+        baseline: baseline.kind,
       },
     });
   }
 
-  if (usageResidual !== null) {
-    const severity =
-      usageResidual >= 0.35 ? "high" : usageResidual >= 0.2 ? "watch" : "info";
+  if (weatherUsage) {
+    insights.push(weatherUsage.insight);
+  } else if (usageResidual !== null) {
     insights.push({
       type: "usage_anomaly",
-      severity,
-      message: `Usage shifted ${percentage(usageResidual)} from baseline.`,
+      severity: severityFor(usageResidual, thresholds.usage),
+      message: `Usage shifted ${percentage(usageResidual)} from ${baselineLabel}.`,
       estSavings: pickSavings(bill.totalCost, 0.05),
       residual: Number(usageResidual.toFixed(4)),
       metadata: {
         expectedUsage: Number(expectedUsage?.toFixed(2) ?? 0),
+        baseline: baseline.kind,
       },
     });
   }
 
   if (bill.totalCost !== null && bill.lineItems.length > 0) {
     const surchargeTotal = bill.lineItems
-      .filter((row) => /(tax|fee|delivery|surcharge)/i.test(row.itemName))
+      .filter((row) => /(tax|fee|delivery|surcharge)/i.test(row.category))
       .reduce((sum, row) => sum + row.amount, 0);
     const surchargeRatio =
       bill.totalCost > 0 ? surchargeTotal / bill.totalCost : null;
 
-    if (surchargeRatio !== null && surchargeRatio >= 0.2) {
+    if (surchargeRatio !== null && surchargeRatio >= thresholds.surcharge.watch) {
       insights.push({
         type: "line_item_spike",
-        severity: surchargeRatio >= 0.3 ? "high" : "watch",
+        severity: severityFor(surchargeRatio, thresholds.surcharge),
         message: `Taxes/fees are ${percentage(surchargeRatio)} of total bill.`,
         estSavings: pickSavings(bill.totalCost, 0.04),
         residual: Number(surchargeRatio.toFixed(4)),
@@ -118,29 +538,64 @@ export function buildInsights({
     }
   }
 
-  insights.push(
-    {
+  insights.push(...buildLineItemAlerts(bill, rules.lineItemRules));
+
+  const demandSpike = buildDemandSpikeInsight(bill, baseline.recent);
+  if (demandSpike) {
+    insights.push(demandSpike);
+  }
+
+  // A leak is judged against the seasonal baseline (summer irrigation against
+  // last summer), with the whole history counting towards knowing what usual is.
+  const leak = isWaterBill
+    ? buildLeakInsight(bill, toBillUsage(priorBills), expectedUsage, baselineLabel)
+    : null;
+  if (leak) {
+    insights.push(leak);
+  }
+
+  const lateFee = buildLateFeeInsight(bill, baseline.recent);
+  if (lateFee) {
+    insights.push(lateFee);
+  }
+
+  const loadShift = buildLoadShiftInsight(bill.usageComponents);
+  const tierThreshold = buildTierInsight(bill.usageComponents);
+  if (loadShift) {
+    insights.push(loadShift);
+  } else if (isWaterBill) {
+    insights.push({
       type: "saving_action",
       severity: "info",
-      message:
-        "Shift heavy appliance usage to off-peak windows where possible.",
+      message: "Check toilets, faucets and irrigation zones for running water between readings.",
       estSavings: pickSavings(bill.totalCost, 0.07),
       residual: null,
-    },
-    {
+    });
+  } else {
+    insights.push({
       type: "saving_action",
       severity: "info",
-      message: "Set HVAC 1-2°F closer to ambient when away from home.",
-      estSavings: pickSavings(bill.totalCost, 0.06),
+      message:
+        "Shift heavy appliance usage to off-peak windows where possible.",
+      estSavings: pickSavings(bill.totalCost, 0.07),
       residual: null,
-    },
+    });
+  }
+  if (tierThreshold) {
+    insights.push(tierThreshold);
+  }
+
+  insights.push(
     {
       type: "saving_action",
       severity: "info",
-      message: "Review tariff plan eligibility based on current usage profile.",
-      estSavings: pickSavings(bill.totalCost, 0.05),
+      message: isWaterBill
+        ? "Fit low-flow fixtures in high-turnover units and common areas."
+        : "Set HVAC 1-2°F closer to ambient when away from home.",
+      estSavings: pickSavings(bill.totalCost, 0.06),
       residual: null,
     },
+    buildTariffInsight(bill, tariffSuggestion ?? null),
   );
 
   const framework: FrameworkReadout = {
@@ -162,20 +617,30 @@ export function buildInsights({
       cost: costResidual !== null ? Number(costResidual.toFixed(4)) : null,
       usage: usageResidual !== null ? Number(usageResidual.toFixed(4)) : null,
     },
+    baseline: {
+      kind: baseline.kind,
+      sampleSize: baseline.bills.length,
+    },
     thresholds: {
-      normal: 0.1,
-      watch: 0.25,
-      anomaly: 0.35,
+      normal: thresholds.cost.watch,
+      watch: thresholds.cost.high,
+      anomaly: thresholds.usage.high,
     },
   };
 
   const decision: Decision =
     parseConfidence < 0.8
       ? "NO-SHIP"
-      : costResidual !== null && costResidual > 0.25
+      : costResidual !== null && costResidual > thresholds.cost.high
         ? "BOUNDARY-BAND ONLY"
         : "SHIP";
 
-  return { insights, framework, expectedCost, expectedUsage, decision };
+  return {
+    insights: insights.filter((insight) => !rules.disabled.includes(insight.type)),
+    framework,
+    expectedCost,
+    expectedUsage,
+    decision,
+  };
 }
 
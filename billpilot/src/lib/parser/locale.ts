@@ -0,0 +1,245 @@
+import { DateOrder, LocaleProfile, ParsedDateToken } from "./types";
+
+export const DEFAULT_LOCALE = "en-US";
+
+const REGION_CURRENCIES: Record<string, string> = {
+  US: "USD",
+  CA: "CAD",
+  GB: "GBP",
+  IE: "EUR",
+  DE: "EUR",
+  AT: "EUR",
+  FR: "EUR",
+  BE: "EUR",
+  NL: "EUR",
+  ES: "EUR",
+  IT: "EUR",
+  PT: "EUR",
+  FI: "EUR",
+  CH: "CHF",
+  AU: "AUD",
+  NZ: "NZD",
+};
+
+const ENGLISH_MONTHS = new Map(
+  ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"].map(
+    (name, index) => [name, index + 1] as const,
+  ),
+);
+
+const DOLLAR_CURRENCIES = new Set(["USD", "CAD", "AUD", "NZD"]);
+
+// Checked in order; the "$" fallback is resolved against the locale so a
+// Canadian bill printing "$" is not reported as USD.
+const CURRENCY_MARKERS: Array<{ currency: string | null; pattern: RegExp }> = [
+  { currency: "EUR", pattern: /€|\bEUR\b/g },
+  { currency: "GBP", pattern: /£|\bGBP\b/g },
+  { currency: "CHF", pattern: /\bCHF\b/g },
+  { currency: "CAD", pattern: /\b(?:CA|C)\$|\bCAD\b/g },
+  { currency: "AUD", pattern: /\bA\$|\bAUD\b/g },
+  { currency: "NZD", pattern: /\bNZ\$|\bNZD\b/g },
+  { currency: "USD", pattern: /\bUS\$|\bUSD\b/g },
+  { currency: null, pattern: /(?<![A-Z])\$/g },
+];
+
+export function isSupportedLocale(locale: string): boolean {
+  try {
+    return Intl.getCanonicalLocales(locale).length === 1;
+  } catch {
+    return false;
+  }
+}
+
+function resolveDateOrder(locale: string): DateOrder {
+  const parts = new Intl.DateTimeFormat(locale, {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(new Date(Date.UTC(2026, 10, 22)));
+  const order = parts
+    .filter((part) => part.type === "year" || part.type === "month" || part.type === "day")
+    .map((part) => part.type[0])
+    .join("");
+
+  return order === "dmy" || order === "ymd" ? order : "mdy";
+}
+
+function resolveMonthNames(locale: string): Map<string, number> {
+  const names = new Map<string, number>();
+  for (const width of ["long", "short"] as const) {
+    const format = new Intl.DateTimeFormat(locale, { month: width, timeZone: "UTC" });
+    for (let month = 0; month < 12; month += 1) {
+      const name = format
+        .format(new Date(Date.UTC(2026, month, 15)))
+        .toLowerCase()
+        .replace(/\.$/, "");
+      names.set(name, month + 1);
+    }
+  }
+  return names;
+}
+
+export function resolveLocaleProfile(locale?: string | null): LocaleProfile {
+  const explicit = Boolean(locale && isSupportedLocale(locale));
+  const canonical = explicit ? Intl.getCanonicalLocales(locale as string)[0] : DEFAULT_LOCALE;
+  const decimal =
+    new Intl.NumberFormat(canonical)
+      .formatToParts(1.5)
+      .find((part) => part.type === "decimal")?.value === ","
+      ? ","
+      : ".";
+  const region = new Intl.Locale(canonical).maximize().region ?? "US";
+
+  return {
+    locale: canonical,
+    explicit,
+    decimal,
+    dateOrder: resolveDateOrder(canonical),
+    currency: REGION_CURRENCIES[region] ?? "USD",
+    monthNames: resolveMonthNames(canonical),
+  };
+}
+
+// When both separators appear the right-most one is the decimal mark whatever
+// the locale says, so "1.234,56" on a US-profile bill still reads as 1234.56.
+export function parseLocaleAmount(raw: string, profile: LocaleProfile): number | null {
+  const cleaned = raw.replace(/[^0-9.,\-]/g, "");
+  if (!/[0-9]/.test(cleaned)) {
+    return null;
+  }
+
+  const lastDot = cleaned.lastIndexOf(".");
+  const lastComma = cleaned.lastIndexOf(",");
+  let decimal: "." | "," | null = null;
+  if (lastDot >= 0 && lastComma >= 0) {
+    decimal = lastDot > lastComma ? "." : ",";
+  } else if (lastDot >= 0 || lastComma >= 0) {
+    // A lone separator is only ambiguous with exactly three digits after it
+    // ("1.234"); grouping never leaves one or two trailing digits.
+    const separator = lastDot >= 0 ? "." : ",";
+    const occurrences = cleaned.split(separator).length - 1;
+    const trailingDigits = cleaned.length - cleaned.lastIndexOf(separator) - 1;
+    decimal =
+      occurrences === 1 && (trailingDigits !== 3 || separator === profile.decimal)
+        ? separator
+        : null;
+  }
+
+  const grouping = decimal === "," ? /\./g : /,/g;
+  const normalized = (decimal ? cleaned.replace(grouping, "") : cleaned.replace(/[.,]/g, ""))
+    .replace(",", ".");
+  const value = Number(normalized);
+  return Number.isFinite(value) ? value : null;
+}
+
+export function detectCurrency(text: string, profile: LocaleProfile): string | null {
+  let best: { currency: string; count: number } | null = null;
+  for (const marker of CURRENCY_MARKERS) {
+    const count = text.match(marker.pattern)?.length ?? 0;
+    if (count === 0) {
+      continue;
+    }
+    const currency =
+      marker.currency ?? (DOLLAR_CURRENCIES.has(profile.currency) ? profile.currency : "USD");
+    if (!best || count > best.count) {
+      best = { currency, count };
+    }
+  }
+  return best?.currency ?? null;
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const fullYear = year < 100 ? year + (year >= 70 ? 1900 : 2000) : year;
+  const date = new Date(Date.UTC(fullYear, month - 1, day));
+  if (
+    date.getUTCFullYear() !== fullYear ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function lookupMonth(name: string, profile: LocaleProfile): number | null {
+  const key = name.toLowerCase().replace(/\.$/, "");
+  return profile.monthNames.get(key) ?? ENGLISH_MONTHS.get(key.slice(0, 3)) ?? null;
+}
+
+// Reads which order a numeric date must be in, if its numbers settle it
+// ("28/01/2026" can only be day-first).
+export function numericDateOrder(token: string): DateOrder | null {
+  const match = token.trim().match(/^(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{2,4})$/);
+  if (!match) {
+    return null;
+  }
+  const first = Number(match[1]);
+  const second = Number(match[2]);
+  if (first > 12 && second <= 12) {
+    return "dmy";
+  }
+  if (second > 12 && first <= 12) {
+    return "mdy";
+  }
+  return null;
+}
+
+export function parseLocaleDate(
+  token: string,
+  profile: LocaleProfile,
+  orderHint: DateOrder | null = null,
+): ParsedDateToken | null {
+  const trimmed = token.trim().replace(/\.$/, "");
+  if (!trimmed) {
+    return null;
+  }
+
+  const iso = trimmed.match(/^(\d{4})[\/\-.](\d{1,2})[\/\-.](\d{1,2})$/);
+  if (iso) {
+    const value = toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+    return value ? { value, alternative: null } : null;
+  }
+
+  const numeric = trimmed.match(/^(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{2,4})$/);
+  if (numeric) {
+    const first = Number(numeric[1]);
+    const second = Number(numeric[2]);
+    const year = Number(numeric[3]);
+    const dayFirst = toIsoDate(year, second, first);
+    const monthFirst = toIsoDate(year, first, second);
+    // Only the default locale is a guess; a self-evident order, one settled by
+    // the other date in the range, or a caller-supplied locale leaves no
+    // alternative to report.
+    const settled =
+      numericDateOrder(trimmed) ?? orderHint ?? (profile.explicit ? profile.dateOrder : null);
+    const dayFirstOrder = (settled ?? profile.dateOrder) !== "mdy";
+    const value = dayFirstOrder ? dayFirst : monthFirst;
+    const other = dayFirstOrder ? monthFirst : dayFirst;
+    if (!value) {
+      return null;
+    }
+    return {
+      value,
+      alternative: !settled && other && other !== value ? other : null,
+    };
+  }
+
+  const dayMonth = trimmed.match(/^(\d{1,2})\.?\s+([^\s\d,]+)\.?,?\s+(\d{4})$/);
+  if (dayMonth) {
+    const month = lookupMonth(dayMonth[2], profile);
+    const value = month ? toIsoDate(Number(dayMonth[3]), month, Number(dayMonth[1])) : null;
+    return value ? { value, alternative: null } : null;
+  }
+
+  const monthDay = trimmed.match(/^([^\s\d,]+)\.?\s+(\d{1,2}),?\s+(\d{4})$/);
+  if (monthDay) {
+    const month = lookupMonth(monthDay[1], profile);
+    const value = month ? toIsoDate(Number(monthDay[3]), month, Number(monthDay[2])) : null;
+    return value ? { value, alternative: null } : null;
+  }
+
+  const parsed = Date.parse(trimmed);
+  return Number.isNaN(parsed)
+    ? null
+    : { value: new Date(parsed).toISOString().slice(0, 10), alternative: null };
+}
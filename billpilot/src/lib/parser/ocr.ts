@@ -0,0 +1,86 @@
+import { Buffer } from "node:buffer";
+import { createRequire } from "node:module";
+import { tmpdir } from "node:os";
+
+import { createWorker } from "tesseract.js";
+
+import { OcrPageReadout, OcrReadout } from "./types";
+
+export interface OcrImage {
+  pageNumber: number;
+  data: Uint8Array;
+}
+
+interface BundledLanguageData {
+  code: string;
+  gzip: boolean;
+  langPath: string;
+}
+
+const OCR_LANGUAGE = "eng";
+
+function resolveLanguageData(): BundledLanguageData {
+  const overridePath = process.env.BILLPILOT_OCR_LANG_PATH;
+  if (overridePath && overridePath.trim()) {
+    return { code: OCR_LANGUAGE, gzip: true, langPath: overridePath.trim() };
+  }
+
+  const require = createRequire(import.meta.url);
+  return require("@tesseract.js-data/eng") as BundledLanguageData;
+}
+
+function round(value: number, digits = 4): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+export async function recognizeImages(images: OcrImage[]): Promise<{
+  text: string;
+  readout: OcrReadout;
+}> {
+  const languageData = resolveLanguageData();
+  const worker = await createWorker(languageData.code, undefined, {
+    langPath: languageData.langPath,
+    gzip: languageData.gzip,
+    cachePath: tmpdir(),
+  });
+
+  const pages: OcrPageReadout[] = [];
+  const pageTexts: string[] = [];
+
+  try {
+    for (const image of images) {
+      const { data } = await worker.recognize(Buffer.from(image.data));
+      const text = data.text ?? "";
+      pageTexts.push(text);
+      pages.push({
+        pageNumber: image.pageNumber,
+        confidence: round(Math.max(0, Math.min(100, data.confidence)) / 100),
+        characters: text.trim().length,
+      });
+    }
+  } finally {
+    await worker.terminate();
+  }
+
+  const weighted = pages.reduce(
+    (acc, page) => ({
+      confidence: acc.confidence + page.confidence * page.characters,
+      characters: acc.characters + page.characters,
+    }),
+    { confidence: 0, characters: 0 },
+  );
+
+  return {
+    text: pageTexts.join("\n\n"),
+    readout: {
+      engine: "tesseract",
+      language: languageData.code,
+      pages,
+      averageConfidence:
+        weighted.characters > 0
+          ? round(weighted.confidence / weighted.characters)
+          : 0,
+    },
+  };
+}
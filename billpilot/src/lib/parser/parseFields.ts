@@ -1,16 +1,401 @@
-import { ParsedBill, ParsedBillLineItem } from "./types";
+import {
+  detectProviderTemplate,
+  GENERIC_TEMPLATE_ID,
+  getProviderTemplate,
+  LineItemRule,
+  ProviderTemplate,
+} from "./templates";
+import {
+  detectCurrency,
+  numericDateOrder,
+  parseLocaleAmount,
+  parseLocaleDate,
+  resolveLocaleProfile,
+} from "./locale";
+import { extractBillIdentifiers } from "./identifiers";
+import { inferServiceType, splitServiceSections } from "./services";
+import {
+  AmbiguousDate,
+  DemandBasis,
+  DemandRatchet,
+  EvidenceField,
+  EvidenceSource,
+  FieldEvidence,
+  FieldEvidenceMap,
+  FieldSpan,
+  LearnedExtraction,
+  LearnedField,
+  LineItemReconciliation,
+  LocaleProfile,
+  ParsedBill,
+  ParsedBillLineItem,
+  ParsedBillTemplate,
+  ParsedServiceBill,
+  ServiceType,
+  TouPeriod,
+  UsageComponent,
+} from "./types";
 
-const LINE_ITEM_RULES: Array<{ label: string; patterns: string[] }> = [
-  { label: "delivery", patterns: ["delivery", "distribution"] },
+interface FieldPattern {
+  id: string;
+  pattern: RegExp;
+  confidence: number;
+  source: EvidenceSource;
+  unit?: string;
+}
+
+interface FieldResult<T> {
+  value: T;
+  evidence: FieldEvidence | null;
+}
+
+const TEMPLATE_PATTERN_CONFIDENCE = 0.95;
+const LINE_ITEM_TEMPLATE_CONFIDENCE = 0.9;
+const LINE_ITEM_GENERIC_CONFIDENCE = 0.75;
+const LINE_ITEM_TABLE_CONFIDENCE = 0.8;
+const LINE_ITEM_UNCATEGORIZED_CONFIDENCE = 0.65;
+// Rounding across a dozen printed charges can leave the items a few cents off
+// the printed total.
+const RECONCILIATION_TOLERANCE = 0.05;
+
+const AMBIGUOUS_DATE_CONFIDENCE_FACTOR = 0.5;
+const LEARNED_PATTERN_CONFIDENCE = 0.9;
+const MAX_LEARNED_LABEL_LENGTH = 48;
+const TOU_COMPONENT_CONFIDENCE = 0.8;
+const TIER_COMPONENT_CONFIDENCE = 0.75;
+
+// Water, sewer, stormwater and trash charges come before the generic "fee"
+// rule so "Stormwater Fee" is not also counted under fees.
+const LINE_ITEM_RULES: LineItemRule[] = [
+  {
+    label: "base_charge",
+    patterns: [
+      "base charge",
+      "basic charge",
+      "customer charge",
+      "meter charge",
+      "fixed charge",
+      "grundpreis",
+      "abonnement",
+    ],
+  },
+  { label: "sewer", patterns: ["sewer charge", "sewer service", "sewer", "wastewater"] },
+  {
+    label: "stormwater",
+    patterns: ["stormwater fee", "storm water fee", "stormwater", "storm water", "drainage fee"],
+  },
+  {
+    label: "trash",
+    patterns: ["trash", "refuse", "garbage", "solid waste", "recycling"],
+  },
+  { label: "delivery", patterns: ["delivery", "distribution", "transmission"] },
   { label: "supply", patterns: ["supply", "generation"] },
   { label: "tax", patterns: ["tax", "vat"] },
+  {
+    label: "late_fee",
+    patterns: [
+      "late fee",
+      "late payment",
+      "late charge",
+      "säumniszuschlag",
+      "mahngebühr",
+      "pénalité de retard",
+      "recargo por mora",
+    ],
+  },
   { label: "fees", patterns: ["fee", "service charge"] },
-  { label: "surcharge", patterns: ["surcharge", "adjustment"] },
+  { label: "surcharge", patterns: ["surcharge", "adjustment", "rider"] },
+  { label: "credit", patterns: ["credit", "rebate", "discount"] },
+];
+
+// Amounts and quantities in any common grouping: "1,234.56", "1.234,56",
+// "1 234,56" (non-breaking space) or plain "1234.56"; parseLocaleAmount settles
+// which mark is the decimal one. Plain spaces are not grouping, so "Tier 2 148
+// kWh" stays two numbers.
+const GROUPED_INTEGER = "(?:[0-9]{1,3}(?:[.,'\\u00a0\\u202f][0-9]{3})+|[0-9]+)";
+const NUMBER = `${GROUPED_INTEGER}(?:[.,][0-9]+)?(?![0-9])`;
+const MONEY = `${GROUPED_INTEGER}[.,][0-9]{2}(?![0-9])`;
+const MONEY_PREFIX = "[:\\s$€£]*";
+const USAGE_UNIT = "(kwh|mwh|therms?|ccf|hcf|kgal|gallons?|gal|m3)\\b";
+const NUMERIC_DATE = "\\d{1,2}[\\/\\-.]\\d{1,2}[\\/\\-.]\\d{2,4}";
+const ISO_DATE = "\\d{4}-\\d{1,2}-\\d{1,2}";
+const MONTH_DAY_DATE = "[A-Za-z]{3,9}\\.?\\s+\\d{1,2},\\s+\\d{4}";
+const DAY_MONTH_DATE = "\\d{1,2}\\.?\\s+[^\\s\\d,.:]{3,12}\\.?\\s+\\d{4}";
+const RANGE_SEPARATOR = "\\s*(?:-|–|to|through|bis|au|al)\\s*";
+const PERIOD_LABEL =
+  "(?:(?:billing|service)\\s*period|abrechnungszeitraum|p[ée]riode\\s+de\\s+facturation|periodo\\s+de\\s+facturaci[oó]n)[^:\\n]*[:\\s]+(?:du\\s+|vom\\s+|del\\s+)?";
+
+const PERIOD_DATE_FORMATS = [MONTH_DAY_DATE, DAY_MONTH_DATE, ISO_DATE, NUMERIC_DATE];
+
+function labeledPeriodPattern(date: string): RegExp {
+  return new RegExp(`${PERIOD_LABEL}(${date})${RANGE_SEPARATOR}(${date})`, "i");
+}
+
+const PERIOD_PATTERNS: FieldPattern[] = [
+  {
+    id: "period.labeled_long_date",
+    pattern: labeledPeriodPattern(MONTH_DAY_DATE),
+    confidence: 0.9,
+    source: "generic",
+  },
+  {
+    id: "period.labeled_day_month_date",
+    pattern: labeledPeriodPattern(DAY_MONTH_DATE),
+    confidence: 0.9,
+    source: "generic",
+  },
+  {
+    id: "period.labeled_iso_date",
+    pattern: labeledPeriodPattern(ISO_DATE),
+    confidence: 0.9,
+    source: "generic",
+  },
+  {
+    id: "period.labeled_numeric_date",
+    pattern: labeledPeriodPattern(NUMERIC_DATE),
+    confidence: 0.85,
+    source: "generic",
+  },
+  {
+    id: "period.bare_date_range",
+    pattern: new RegExp(`\\b(${NUMERIC_DATE})${RANGE_SEPARATOR}(${NUMERIC_DATE})\\b`, "i"),
+    confidence: 0.55,
+    source: "fallback",
+  },
+];
+
+const TOTAL_COST_PATTERNS: FieldPattern[] = [
+  {
+    id: "total.labeled_amount_due",
+    pattern: new RegExp(
+      `(?:total\\s*(?:amount\\s*)?(?:due|bill|charges?|to\\s*pay)|amount\\s*due|current\\s*charges?|montant\\s*(?:total|d[ûu])|total\\s*[àa]\\s*payer|gesamtbetrag|rechnungsbetrag|zu\\s*zahlen(?:der\\s*betrag)?|importe\\s*total|totale\\s*da\\s*pagare)${MONEY_PREFIX}(${NUMBER})`,
+      "i",
+    ),
+    confidence: 0.9,
+    source: "generic",
+  },
+  {
+    id: "total.balance_due",
+    pattern: new RegExp(`(?:balance\\s*due)${MONEY_PREFIX}(${NUMBER})`, "i"),
+    confidence: 0.65,
+    source: "fallback",
+  },
+];
+
+const DUE_DATE_LABEL =
+  "\\b(?:(?:payment\\s*)?due(?:\\s*(?:date|on|by))?|(?:please\\s*)?pay\\s*by|f[äa]llig(?:keitsdatum|\\s*am)?|zahlbar\\s*bis|date\\s*(?:d'|d’)?[ée]ch[ée]ance|[àa]\\s*payer\\s*avant\\s*le|fecha\\s*(?:de\\s*)?(?:vencimiento|l[ií]mite\\s*de\\s*pago))[:\\s]*";
+
+function labeledDueDatePattern(date: string): RegExp {
+  return new RegExp(`${DUE_DATE_LABEL}(${date})`, "i");
+}
+
+const DUE_DATE_PATTERNS: FieldPattern[] = [
+  {
+    id: "due_date.labeled_long_date",
+    pattern: labeledDueDatePattern(MONTH_DAY_DATE),
+    confidence: 0.9,
+    source: "generic",
+  },
+  {
+    id: "due_date.labeled_day_month_date",
+    pattern: labeledDueDatePattern(DAY_MONTH_DATE),
+    confidence: 0.9,
+    source: "generic",
+  },
+  {
+    id: "due_date.labeled_iso_date",
+    pattern: labeledDueDatePattern(ISO_DATE),
+    confidence: 0.9,
+    source: "generic",
+  },
+  {
+    id: "due_date.labeled_numeric_date",
+    pattern: labeledDueDatePattern(NUMERIC_DATE),
+    confidence: 0.85,
+    source: "generic",
+  },
+];
+
+const PREVIOUS_BALANCE_PATTERNS: FieldPattern[] = [
+  {
+    id: "previous_balance.labeled_amount",
+    pattern: new RegExp(
+      `(?:previous\\s*(?:balance|bill(?:\\s*amount)?|statement\\s*balance|amount\\s*due)|prior\\s*balance|balance\\s*(?:brought\\s*)?forward|vorheriger\\s*(?:saldo|rechnungsbetrag)|solde\\s*pr[ée]c[ée]dent|saldo\\s*anterior)${MONEY_PREFIX}(${NUMBER})`,
+      "i",
+    ),
+    confidence: 0.85,
+    source: "generic",
+  },
+];
+
+// Payments are often printed as a credit ("-$112.46", "(112.46)") and may
+// carry the date they were received; the amount is kept positive.
+const PAYMENTS_RECEIVED_PATTERNS: FieldPattern[] = [
+  {
+    id: "payments.labeled_amount",
+    pattern: new RegExp(
+      `(?:payments?\\s*(?:received|applied)|total\\s*payments?|payment\\s*-?\\s*thank\\s*you|thank\\s*you\\s*for\\s*your\\s*payment|zahlungseingang|erhaltene\\s*zahlungen?|paiements?\\s*re[çc]us?|pagos?\\s*recibidos?)[^\\d$€£\\n]{0,40}?(?:(?:${NUMERIC_DATE}|${MONTH_DAY_DATE}|${ISO_DATE})\\s*)?[:\\s$€£(-]*(${MONEY})`,
+      "i",
+    ),
+    confidence: 0.8,
+    source: "generic",
+  },
+];
+
+const USAGE_PATTERNS: FieldPattern[] = [
+  {
+    id: "usage.labeled_quantity",
+    pattern: new RegExp(
+      `(?:total\\s*usage|usage|verbrauch|consommation|consumo)\\s*[:\\s]*(${NUMBER})\\s*${USAGE_UNIT}`,
+      "i",
+    ),
+    confidence: 0.85,
+    source: "generic",
+  },
+  {
+    id: "usage.bare_quantity",
+    pattern: new RegExp(`(${NUMBER})\\s*${USAGE_UNIT}`, "i"),
+    confidence: 0.5,
+    source: "fallback",
+  },
+];
+
+// Trash and stormwater are billed flat (per cart or per impervious-area unit),
+// so a quantity in their sections ("96 gallon cart") is never usage.
+const FLAT_RATE_SERVICES = new Set<ServiceType>(["stormwater", "trash"]);
+
+const SECTION_TOTAL_PATTERNS: FieldPattern[] = [
+  {
+    id: "section_total.labeled_charges",
+    pattern: new RegExp(`total\\s+[a-z ]{0,40}?charges?${MONEY_PREFIX}(${NUMBER})`, "i"),
+    confidence: 0.85,
+    source: "generic",
+  },
+  {
+    id: "section_total.subtotal",
+    pattern: new RegExp(`(?:subtotal|section\\s+total)${MONEY_PREFIX}(${NUMBER})`, "i"),
+    confidence: 0.7,
+    source: "fallback",
+  },
+];
+
+// Order matters: "super off-peak" must win over "off-peak", and "mid-peak"
+// over the bare "peak" that marks on-peak rows.
+const TOU_PERIOD_PATTERNS: Array<{ period: TouPeriod; pattern: RegExp }> = [
+  { period: "super_off_peak", pattern: /\bsuper[\s-]*off[\s-]*peak\b/i },
+  { period: "off_peak", pattern: /\boff[\s-]*peak\b/i },
+  { period: "shoulder", pattern: /\b(?:shoulder|mid[\s-]*peak|partial[\s-]*peak)\b/i },
+  { period: "on_peak", pattern: /\bon[\s-]*peak\b|\bpeak\b/i },
+];
+
+const TIER_LABEL_PATTERN = /\b(?:tier|block)\s*(\d)\b|\b(first|next|over|above|remaining)\b/i;
+const COMPONENT_QUANTITY_PATTERN = new RegExp(`(${NUMBER})\\s*${USAGE_UNIT}`, "gi");
+const COMPONENT_RANGE_PATTERN = new RegExp(
+  `([0-9][0-9,]*)\\s*(?:-|–|to)\\s*([0-9][0-9,]*)\\s*${USAGE_UNIT}`,
+  "i",
+);
+const COMPONENT_RATE_PATTERNS: Array<{ pattern: RegExp; scale: number }> = [
+  { pattern: /([0-9]+(?:[.,][0-9]+)?)\s*(?:¢|cents)/i, scale: 0.01 },
+  {
+    pattern: new RegExp(
+      `[$€£]?\\s*([0-9]*[.,][0-9]+)\\s*[$€£]?\\s*(?:\\/|per)\\s*${USAGE_UNIT}`,
+      "i",
+    ),
+    scale: 1,
+  },
+  { pattern: /(?:@|\bx\b|×|\bat\b)\s*[$€£]?\s*([0-9]*[.,][0-9]+)/i, scale: 1 },
+];
+const COMPONENT_AMOUNT_PATTERN = new RegExp(`[$€£]?\\s*(${MONEY})\\s*[€£]?\\s*$`);
+
+// Totals, balances, payments, dates and meter readings share the "label ...
+// amount" shape of a charge row but are not charges.
+const NON_CHARGE_LINE_PATTERN =
+  /\b(?:total|sub-?total|amount\s+due|balance|previous|(?<!late\s)payments?|paid|saldo|solde|\w*zahlung\w*|paiements?|pagos?|average|date|datum|meter\s+(?:number|no|reading|read)|multiplier|reading|account|gesamt\w*|summe|montant\s+total|importe\s+total|totale)\b/i;
+// The label runs up to the first figure, keeping "Tier 2" / "Block 1" whole.
+const LINE_ITEM_LABEL_PATTERN = /^(?:[^\d$€£@]*?\b(?:tier|block)\s+\d\b)?[^\d$€£@]*/i;
+// A trailing amount, negative when printed "-12.00", "(12.00)" or "12.00 CR".
+const LINE_ITEM_AMOUNT_PATTERN = new RegExp(
+  `(\\(|-(?=[$€£]?[0-9]))?[$€£]?\\s*(-)?(${MONEY})\\s*[€£]?\\s*(\\)|cr\\b)?\\s*$`,
+  "i",
+);
+
+const DEMAND_NUMBER = `(${NUMBER})`;
+
+// Each demand label is accepted either as "Label (kW): 45.2" or as
+// "Label ... 45.2 kW"; a bare number after "demand" is never enough, because
+// demand charges are printed the same way.
+function demandPatterns(
+  id: string,
+  label: string,
+  confidence: number,
+  source: EvidenceSource = "generic",
+): FieldPattern[] {
+  return [
+    {
+      id: `${id}.unit_label`,
+      pattern: new RegExp(`${label}\\s*\\(kw\\)\\s*[:\\s]*${DEMAND_NUMBER}`, "i"),
+      confidence,
+      source,
+    },
+    {
+      id,
+      pattern: new RegExp(`${label}[^:\\n\\d$%]{0,30}[:\\s]*${DEMAND_NUMBER}\\s*kw\\b`, "i"),
+      confidence,
+      source,
+    },
+  ];
+}
+
+const BILLED_DEMAND_PATTERNS = demandPatterns(
+  "demand.billed",
+  "bill(?:ed|ing)\\s+demand",
+  0.9,
+);
+const MEASURED_DEMAND_PATTERNS = [
+  ...demandPatterns(
+    "demand.measured",
+    "(?:max(?:imum)?|peak|actual|measured|metered)\\s+(?:[a-z-]+\\s+)?demand",
+    0.8,
+  ),
+  ...demandPatterns("demand.bare", "\\bdemand\\b", 0.6, "fallback"),
 ];
+const CONTRACT_DEMAND_PATTERNS = demandPatterns(
+  "demand.contract",
+  "contract(?:ed)?\\s+demand",
+  0.8,
+);
+const MINIMUM_DEMAND_PATTERNS = demandPatterns(
+  "demand.minimum",
+  "minimum\\s+(?:billing\\s+)?demand",
+  0.8,
+);
+const RATCHET_DEMAND_PATTERNS = demandPatterns(
+  "demand.ratchet",
+  "ratchet(?:ed)?(?:\\s+demand)?",
+  0.8,
+);
+const RATCHET_TERMS_PATTERN =
+  /(\d{2,3}(?:\.\d+)?)\s*%\s*(?:of\s+)?(?:the\s+)?(?:highest|max(?:imum)?|peak)[^\n]{0,80}/i;
+const DEMAND_CHARGE_PATTERN = new RegExp(
+  `demand\\s+charges?\\b[^\\n]*?[$€£]?\\s*(${MONEY})[ \\t]*[€£]?[ \\t]*$`,
+  "im",
+);
+
+const PROVIDER_LABELED_PATTERN =
+  /(?:provider|utility|supplier|anbieter|versorger|fournisseur|proveedor|fornitore)\s*[:\-]\s*([^\n]+)/i;
+
+const GENERIC_TEMPLATE: ParsedBillTemplate = {
+  id: GENERIC_TEMPLATE_ID,
+  label: "Generic utility bill",
+  score: 0,
+};
 
 interface ParseOverrides {
   providerOverride?: string;
   currencyOverride?: string;
+  templateOverride?: string;
+  locale?: string | null;
+  learned?: LearnedExtraction | null;
 }
 
 function normalizeText(rawText: string): string {
@@ -21,162 +406,1010 @@ function normalizeText(rawText: string): string {
     .trim();
 }
 
-function parseAmount(raw: string): number | null {
-  const cleaned = raw.replace(/[$,]/g, "").trim();
-  const value = Number(cleaned);
-  return Number.isFinite(value) ? value : null;
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function execWithIndices(text: string, pattern: RegExp): RegExpExecArray | null {
+  const flags = pattern.flags.replace(/[gy]/g, "");
+  return new RegExp(pattern.source, flags.includes("d") ? flags : `${flags}d`).exec(
+    text,
+  );
 }
 
-function parseDateToken(token: string): string | null {
-  const trimmed = token.trim().replace(/\.$/, "");
-  if (!trimmed) {
+function groupSpan(
+  match: RegExpExecArray,
+  group: number,
+  offset = 0,
+): FieldSpan | null {
+  const range = match.indices?.[group];
+  if (!range) {
     return null;
   }
+  return { start: range[0] + offset, end: range[1] + offset };
+}
 
-  const mdYMatch = trimmed.match(
-    /^(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{2,4})$/,
-  );
-  if (mdYMatch) {
-    const month = Number(mdYMatch[1]);
-    const day = Number(mdYMatch[2]);
-    let year = Number(mdYMatch[3]);
-    if (year < 100) {
-      year += year >= 70 ? 1900 : 2000;
-    }
+function buildEvidence(
+  candidate: Pick<FieldPattern, "id" | "confidence" | "source">,
+  span: FieldSpan | null,
+): FieldEvidence {
+  return {
+    confidence: candidate.confidence,
+    pattern: candidate.id,
+    source: candidate.source,
+    span,
+  };
+}
 
-    const date = new Date(Date.UTC(year, month - 1, day));
-    if (
-      date.getUTCFullYear() === year &&
-      date.getUTCMonth() === month - 1 &&
-      date.getUTCDate() === day
-    ) {
-      return date.toISOString().slice(0, 10);
-    }
-  }
+function learnedLabelPattern(label: string): string {
+  return escapeRegExp(label.trim()).replace(/\s+/g, "\\s+");
+}
 
-  const parsed = Date.parse(trimmed);
-  if (!Number.isNaN(parsed)) {
-    return new Date(parsed).toISOString().slice(0, 10);
+function learnedPatterns(
+  learned: LearnedExtraction | null | undefined,
+  field: LearnedField,
+): FieldPattern[] {
+  return (learned?.aliases[field] ?? []).flatMap((alias, index) => {
+    const label = learnedLabelPattern(alias);
+    const sources =
+      field === "totalCost"
+        ? [`${label}${MONEY_PREFIX}(${NUMBER})`]
+        : field === "usageValue"
+          ? [`${label}\\s*[:\\s]*(${NUMBER})\\s*${USAGE_UNIT}`]
+          : PERIOD_DATE_FORMATS.map(
+              (date) => `${label}[^:\\n]*?[:\\s]+(${date})${RANGE_SEPARATOR}(${date})`,
+            );
+    return sources.map((source, variant) => ({
+      id: `learned.${field}.${index}${sources.length > 1 ? `.${variant}` : ""}`,
+      pattern: new RegExp(source, "i"),
+      confidence: LEARNED_PATTERN_CONFIDENCE,
+      source: "learned" as const,
+    }));
+  });
+}
+
+// Learned label patterns go first; patterns whose matches were corrected for
+// this provider are kept, but only tried once everything else has missed.
+function withLearning(
+  patterns: FieldPattern[],
+  learned: LearnedExtraction | null | undefined,
+  field: LearnedField,
+): FieldPattern[] {
+  const rejected = new Set(learned?.rejectedPatterns ?? []);
+  return [
+    ...learnedPatterns(learned, field),
+    ...patterns.filter((candidate) => !rejected.has(candidate.id)),
+    ...patterns.filter((candidate) => rejected.has(candidate.id)),
+  ];
+}
+
+function templatePatterns(
+  template: ProviderTemplate | null,
+  field: "totalCost" | "period",
+): FieldPattern[] {
+  if (!template) {
+    return [];
   }
+  return (template.fields[field] ?? []).map((pattern, index) => ({
+    id: `${template.id}.${field}.${index}`,
+    pattern,
+    confidence: TEMPLATE_PATTERN_CONFIDENCE,
+    source: "template",
+  }));
+}
 
-  return null;
+function templateUsagePatterns(template: ProviderTemplate | null): FieldPattern[] {
+  if (!template) {
+    return [];
+  }
+  return (template.fields.usage ?? []).map((usage, index) => ({
+    id: `${template.id}.usage.${index}`,
+    pattern: usage.pattern,
+    unit: usage.unit,
+    confidence: TEMPLATE_PATTERN_CONFIDENCE,
+    source: "template",
+  }));
 }
 
-function extractProvider(text: string): string | null {
-  const labeled = text.match(/(?:provider|utility)\s*[:\-]\s*([^\n]+)/i);
+function extractProvider(text: string): FieldResult<string | null> {
+  const labeled = execWithIndices(text, PROVIDER_LABELED_PATTERN);
   if (labeled?.[1]) {
-    return labeled[1].trim().slice(0, 120);
+    return {
+      value: labeled[1].trim().slice(0, 120),
+      evidence: buildEvidence(
+        { id: "provider.labeled", confidence: 0.9, source: "generic" },
+        groupSpan(labeled, 1),
+      ),
+    };
   }
 
-  const lines = text
-    .split("\n")
-    .map((line) => line.trim())
-    .filter(Boolean)
-    .slice(0, 6);
-  const firstCandidate = lines.find((line) =>
-    /(energy|electric|utility|power|gas)/i.test(line),
-  );
-  return firstCandidate ? firstCandidate.slice(0, 120) : null;
+  const lines = text.split("\n").slice(0, 12);
+  let offset = 0;
+  let nonEmptySeen = 0;
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (trimmed) {
+      nonEmptySeen += 1;
+      if (
+        /(energy|electric|utility|utilities|power|gas|water|sewer|sanitation|waste|public\s+works)/i.test(
+          trimmed,
+        )
+      ) {
+        const start = offset + line.indexOf(trimmed);
+        const value = trimmed.slice(0, 120);
+        return {
+          value,
+          evidence: buildEvidence(
+            { id: "provider.header_line", confidence: 0.5, source: "fallback" },
+            { start, end: start + value.length },
+          ),
+        };
+      }
+    }
+    if (nonEmptySeen >= 6) {
+      break;
+    }
+    offset += line.length + 1;
+  }
+
+  return { value: null, evidence: null };
 }
 
-function extractPeriod(text: string): {
-  periodStart: string | null;
-  periodEnd: string | null;
+// Ambiguous numeric dates take their order from the other end of the range
+// when that one is unambiguous ("28/01/2026 - 03/02/2026"); only dates settled
+// by the default locale alone are reported back as guesses.
+function extractPeriod(
+  text: string,
+  profile: LocaleProfile,
+  patterns: FieldPattern[],
+): {
+  periodStart: FieldResult<string | null>;
+  periodEnd: FieldResult<string | null>;
+  ambiguousDates: AmbiguousDate[];
 } {
-  const periodPatterns = [
-    /(?:billing|service)\s*period[^:\n]*[:\s]+([A-Za-z]{3,9}\s+\d{1,2},\s+\d{4})\s*(?:-|–|to|through)\s*([A-Za-z]{3,9}\s+\d{1,2},\s+\d{4})/i,
-    /(?:billing|service)\s*period[^:\n]*[:\s]+(\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4})\s*(?:-|–|to|through)\s*(\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4})/i,
-    /\b(\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4})\s*(?:-|–|to|through)\s*(\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4})\b/i,
-  ];
+  for (const candidate of patterns) {
+    const match = execWithIndices(text, candidate.pattern);
+    if (!match) {
+      continue;
+    }
+    const orderHint = numericDateOrder(match[1]) ?? numericDateOrder(match[2]);
+    let periodStart = parseLocaleDate(match[1], profile, orderHint);
+    let periodEnd = parseLocaleDate(match[2], profile, orderHint);
+    if (!periodStart && !periodEnd) {
+      continue;
+    }
+    // A period cannot end before it starts: when only one reading of the
+    // range is in order, that reading is taken and nothing is left ambiguous.
+    if (periodStart?.alternative && periodEnd?.alternative) {
+      const chosenInOrder = periodStart.value <= periodEnd.value;
+      const alternativeInOrder = periodStart.alternative <= periodEnd.alternative;
+      if (!chosenInOrder && alternativeInOrder) {
+        periodStart = { value: periodStart.alternative, alternative: null };
+        periodEnd = { value: periodEnd.alternative, alternative: null };
+      } else if (chosenInOrder && !alternativeInOrder) {
+        periodStart = { ...periodStart, alternative: null };
+        periodEnd = { ...periodEnd, alternative: null };
+      }
+    }
+
+    const ambiguousDates: AmbiguousDate[] = [];
+    const toResult = (
+      field: AmbiguousDate["field"],
+      parsed: typeof periodStart,
+      group: number,
+    ): FieldResult<string | null> => {
+      if (!parsed) {
+        return { value: null, evidence: null };
+      }
+      const evidence = buildEvidence(candidate, groupSpan(match, group));
+      if (parsed.alternative) {
+        ambiguousDates.push({
+          field,
+          raw: match[group].trim(),
+          chosen: parsed.value,
+          alternative: parsed.alternative,
+          locale: profile.locale,
+        });
+        evidence.confidence = Number(
+          (evidence.confidence * AMBIGUOUS_DATE_CONFIDENCE_FACTOR).toFixed(3),
+        );
+      }
+      return { value: parsed.value, evidence };
+    };
 
-  for (const pattern of periodPatterns) {
-    const match = text.match(pattern);
+    return {
+      periodStart: toResult("periodStart", periodStart, 1),
+      periodEnd: toResult("periodEnd", periodEnd, 2),
+      ambiguousDates,
+    };
+  }
+
+  return {
+    periodStart: { value: null, evidence: null },
+    periodEnd: { value: null, evidence: null },
+    ambiguousDates: [],
+  };
+}
+
+// A due date falls after the period it bills for, which settles a numeric
+// date the locale alone cannot.
+function extractDueDate(
+  text: string,
+  profile: LocaleProfile,
+  periodEnd: string | null,
+): { dueDate: FieldResult<string | null>; ambiguousDate: AmbiguousDate | null } {
+  for (const candidate of DUE_DATE_PATTERNS) {
+    const match = execWithIndices(text, candidate.pattern);
     if (!match) {
       continue;
     }
-    const periodStart = parseDateToken(match[1]);
-    const periodEnd = parseDateToken(match[2]);
-    if (periodStart || periodEnd) {
-      return { periodStart, periodEnd };
+    let parsed = parseLocaleDate(match[1], profile, numericDateOrder(match[1]));
+    if (!parsed) {
+      continue;
+    }
+    if (parsed.alternative && periodEnd) {
+      const chosenAfter = parsed.value >= periodEnd;
+      const alternativeAfter = parsed.alternative >= periodEnd;
+      if (!chosenAfter && alternativeAfter) {
+        parsed = { value: parsed.alternative, alternative: null };
+      } else if (chosenAfter && !alternativeAfter) {
+        parsed = { ...parsed, alternative: null };
+      }
     }
+
+    const evidence = buildEvidence(candidate, groupSpan(match, 1));
+    if (!parsed.alternative) {
+      return { dueDate: { value: parsed.value, evidence }, ambiguousDate: null };
+    }
+    evidence.confidence = Number(
+      (evidence.confidence * AMBIGUOUS_DATE_CONFIDENCE_FACTOR).toFixed(3),
+    );
+    return {
+      dueDate: { value: parsed.value, evidence },
+      ambiguousDate: {
+        field: "dueDate",
+        raw: match[1].trim(),
+        chosen: parsed.value,
+        alternative: parsed.alternative,
+        locale: profile.locale,
+      },
+    };
   }
 
-  return { periodStart: null, periodEnd: null };
+  return { dueDate: { value: null, evidence: null }, ambiguousDate: null };
 }
 
-function extractTotalCost(text: string): number | null {
-  const totalPatterns = [
-    /(?:total\s*(?:amount\s*)?(?:due|bill|charges?)|amount\s*due|current\s*charges?)\s*[:\s$]*([0-9][0-9,]*(?:\.\d{1,2})?)/i,
-    /(?:balance\s*due)\s*[:\s$]*([0-9][0-9,]*(?:\.\d{1,2})?)/i,
-  ];
+function resolveCurrency(
+  text: string,
+  profile: LocaleProfile,
+  currencyOverride?: string,
+): FieldResult<string> {
+  if (currencyOverride) {
+    return {
+      value: currencyOverride.toUpperCase(),
+      evidence: buildEvidence(
+        { id: "currency.override", confidence: 1, source: "override" },
+        null,
+      ),
+    };
+  }
+
+  const detected = detectCurrency(text, profile);
+  if (detected) {
+    return {
+      value: detected,
+      evidence: buildEvidence(
+        { id: "currency.symbol", confidence: 0.9, source: "generic" },
+        null,
+      ),
+    };
+  }
 
-  for (const pattern of totalPatterns) {
-    const match = text.match(pattern);
+  return {
+    value: profile.currency,
+    evidence: buildEvidence(
+      {
+        id: profile.explicit ? "currency.locale" : "currency.default",
+        confidence: profile.explicit ? 0.8 : 0.5,
+        source: "fallback",
+      },
+      null,
+    ),
+  };
+}
+
+function extractAmount(
+  text: string,
+  profile: LocaleProfile,
+  patterns: FieldPattern[],
+  offset = 0,
+): FieldResult<number | null> {
+  for (const candidate of patterns) {
+    const match = execWithIndices(text, candidate.pattern);
     if (!match?.[1]) {
       continue;
     }
-    const amount = parseAmount(match[1]);
+    const amount = parseLocaleAmount(match[1], profile);
     if (amount !== null) {
-      return amount;
+      return {
+        value: amount,
+        evidence: buildEvidence(candidate, groupSpan(match, 1, offset)),
+      };
     }
   }
 
-  return null;
+  return { value: null, evidence: null };
 }
 
-function extractUsage(text: string): {
-  usageValue: number | null;
-  usageUnit: string | null;
+function extractUsage(
+  text: string,
+  profile: LocaleProfile,
+  patterns: FieldPattern[],
+  offset = 0,
+): {
+  usageValue: FieldResult<number | null>;
+  usageUnit: FieldResult<string | null>;
 } {
-  const usagePatterns = [
-    /(?:total\s*usage|usage)\s*[:\s]*([0-9][0-9,]*(?:\.\d+)?)\s*(kwh|mwh|therms?|ccf|m3)\b/i,
-    /([0-9][0-9,]*(?:\.\d+)?)\s*(kwh|mwh|therms?|ccf|m3)\b/i,
-  ];
-
-  for (const pattern of usagePatterns) {
-    const match = text.match(pattern);
-    if (!match?.[1] || !match?.[2]) {
+  for (const candidate of patterns) {
+    const match = execWithIndices(text, candidate.pattern);
+    const matchedUnit = candidate.unit ?? match?.[2];
+    if (!match?.[1] || !matchedUnit) {
       continue;
     }
 
-    const value = parseAmount(match[1]);
+    const value = parseLocaleAmount(match[1], profile);
     if (value === null) {
       continue;
     }
 
     return {
-      usageValue: value,
-      usageUnit: match[2].toLowerCase(),
+      usageValue: {
+        value,
+        evidence: buildEvidence(candidate, groupSpan(match, 1, offset)),
+      },
+      usageUnit: {
+        value: matchedUnit.toLowerCase(),
+        evidence: buildEvidence(
+          candidate,
+          candidate.unit ? null : groupSpan(match, 2, offset),
+        ),
+      },
     };
   }
 
-  return { usageValue: null, usageUnit: null };
+  return {
+    usageValue: { value: null, evidence: null },
+    usageUnit: { value: null, evidence: null },
+  };
+}
+
+type LineItemRuleWithSource = LineItemRule & { source: EvidenceSource };
+
+function categorizeLineItem(
+  label: string,
+  rules: LineItemRuleWithSource[],
+): LineItemRuleWithSource | null {
+  return (
+    rules.find((rule) =>
+      rule.patterns.some((patternText) =>
+        new RegExp(`\\b${escapeRegExp(patternText)}`, "i").test(label),
+      ),
+    ) ?? null
+  );
+}
+
+// Reads one "label [quantity unit] [@ rate] amount" row of a charges table.
+function readLineItemRow(
+  line: string,
+  profile: LocaleProfile,
+): {
+  label: string;
+  amount: number;
+  amountSpan: FieldSpan;
+  quantity: { value: number; unit: string } | null;
+  rate: number | null;
+} | null {
+  if (NON_CHARGE_LINE_PATTERN.test(line)) {
+    return null;
+  }
+  const amountMatch = execWithIndices(line, LINE_ITEM_AMOUNT_PATTERN);
+  const amountSpan = amountMatch ? groupSpan(amountMatch, 3) : null;
+  if (!amountMatch?.[3] || !amountSpan) {
+    return null;
+  }
+  // "15.03.26" is a date, not 3.26.
+  if (/[0-9][.\/-]$/.test(line.slice(0, amountSpan.start))) {
+    return null;
+  }
+
+  const rawLabel = LINE_ITEM_LABEL_PATTERN.exec(line)?.[0] ?? "";
+  const label = rawLabel.replace(/[\s:\-–(]+$/, "").trim();
+  const value = parseLocaleAmount(amountMatch[3], profile);
+  if (!/\p{L}{2,}/u.test(label) || value === null) {
+    return null;
+  }
+
+  const negative =
+    amountMatch[1] === "-" ||
+    amountMatch[2] === "-" ||
+    (amountMatch[1] === "(" && amountMatch[4] === ")") ||
+    amountMatch[4]?.toLowerCase() === "cr";
+  const columns = readComponentLine(line.slice(rawLabel.length, amountMatch.index), profile);
+  const quantity = columns.quantities.at(-1) ?? null;
+
+  return {
+    label,
+    amount: negative ? -value : value,
+    amountSpan,
+    quantity: quantity ? { value: quantity.value, unit: quantity.unit } : null,
+    rate: columns.rate,
+  };
+}
+
+// Every charge row keeps its printed label; rows whose label matches no rule
+// are "usage" when they carry a quantity and "other" otherwise.
+function extractLineItemTable(
+  text: string,
+  profile: LocaleProfile,
+  rules: LineItemRuleWithSource[],
+  offset: number,
+  claimed: Set<number>,
+): ParsedBillLineItem[] {
+  const lineItems: ParsedBillLineItem[] = [];
+  let position = 0;
+
+  for (const line of text.split("\n")) {
+    const lineStart = position;
+    position += line.length + 1;
+
+    const row = readLineItemRow(line, profile);
+    if (!row) {
+      continue;
+    }
+
+    const rule = categorizeLineItem(row.label, rules);
+    const category = rule?.label ?? (row.quantity ? "usage" : "other");
+    claimed.add(lineStart + row.amountSpan.start);
+    lineItems.push({
+      itemName: row.label.slice(0, 120),
+      category,
+      amount: row.amount,
+      quantity: row.quantity?.value ?? null,
+      unit: row.quantity?.unit ?? null,
+      rate: row.rate,
+      evidence: buildEvidence(
+        {
+          id: `line_item.table.${category}`,
+          confidence: !rule
+            ? LINE_ITEM_UNCATEGORIZED_CONFIDENCE
+            : rule.source === "template"
+              ? LINE_ITEM_TEMPLATE_CONFIDENCE
+              : LINE_ITEM_TABLE_CONFIDENCE,
+          source: rule?.source ?? "generic",
+        },
+        {
+          start: lineStart + row.amountSpan.start + offset,
+          end: lineStart + row.amountSpan.end + offset,
+        },
+      ),
+    });
+  }
+
+  return lineItems;
 }
 
-function extractLineItems(text: string): ParsedBillLineItem[] {
-  const lineItems = new Map<string, number>();
+// Table rows come first; the label rules then only fill categories the table
+// did not cover, from amounts no row has already claimed (e.g. "Taxes $4.10"
+// in running text).
+function extractLineItems(
+  text: string,
+  profile: LocaleProfile,
+  rules: LineItemRuleWithSource[],
+  offset = 0,
+): ParsedBillLineItem[] {
+  // Amounts already taken, keyed by offset, so a generic pattern ("fee")
+  // cannot claim the figure behind a specific one ("stormwater fee").
+  // Quantities ("Trash 96 gallon cart") are never amounts.
+  const claimed = new Set<number>();
+  const lineItems = extractLineItemTable(text, profile, rules, offset, claimed);
+  const categories = new Set(lineItems.map((item) => item.category));
+
+  for (const rule of rules) {
+    if (categories.has(rule.label)) {
+      continue;
+    }
 
-  for (const rule of LINE_ITEM_RULES) {
     for (const patternText of rule.patterns) {
       const pattern = new RegExp(
-        `${patternText}\\s*[:\\-$ ]*([0-9][0-9,]*(?:\\.\\d{1,2})?)`,
-        "i",
+        `${escapeRegExp(patternText)}\\s*[:\\-$€£ ]*(${NUMBER})(?![0-9.,]*[\\s-]*${USAGE_UNIT})`,
+        "gid",
+      );
+      const match = Array.from(text.matchAll(pattern)).find(
+        (candidate) => candidate.indices?.[1] && !claimed.has(candidate.indices[1][0]),
       );
-      const match = text.match(pattern);
       if (!match?.[1]) {
         continue;
       }
 
-      const amount = parseAmount(match[1]);
+      const amount = parseLocaleAmount(match[1], profile);
       if (amount === null) {
         continue;
       }
-      lineItems.set(rule.label, amount);
+      claimed.add(match.indices?.[1]?.[0] ?? -1);
+      categories.add(rule.label);
+      lineItems.push({
+        itemName: match[0].slice(0, patternText.length),
+        category: rule.label,
+        amount,
+        quantity: null,
+        unit: null,
+        rate: null,
+        evidence: buildEvidence(
+          {
+            id: `line_item.${rule.label}.${patternText}`,
+            confidence:
+              rule.source === "template"
+                ? LINE_ITEM_TEMPLATE_CONFIDENCE
+                : LINE_ITEM_GENERIC_CONFIDENCE,
+            source: rule.source,
+          },
+          groupSpan(match, 1, offset),
+        ),
+      });
       break;
     }
   }
 
-  return Array.from(lineItems, ([itemName, amount]) => ({ itemName, amount }));
+  return lineItems;
+}
+
+function reconcileLineItems(
+  lineItems: ParsedBillLineItem[],
+  totalCost: number | null,
+): LineItemReconciliation {
+  const itemsTotal = Number(
+    lineItems.reduce((sum, item) => sum + item.amount, 0).toFixed(2),
+  );
+  const remainder =
+    totalCost !== null ? Number((totalCost - itemsTotal).toFixed(2)) : null;
+
+  return {
+    itemsTotal,
+    totalCost,
+    remainder,
+    reconciled:
+      lineItems.length > 0 &&
+      remainder !== null &&
+      Math.abs(remainder) <= RECONCILIATION_TOLERANCE,
+  };
+}
+
+function extractLateFee(lineItems: ParsedBillLineItem[]): FieldResult<number | null> {
+  const lateFees = lineItems.filter((item) => item.category === "late_fee");
+  if (lateFees.length === 0) {
+    return { value: null, evidence: null };
+  }
+  return {
+    value: Number(lateFees.reduce((sum, item) => sum + item.amount, 0).toFixed(2)),
+    evidence: lateFees[0].evidence ?? null,
+  };
+}
+
+function matchTouPeriod(line: string): TouPeriod | null {
+  return TOU_PERIOD_PATTERNS.find(({ pattern }) => pattern.test(line))?.period ?? null;
+}
+
+function extractComponentRate(line: string, profile: LocaleProfile): { rate: number; end: number } | null {
+  for (const { pattern, scale } of COMPONENT_RATE_PATTERNS) {
+    const match = pattern.exec(line);
+    const value = match?.[1] ? parseLocaleAmount(match[1], profile) : null;
+    if (match && value !== null) {
+      return { rate: Number((value * scale).toFixed(6)), end: match.index + match[0].length };
+    }
+  }
+  return null;
+}
+
+// Reads one "label quantity unit [@ rate] [amount]" row. The trailing amount
+// only counts when it sits after the rate, so "@ $0.12" is never read back as
+// the extended charge.
+function readComponentLine(line: string, profile: LocaleProfile): {
+  quantities: Array<{ value: number; unit: string; index: number }>;
+  rate: number | null;
+  amount: number | null;
+} {
+  const quantities = Array.from(line.matchAll(COMPONENT_QUANTITY_PATTERN)).flatMap(
+    (match) => {
+      const value = parseLocaleAmount(match[1], profile);
+      return value === null
+        ? []
+        : [{ value, unit: match[2].toLowerCase(), index: match.index }];
+    },
+  );
+  const rate = extractComponentRate(line, profile);
+  const amountMatch = COMPONENT_AMOUNT_PATTERN.exec(line);
+  const amount =
+    amountMatch && (!rate || amountMatch.index >= rate.end)
+      ? parseLocaleAmount(amountMatch[1], profile)
+      : null;
+
+  return { quantities, rate: rate?.rate ?? null, amount };
+}
+
+function buildTierComponent(
+  line: string,
+  reading: ReturnType<typeof readComponentLine>,
+  tier: number,
+  previousEnd: number | null,
+  profile: LocaleProfile,
+): UsageComponent | null {
+  const label = TIER_LABEL_PATTERN.exec(line);
+  if (!label) {
+    return null;
+  }
+
+  const range = COMPONENT_RANGE_PATTERN.exec(line);
+  const keyword = label[2]?.toLowerCase();
+  const [first, second] = reading.quantities;
+  let blockStart: number | null = previousEnd;
+  let blockEnd: number | null = null;
+  let quantity: number | null = first?.value ?? null;
+
+  if (range) {
+    blockStart = parseLocaleAmount(range[1], profile);
+    blockEnd = parseLocaleAmount(range[2], profile);
+    const rangeEnd = range.index + range[0].length;
+    quantity = reading.quantities.find((row) => row.index >= rangeEnd)?.value ?? null;
+  } else if (keyword === "first" || keyword === "next") {
+    // "First 500 kWh" names the block size; a second figure is the billed
+    // quantity, otherwise the block was used in full.
+    const start = keyword === "first" ? 0 : (previousEnd ?? 0);
+    blockStart = start;
+    blockEnd = first ? start + first.value : null;
+    quantity = second?.value ?? first?.value ?? null;
+  } else if (keyword === "over" || keyword === "above") {
+    blockStart = first?.value ?? previousEnd;
+    quantity = second?.value ?? null;
+  }
+
+  return {
+    kind: "tier",
+    label: `tier_${tier}`,
+    period: null,
+    tier,
+    blockStart,
+    blockEnd,
+    quantity,
+    unit: (range?.[3] ?? first?.unit ?? null)?.toLowerCase() ?? null,
+    rate: reading.rate,
+    amount: reading.amount,
+  };
+}
+
+function extractUsageComponents(
+  text: string,
+  profile: LocaleProfile,
+  offset = 0,
+): UsageComponent[] {
+  const components: UsageComponent[] = [];
+  const seenPeriods = new Set<TouPeriod>();
+  let tier = 0;
+  let previousTierEnd: number | null = null;
+  let position = 0;
+
+  for (const line of text.split("\n")) {
+    const lineStart = position;
+    position += line.length + 1;
+
+    const reading = readComponentLine(line, profile);
+    if (reading.quantities.length === 0) {
+      continue;
+    }
+
+    const trimmed = line.trim();
+    const start = lineStart + offset + line.indexOf(trimmed);
+    const span = { start, end: start + trimmed.length };
+
+    const period = matchTouPeriod(line);
+    if (period) {
+      if (seenPeriods.has(period)) {
+        continue;
+      }
+      seenPeriods.add(period);
+      const [quantity] = reading.quantities;
+      components.push({
+        kind: "tou",
+        label: period,
+        period,
+        tier: null,
+        blockStart: null,
+        blockEnd: null,
+        quantity: quantity.value,
+        unit: quantity.unit,
+        rate: reading.rate,
+        amount: reading.amount,
+        evidence: buildEvidence(
+          {
+            id: `usage_component.tou.${period}`,
+            confidence: TOU_COMPONENT_CONFIDENCE,
+            source: "generic",
+          },
+          span,
+        ),
+      });
+      continue;
+    }
+
+    const tierLabel = TIER_LABEL_PATTERN.exec(line);
+    const tierNumber = tierLabel?.[1]
+      ? Number(tierLabel[1])
+      : tierLabel?.[2]?.toLowerCase() === "first"
+        ? 1
+        : tier + 1;
+    const component = buildTierComponent(
+      line,
+      reading,
+      tierNumber,
+      previousTierEnd,
+      profile,
+    );
+    if (!component) {
+      continue;
+    }
+    tier = tierNumber;
+    previousTierEnd = component.blockEnd;
+    components.push({
+      ...component,
+      evidence: buildEvidence(
+        {
+          id: `usage_component.tier.${tierNumber}`,
+          confidence: TIER_COMPONENT_CONFIDENCE,
+          source: "generic",
+        },
+        span,
+      ),
+    });
+  }
+
+  return components;
+}
+
+function sameDemand(a: number | null, b: number | null): boolean {
+  return a !== null && b !== null && Math.abs(a - b) < 0.05;
+}
+
+function resolveDemandBasis(
+  billedKw: number,
+  measuredKw: number | null,
+  ratchet: DemandRatchet | null,
+  contractKw: number | null,
+  minimumKw: number | null,
+): DemandBasis {
+  if (measuredKw !== null && sameDemand(billedKw, measuredKw)) {
+    return "measured";
+  }
+  if (sameDemand(billedKw, ratchet?.kw ?? null)) {
+    return "ratchet";
+  }
+  if (sameDemand(billedKw, contractKw)) {
+    return "contract";
+  }
+  if (sameDemand(billedKw, minimumKw)) {
+    return "minimum";
+  }
+  if (ratchet && measuredKw !== null && billedKw > measuredKw) {
+    return "ratchet";
+  }
+  return "measured";
+}
+
+function extractDemandRatchet(text: string, profile: LocaleProfile): DemandRatchet | null {
+  const ratchetKw = extractAmount(text, profile, RATCHET_DEMAND_PATTERNS).value;
+  const terms = RATCHET_TERMS_PATTERN.exec(text);
+  if (ratchetKw === null && !terms) {
+    return null;
+  }
+
+  const months = terms?.[0].match(/(\d{1,2})\s*months?/i);
+  return {
+    percent: terms ? parseLocaleAmount(terms[1], profile) : null,
+    months: months ? Number(months[1]) : null,
+    kw: ratchetKw,
+  };
+}
+
+function extractDemand(text: string, profile: LocaleProfile): {
+  demandKw: FieldResult<number | null>;
+  demandBasis: DemandBasis | null;
+  demandRatchet: DemandRatchet | null;
+  demandCharge: FieldResult<number | null>;
+} {
+  const billed = extractAmount(text, profile, BILLED_DEMAND_PATTERNS);
+  const measured = extractAmount(text, profile, MEASURED_DEMAND_PATTERNS);
+  const demandKw = billed.value !== null ? billed : measured;
+  const demandCharge = extractAmount(text, profile, [
+    {
+      id: "demand.charge",
+      pattern: DEMAND_CHARGE_PATTERN,
+      confidence: 0.8,
+      source: "generic",
+    },
+  ]);
+  if (demandKw.value === null) {
+    return { demandKw, demandBasis: null, demandRatchet: null, demandCharge };
+  }
+
+  const demandRatchet = extractDemandRatchet(text, profile);
+  const demandBasis = resolveDemandBasis(
+    demandKw.value,
+    billed.value !== null ? measured.value : null,
+    demandRatchet,
+    extractAmount(text, profile, CONTRACT_DEMAND_PATTERNS).value,
+    extractAmount(text, profile, MINIMUM_DEMAND_PATTERNS).value,
+  );
+
+  return { demandKw, demandBasis, demandRatchet, demandCharge };
+}
+
+function lineItemRules(template: ProviderTemplate | null): LineItemRuleWithSource[] {
+  return [
+    ...(template?.fields.lineItems ?? []).map((rule) => ({
+      ...rule,
+      source: "template" as const,
+    })),
+    ...LINE_ITEM_RULES.map((rule) => ({ ...rule, source: "generic" as const })),
+  ];
+}
+
+function compactEvidence(
+  entries: Array<[keyof FieldEvidenceMap, FieldEvidence | null]>,
+): FieldEvidenceMap {
+  const evidence: FieldEvidenceMap = {};
+  for (const [field, value] of entries) {
+    if (value) {
+      evidence[field] = value;
+    }
+  }
+  return evidence;
+}
+
+function extractServices(
+  text: string,
+  profile: LocaleProfile,
+  statement: Omit<ParsedServiceBill, "serviceType">,
+  template: ProviderTemplate | null,
+): ParsedServiceBill[] {
+  const sections = splitServiceSections(text);
+  if (sections.length === 0) {
+    return [
+      {
+        serviceType: inferServiceType(statement.usageUnit, text),
+        ...statement,
+      },
+    ];
+  }
+
+  return sections.map((section) => {
+    // Merged sections are not contiguous in the statement text, so their
+    // matches cannot be mapped back to offsets.
+    const offset = section.offset ?? 0;
+    const keepSpan = (evidence: FieldEvidence | null) =>
+      evidence && section.offset === null ? { ...evidence, span: null } : evidence;
+
+    const usage = extractUsage(
+      section.text,
+      profile,
+      FLAT_RATE_SERVICES.has(section.serviceType)
+        ? []
+        : [...templateUsagePatterns(template), ...USAGE_PATTERNS],
+      offset,
+    );
+    const lineItems = extractLineItems(
+      section.text,
+      profile,
+      lineItemRules(template),
+      offset,
+    ).map((item) => ({
+      ...item,
+      evidence: keepSpan(item.evidence ?? null) ?? undefined,
+    }));
+    const totalCost = extractAmount(
+      section.text,
+      profile,
+      SECTION_TOTAL_PATTERNS,
+      offset,
+    );
+    const usageComponents = extractUsageComponents(section.text, profile, offset).map(
+      (component) => ({
+        ...component,
+        evidence: keepSpan(component.evidence ?? null) ?? undefined,
+      }),
+    );
+
+    return {
+      serviceType: section.serviceType,
+      totalCost: totalCost.value,
+      usageValue: usage.usageValue.value,
+      usageUnit: usage.usageUnit.value,
+      lineItems,
+      lineItemReconciliation: reconcileLineItems(lineItems, totalCost.value),
+      usageComponents,
+      evidence: compactEvidence([
+        ["totalCost", keepSpan(totalCost.evidence)],
+        ["usageValue", keepSpan(usage.usageValue.evidence)],
+        ["usageUnit", keepSpan(usage.usageUnit.evidence)],
+      ]),
+    };
+  });
+}
+
+function resolveTemplate(
+  text: string,
+  templateOverride?: string,
+): { template: ProviderTemplate | null; readout: ParsedBillTemplate } {
+  const overridden = templateOverride
+    ? getProviderTemplate(templateOverride)
+    : null;
+  const match = overridden
+    ? { template: overridden, score: 0 }
+    : detectProviderTemplate(text);
+
+  if (!match) {
+    return { template: null, readout: GENERIC_TEMPLATE };
+  }
+
+  return {
+    template: match.template,
+    readout: {
+      id: match.template.id,
+      label: match.template.label,
+      score: match.score,
+    },
+  };
+}
+
+function resolveProvider(
+  text: string,
+  template: ProviderTemplate | null,
+  providerOverride?: string,
+  learnedProvider?: string | null,
+): FieldResult<string | null> {
+  if (providerOverride) {
+    return {
+      value: providerOverride,
+      evidence: buildEvidence(
+        { id: "provider.override", confidence: 1, source: "override" },
+        null,
+      ),
+    };
+  }
+  if (learnedProvider) {
+    return {
+      value: learnedProvider,
+      evidence: buildEvidence(
+        { id: "provider.learned", confidence: LEARNED_PATTERN_CONFIDENCE, source: "learned" },
+        null,
+      ),
+    };
+  }
+
+  if (template) {
+    const detectPattern = template.detect.find((pattern) => pattern.test(text));
+    const match = detectPattern ? execWithIndices(text, detectPattern) : null;
+    return {
+      value: template.providerName,
+      evidence: buildEvidence(
+        {
+          id: `${template.id}.detect`,
+          confidence: TEMPLATE_PATTERN_CONFIDENCE,
+          source: "template",
+        },
+        match ? groupSpan(match, 0) : null,
+      ),
+    };
+  }
+
+  return extractProvider(text);
 }
 
 export function parseBillFields(
@@ -184,23 +1417,177 @@ export function parseBillFields(
   overrides: ParseOverrides = {},
 ): ParsedBill {
   const text = normalizeText(rawText);
-  const provider = overrides.providerOverride ?? extractProvider(text);
-  const { periodStart, periodEnd } = extractPeriod(text);
-  const totalCost = extractTotalCost(text);
-  const { usageValue, usageUnit } = extractUsage(text);
-  const lineItems = extractLineItems(text);
-  const currency = (overrides.currencyOverride ?? "USD").toUpperCase();
+  const profile = resolveLocaleProfile(overrides.locale);
+  const { template, readout } = resolveTemplate(text, overrides.templateOverride);
+  const provider = resolveProvider(
+    text,
+    template,
+    overrides.providerOverride,
+    overrides.learned?.provider,
+  );
+  const { periodStart, periodEnd, ambiguousDates } = extractPeriod(
+    text,
+    profile,
+    withLearning(
+      [...templatePatterns(template, "period"), ...PERIOD_PATTERNS],
+      overrides.learned,
+      "period",
+    ),
+  );
+  const totalCost = extractAmount(
+    text,
+    profile,
+    withLearning(
+      [...templatePatterns(template, "totalCost"), ...TOTAL_COST_PATTERNS],
+      overrides.learned,
+      "totalCost",
+    ),
+  );
+  const { usageValue, usageUnit } = extractUsage(
+    text,
+    profile,
+    withLearning(
+      [...templateUsagePatterns(template), ...USAGE_PATTERNS],
+      overrides.learned,
+      "usageValue",
+    ),
+  );
+  const { dueDate, ambiguousDate: ambiguousDueDate } = extractDueDate(
+    text,
+    profile,
+    periodEnd.value,
+  );
+  const previousBalance = extractAmount(text, profile, PREVIOUS_BALANCE_PATTERNS);
+  const paymentsReceived = extractAmount(text, profile, PAYMENTS_RECEIVED_PATTERNS);
+  const lineItems = extractLineItems(text, profile, lineItemRules(template));
+  const lateFee = extractLateFee(lineItems);
+  const lineItemReconciliation = reconcileLineItems(lineItems, totalCost.value);
+  const usageComponents = extractUsageComponents(text, profile);
+  const demand = extractDemand(text, profile);
+  const currency = resolveCurrency(text, profile, overrides.currencyOverride);
+  const identifiers = extractBillIdentifiers(text);
+  const evidence = compactEvidence([
+    ["provider", provider.evidence],
+    ["periodStart", periodStart.evidence],
+    ["periodEnd", periodEnd.evidence],
+    ["totalCost", totalCost.evidence],
+    ["usageValue", usageValue.evidence],
+    ["usageUnit", usageUnit.evidence],
+    ["demandKw", demand.demandKw.evidence],
+    ["demandCharge", demand.demandCharge.evidence],
+    ["currency", currency.evidence],
+    ["accountNumber", identifiers.accountNumber.evidence],
+    ["meterNumber", identifiers.meterEvidence],
+    ["serviceAddress", identifiers.serviceAddress.evidence],
+    ["dueDate", dueDate.evidence],
+    ["previousBalance", previousBalance.evidence],
+    ["paymentsReceived", paymentsReceived.evidence],
+    ["lateFee", lateFee.evidence],
+  ]);
+  const services = extractServices(
+    text,
+    profile,
+    {
+      totalCost: totalCost.value,
+      usageValue: usageValue.value,
+      usageUnit: usageUnit.value,
+      lineItems,
+      lineItemReconciliation,
+      usageComponents,
+      evidence: compactEvidence([
+        ["totalCost", totalCost.evidence],
+        ["usageValue", usageValue.evidence],
+        ["usageUnit", usageUnit.evidence],
+      ]),
+    },
+    template,
+  );
 
   return {
-    provider,
-    periodStart,
-    periodEnd,
-    totalCost,
-    usageValue,
-    usageUnit,
-    currency,
+    provider: provider.value,
+    periodStart: periodStart.value,
+    periodEnd: periodEnd.value,
+    totalCost: totalCost.value,
+    usageValue: usageValue.value,
+    usageUnit: usageUnit.value,
+    currency: currency.value,
+    locale: profile.locale,
+    ambiguousDates: ambiguousDueDate ? [...ambiguousDates, ambiguousDueDate] : ambiguousDates,
     lineItems,
+    lineItemReconciliation,
+    usageComponents,
+    demandKw: demand.demandKw.value,
+    demandBasis: demand.demandBasis,
+    demandRatchet: demand.demandRatchet,
+    demandCharge: demand.demandCharge.value,
+    services,
+    accountNumber: identifiers.accountNumber.value,
+    meterNumbers: identifiers.meterNumbers,
+    serviceAddress: identifiers.serviceAddress.value,
+    dueDate: dueDate.value,
+    previousBalance: previousBalance.value,
+    paymentsReceived: paymentsReceived.value,
+    lateFee: lateFee.value,
+    evidence,
+    template: readout,
     rawText: text,
   };
 }
 
+function labelBefore(line: string, index: number): string | null {
+  const prefix = line.slice(0, index).replace(/[^\p{L}\p{N})]+$/u, "");
+  const label =
+    prefix.length > MAX_LEARNED_LABEL_LENGTH
+      ? prefix.slice(-MAX_LEARNED_LABEL_LENGTH).replace(/^\S*\s+/, "")
+      : prefix.trim();
+  return /\p{L}{2,}/u.test(label) ? label : null;
+}
+
+// Finds the label printed in front of a corrected value ("Amount payable" in
+// "Amount payable: $149.29") so later bills from the same provider can be read
+// with it. Only totals, usage and the billing period are learnable.
+export function findCorrectionLabel(
+  rawText: string,
+  field: EvidenceField,
+  value: string | number,
+  locale?: string | null,
+): { field: LearnedField; label: string } | null {
+  const profile = resolveLocaleProfile(locale);
+  const lines = normalizeText(rawText).split("\n");
+
+  if (field === "periodStart" || field === "periodEnd") {
+    for (const line of lines) {
+      for (const date of PERIOD_DATE_FORMATS) {
+        const range = new RegExp(`(${date})${RANGE_SEPARATOR}(${date})`, "gi");
+        for (const match of line.matchAll(range)) {
+          const token = field === "periodStart" ? match[1] : match[2];
+          const parsed = parseLocaleDate(token, profile);
+          const label = labelBefore(line, match.index);
+          if (label && (parsed?.value === value || parsed?.alternative === value)) {
+            return { field: "period", label };
+          }
+        }
+      }
+    }
+    return null;
+  }
+
+  if (field !== "totalCost" && field !== "usageValue") {
+    return null;
+  }
+  const target = Number(value);
+  const pattern =
+    field === "totalCost"
+      ? new RegExp(`(${NUMBER})`, "g")
+      : new RegExp(`(${NUMBER})\\s*${USAGE_UNIT}`, "gi");
+  for (const line of lines) {
+    for (const match of line.matchAll(pattern)) {
+      const parsed = parseLocaleAmount(match[1], profile);
+      const label = labelBefore(line, match.index);
+      if (label && parsed !== null && Math.abs(parsed - target) < 0.005) {
+        return { field, label };
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,91 @@
+import { InsightSeverity, InsightType } from "./types";
+
+export const INSIGHT_TYPES = [
+  "cost_anomaly",
+  "usage_anomaly",
+  "line_item_spike",
+  "saving_action",
+  "demand_spike",
+  "possible_leak",
+  "late_fee",
+  "line_item_alert",
+] as const satisfies readonly InsightType[];
+
+// cost and usage are residuals against the baseline; surcharge is the share of
+// the bill taken by taxes and fees.
+export const THRESHOLD_RULES = ["cost", "usage", "surcharge"] as const;
+export type ThresholdRule = (typeof THRESHOLD_RULES)[number];
+
+export interface SeverityThreshold {
+  watch: number;
+  high: number;
+}
+
+// "Alert if a line item whose label contains `match` is over `maxAmount`."
+export interface LineItemRule {
+  match: string;
+  maxAmount: number;
+  severity: Exclude<InsightSeverity, "info">;
+}
+
+// What a user or property stores: only the settings it changes.
+export interface InsightRuleOverrides {
+  disabled?: InsightType[];
+  thresholds?: Partial<Record<ThresholdRule, Partial<SeverityThreshold>>>;
+  lineItemRules?: LineItemRule[];
+}
+
+export interface InsightRules {
+  disabled: InsightType[];
+  thresholds: Record<ThresholdRule, SeverityThreshold>;
+  lineItemRules: LineItemRule[];
+}
+
+export const DEFAULT_INSIGHT_RULES: InsightRules = {
+  disabled: [],
+  thresholds: {
+    cost: { watch: 0.1, high: 0.25 },
+    usage: { watch: 0.2, high: 0.35 },
+    surcharge: { watch: 0.2, high: 0.3 },
+  },
+  lineItemRules: [],
+};
+
+// Applies user then property overrides to the defaults. Thresholds merge value
+// by value, a layer's disabled list replaces the one below it, and line-item
+// rules add up. A high threshold set below its watch one is raised to it.
+export function resolveInsightRules(
+  ...layers: Array<InsightRuleOverrides | null | undefined>
+): InsightRules {
+  const rules: InsightRules = {
+    disabled: [...DEFAULT_INSIGHT_RULES.disabled],
+    thresholds: {
+      cost: { ...DEFAULT_INSIGHT_RULES.thresholds.cost },
+      usage: { ...DEFAULT_INSIGHT_RULES.thresholds.usage },
+      surcharge: { ...DEFAULT_INSIGHT_RULES.thresholds.surcharge },
+    },
+    lineItemRules: [],
+  };
+  for (const layer of layers) {
+    if (!layer) {
+      continue;
+    }
+    if (layer.disabled) {
+      rules.disabled = [...layer.disabled];
+    }
+    for (const rule of THRESHOLD_RULES) {
+      rules.thresholds[rule] = { ...rules.thresholds[rule], ...layer.thresholds?.[rule] };
+    }
+    rules.lineItemRules.push(...(layer.lineItemRules ?? []));
+  }
+  for (const rule of THRESHOLD_RULES) {
+    const threshold = rules.thresholds[rule];
+    threshold.high = Math.max(threshold.high, threshold.watch);
+  }
+  return rules;
+}
+
+// "info" below the watch threshold.
+export function severityFor(value: number, threshold: SeverityThreshold): InsightSeverity {
+  return value >= threshold.high ? "high" : value >= threshold.watch ? "watch" : "info";
+}
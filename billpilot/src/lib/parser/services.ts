@@ -0,0 +1,171 @@
+import { ParsedBill, ParsedServiceBill, ServiceType } from "./types";
+
+export interface ServiceSectionText {
+  serviceType: ServiceType;
+  heading: string;
+  text: string;
+  offset: number | null;
+}
+
+interface OpenSection {
+  serviceType: ServiceType;
+  heading: string;
+  offset: number;
+  lines: string[];
+}
+
+export const SERVICE_TYPES = [
+  "electric",
+  "gas",
+  "water",
+  "sewer",
+  "stormwater",
+  "trash",
+  "unknown",
+] as const satisfies readonly ServiceType[];
+
+const MAX_HEADING_WORDS = 6;
+
+const SECTION_HEADINGS: Array<{ serviceType: ServiceType; pattern: RegExp }> = [
+  { serviceType: "electric", pattern: /^(?:electric(?:ity)?|electric\s+service)\b/i },
+  { serviceType: "gas", pattern: /^(?:natural\s+)?gas\b/i },
+  { serviceType: "sewer", pattern: /^(?:sewer|wastewater)\b/i },
+  { serviceType: "stormwater", pattern: /^(?:storm\s*water|drainage)\b/i },
+  { serviceType: "water", pattern: /^(?:potable\s+)?water\b/i },
+  {
+    serviceType: "trash",
+    pattern: /^(?:trash|refuse|garbage|solid\s+waste|sanitation|recycling)\b/i,
+  },
+];
+
+const WATER_SERVICE_PATTERN = /\b(?:water|sewer|wastewater)\b/i;
+const GAS_SERVICE_PATTERN = /\b(?:natural\s+)?gas\b/i;
+
+const UNIT_SERVICE_TYPES: Record<string, ServiceType> = {
+  kwh: "electric",
+  mwh: "electric",
+  therm: "gas",
+  therms: "gas",
+  ccf: "gas",
+  m3: "gas",
+  gal: "water",
+  gallon: "water",
+  gallons: "water",
+  kgal: "water",
+  hcf: "water",
+};
+
+const SHARED_VOLUME_UNITS = new Set(["ccf", "m3"]);
+
+function classifyHeading(line: string): ServiceType | null {
+  const trimmed = line.trim();
+  if (!trimmed || /[0-9$]/.test(trimmed)) {
+    return null;
+  }
+  if (trimmed.split(/\s+/).length > MAX_HEADING_WORDS) {
+    return null;
+  }
+
+  const match = SECTION_HEADINGS.find(({ pattern }) => pattern.test(trimmed));
+  return match?.serviceType ?? null;
+}
+
+// ccf and m3 default to gas; when the statement text is given and talks about
+// water or sewer but never gas, they are read as water instead.
+export function inferServiceType(usageUnit: string | null, text = ""): ServiceType {
+  if (!usageUnit) {
+    return "unknown";
+  }
+  const unit = usageUnit.toLowerCase();
+  if (
+    SHARED_VOLUME_UNITS.has(unit) &&
+    WATER_SERVICE_PATTERN.test(text) &&
+    !GAS_SERVICE_PATTERN.test(text)
+  ) {
+    return "water";
+  }
+  return UNIT_SERVICE_TYPES[unit] ?? "unknown";
+}
+
+export function splitServiceSections(text: string): ServiceSectionText[] {
+  const lines = text.split("\n");
+  const sections: ServiceSectionText[] = [];
+  let current = null as OpenSection | null;
+  let position = 0;
+
+  for (const line of lines) {
+    const lineStart = position;
+    position += line.length + 1;
+
+    const serviceType = classifyHeading(line);
+    if (serviceType && current?.serviceType !== serviceType) {
+      if (current) {
+        sections.push({
+          serviceType: current.serviceType,
+          heading: current.heading,
+          text: current.lines.join("\n"),
+          offset: current.offset,
+        });
+      }
+      current = {
+        serviceType,
+        heading: line.trim(),
+        offset: lineStart + line.length + 1,
+        lines: [],
+      };
+      continue;
+    }
+
+    current?.lines.push(line);
+  }
+
+  if (current) {
+    sections.push({
+      serviceType: current.serviceType,
+      heading: current.heading,
+      text: current.lines.join("\n"),
+      offset: current.offset,
+    });
+  }
+
+  const merged = new Map<ServiceType, ServiceSectionText>();
+  for (const section of sections) {
+    const existing = merged.get(section.serviceType);
+    merged.set(
+      section.serviceType,
+      existing
+        ? { ...existing, text: `${existing.text}\n${section.text}`, offset: null }
+        : section,
+    );
+  }
+
+  return merged.size >= 2 ? Array.from(merged.values()) : [];
+}
+
+// Demand (kW) is only billed on electric service, so gas/water/sewer rows
+// drop the statement-level demand readout.
+export function toServiceBill(bill: ParsedBill, service: ParsedServiceBill): ParsedBill {
+  const keepsDemand =
+    service.serviceType === "electric" || service.serviceType === "unknown";
+
+  return {
+    ...bill,
+    totalCost: service.totalCost,
+    usageValue: service.usageValue,
+    usageUnit: service.usageUnit,
+    lineItems: service.lineItems,
+    lineItemReconciliation: service.lineItemReconciliation,
+    usageComponents: service.usageComponents,
+    ...(keepsDemand
+      ? {}
+      : { demandKw: null, demandBasis: null, demandRatchet: null, demandCharge: null }),
+    services: [service],
+    evidence: {
+      ...bill.evidence,
+      totalCost: service.evidence.totalCost,
+      usageValue: service.evidence.usageValue,
+      usageUnit: service.evidence.usageUnit,
+      ...(keepsDemand ? {} : { demandKw: undefined, demandCharge: undefined }),
+    },
+  };
+}
@@ -0,0 +1,208 @@
+export interface LineItemRule {
+  label: string;
+  patterns: string[];
+}
+
+export interface UsagePattern {
+  pattern: RegExp;
+  unit?: string;
+}
+
+export interface ProviderTemplateFields {
+  totalCost?: RegExp[];
+  period?: RegExp[];
+  usage?: UsagePattern[];
+  lineItems?: LineItemRule[];
+}
+
+export interface ProviderTemplate {
+  id: string;
+  label: string;
+  providerName: string;
+  detect: RegExp[];
+  minScore?: number;
+  fields: ProviderTemplateFields;
+}
+
+export interface TemplateMatch {
+  template: ProviderTemplate;
+  score: number;
+}
+
+export const GENERIC_TEMPLATE_ID = "generic";
+
+const LONG_DATE = String.raw`([A-Za-z]{3,9}\.?\s+\d{1,2},?\s+\d{4})`;
+const SLASH_DATE = String.raw`(\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4})`;
+const AMOUNT = String.raw`\$?\s*([0-9][0-9,]*(?:\.\d{1,2})?)`;
+const QUANTITY = String.raw`([0-9][0-9,]*(?:\.\d+)?)`;
+
+export const PROVIDER_TEMPLATES: ProviderTemplate[] = [
+  {
+    id: "coned",
+    label: "Con Edison",
+    providerName: "Con Edison",
+    detect: [/con\s*edison/i, /consolidated\s+edison/i, /coned\.com/i],
+    fields: {
+      totalCost: [new RegExp(String.raw`total\s+amount\s+due\s*[:\s]*${AMOUNT}`, "i")],
+      period: [
+        new RegExp(String.raw`billing\s+period\s*:?\s*${LONG_DATE}\s+to\s+${LONG_DATE}`, "i"),
+      ],
+      usage: [
+        { pattern: new RegExp(String.raw`electricity\s+(?:usage|you\s+used)[^\n0-9]*${QUANTITY}\s*(kwh)\b`, "i") },
+        { pattern: new RegExp(String.raw`gas\s+(?:usage|you\s+used)[^\n0-9]*${QUANTITY}\s*(therms?|ccf)\b`, "i") },
+      ],
+      lineItems: [
+        { label: "delivery", patterns: ["total electricity delivery charges", "delivery charges"] },
+        { label: "supply", patterns: ["total electricity supply charges", "supply charges"] },
+        { label: "tax", patterns: ["sales tax", "grt"] },
+      ],
+    },
+  },
+  {
+    id: "pge",
+    label: "Pacific Gas and Electric",
+    providerName: "PG&E",
+    detect: [/pacific\s+gas\s+(?:and|&)\s+electric/i, /\bpg&e\b/i, /pge\.com/i],
+    fields: {
+      totalCost: [new RegExp(String.raw`total\s+amount\s+due\s*(?:by\s+\d{1,2}\/\d{1,2}\/\d{2,4})?\s*[:\s]*${AMOUNT}`, "i")],
+      period: [
+        new RegExp(String.raw`service\s+for\s*:?[^\n]*\n?\s*${SLASH_DATE}\s*-\s*${SLASH_DATE}`, "i"),
+      ],
+      usage: [{ pattern: new RegExp(String.raw`total\s+usage\s*[:\s]*${QUANTITY}\s*(kwh|therms?)\b`, "i") }],
+      lineItems: [
+        { label: "delivery", patterns: ["electric delivery charges", "gas delivery charges"] },
+        { label: "supply", patterns: ["generation charges", "procurement charges"] },
+        { label: "surcharge", patterns: ["pcia", "power charge indifference adjustment"] },
+      ],
+    },
+  },
+  {
+    id: "duke",
+    label: "Duke Energy",
+    providerName: "Duke Energy",
+    detect: [/duke\s+energy/i, /duke-energy\.com/i],
+    fields: {
+      totalCost: [new RegExp(String.raw`(?:total\s+amount\s+due|amount\s+due\s+by\s+[^:$\n]+)\s*[:\s]*${AMOUNT}`, "i")],
+      period: [
+        new RegExp(String.raw`(?:for\s+service|service\s+from)\s*:?\s*${LONG_DATE}\s*(?:-|to)\s*${LONG_DATE}`, "i"),
+      ],
+      usage: [{ pattern: new RegExp(String.raw`(?:billed\s+kwh|energy\s+used)\s*[:\s]*${QUANTITY}\s*(kwh)\b`, "i") }],
+      lineItems: [
+        { label: "fees", patterns: ["basic customer charge", "customer charge"] },
+        { label: "surcharge", patterns: ["fuel cost recovery", "rider"] },
+      ],
+    },
+  },
+  {
+    id: "national-grid",
+    label: "National Grid",
+    providerName: "National Grid",
+    detect: [/national\s*grid/i, /nationalgridus\.com/i],
+    fields: {
+      totalCost: [new RegExp(String.raw`amount\s+due\s*[:\s]*${AMOUNT}`, "i")],
+      period: [
+        new RegExp(String.raw`service\s+period\s*[:\s]*${LONG_DATE}\s*-\s*${LONG_DATE}`, "i"),
+        new RegExp(String.raw`service\s+period\s*[:\s]*${SLASH_DATE}\s*-\s*${SLASH_DATE}`, "i"),
+      ],
+      usage: [{ pattern: new RegExp(String.raw`total\s+(?:energy|usage)\s*[:\s]*${QUANTITY}\s*(kwh|therms?)\b`, "i") }],
+      lineItems: [
+        { label: "delivery", patterns: ["delivery services", "distribution charge"] },
+        { label: "supply", patterns: ["supply services", "basic service"] },
+      ],
+    },
+  },
+  {
+    id: "comed",
+    label: "ComEd",
+    providerName: "ComEd",
+    detect: [/\bcomed\b/i, /commonwealth\s+edison/i],
+    fields: {
+      totalCost: [new RegExp(String.raw`total\s+amount\s+due\s*[:\s]*${AMOUNT}`, "i")],
+      usage: [{ pattern: new RegExp(String.raw`usage\s*\(kwh\)\s*[:\s]*${QUANTITY}`, "i"), unit: "kwh" }],
+      lineItems: [
+        { label: "delivery", patterns: ["delivery services - comed", "distribution facilities charge"] },
+        { label: "supply", patterns: ["supply services", "electricity supply charge"] },
+        { label: "tax", patterns: ["taxes & other", "state tax"] },
+      ],
+    },
+  },
+  {
+    id: "xcel",
+    label: "Xcel Energy",
+    providerName: "Xcel Energy",
+    detect: [/xcel\s+energy/i, /xcelenergy\.com/i],
+    fields: {
+      totalCost: [new RegExp(String.raw`amount\s+due\s*[:\s]*${AMOUNT}`, "i")],
+      period: [
+        new RegExp(String.raw`statement\s+period\s*:?\s*${SLASH_DATE}\s*-\s*${SLASH_DATE}`, "i"),
+      ],
+      usage: [{ pattern: new RegExp(String.raw`(?:usage\s+this\s+period|total\s+energy)\s*[:\s]*${QUANTITY}\s*(kwh|therms?)\b`, "i") }],
+      lineItems: [
+        { label: "fees", patterns: ["basic service chg", "basic service charge"] },
+        { label: "surcharge", patterns: ["fuel cost charge", "resource adjustment"] },
+      ],
+    },
+  },
+  {
+    id: "sce",
+    label: "Southern California Edison",
+    providerName: "Southern California Edison",
+    detect: [/southern\s+california\s+edison/i, /\bsce\.com\b/i],
+    fields: {
+      totalCost: [new RegExp(String.raw`total\s+amount\s+(?:you\s+owe|due)\s*[:\s]*${AMOUNT}`, "i")],
+      period: [
+        new RegExp(String.raw`for\s+meter[^\n]*from\s+${SLASH_DATE}\s+to\s+${SLASH_DATE}`, "i"),
+      ],
+      usage: [{ pattern: new RegExp(String.raw`total\s+electricity\s+you\s+used[^\n0-9]*${QUANTITY}\s*(kwh)\b`, "i") }],
+      lineItems: [
+        { label: "delivery", patterns: ["delivery charges"] },
+        { label: "supply", patterns: ["generation charges"] },
+      ],
+    },
+  },
+  {
+    id: "georgia-power",
+    label: "Georgia Power",
+    providerName: "Georgia Power",
+    detect: [/georgia\s+power/i, /georgiapower\.com/i],
+    fields: {
+      totalCost: [new RegExp(String.raw`total\s+due\s*[:\s]*${AMOUNT}`, "i")],
+      period: [
+        new RegExp(String.raw`billing\s+period\s*:?\s*${SLASH_DATE}\s*-\s*${SLASH_DATE}`, "i"),
+      ],
+      usage: [{ pattern: new RegExp(String.raw`kwh\s+used\s*[:\s]*${QUANTITY}`, "i"), unit: "kwh" }],
+      lineItems: [
+        { label: "fees", patterns: ["basic service charge"] },
+        { label: "surcharge", patterns: ["environmental compliance cost recovery", "nuclear construction cost recovery"] },
+        { label: "tax", patterns: ["franchise fee", "sales tax"] },
+      ],
+    },
+  },
+];
+
+export function scoreTemplate(template: ProviderTemplate, text: string): number {
+  return template.detect.reduce(
+    (score, pattern) => (pattern.test(text) ? score + 1 : score),
+    0,
+  );
+}
+
+export function detectProviderTemplate(text: string): TemplateMatch | null {
+  let best: TemplateMatch | null = null;
+
+  for (const template of PROVIDER_TEMPLATES) {
+    const score = scoreTemplate(template, text);
+    if (score < (template.minScore ?? 1)) {
+      continue;
+    }
+    if (!best || score > best.score) {
+      best = { template, score };
+    }
+  }
+
+  return best;
+}
+
+export function getProviderTemplate(id: string): ProviderTemplate | null {
+  return PROVIDER_TEMPLATES.find((template) => template.id === id) ?? null;
+}
@@ -1,6 +1,117 @@
+export interface FieldSpan {
+  start: number;
+  end: number;
+}
+
+export type EvidenceSource = "template" | "generic" | "fallback" | "override" | "learned";
+
+export interface FieldEvidence {
+  confidence: number;
+  pattern: string;
+  source: EvidenceSource;
+  span: FieldSpan | null;
+}
+
+export type EvidenceField =
+  | "provider"
+  | "periodStart"
+  | "periodEnd"
+  | "totalCost"
+  | "usageValue"
+  | "usageUnit"
+  | "demandKw"
+  | "demandCharge"
+  | "currency"
+  | "accountNumber"
+  | "meterNumber"
+  | "serviceAddress"
+  | "dueDate"
+  | "previousBalance"
+  | "paymentsReceived"
+  | "lateFee";
+
+export type FieldEvidenceMap = Partial<Record<EvidenceField, FieldEvidence>>;
+
+export type LearnedField = "totalCost" | "usageValue" | "period";
+
+// Extraction hints learned from a user's corrections to one provider's bills:
+// labels printed next to corrected values, and pattern ids whose matches were
+// corrected and should only be tried after every other pattern.
+export interface LearnedExtraction {
+  provider: string | null;
+  aliases: Partial<Record<LearnedField, string[]>>;
+  rejectedPatterns: string[];
+}
+
+// itemName is the label as printed on the bill; category is the normalized
+// bucket it maps to ("delivery", "tax", ... or "usage"/"other").
 export interface ParsedBillLineItem {
   itemName: string;
+  category: string;
   amount: number;
+  quantity: number | null;
+  unit: string | null;
+  rate: number | null;
+  evidence?: FieldEvidence;
+}
+
+export interface LineItemReconciliation {
+  itemsTotal: number;
+  totalCost: number | null;
+  remainder: number | null;
+  reconciled: boolean;
+}
+
+export type TouPeriod = "on_peak" | "shoulder" | "off_peak" | "super_off_peak";
+
+export type UsageComponentKind = "tou" | "tier";
+
+export interface UsageComponent {
+  kind: UsageComponentKind;
+  label: string;
+  period: TouPeriod | null;
+  tier: number | null;
+  blockStart: number | null;
+  blockEnd: number | null;
+  quantity: number | null;
+  unit: string | null;
+  rate: number | null;
+  amount: number | null;
+  evidence?: FieldEvidence;
+}
+
+export type DemandBasis = "measured" | "ratchet" | "contract" | "minimum";
+
+export interface DemandRatchet {
+  percent: number | null;
+  months: number | null;
+  kw: number | null;
+}
+
+export interface ParsedBillTemplate {
+  id: string;
+  label: string;
+  score: number;
+}
+
+export type ServiceType =
+  | "electric"
+  | "gas"
+  | "water"
+  | "sewer"
+  | "stormwater"
+  | "trash"
+  | "unknown";
+
+export interface ParsedServiceBill {
+  serviceType: ServiceType;
+  totalCost: number | null;
+  usageValue: number | null;
+  usageUnit: string | null;
+  lineItems: ParsedBillLineItem[];
+  lineItemReconciliation: LineItemReconciliation;
+  usageComponents: UsageComponent[];
+  evidence: FieldEvidenceMap;
 }
 
 export interface ParsedBill {
@@ -11,14 +122,128 @@ export interface ParsedBill {
   usageValue: number | null;
   usageUnit: string | null;
   currency: string;
+  locale: string;
+  ambiguousDates: AmbiguousDate[];
   lineItems: ParsedBillLineItem[];
+  lineItemReconciliation: LineItemReconciliation;
+  usageComponents: UsageComponent[];
+  demandKw: number | null;
+  demandBasis: DemandBasis | null;
+  demandRatchet: DemandRatchet | null;
+  demandCharge: number | null;
+  services: ParsedServiceBill[];
+  // As printed on the bill; compare with normalizeIdentifier.
+  accountNumber: string | null;
+  meterNumbers: string[];
+  serviceAddress: string | null;
+  dueDate: string | null;
+  // The statement's account summary; payments are a positive amount.
+  previousBalance: number | null;
+  paymentsReceived: number | null;
+  // The sum of late_fee line items.
+  lateFee: number | null;
+  evidence: FieldEvidenceMap;
+  template: ParsedBillTemplate;
   rawText: string;
 }
 
+export interface NormalizedBillUnits {
+  canonicalKind: "energy" | "water" | null;
+  kwhEquivalent: number | null;
+  mmbtu: number | null;
+  gallons: number | null;
+  billingDays: number | null;
+  costPerUnit: number | null;
+  costPerKwh: number | null;
+  costPerMmbtu: number | null;
+  costPerGallon: number | null;
+  costPerDay: number | null;
+}
+
+export type DateOrder = "mdy" | "dmy" | "ymd";
+
+export interface LocaleProfile {
+  locale: string;
+  explicit: boolean;
+  decimal: "." | ",";
+  dateOrder: DateOrder;
+  currency: string;
+  monthNames: Map<string, number>;
+}
+
+export interface ParsedDateToken {
+  value: string;
+  alternative: string | null;
+}
+
+export interface AmbiguousDate {
+  field: "periodStart" | "periodEnd" | "dueDate";
+  raw: string;
+  chosen: string;
+  alternative: string;
+  locale: string;
+}
+
+export type TextSource = "pdf_text" | "plain_text" | "ocr";
+
+export interface OcrPageReadout {
+  pageNumber: number;
+  confidence: number;
+  characters: number;
+}
+
+export interface OcrReadout {
+  engine: "tesseract";
+  language: string;
+  pages: OcrPageReadout[];
+  averageConfidence: number;
+}
+
+export interface ExtractedText {
+  text: string;
+  source: TextSource;
+  ocr: OcrReadout | null;
+}
+
 export interface HistoricalBillSnapshot {
   totalCost: number;
   usageValue: number | null;
+  usageUnit?: string | null;
   periodEnd: string | null;
+  demandCharge?: number | null;
+  lateFee?: number | null;
+}
+
+// Heating and cooling degree days over one stretch of dates.
+export interface DegreeDayTotals {
+  hdd: number;
+  cdd: number;
+}
+
+// Usage per day = baseLoad + heatingSlope * HDD per day + coolingSlope * CDD
+// per day, fitted on a property's past bills. A slope is 0 when that term did
+// not help the fit.
+export interface DegreeDayModel {
+  baseLoad: number;
+  heatingSlope: number;
+  coolingSlope: number;
+  rSquared: number;
+  samples: number;
+}
+
+// What buildInsights needs to split a usage change into weather and behavior:
+// the fitted model, this bill's degree days, and the typical usage and weather
+// of the bills the model was fitted on (all per day).
+export interface WeatherNormalization {
+  location: string;
+  model: DegreeDayModel;
+  periodDays: number;
+  degreeDays: DegreeDayTotals;
+  reference: {
+    usagePerDay: number;
+    hddPerDay: number;
+    cddPerDay: number;
+  };
 }
 
 export type InsightSeverity = "info" | "watch" | "high";
@@ -27,7 +252,11 @@ export type InsightType =
   | "cost_anomaly"
   | "usage_anomaly"
   | "line_item_spike"
-  | "saving_action";
+  | "saving_action"
+  | "demand_spike"
+  | "possible_leak"
+  | "late_fee"
+  | "line_item_alert";
 
 export interface Insight {
   type: InsightType;
@@ -38,6 +267,28 @@ export interface Insight {
   metadata?: Record<string, string | number | boolean | null>;
 }
 
+// What this bill's cost and usage are compared with: the same billing month in
+// earlier years, the average of the trailing twelve months, or the latest few
+// bills when there is less than a year of history.
+export type BaselineKind =
+  | "same_month_last_year"
+  | "trailing_12_months"
+  | "recent_trend"
+  | "none";
+
+// A cheaper plan from the user's tariff library, found by re-pricing the
+// property's last year of bills.
+export interface TariffSuggestion {
+  code: string;
+  name: string;
+  currency: string;
+  annualCost: number;
+  annualSavings: number;
+  // What the savings are measured against: the property's current tariff, or
+  // the billed totals when it has none.
+  basis: "tariff" | "bills";
+}
+
 export interface FrameworkReadout {
   system: string;
   controls: string[];
@@ -52,6 +303,10 @@ export interface FrameworkReadout {
     cost: number | null;
     usage: number | null;
   };
+  baseline: {
+    kind: BaselineKind;
+    sampleSize: number;
+  };
   thresholds: {
     normal: number;
     watch: number;
@@ -0,0 +1,160 @@
+import { NormalizedBillUnits, ServiceType } from "./types";
+
+// Energy content per unit in MMBtu. Gas volumes assume the US average heat
+// content of 1,037 Btu per cubic foot.
+const KWH_PER_MMBTU = 293.07107;
+const GAS_MMBTU_PER_CCF = 0.1037;
+const GAS_MMBTU_PER_M3 = GAS_MMBTU_PER_CCF / 2.8316847;
+
+const ENERGY_MMBTU_PER_UNIT: Record<string, number> = {
+  kwh: 1 / KWH_PER_MMBTU,
+  mwh: 1000 / KWH_PER_MMBTU,
+  therm: 0.1,
+  therms: 0.1,
+  dth: 1,
+  mmbtu: 1,
+  ccf: GAS_MMBTU_PER_CCF,
+  mcf: GAS_MMBTU_PER_CCF * 10,
+  m3: GAS_MMBTU_PER_M3,
+};
+
+const GALLONS_PER_UNIT: Record<string, number> = {
+  gal: 1,
+  gallon: 1,
+  gallons: 1,
+  kgal: 1000,
+  ccf: 748.052,
+  hcf: 748.052,
+  cf: 7.48052,
+  m3: 264.172,
+  l: 0.264172,
+};
+
+type CanonicalKind = NormalizedBillUnits["canonicalKind"];
+
+interface NormalizeInput {
+  totalCost: number | null;
+  usageValue: number | null;
+  usageUnit: string | null;
+  periodStart: string | null;
+  periodEnd: string | null;
+  serviceType: ServiceType;
+}
+
+function round(value: number | null, digits: number): number | null {
+  if (value === null || !Number.isFinite(value)) {
+    return null;
+  }
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function perUnit(cost: number | null, quantity: number | null): number | null {
+  if (cost === null || quantity === null || quantity <= 0) {
+    return null;
+  }
+  return cost / quantity;
+}
+
+// ccf and m3 are volumes of gas on a gas bill and of water on a water or
+// sewer bill, so the service decides which table a unit is read from.
+export function canonicalKindFor(
+  usageUnit: string | null,
+  serviceType: ServiceType,
+): CanonicalKind {
+  const unit = usageUnit?.toLowerCase();
+  if (!unit) {
+    return null;
+  }
+  const isWaterService = serviceType === "water" || serviceType === "sewer";
+  if (isWaterService && unit in GALLONS_PER_UNIT) {
+    return "water";
+  }
+  if (unit in ENERGY_MMBTU_PER_UNIT) {
+    return "energy";
+  }
+  return unit in GALLONS_PER_UNIT ? "water" : null;
+}
+
+export function billingDays(periodStart: string | null, periodEnd: string | null): number | null {
+  if (!periodStart || !periodEnd) {
+    return null;
+  }
+  const start = Date.parse(periodStart);
+  const end = Date.parse(periodEnd);
+  if (Number.isNaN(start) || Number.isNaN(end) || end < start) {
+    return null;
+  }
+  // Billing periods are inclusive of both the start and end dates.
+  return Math.round((end - start) / 86_400_000) + 1;
+}
+
+// Converts a quantity between two units of the same kind; returns null when
+// the units measure different things (kWh vs gallons) or are unknown.
+export function convertUsage(
+  value: number,
+  fromUnit: string | null,
+  toUnit: string | null,
+  serviceType: ServiceType,
+): number | null {
+  const from = fromUnit?.toLowerCase();
+  const to = toUnit?.toLowerCase();
+  if (!from || !to) {
+    return null;
+  }
+  if (from === to) {
+    return value;
+  }
+
+  const kind = canonicalKindFor(from, serviceType);
+  if (kind === null || kind !== canonicalKindFor(to, serviceType)) {
+    return null;
+  }
+  const table = kind === "energy" ? ENERGY_MMBTU_PER_UNIT : GALLONS_PER_UNIT;
+  return (value * table[from]) / table[to];
+}
+
+export function normalizeBillUnits(input: NormalizeInput): NormalizedBillUnits {
+  const unit = input.usageUnit?.toLowerCase() ?? null;
+  const canonicalKind = canonicalKindFor(unit, input.serviceType);
+  const usage = input.usageValue;
+
+  const mmbtu =
+    canonicalKind === "energy" && usage !== null && unit
+      ? usage * ENERGY_MMBTU_PER_UNIT[unit]
+      : null;
+  const kwhEquivalent = mmbtu !== null ? mmbtu * KWH_PER_MMBTU : null;
+  const gallons =
+    canonicalKind === "water" && usage !== null && unit
+      ? usage * GALLONS_PER_UNIT[unit]
+      : null;
+  const days = billingDays(input.periodStart, input.periodEnd);
+
+  return {
+    canonicalKind,
+    kwhEquivalent: round(kwhEquivalent, 3),
+    mmbtu: round(mmbtu, 4),
+    gallons: round(gallons, 2),
+    billingDays: days,
+    costPerUnit: round(perUnit(input.totalCost, usage), 6),
+    costPerKwh: round(perUnit(input.totalCost, kwhEquivalent), 6),
+    costPerMmbtu: round(perUnit(input.totalCost, mmbtu), 4),
+    costPerGallon: round(perUnit(input.totalCost, gallons), 6),
+    costPerDay: round(perUnit(input.totalCost, days), 4),
+  };
+}
+
+// Maps normalized values onto their public.bills columns.
+export function toUnitColumns(units: NormalizedBillUnits) {
+  return {
+    usage_kwh_equivalent: units.kwhEquivalent,
+    usage_mmbtu: units.mmbtu,
+    usage_gallons: units.gallons,
+    billing_days: units.billingDays,
+    cost_per_unit: units.costPerUnit,
+    cost_per_kwh: units.costPerKwh,
+    cost_per_mmbtu: units.costPerMmbtu,
+    cost_per_gallon: units.costPerGallon,
+    cost_per_day: units.costPerDay,
+  };
+}
@@ -0,0 +1,3 @@
+// Stored with every parsed bill. Bump it with parser changes that alter what
+// is extracted, so re-parse can find bills read by an older parser.
+export const PARSER_VERSION = "2026.02.3";
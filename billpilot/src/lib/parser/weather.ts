@@ -0,0 +1,209 @@
+import { DegreeDayModel, DegreeDayTotals } from "./types";
+
+// One row of imported degree days: a single day, or a month from a monthly
+// summary.
+export interface DegreeDayPeriod {
+  startDate: string;
+  endDate: string;
+  hdd: number;
+  cdd: number;
+}
+
+// A past bill with the degree days of its period.
+export interface DegreeDaySample {
+  usage: number;
+  days: number;
+  hdd: number;
+  cdd: number;
+}
+
+type WeatherTerm = "hdd" | "cdd";
+
+const DAY_MS = 86_400_000;
+// A period missing more than a tenth of its days is not scored; smaller gaps
+// are filled pro rata.
+export const MIN_DEGREE_DAY_COVERAGE = 0.9;
+export const MIN_WEATHER_SAMPLES = 4;
+// Below this the weather explains too little of the usage to adjust for it.
+export const MIN_WEATHER_R_SQUARED = 0.5;
+const MIN_TERM_VARIANCE = 1e-6;
+
+function dayIndex(date: string): number {
+  return Math.round(Date.parse(date) / DAY_MS);
+}
+
+function round(value: number, digits: number): number {
+  return Number(value.toFixed(digits));
+}
+
+// Sums the degree days of an inclusive date range. Rows that only partly
+// overlap it (a month against a mid-month billing period) count pro rata, and
+// a day covered by both a daily and a monthly row counts once, from the daily
+// row.
+export function degreeDaysForPeriod(
+  rows: DegreeDayPeriod[],
+  periodStart: string,
+  periodEnd: string,
+): DegreeDayTotals | null {
+  const start = dayIndex(periodStart);
+  const end = dayIndex(periodEnd);
+  if (Number.isNaN(start) || Number.isNaN(end) || end < start) {
+    return null;
+  }
+
+  const covered = new Uint8Array(end - start + 1);
+  let coveredDays = 0;
+  let hdd = 0;
+  let cdd = 0;
+  const byLength = [...rows].sort(
+    (left, right) =>
+      dayIndex(left.endDate) - dayIndex(left.startDate) -
+      (dayIndex(right.endDate) - dayIndex(right.startDate)),
+  );
+  for (const row of byLength) {
+    const rowStart = dayIndex(row.startDate);
+    const rowEnd = dayIndex(row.endDate);
+    const rowDays = rowEnd - rowStart + 1;
+    for (let day = Math.max(start, rowStart); day <= Math.min(end, rowEnd); day += 1) {
+      if (covered[day - start]) {
+        continue;
+      }
+      covered[day - start] = 1;
+      coveredDays += 1;
+      hdd += row.hdd / rowDays;
+      cdd += row.cdd / rowDays;
+    }
+  }
+
+  const days = end - start + 1;
+  if (coveredDays / days < MIN_DEGREE_DAY_COVERAGE) {
+    return null;
+  }
+  const scale = days / coveredDays;
+  return { hdd: round(hdd * scale, 1), cdd: round(cdd * scale, 1) };
+}
+
+// Least squares by the normal equations; the systems here are at most 3x3.
+function solveLeastSquares(rows: number[][], targets: number[]): number[] | null {
+  const size = rows[0].length;
+  const matrix = Array.from({ length: size }, (_, i) => {
+    const row = Array.from({ length: size }, (_, j) =>
+      rows.reduce((sum, x) => sum + x[i] * x[j], 0),
+    );
+    row.push(rows.reduce((sum, x, index) => sum + x[i] * targets[index], 0));
+    return row;
+  });
+
+  for (let column = 0; column < size; column += 1) {
+    let pivot = column;
+    for (let row = column + 1; row < size; row += 1) {
+      if (Math.abs(matrix[row][column]) > Math.abs(matrix[pivot][column])) {
+        pivot = row;
+      }
+    }
+    if (Math.abs(matrix[pivot][column]) < 1e-12) {
+      return null;
+    }
+    [matrix[column], matrix[pivot]] = [matrix[pivot], matrix[column]];
+    for (let row = 0; row < size; row += 1) {
+      if (row === column) {
+        continue;
+      }
+      const factor = matrix[row][column] / matrix[column][column];
+      for (let index = column; index <= size; index += 1) {
+        matrix[row][index] -= factor * matrix[column][index];
+      }
+    }
+  }
+
+  return matrix.map((row, index) => row[size] / row[index]);
+}
+
+function variance(values: number[]): number {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+}
+
+// Fits usage per day against HDD and CDD per day. A term whose degree days
+// never change (no cooling days all winter) is left out, and so is one that
+// comes out negative, since colder or hotter weather does not lower usage.
+// Returns null without enough bills, or when weather explains too little.
+export function fitDegreeDayModel(samples: DegreeDaySample[]): DegreeDayModel | null {
+  const points = samples
+    .filter((sample) => sample.days > 0 && Number.isFinite(sample.usage))
+    .map((sample) => ({
+      usage: sample.usage / sample.days,
+      hdd: sample.hdd / sample.days,
+      cdd: sample.cdd / sample.days,
+    }));
+  if (points.length < MIN_WEATHER_SAMPLES) {
+    return null;
+  }
+
+  let terms = (["hdd", "cdd"] as WeatherTerm[]).filter(
+    (term) => variance(points.map((point) => point[term])) > MIN_TERM_VARIANCE,
+  );
+  const targets = points.map((point) => point.usage);
+
+  while (terms.length > 0 && points.length >= terms.length + 2) {
+    const coefficients = solveLeastSquares(
+      points.map((point) => [1, ...terms.map((term) => point[term])]),
+      targets,
+    );
+    if (!coefficients) {
+      return null;
+    }
+
+    const slopes = new Map(terms.map((term, index) => [term, coefficients[index + 1]]));
+    const negative = terms.filter((term) => (slopes.get(term) ?? 0) < 0);
+    if (negative.length > 0) {
+      const worst = negative.reduce((left, right) =>
+        (slopes.get(left) ?? 0) <= (slopes.get(right) ?? 0) ? left : right,
+      );
+      terms = terms.filter((term) => term !== worst);
+      continue;
+    }
+
+    const model: DegreeDayModel = {
+      baseLoad: coefficients[0],
+      heatingSlope: slopes.get("hdd") ?? 0,
+      coolingSlope: slopes.get("cdd") ?? 0,
+      rSquared: 0,
+      samples: points.length,
+    };
+    const mean = targets.reduce((sum, value) => sum + value, 0) / targets.length;
+    const total = targets.reduce((sum, value) => sum + (value - mean) ** 2, 0);
+    const residual = points.reduce(
+      (sum, point) =>
+        sum + (point.usage - predictDegreeDayUsage(model, 1, { hdd: point.hdd, cdd: point.cdd })) ** 2,
+      0,
+    );
+    if (total === 0) {
+      return null;
+    }
+    model.rSquared = round(1 - residual / total, 4);
+    if (model.rSquared < MIN_WEATHER_R_SQUARED) {
+      return null;
+    }
+    return {
+      ...model,
+      baseLoad: round(model.baseLoad, 4),
+      heatingSlope: round(model.heatingSlope, 4),
+      coolingSlope: round(model.coolingSlope, 4),
+    };
+  }
+
+  return null;
+}
+
+export function predictDegreeDayUsage(
+  model: DegreeDayModel,
+  days: number,
+  degreeDays: DegreeDayTotals,
+): number {
+  return (
+    model.baseLoad * days +
+    model.heatingSlope * degreeDays.hdd +
+    model.coolingSlope * degreeDays.cdd
+  );
+}
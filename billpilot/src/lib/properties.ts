@@ -26,6 +26,25 @@ export async function getPropertyOwner(
   return data as PropertyOwnerRow;
 }
 
+export async function getPropertyLocale(propertyId: string): Promise<string | null> {
+  const supabase = getServiceSupabaseClient();
+  if (!supabase) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("properties")
+    .select("locale")
+    .eq("id", propertyId)
+    .maybeSingle();
+
+  if (error || !data) {
+    return null;
+  }
+
+  return (data as { locale: string | null }).locale;
+}
+
 export async function propertyBelongsToUser(
   propertyId: string,
   userId: string,
@@ -37,7 +37,13 @@ export function buildCsv(
     "currency",
     "usage_value",
     "usage_unit",
+    "usage_kwh_equivalent",
+    "usage_gallons",
+    "cost_per_unit",
+    "cost_per_day",
     "confidence",
+    "duplicate_of",
+    "source",
     "insight_total",
     "insight_high",
     "insight_watch",
@@ -59,7 +65,13 @@ export function buildCsv(
         escapeCsv(row.currency),
         escapeCsv(row.usageValue),
         escapeCsv(row.usageUnit),
+        escapeCsv(row.units.kwhEquivalent),
+        escapeCsv(row.units.gallons),
+        escapeCsv(row.units.costPerUnit),
+        escapeCsv(row.units.costPerDay),
         escapeCsv(row.confidence),
+        escapeCsv(row.duplicateOf),
+        escapeCsv(row.source),
         escapeCsv(row.insightTotal),
         escapeCsv(row.insightHigh),
         escapeCsv(row.insightWatch),
@@ -0,0 +1,201 @@
+import { ServiceType } from "@/lib/parser/types";
+import { getServiceSupabaseClient } from "@/lib/supabase";
+
+import { TariffDefinition, TariffKind, tariffKind } from "./pricing";
+
+export class TariffError extends Error {
+  status: number;
+  code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export interface Tariff {
+  id: string;
+  utility: string;
+  code: string;
+  name: string;
+  serviceType: ServiceType;
+  kind: TariffKind;
+  currency: string;
+  definition: TariffDefinition;
+  updatedAt: string;
+}
+
+export interface TariffImportResult {
+  utility: string;
+  imported: Tariff[];
+  removed: number;
+}
+
+interface TariffRow {
+  id: string;
+  utility: string;
+  code: string;
+  name: string;
+  service_type: ServiceType;
+  kind: TariffKind;
+  currency: string;
+  definition: TariffDefinition;
+  updated_at: string;
+}
+
+const TARIFF_COLUMNS = "id, utility, code, name, service_type, kind, currency, definition, updated_at";
+
+function requireSupabase() {
+  const supabase = getServiceSupabaseClient();
+  if (!supabase) {
+    throw new TariffError(500, "supabase_not_configured", "Supabase is not configured.");
+  }
+  return supabase;
+}
+
+function rowToTariff(row: TariffRow): Tariff {
+  return {
+    id: row.id,
+    utility: row.utility,
+    code: row.code,
+    name: row.name,
+    serviceType: row.service_type,
+    kind: row.kind,
+    currency: row.currency,
+    definition: row.definition,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Tier limits must rise and end in an open tier, and TOU windows need at least
+// an hour; the route's schema checks the shape, this checks the sense.
+function validateTariff(tariff: TariffDefinition): void {
+  const invalid = (message: string) =>
+    new TariffError(400, "invalid_tariff", `${tariff.code}: ${message}`);
+  if (tariff.energy.type === "tiered") {
+    const { tiers } = tariff.energy;
+    tiers.forEach((tier, index) => {
+      const last = index === tiers.length - 1;
+      if (last !== (tier.upTo === null)) {
+        throw invalid("only the last tier may leave upTo empty, and it must.");
+      }
+      const previous = index > 0 ? tiers[index - 1].upTo : 0;
+      if (tier.upTo !== null && previous !== null && tier.upTo <= previous) {
+        throw invalid("tier limits must increase.");
+      }
+    });
+  }
+  if (tariff.energy.type === "tou") {
+    for (const window of tariff.energy.periods) {
+      if (window.hours[0] === window.hours[1] % 24) {
+        throw invalid(`the ${window.name} window is empty.`);
+      }
+    }
+  }
+  if (tariff.demandRate && tariff.unit.toLowerCase() !== "kwh") {
+    throw invalid("demand tariffs price energy in kWh.");
+  }
+}
+
+// Stores a utility's tariffs for the user. A tariff with a code already in the
+// library is replaced; with `replace`, the utility's tariffs missing from the
+// file are removed, so a library can be re-imported as a whole.
+export async function importTariffs(input: {
+  userId: string;
+  utility: string;
+  tariffs: TariffDefinition[];
+  replace?: boolean;
+}): Promise<TariffImportResult> {
+  const supabase = requireSupabase();
+  const codes = new Set<string>();
+  for (const tariff of input.tariffs) {
+    if (codes.has(tariff.code)) {
+      throw new TariffError(400, "duplicate_tariff_code", `The code ${tariff.code} is used twice.`);
+    }
+    codes.add(tariff.code);
+    validateTariff(tariff);
+  }
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from("tariffs")
+    .upsert(
+      input.tariffs.map((tariff) => ({
+        user_id: input.userId,
+        utility: input.utility,
+        code: tariff.code,
+        name: tariff.name,
+        service_type: tariff.serviceType,
+        kind: tariffKind(tariff),
+        currency: tariff.currency,
+        definition: tariff,
+        updated_at: now,
+      })),
+      { onConflict: "user_id,utility,code" },
+    )
+    .select(TARIFF_COLUMNS);
+  if (error) {
+    throw new TariffError(500, "tariff_import_failed", error.message);
+  }
+
+  let removed = 0;
+  if (input.replace) {
+    const { data: stale, error: deleteError } = await supabase
+      .from("tariffs")
+      .delete()
+      .eq("user_id", input.userId)
+      .eq("utility", input.utility)
+      .not("code", "in", `(${[...codes].map((code) => `"${code}"`).join(",")})`)
+      .select("id");
+    if (deleteError) {
+      throw new TariffError(500, "tariff_delete_failed", deleteError.message);
+    }
+    removed = stale?.length ?? 0;
+  }
+
+  return {
+    utility: input.utility,
+    imported: ((data as TariffRow[] | null) ?? []).map(rowToTariff),
+    removed,
+  };
+}
+
+export async function listTariffs(
+  userId: string,
+  filters: { serviceType?: ServiceType; utility?: string } = {},
+): Promise<Tariff[]> {
+  const supabase = requireSupabase();
+  let query = supabase.from("tariffs").select(TARIFF_COLUMNS).eq("user_id", userId);
+  if (filters.serviceType) {
+    query = query.eq("service_type", filters.serviceType);
+  }
+  if (filters.utility) {
+    query = query.eq("utility", filters.utility);
+  }
+
+  const { data, error } = await query.order("utility").order("code");
+  if (error) {
+    throw new TariffError(500, "tariff_lookup_failed", error.message);
+  }
+  return ((data as TariffRow[] | null) ?? []).map(rowToTariff);
+}
+
+// Removes one tariff, or every tariff of a utility.
+export async function deleteTariffs(
+  userId: string,
+  target: { tariffId: string } | { utility: string },
+): Promise<number> {
+  const supabase = requireSupabase();
+  let query = supabase.from("tariffs").delete().eq("user_id", userId);
+  query = "tariffId" in target ? query.eq("id", target.tariffId) : query.eq("utility", target.utility);
+
+  const { data, error } = await query.select("id");
+  if (error) {
+    throw new TariffError(500, "tariff_delete_failed", error.message);
+  }
+  if (!data || data.length === 0) {
+    throw new TariffError(404, "tariff_not_found", "No matching tariffs.");
+  }
+  return data.length;
+}
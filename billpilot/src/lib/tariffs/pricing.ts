@@ -0,0 +1,224 @@
+import { ServiceType } from "@/lib/parser/types";
+
+// flat, tiered and tou describe how energy is priced; a tariff with a demand
+// rate is a demand tariff whatever its energy pricing.
+export const TARIFF_KINDS = ["flat", "tiered", "tou", "demand"] as const;
+export type TariffKind = (typeof TARIFF_KINDS)[number];
+
+export const TOU_DAY_TYPES = ["all", "weekdays", "weekends"] as const;
+export type TouDayType = (typeof TOU_DAY_TYPES)[number];
+
+// Tier limits are monthly quantities in the tariff's unit; the last tier has
+// no limit.
+export interface TariffTier {
+  upTo: number | null;
+  rate: number;
+}
+
+// Local hours [start, end) in the property's timezone; a window whose end is
+// not after its start runs past midnight (21 to 6).
+export interface TouWindow {
+  name: string;
+  rate: number;
+  hours: [number, number];
+  days: TouDayType;
+  months?: number[];
+}
+
+export type TariffEnergy =
+  | { type: "flat"; rate: number }
+  | { type: "tiered"; tiers: TariffTier[] }
+  | { type: "tou"; periods: TouWindow[]; defaultRate: number };
+
+export interface TariffDefinition {
+  code: string;
+  name: string;
+  serviceType: ServiceType;
+  unit: string;
+  currency: string;
+  fixedMonthly: number;
+  energy: TariffEnergy;
+  // Per kW of the billing period's peak demand.
+  demandRate: number | null;
+}
+
+export interface PricingInterval {
+  startAt: string;
+  hours: number;
+  // In the tariff's unit.
+  value: number;
+}
+
+export interface PricingPeriod {
+  periodStart: string;
+  days: number;
+  // Billed usage in the tariff's unit.
+  usage: number;
+  demandKw: number | null;
+  // Interval readings covering the period, when there are enough of them.
+  intervals: PricingInterval[] | null;
+  timezone: string;
+}
+
+// intervals: time-of-use energy priced reading by reading. flat_profile: usage
+// assumed spread evenly over every hour of the period. usage: the tariff does
+// not depend on when energy was used.
+export type PricingMethod = "intervals" | "flat_profile" | "usage";
+
+export interface PricedPeriod {
+  // Null when the tariff charges for demand and the period has none.
+  total: number | null;
+  fixed: number;
+  energy: number;
+  demand: number | null;
+  method: PricingMethod;
+}
+
+const DAYS_PER_MONTH = 365 / 12;
+const HOUR_MS = 3_600_000;
+const WEEKEND_DAYS = new Set(["Sat", "Sun"]);
+
+const localTimeFormats = new Map<string, Intl.DateTimeFormat>();
+
+function localTimeFormat(timezone: string): Intl.DateTimeFormat {
+  let format = localTimeFormats.get(timezone);
+  if (!format) {
+    format = new Intl.DateTimeFormat("en-US", {
+      weekday: "short",
+      month: "numeric",
+      hour: "2-digit",
+      hour12: false,
+      timeZone: timezone,
+    });
+    localTimeFormats.set(timezone, format);
+  }
+  return format;
+}
+
+function localTimeParts(instant: number, timezone: string) {
+  const parts = localTimeFormat(timezone).formatToParts(instant);
+  const read = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value ?? "";
+  return {
+    weekday: read("weekday"),
+    month: Number.parseInt(read("month"), 10),
+    // Some runtimes print midnight as 24.
+    hour: Number.parseInt(read("hour"), 10) % 24,
+  };
+}
+
+export function tariffKind(tariff: Pick<TariffDefinition, "energy" | "demandRate">): TariffKind {
+  return tariff.demandRate ? "demand" : tariff.energy.type;
+}
+
+function windowApplies(window: TouWindow, parts: ReturnType<typeof localTimeParts>): boolean {
+  if (window.months && !window.months.includes(parts.month)) {
+    return false;
+  }
+  const weekend = WEEKEND_DAYS.has(parts.weekday);
+  if ((window.days === "weekdays" && weekend) || (window.days === "weekends" && !weekend)) {
+    return false;
+  }
+  const [start, end] = window.hours;
+  return end > start
+    ? parts.hour >= start && parts.hour < end
+    : parts.hour >= start || parts.hour < end;
+}
+
+// The first window that covers the hour sets its rate; hours no window covers
+// are priced at the default (usually off-peak) rate.
+export function touRateAt(
+  energy: Extract<TariffEnergy, { type: "tou" }>,
+  instant: number,
+  timezone: string,
+): number {
+  const parts = localTimeParts(instant, timezone);
+  return energy.periods.find((window) => windowApplies(window, parts))?.rate ?? energy.defaultRate;
+}
+
+function priceTiers(tiers: TariffTier[], usage: number, days: number): number {
+  const months = days / DAYS_PER_MONTH;
+  let remaining = usage;
+  let floor = 0;
+  let cost = 0;
+  for (const tier of tiers) {
+    const block = tier.upTo === null ? remaining : Math.min(remaining, (tier.upTo - floor) * months);
+    cost += block * tier.rate;
+    remaining -= block;
+    floor = tier.upTo ?? floor;
+    if (remaining <= 0) {
+      break;
+    }
+  }
+  return cost;
+}
+
+// TOU energy from interval readings, scaled to the billed usage so the bill
+// stays the source of the quantity and the readings only give its shape.
+function priceTouIntervals(
+  energy: Extract<TariffEnergy, { type: "tou" }>,
+  period: PricingPeriod,
+  intervals: PricingInterval[],
+): number | null {
+  let measured = 0;
+  let cost = 0;
+  for (const interval of intervals) {
+    measured += interval.value;
+    cost += interval.value * touRateAt(energy, Date.parse(interval.startAt), period.timezone);
+  }
+  return measured > 0 ? (cost / measured) * period.usage : null;
+}
+
+function priceTouFlatProfile(
+  energy: Extract<TariffEnergy, { type: "tou" }>,
+  period: PricingPeriod,
+): number {
+  const start = Date.parse(`${period.periodStart}T00:00:00Z`);
+  const hours = period.days * 24;
+  let rates = 0;
+  for (let hour = 0; hour < hours; hour += 1) {
+    rates += touRateAt(energy, start + hour * HOUR_MS, period.timezone);
+  }
+  return (rates / hours) * period.usage;
+}
+
+function peakDemand(period: PricingPeriod): number | null {
+  if (period.demandKw !== null) {
+    return period.demandKw;
+  }
+  if (!period.intervals || period.intervals.length === 0) {
+    return null;
+  }
+  return Math.max(...period.intervals.map((interval) => interval.value / interval.hours));
+}
+
+export function priceTariff(tariff: TariffDefinition, period: PricingPeriod): PricedPeriod {
+  const fixed = (tariff.fixedMonthly * period.days) / DAYS_PER_MONTH;
+  let energy: number;
+  let method: PricingMethod = "usage";
+  if (tariff.energy.type === "flat") {
+    energy = period.usage * tariff.energy.rate;
+  } else if (tariff.energy.type === "tiered") {
+    energy = priceTiers(tariff.energy.tiers, period.usage, period.days);
+  } else {
+    const fromIntervals = period.intervals
+      ? priceTouIntervals(tariff.energy, period, period.intervals)
+      : null;
+    method = fromIntervals !== null ? "intervals" : "flat_profile";
+    energy = fromIntervals ?? priceTouFlatProfile(tariff.energy, period);
+  }
+
+  let demand: number | null = 0;
+  if (tariff.demandRate) {
+    const kw = peakDemand(period);
+    demand = kw === null ? null : kw * tariff.demandRate;
+  }
+
+  return {
+    total: demand === null ? null : fixed + energy + demand,
+    fixed,
+    energy,
+    demand,
+    method,
+  };
+}
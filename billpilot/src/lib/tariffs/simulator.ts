@@ -0,0 +1,436 @@
+import { billingDays, convertUsage } from "@/lib/parser/units";
+import { ServiceType, TariffSuggestion } from "@/lib/parser/types";
+import { getServiceSupabaseClient } from "@/lib/supabase";
+
+import { listTariffs, Tariff, TariffError } from "./library";
+import { PricingInterval, PricingMethod, priceTariff, TariffKind } from "./pricing";
+
+// priced: every bill of the year was priced. missing_demand: a demand tariff
+// and a bill with neither billed demand nor interval readings. The other two
+// are tariffs the bills cannot be priced under at all.
+export type TariffPlanStatus = "priced" | "missing_demand" | "incompatible_unit" | "currency_mismatch";
+
+export interface TariffPlanResult {
+  tariffId: string;
+  utility: string;
+  code: string;
+  name: string;
+  kind: TariffKind;
+  currency: string;
+  status: TariffPlanStatus;
+  current: boolean;
+  annualCost: number | null;
+  breakdown: { fixed: number; energy: number; demand: number } | null;
+  // "mixed" when some bills had interval readings and some did not.
+  method: PricingMethod | "mixed" | null;
+}
+
+export interface TariffSimulation {
+  propertyId: string;
+  serviceType: ServiceType;
+  currency: string | null;
+  from: string | null;
+  to: string | null;
+  bills: number;
+  days: number;
+  intervalBills: number;
+  currentTariffId: string | null;
+  // The current plan's simulated cost when the property names one that could
+  // be priced, otherwise what the bills themselves came to.
+  current: { basis: "tariff" | "bills"; annualCost: number | null };
+  plans: TariffPlanResult[];
+  bestAlternative: {
+    tariffId: string;
+    code: string;
+    name: string;
+    annualCost: number;
+    annualSavings: number;
+  } | null;
+}
+
+interface SimulationBillRow {
+  period_start: string | null;
+  period_end: string | null;
+  usage_value: number | string | null;
+  usage_unit: string | null;
+  total_cost: number | string | null;
+  demand_kw: number | string | null;
+  currency: string | null;
+}
+
+interface IntervalRow {
+  start_at: string;
+  duration_seconds: number;
+  value: number | string;
+  unit: string;
+}
+
+interface SimulationBill {
+  periodStart: string;
+  periodEnd: string;
+  days: number;
+  usage: number;
+  usageUnit: string | null;
+  totalCost: number | null;
+  demandKw: number | null;
+  currency: string;
+  intervals: IntervalRow[] | null;
+}
+
+const YEAR_DAYS = 365;
+const DAY_MS = 86_400_000;
+const MAX_SIMULATION_BILLS = 24;
+const PAGE_SIZE = 1000;
+// A year of 15-minute readings, with room to spare.
+const MAX_INTERVAL_ROWS = 60_000;
+// Readings are only used for a bill when they cover nearly all of it.
+const MIN_INTERVAL_COVERAGE = 0.9;
+
+function requireSupabase() {
+  const supabase = getServiceSupabaseClient();
+  if (!supabase) {
+    throw new TariffError(500, "supabase_not_configured", "Supabase is not configured.");
+  }
+  return supabase;
+}
+
+function toNumberOrNull(value: number | string | null): number | null {
+  if (value === null) {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function roundMoney(value: number): number {
+  return Number(value.toFixed(2));
+}
+
+async function loadPropertySettings(propertyId: string) {
+  const supabase = requireSupabase();
+  const { data, error } = await supabase
+    .from("properties")
+    .select("user_id, timezone, current_tariff_id")
+    .eq("id", propertyId)
+    .maybeSingle();
+  if (error) {
+    throw new TariffError(500, "property_lookup_failed", error.message);
+  }
+  if (!data) {
+    throw new TariffError(404, "property_not_found", "No such property.");
+  }
+  return data as { user_id: string; timezone: string | null; current_tariff_id: string | null };
+}
+
+// The bills of the year up to the latest one, oldest first.
+async function loadSimulationBills(
+  propertyId: string,
+  serviceType: ServiceType,
+): Promise<SimulationBill[]> {
+  const supabase = requireSupabase();
+  const { data, error } = await supabase
+    .from("bills")
+    .select("period_start, period_end, usage_value, usage_unit, total_cost, demand_kw, currency")
+    .eq("property_id", propertyId)
+    .eq("service_type", serviceType)
+    .is("duplicate_of", null)
+    .not("period_start", "is", null)
+    .not("usage_value", "is", null)
+    .order("period_end", { ascending: false })
+    .limit(MAX_SIMULATION_BILLS);
+  if (error) {
+    throw new TariffError(500, "bill_lookup_failed", error.message);
+  }
+
+  const rows = (data as SimulationBillRow[] | null) ?? [];
+  const latestEnd = rows[0]?.period_end ? Date.parse(rows[0].period_end) : Number.NaN;
+  const bills: SimulationBill[] = [];
+  for (const row of rows) {
+    const days = billingDays(row.period_start, row.period_end);
+    const usage = toNumberOrNull(row.usage_value);
+    if (
+      days === null ||
+      usage === null ||
+      !row.period_start ||
+      !row.period_end ||
+      latestEnd - Date.parse(row.period_end) >= YEAR_DAYS * DAY_MS
+    ) {
+      continue;
+    }
+    bills.push({
+      periodStart: row.period_start,
+      periodEnd: row.period_end,
+      days,
+      usage,
+      usageUnit: row.usage_unit,
+      totalCost: toNumberOrNull(row.total_cost),
+      demandKw: toNumberOrNull(row.demand_kw),
+      currency: row.currency ?? "USD",
+      intervals: null,
+    });
+  }
+  return bills.reverse();
+}
+
+// Hands each bill the interval readings inside its period when they cover it.
+async function attachIntervals(
+  propertyId: string,
+  serviceType: ServiceType,
+  bills: SimulationBill[],
+): Promise<void> {
+  if (bills.length === 0) {
+    return;
+  }
+  const supabase = requireSupabase();
+  // Periods are inclusive of their last day.
+  const periodEnd = (bill: SimulationBill) => Date.parse(`${bill.periodEnd}T00:00:00Z`) + DAY_MS;
+  const from = new Date(`${bills[0].periodStart}T00:00:00Z`).toISOString();
+  const to = new Date(periodEnd(bills[bills.length - 1])).toISOString();
+
+  const rows: IntervalRow[] = [];
+  for (let offset = 0; offset < MAX_INTERVAL_ROWS; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("usage_intervals")
+      .select("start_at, duration_seconds, value, unit")
+      .eq("property_id", propertyId)
+      .eq("service_type", serviceType)
+      .gte("start_at", from)
+      .lt("start_at", to)
+      .order("start_at", { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) {
+      throw new TariffError(500, "interval_lookup_failed", error.message);
+    }
+    const page = (data as IntervalRow[] | null) ?? [];
+    rows.push(...page);
+    if (page.length < PAGE_SIZE) {
+      break;
+    }
+  }
+  if (rows.length === 0) {
+    return;
+  }
+
+  for (const bill of bills) {
+    const start = Date.parse(`${bill.periodStart}T00:00:00Z`);
+    const end = periodEnd(bill);
+    const inside = rows.filter((row) => {
+      const at = Date.parse(row.start_at);
+      return at >= start && at < end;
+    });
+    const coveredHours = inside.reduce((sum, row) => sum + row.duration_seconds / 3600, 0);
+    if (coveredHours >= bill.days * 24 * MIN_INTERVAL_COVERAGE) {
+      bill.intervals = inside;
+    }
+  }
+}
+
+function simulatePlan(
+  tariff: Tariff,
+  bills: SimulationBill[],
+  serviceType: ServiceType,
+  timezone: string,
+  totalDays: number,
+): Omit<TariffPlanResult, "current"> {
+  const result = {
+    tariffId: tariff.id,
+    utility: tariff.utility,
+    code: tariff.code,
+    name: tariff.name,
+    kind: tariff.kind,
+    currency: tariff.currency,
+  };
+  const unpriced = (status: TariffPlanStatus) => ({
+    ...result,
+    status,
+    annualCost: null,
+    breakdown: null,
+    method: null,
+  });
+  if (bills.some((bill) => bill.currency !== tariff.currency)) {
+    return unpriced("currency_mismatch");
+  }
+
+  const unit = tariff.definition.unit;
+  const sums = { fixed: 0, energy: 0, demand: 0 };
+  const methods = new Set<PricingMethod>();
+  for (const bill of bills) {
+    const usage = convertUsage(bill.usage, bill.usageUnit ?? unit, unit, serviceType);
+    if (usage === null) {
+      return unpriced("incompatible_unit");
+    }
+    const intervals = bill.intervals
+      ?.map((row): PricingInterval | null => {
+        const value = convertUsage(Number(row.value), row.unit, unit, serviceType);
+        return value === null
+          ? null
+          : { startAt: row.start_at, hours: row.duration_seconds / 3600, value };
+      })
+      .filter((row): row is PricingInterval => row !== null);
+
+    const priced = priceTariff(tariff.definition, {
+      periodStart: bill.periodStart,
+      days: bill.days,
+      usage,
+      demandKw: bill.demandKw,
+      intervals: intervals && intervals.length > 0 ? intervals : null,
+      timezone,
+    });
+    if (priced.total === null || priced.demand === null) {
+      return unpriced("missing_demand");
+    }
+    sums.fixed += priced.fixed;
+    sums.energy += priced.energy;
+    sums.demand += priced.demand;
+    methods.add(priced.method);
+  }
+
+  const annualize = (value: number) => roundMoney((value * YEAR_DAYS) / totalDays);
+  const breakdown = {
+    fixed: annualize(sums.fixed),
+    energy: annualize(sums.energy),
+    demand: annualize(sums.demand),
+  };
+  return {
+    ...result,
+    status: "priced",
+    annualCost: roundMoney(breakdown.fixed + breakdown.energy + breakdown.demand),
+    breakdown,
+    method: methods.size === 1 ? [...methods][0] : "mixed",
+  };
+}
+
+// Re-prices the property's last year of bills of one service under every
+// tariff in the user's library for that service, and annualizes each total by
+// the days the bills cover. Interval readings, when they cover a bill, price
+// time-of-use energy by the hour and give demand tariffs a peak to charge.
+export async function simulatePropertyTariffs(input: {
+  propertyId: string;
+  serviceType: ServiceType;
+  useIntervals?: boolean;
+}): Promise<TariffSimulation> {
+  const property = await loadPropertySettings(input.propertyId);
+  const [tariffs, bills] = await Promise.all([
+    listTariffs(property.user_id, { serviceType: input.serviceType }),
+    loadSimulationBills(input.propertyId, input.serviceType),
+  ]);
+  if (input.useIntervals !== false && tariffs.some((tariff) => tariff.kind !== "flat")) {
+    await attachIntervals(input.propertyId, input.serviceType, bills);
+  }
+
+  const totalDays = bills.reduce((sum, bill) => sum + bill.days, 0);
+  const plans: TariffPlanResult[] =
+    bills.length === 0
+      ? []
+      : tariffs.map((tariff) => ({
+          ...simulatePlan(tariff, bills, input.serviceType, property.timezone || "UTC", totalDays),
+          current: tariff.id === property.current_tariff_id,
+        }));
+
+  const currentPlan = plans.find((plan) => plan.current && plan.annualCost !== null);
+  const billCosts = bills.map((bill) => bill.totalCost);
+  const billedAnnual =
+    bills.length > 0 && billCosts.every((cost) => cost !== null)
+      ? roundMoney(
+          (billCosts.reduce((sum: number, cost) => sum + (cost ?? 0), 0) * YEAR_DAYS) / totalDays,
+        )
+      : null;
+  const current = currentPlan
+    ? { basis: "tariff" as const, annualCost: currentPlan.annualCost }
+    : { basis: "bills" as const, annualCost: billedAnnual };
+
+  const cheapest = plans
+    .filter((plan) => !plan.current && plan.annualCost !== null)
+    .sort((left, right) => (left.annualCost ?? 0) - (right.annualCost ?? 0))[0];
+  const bestAlternative =
+    cheapest && cheapest.annualCost !== null && current.annualCost !== null &&
+    cheapest.annualCost < current.annualCost
+      ? {
+          tariffId: cheapest.tariffId,
+          code: cheapest.code,
+          name: cheapest.name,
+          annualCost: cheapest.annualCost,
+          annualSavings: roundMoney(current.annualCost - cheapest.annualCost),
+        }
+      : null;
+
+  return {
+    propertyId: input.propertyId,
+    serviceType: input.serviceType,
+    currency: bills[0]?.currency ?? null,
+    from: bills[0]?.periodStart ?? null,
+    to: bills[bills.length - 1]?.periodEnd ?? null,
+    bills: bills.length,
+    days: totalDays,
+    intervalBills: bills.filter((bill) => bill.intervals !== null).length,
+    currentTariffId: property.current_tariff_id,
+    current,
+    plans,
+    bestAlternative,
+  };
+}
+
+// Names the tariff in the user's library the property is on now, or clears it.
+export async function setPropertyCurrentTariff(input: {
+  propertyId: string;
+  userId: string;
+  tariffId: string | null;
+}): Promise<string | null> {
+  const supabase = requireSupabase();
+  if (input.tariffId !== null) {
+    const { data, error } = await supabase
+      .from("tariffs")
+      .select("id")
+      .eq("id", input.tariffId)
+      .eq("user_id", input.userId)
+      .maybeSingle();
+    if (error) {
+      throw new TariffError(500, "tariff_lookup_failed", error.message);
+    }
+    if (!data) {
+      throw new TariffError(404, "tariff_not_found", "No such tariff in your library.");
+    }
+  }
+
+  const { error } = await supabase
+    .from("properties")
+    .update({ current_tariff_id: input.tariffId })
+    .eq("id", input.propertyId);
+  if (error) {
+    throw new TariffError(500, "property_update_failed", error.message);
+  }
+  return input.tariffId;
+}
+
+// The cheaper plan the insight engine mentions, priced from bills alone so
+// parsing does not wait on a year of interval readings. Null without a
+// library for the service, a cheaper plan, or on any failure.
+export async function loadTariffSuggestion(
+  propertyId: string,
+  serviceType: ServiceType,
+): Promise<TariffSuggestion | null> {
+  if (!getServiceSupabaseClient()) {
+    return null;
+  }
+  try {
+    const simulation = await simulatePropertyTariffs({
+      propertyId,
+      serviceType,
+      useIntervals: false,
+    });
+    const best = simulation.bestAlternative;
+    if (!best || simulation.currency === null) {
+      return null;
+    }
+    return {
+      code: best.code,
+      name: best.name,
+      currency: simulation.currency,
+      annualCost: best.annualCost,
+      annualSavings: best.annualSavings,
+      basis: simulation.current.basis,
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,401 @@
+import { parseDate, readCsvRows } from "@/lib/bills/history-csv";
+import { DegreeDayPeriod } from "@/lib/parser/weather";
+import { getServiceSupabaseClient } from "@/lib/supabase";
+
+// csv: the documented degree-day CSV. noaa: a Climate Data Online export
+// (daily summaries with TAVG or TMAX/TMIN, or monthly summaries with
+// HTDD/CLDD), read through the same column aliases.
+export const DEGREE_DAY_FORMATS = ["csv", "noaa"] as const;
+export type DegreeDayFormat = (typeof DEGREE_DAY_FORMATS)[number];
+
+export const TEMPERATURE_UNITS = ["F", "C"] as const;
+export type TemperatureUnit = (typeof TEMPERATURE_UNITS)[number];
+
+// Degree days are counted from 65°F (18°C) when only temperatures are given.
+const BASE_TEMPERATURE: Record<TemperatureUnit, number> = { F: 65, C: 18 };
+
+export const DEGREE_DAY_CSV_COLUMNS = ["location", "date", "hdd", "cdd"] as const;
+export const MAX_DEGREE_DAY_FILE_BYTES = 10 * 1024 * 1024;
+const MAX_DEGREE_DAY_ROWS = 50_000;
+const UPSERT_CHUNK = 1000;
+const PAGE_SIZE = 1000;
+const MAX_LOCATION_LENGTH = 80;
+
+// Header names seen in the documented CSV and in NOAA exports.
+const COLUMN_ALIASES: Record<string, string[]> = {
+  location: ["location", "station", "station_id"],
+  date: ["date", "day", "month"],
+  start: ["period_start", "start_date"],
+  end: ["period_end", "end_date"],
+  hdd: ["hdd", "htdd", "heating_degree_days"],
+  cdd: ["cdd", "cldd", "cooling_degree_days"],
+  tavg: ["tavg", "tmean", "avg_temp"],
+  tmax: ["tmax", "max_temp"],
+  tmin: ["tmin", "min_temp"],
+};
+
+export class DegreeDayError extends Error {
+  status: number;
+  code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export interface DegreeDayRow extends DegreeDayPeriod {
+  location: string;
+}
+
+export interface DegreeDayRejection {
+  line: number | null;
+  message: string;
+}
+
+export interface ParsedDegreeDays {
+  format: DegreeDayFormat;
+  rows: DegreeDayRow[];
+  rejected: DegreeDayRejection[];
+}
+
+export interface DegreeDayLocation {
+  location: string;
+  rows: number;
+  from: string;
+  to: string;
+}
+
+export interface DegreeDayImportResult {
+  format: DegreeDayFormat;
+  imported: number;
+  locations: DegreeDayLocation[];
+  rejected: DegreeDayRejection[];
+}
+
+interface StoredDegreeDayRow {
+  location: string;
+  start_date: string;
+  end_date: string;
+  hdd: number | string;
+  cdd: number | string;
+}
+
+function requireSupabase() {
+  const supabase = getServiceSupabaseClient();
+  if (!supabase) {
+    throw new DegreeDayError(500, "supabase_not_configured", "Supabase is not configured.");
+  }
+  return supabase;
+}
+
+// Station ids and place names compare without case or surrounding space.
+export function normalizeWeatherLocation(value: string): string {
+  return value.trim().replace(/\s+/g, " ").toUpperCase().slice(0, MAX_LOCATION_LENGTH);
+}
+
+function findColumn(columns: string[], name: keyof typeof COLUMN_ALIASES): number {
+  return columns.findIndex((column) => COLUMN_ALIASES[name].includes(column));
+}
+
+function readNumber(value: string | undefined): number | null | undefined {
+  const text = (value ?? "").trim();
+  if (text === "") {
+    return null;
+  }
+  return /^-?\d+(\.\d+)?$/.test(text) ? Number(text) : undefined;
+}
+
+// "2026-01" (a NOAA monthly summary) covers the whole month.
+function readDateRange(text: string): { startDate: string; endDate: string } | null {
+  const month = /^(\d{4})-(\d{1,2})$/.exec(text.trim());
+  if (month) {
+    const year = Number(month[1]);
+    const index = Number(month[2]) - 1;
+    if (index < 0 || index > 11) {
+      return null;
+    }
+    return {
+      startDate: new Date(Date.UTC(year, index, 1)).toISOString().slice(0, 10),
+      endDate: new Date(Date.UTC(year, index + 1, 0)).toISOString().slice(0, 10),
+    };
+  }
+  const day = parseDate(text);
+  return day ? { startDate: day, endDate: day } : null;
+}
+
+function readStartEnd(
+  startText: string,
+  endText: string,
+): { startDate: string; endDate: string } | null {
+  const startDate = parseDate(startText);
+  const endDate = parseDate(endText);
+  return startDate && endDate && startDate <= endDate ? { startDate, endDate } : null;
+}
+
+export function detectDegreeDayFormat(text: string): DegreeDayFormat {
+  const header = text.replace(/^\ufeff/, "").split("\n", 1)[0].toLowerCase();
+  return /\b(?:station|htdd|cldd|tavg|tmax)\b/.test(header) ? "noaa" : "csv";
+}
+
+export function parseDegreeDayFile(
+  text: string,
+  options: { format?: DegreeDayFormat; location?: string; temperatureUnit: TemperatureUnit },
+): ParsedDegreeDays {
+  const format = options.format ?? detectDegreeDayFormat(text);
+  const [header, ...rows] = readCsvRows(text.replace(/^\ufeff/, ""));
+  if (!header) {
+    return { format, rows: [], rejected: [{ line: null, message: "The file is empty." }] };
+  }
+
+  const columns = header.cells.map((cell) => cell.trim().toLowerCase().replace(/\s+/g, "_"));
+  const index = {
+    location: findColumn(columns, "location"),
+    date: findColumn(columns, "date"),
+    start: findColumn(columns, "start"),
+    end: findColumn(columns, "end"),
+    hdd: findColumn(columns, "hdd"),
+    cdd: findColumn(columns, "cdd"),
+    tavg: findColumn(columns, "tavg"),
+    tmax: findColumn(columns, "tmax"),
+    tmin: findColumn(columns, "tmin"),
+  };
+  const hasDates = index.date !== -1 || (index.start !== -1 && index.end !== -1);
+  const hasValues =
+    index.hdd !== -1 || index.cdd !== -1 || index.tavg !== -1 || (index.tmax !== -1 && index.tmin !== -1);
+  if (!hasDates || !hasValues) {
+    return {
+      format,
+      rows: [],
+      rejected: [
+        {
+          line: header.line,
+          message: `The header row needs a date column and hdd/cdd or temperature columns (columns: ${DEGREE_DAY_CSV_COLUMNS.join(", ")}).`,
+        },
+      ],
+    };
+  }
+  if (index.location === -1 && !options.location) {
+    return {
+      format,
+      rows: [],
+      rejected: [
+        { line: header.line, message: "Set location, or add a location / STATION column." },
+      ],
+    };
+  }
+
+  const base = BASE_TEMPERATURE[options.temperatureUnit];
+  const parsed: DegreeDayRow[] = [];
+  const rejected: DegreeDayRejection[] = [];
+  for (const row of rows) {
+    const cell = (position: number) => (position === -1 ? undefined : row.cells[position]);
+    const location = normalizeWeatherLocation(options.location ?? cell(index.location) ?? "");
+    const range =
+      index.date !== -1
+        ? readDateRange(cell(index.date) ?? "")
+        : readStartEnd(cell(index.start) ?? "", cell(index.end) ?? "");
+    if (!location) {
+      rejected.push({ line: row.line, message: "The row has no location." });
+      continue;
+    }
+    if (!range) {
+      rejected.push({ line: row.line, message: "Unreadable date." });
+      continue;
+    }
+
+    let hdd = readNumber(cell(index.hdd));
+    let cdd = readNumber(cell(index.cdd));
+    if (hdd === undefined || cdd === undefined) {
+      rejected.push({ line: row.line, message: "Unreadable degree days." });
+      continue;
+    }
+    if (hdd === null && cdd === null) {
+      const tmax = readNumber(cell(index.tmax));
+      const tmin = readNumber(cell(index.tmin));
+      const average =
+        readNumber(cell(index.tavg)) ??
+        (typeof tmax === "number" && typeof tmin === "number" ? (tmax + tmin) / 2 : null);
+      if (typeof average !== "number") {
+        rejected.push({ line: row.line, message: "No degree days or temperatures." });
+        continue;
+      }
+      if (range.startDate !== range.endDate) {
+        rejected.push({
+          line: row.line,
+          message: "Degree days are only worked out from temperatures for daily rows.",
+        });
+        continue;
+      }
+      hdd = Math.max(base - average, 0);
+      cdd = Math.max(average - base, 0);
+    }
+    if ((hdd ?? 0) < 0 || (cdd ?? 0) < 0) {
+      rejected.push({ line: row.line, message: "Degree days cannot be negative." });
+      continue;
+    }
+
+    parsed.push({
+      location,
+      ...range,
+      hdd: Number((hdd ?? 0).toFixed(2)),
+      cdd: Number((cdd ?? 0).toFixed(2)),
+    });
+  }
+
+  return { format, rows: parsed, rejected };
+}
+
+function summarizeLocations(rows: Array<Pick<DegreeDayRow, "location" | "startDate" | "endDate">>) {
+  const locations = new Map<string, DegreeDayLocation>();
+  for (const row of rows) {
+    const current = locations.get(row.location);
+    if (!current) {
+      locations.set(row.location, {
+        location: row.location,
+        rows: 1,
+        from: row.startDate,
+        to: row.endDate,
+      });
+      continue;
+    }
+    current.rows += 1;
+    current.from = row.startDate < current.from ? row.startDate : current.from;
+    current.to = row.endDate > current.to ? row.endDate : current.to;
+  }
+  return [...locations.values()].sort((left, right) => left.location.localeCompare(right.location));
+}
+
+// Stores the file's degree days for the user. A row for the same location and
+// dates as one already stored replaces it, so a corrected file can be
+// imported again.
+export async function importDegreeDays(input: {
+  userId: string;
+  text: string;
+  format?: DegreeDayFormat;
+  location?: string;
+  temperatureUnit: TemperatureUnit;
+}): Promise<DegreeDayImportResult> {
+  const supabase = requireSupabase();
+  const parsed = parseDegreeDayFile(input.text, input);
+  if (parsed.rows.length === 0) {
+    throw new DegreeDayError(
+      400,
+      "no_degree_days",
+      parsed.rejected[0]?.message ?? "The file has no degree-day rows.",
+    );
+  }
+  if (parsed.rows.length > MAX_DEGREE_DAY_ROWS) {
+    throw new DegreeDayError(
+      413,
+      "too_many_degree_days",
+      `Import at most ${MAX_DEGREE_DAY_ROWS} degree-day rows at a time.`,
+    );
+  }
+
+  for (let offset = 0; offset < parsed.rows.length; offset += UPSERT_CHUNK) {
+    const { error } = await supabase.from("degree_days").upsert(
+      parsed.rows.slice(offset, offset + UPSERT_CHUNK).map((row) => ({
+        user_id: input.userId,
+        location: row.location,
+        start_date: row.startDate,
+        end_date: row.endDate,
+        hdd: row.hdd,
+        cdd: row.cdd,
+        source: parsed.format,
+        imported_at: new Date().toISOString(),
+      })),
+      { onConflict: "user_id,location,start_date,end_date" },
+    );
+    if (error) {
+      throw new DegreeDayError(500, "degree_day_import_failed", error.message);
+    }
+  }
+
+  return {
+    format: parsed.format,
+    imported: parsed.rows.length,
+    locations: summarizeLocations(parsed.rows),
+    rejected: parsed.rejected,
+  };
+}
+
+// Pages through the stored rows, since one request returns at most
+// PAGE_SIZE of them.
+async function fetchDegreeDayRows(filter: {
+  userId: string;
+  location?: string;
+  from?: string;
+  to?: string;
+}): Promise<DegreeDayRow[]> {
+  const supabase = requireSupabase();
+  const rows: DegreeDayRow[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = supabase
+      .from("degree_days")
+      .select("location, start_date, end_date, hdd, cdd")
+      .eq("user_id", filter.userId);
+    if (filter.location) {
+      query = query.eq("location", filter.location);
+    }
+    if (filter.from) {
+      query = query.gte("end_date", filter.from);
+    }
+    if (filter.to) {
+      query = query.lte("start_date", filter.to);
+    }
+    const { data, error } = await query
+      .order("location", { ascending: true })
+      .order("start_date", { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) {
+      throw new DegreeDayError(500, "degree_day_lookup_failed", error.message);
+    }
+
+    const page = (data as StoredDegreeDayRow[] | null) ?? [];
+    rows.push(
+      ...page.map((row) => ({
+        location: row.location,
+        startDate: row.start_date,
+        endDate: row.end_date,
+        hdd: Number(row.hdd),
+        cdd: Number(row.cdd),
+      })),
+    );
+    if (page.length < PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
+
+export async function listDegreeDayLocations(userId: string): Promise<DegreeDayLocation[]> {
+  return summarizeLocations(await fetchDegreeDayRows({ userId }));
+}
+
+export async function loadDegreeDays(
+  userId: string,
+  location: string,
+  from: string,
+  to: string,
+): Promise<DegreeDayRow[]> {
+  return fetchDegreeDayRows({ userId, location, from, to });
+}
+
+export async function deleteDegreeDayLocation(userId: string, location: string): Promise<number> {
+  const supabase = requireSupabase();
+  const { data, error } = await supabase
+    .from("degree_days")
+    .delete()
+    .eq("user_id", userId)
+    .eq("location", normalizeWeatherLocation(location))
+    .select("id");
+
+  if (error) {
+    throw new DegreeDayError(500, "degree_day_delete_failed", error.message);
+  }
+  if (!data || data.length === 0) {
+    throw new DegreeDayError(404, "weather_location_not_found", "No degree days for this location.");
+  }
+  return data.length;
+}
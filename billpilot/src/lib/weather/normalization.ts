@@ -0,0 +1,183 @@
+import { billingDays, canonicalKindFor, convertUsage } from "@/lib/parser/units";
+import { ParsedBill, ServiceType, WeatherNormalization } from "@/lib/parser/types";
+import {
+  DegreeDaySample,
+  degreeDaysForPeriod,
+  fitDegreeDayModel,
+} from "@/lib/parser/weather";
+import { getServiceSupabaseClient } from "@/lib/supabase";
+
+import {
+  DegreeDayError,
+  listDegreeDayLocations,
+  loadDegreeDays,
+  normalizeWeatherLocation,
+} from "./degree-days";
+
+// Two years of bills is enough to see both seasons twice without letting an
+// old appliance or occupant dominate the fit.
+const MAX_FIT_BILLS = 24;
+
+interface FitBillRow {
+  usage_value: number | string | null;
+  usage_unit: string | null;
+  period_start: string | null;
+  period_end: string | null;
+}
+
+function requireSupabase() {
+  const supabase = getServiceSupabaseClient();
+  if (!supabase) {
+    throw new DegreeDayError(500, "supabase_not_configured", "Supabase is not configured.");
+  }
+  return supabase;
+}
+
+export async function getPropertyWeatherLocation(propertyId: string): Promise<string | null> {
+  const supabase = requireSupabase();
+  const { data, error } = await supabase
+    .from("properties")
+    .select("weather_location")
+    .eq("id", propertyId)
+    .maybeSingle();
+
+  if (error) {
+    throw new DegreeDayError(500, "property_lookup_failed", error.message);
+  }
+  return (data as { weather_location: string | null } | null)?.weather_location ?? null;
+}
+
+// Points a property at one of the user's imported locations, or turns
+// weather normalization off with null.
+export async function setPropertyWeatherLocation(input: {
+  propertyId: string;
+  userId: string;
+  location: string | null;
+}): Promise<string | null> {
+  const supabase = requireSupabase();
+  const location = input.location === null ? null : normalizeWeatherLocation(input.location);
+  if (location !== null) {
+    const known = await listDegreeDayLocations(input.userId);
+    if (!known.some((entry) => entry.location === location)) {
+      throw new DegreeDayError(
+        404,
+        "weather_location_not_found",
+        "Import degree days for this location before assigning it.",
+      );
+    }
+  }
+
+  const { error } = await supabase
+    .from("properties")
+    .update({ weather_location: location })
+    .eq("id", input.propertyId);
+  if (error) {
+    throw new DegreeDayError(500, "property_update_failed", error.message);
+  }
+  return location;
+}
+
+// Fits the property's past energy bills of this service against the degree
+// days of their periods and returns what the insight engine needs to score
+// this bill. Null whenever the layer does not apply: no location set, not an
+// energy bill, too few usable bills, missing weather for this period, or a
+// fit the weather does not explain. Like the prior-bill lookup, any failure
+// here falls back to unadjusted scoring rather than failing the parse.
+export async function loadWeatherNormalization(
+  propertyId: string,
+  serviceType: ServiceType,
+  bill: Pick<ParsedBill, "periodStart" | "periodEnd" | "usageValue" | "usageUnit">,
+): Promise<WeatherNormalization | null> {
+  const supabase = getServiceSupabaseClient();
+  const { periodStart, periodEnd } = bill;
+  const days = billingDays(periodStart, periodEnd);
+  if (
+    !supabase ||
+    !periodStart ||
+    !periodEnd ||
+    days === null ||
+    bill.usageValue === null ||
+    canonicalKindFor(bill.usageUnit, serviceType) !== "energy"
+  ) {
+    return null;
+  }
+
+  const { data: property, error: propertyError } = await supabase
+    .from("properties")
+    .select("user_id, weather_location")
+    .eq("id", propertyId)
+    .maybeSingle();
+  const owner = property as { user_id: string; weather_location: string | null } | null;
+  if (propertyError || !owner?.weather_location) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("bills")
+    .select("usage_value, usage_unit, period_start, period_end")
+    .eq("property_id", propertyId)
+    .eq("service_type", serviceType)
+    .is("duplicate_of", null)
+    .not("period_start", "is", null)
+    .lt("period_end", periodEnd)
+    .order("period_end", { ascending: false })
+    .limit(MAX_FIT_BILLS);
+  if (error || !data || data.length === 0) {
+    return null;
+  }
+
+  const rows = data as FitBillRow[];
+  const from = rows.reduce(
+    (earliest, row) => (row.period_start && row.period_start < earliest ? row.period_start : earliest),
+    periodStart,
+  );
+  const degreeDayRows = await loadDegreeDays(
+    owner.user_id,
+    owner.weather_location,
+    from,
+    periodEnd,
+  ).catch(() => null);
+  const current = degreeDayRows && degreeDaysForPeriod(degreeDayRows, periodStart, periodEnd);
+  if (!current) {
+    return null;
+  }
+
+  const samples: DegreeDaySample[] = [];
+  for (const row of rows) {
+    const rowDays = billingDays(row.period_start, row.period_end);
+    if (rowDays === null || !row.period_start || !row.period_end) {
+      continue;
+    }
+    const usage =
+      row.usage_value === null
+        ? null
+        : convertUsage(Number(row.usage_value), row.usage_unit, bill.usageUnit, serviceType);
+    if (usage === null || !Number.isFinite(usage)) {
+      continue;
+    }
+    const totals = degreeDaysForPeriod(degreeDayRows, row.period_start, row.period_end);
+    if (totals) {
+      samples.push({ usage, days: rowDays, ...totals });
+    }
+  }
+
+  const model = fitDegreeDayModel(samples);
+  if (!model) {
+    return null;
+  }
+  const sampleDays = samples.reduce((sum, sample) => sum + sample.days, 0);
+  const perDay = (pick: (sample: DegreeDaySample) => number) =>
+    samples.reduce((sum, sample) => sum + pick(sample), 0) / sampleDays;
+
+  return {
+    location: owner.weather_location,
+    model,
+    periodDays: days,
+    degreeDays: current,
+    reference: {
+      usagePerDay: perDay((sample) => sample.usage),
+      hddPerDay: perDay((sample) => sample.hdd),
+      cddPerDay: perDay((sample) => sample.cdd),
+    },
+  };
+}
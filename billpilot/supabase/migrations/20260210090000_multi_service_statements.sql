@@ -0,0 +1,28 @@
+-- Multi-service statements: one uploaded statement can produce several bills rows
+-- (electric, gas, water, sewer) that share a statement_id.
+alter table public.bills add column if not exists statement_id uuid;
+alter table public.bills add column if not exists service_type text not null default 'unknown';
+
+update public.bills
+set service_type = case
+  when lower(usage_unit) in ('kwh', 'mwh') then 'electric'
+  when lower(usage_unit) in ('therm', 'therms', 'ccf', 'm3') then 'gas'
+  else 'unknown'
+end
+where service_type = 'unknown';
+
+update public.bills
+set statement_id = id
+where statement_id is null;
+
+alter table public.bills
+  drop constraint if exists chk_bills_service_type;
+alter table public.bills
+  add constraint chk_bills_service_type
+  check (service_type in ('electric', 'gas', 'water', 'sewer', 'unknown'));
+
+create index if not exists idx_bills_statement_id
+  on public.bills(statement_id);
+
+create index if not exists idx_bills_property_service_period
+  on public.bills(property_id, service_type, period_end desc);
@@ -0,0 +1,7 @@
+-- Field-level parse evidence: per-field confidence, matched pattern id and
+-- character span into bills.raw_text.
+alter table public.bills
+  add column if not exists field_evidence jsonb not null default '{}'::jsonb;
+
+alter table public.bill_line_items
+  add column if not exists evidence jsonb;
@@ -0,0 +1,4 @@
+-- Structured usage components: time-of-use periods and tier blocks with their
+-- quantity, rate and extended amount, as extracted by the parser.
+alter table public.bills
+  add column if not exists usage_components jsonb not null default '[]'::jsonb;
@@ -0,0 +1,15 @@
+-- Commercial demand charges: billed kW, how it was determined, ratchet terms and
+-- the demand charge amount.
+alter table public.bills add column if not exists demand_kw numeric(12,3);
+alter table public.bills add column if not exists demand_basis text;
+alter table public.bills add column if not exists demand_ratchet jsonb;
+alter table public.bills add column if not exists demand_charge numeric(12,2);
+
+alter table public.bills
+  drop constraint if exists chk_bills_demand_basis;
+alter table public.bills
+  add constraint chk_bills_demand_basis
+  check (
+    demand_basis is null
+    or demand_basis in ('measured', 'ratchet', 'contract', 'minimum')
+  );
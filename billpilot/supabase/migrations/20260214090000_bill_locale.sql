@@ -0,0 +1,3 @@
+-- Locale used to read amounts and dates: set per property, recorded per bill.
+alter table public.properties add column if not exists locale text;
+alter table public.bills add column if not exists locale text;
@@ -0,0 +1,55 @@
+-- Canonical usage (kWh-equivalent / MMBtu for energy, gallons for water) and
+-- effective rates per bill, so mixed-unit portfolios can be compared.
+alter table public.bills add column if not exists usage_kwh_equivalent numeric(14,3);
+alter table public.bills add column if not exists usage_mmbtu numeric(14,4);
+alter table public.bills add column if not exists usage_gallons numeric(14,2);
+alter table public.bills add column if not exists billing_days integer;
+alter table public.bills add column if not exists cost_per_unit numeric(14,6);
+alter table public.bills add column if not exists cost_per_kwh numeric(14,6);
+alter table public.bills add column if not exists cost_per_mmbtu numeric(14,4);
+alter table public.bills add column if not exists cost_per_gallon numeric(14,6);
+alter table public.bills add column if not exists cost_per_day numeric(14,4);
+
+-- Backfill with the same factors as src/lib/parser/units.ts.
+with factors as (
+  select
+    id,
+    case
+      when service_type in ('water', 'sewer') then null
+      when lower(usage_unit) = 'kwh' then usage_value / 293.07107
+      when lower(usage_unit) = 'mwh' then usage_value * 1000 / 293.07107
+      when lower(usage_unit) in ('therm', 'therms') then usage_value * 0.1
+      when lower(usage_unit) in ('dth', 'mmbtu') then usage_value
+      when lower(usage_unit) = 'ccf' then usage_value * 0.1037
+      when lower(usage_unit) = 'mcf' then usage_value * 1.037
+      when lower(usage_unit) = 'm3' then usage_value * 0.1037 / 2.8316847
+    end as mmbtu,
+    case
+      when lower(usage_unit) in ('gal', 'gallon', 'gallons') then usage_value
+      when lower(usage_unit) = 'kgal' then usage_value * 1000
+      when service_type in ('water', 'sewer') and lower(usage_unit) in ('ccf', 'hcf')
+        then usage_value * 748.052
+      when service_type in ('water', 'sewer') and lower(usage_unit) = 'm3'
+        then usage_value * 264.172
+    end as gallons,
+    case
+      when period_start is not null and period_end >= period_start
+        then (period_end - period_start) + 1
+    end as days
+  from public.bills
+)
+update public.bills b
+set
+  usage_mmbtu = round(f.mmbtu::numeric, 4),
+  usage_kwh_equivalent = round((f.mmbtu * 293.07107)::numeric, 3),
+  usage_gallons = round(f.gallons::numeric, 2),
+  billing_days = f.days,
+  cost_per_unit = case when b.usage_value > 0 then round(b.total_cost / b.usage_value, 6) end,
+  cost_per_kwh = case when f.mmbtu > 0 then round(b.total_cost / (f.mmbtu * 293.07107), 6) end,
+  cost_per_mmbtu = case when f.mmbtu > 0 then round(b.total_cost / f.mmbtu, 4) end,
+  cost_per_gallon = case when f.gallons > 0 then round(b.total_cost / f.gallons, 6) end,
+  cost_per_day = case when f.days > 0 then round(b.total_cost / f.days, 4) end
+from factors f
+where b.id = f.id
+  and b.usage_kwh_equivalent is null
+  and b.usage_gallons is null;
@@ -0,0 +1,24 @@
+-- Water, sewer, stormwater and trash services: widen the service_type check and
+-- classify rows already billed in water units.
+alter table public.bills
+  drop constraint if exists chk_bills_service_type;
+alter table public.bills
+  add constraint chk_bills_service_type
+  check (
+    service_type in ('electric', 'gas', 'water', 'sewer', 'stormwater', 'trash', 'unknown')
+  );
+
+update public.bills
+set service_type = 'water'
+where service_type = 'unknown'
+  and lower(usage_unit) in ('gal', 'gallon', 'gallons', 'kgal', 'hcf');
+
+-- hcf is always a water volume (src/lib/parser/units.ts), whatever the service.
+update public.bills
+set
+  usage_gallons = round(usage_value * 748.052, 2),
+  cost_per_gallon = case
+    when usage_value > 0 then round(total_cost / (usage_value * 748.052), 6)
+  end
+where lower(usage_unit) = 'hcf'
+  and usage_gallons is null;
@@ -0,0 +1,21 @@
+-- Line-item tables: every charge keeps its printed label (item_name) plus a
+-- normalized category and optional quantity/rate columns, and each bill records
+-- how far its items fall short of (or exceed) the printed total.
+alter table public.bill_line_items add column if not exists category text not null default 'other';
+alter table public.bill_line_items add column if not exists quantity numeric(14,3);
+alter table public.bill_line_items add column if not exists unit text;
+alter table public.bill_line_items add column if not exists rate numeric(14,6);
+
+update public.bill_line_items
+set category = lower(item_name)
+where category = 'other'
+  and lower(item_name) in (
+    'base_charge', 'sewer', 'stormwater', 'trash', 'delivery', 'supply',
+    'tax', 'fees', 'surcharge'
+  );
+
+alter table public.bills add column if not exists line_items_total numeric(12,2);
+alter table public.bills add column if not exists line_item_remainder numeric(12,2);
+
+create index if not exists idx_line_items_bill_category
+  on public.bill_line_items(bill_id, category);
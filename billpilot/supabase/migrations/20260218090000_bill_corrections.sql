@@ -0,0 +1,48 @@
+-- User corrections to parsed bill fields. Each row keeps the parsed and the
+-- corrected value, the provider it applies to, and the printed label found
+-- next to the corrected value so later parses of that provider can reuse it.
+create table if not exists public.bill_corrections (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  bill_id uuid not null references public.bills(id) on delete cascade,
+  property_id uuid not null references public.properties(id) on delete cascade,
+  provider_key text,
+  field text not null,
+  original_value text,
+  corrected_value text,
+  label text,
+  original_pattern text,
+  created_at timestamptz not null default now(),
+  constraint chk_bill_corrections_field check (
+    field in (
+      'provider', 'periodStart', 'periodEnd', 'totalCost', 'usageValue',
+      'usageUnit', 'currency', 'demandKw', 'demandCharge'
+    )
+  )
+);
+
+create index if not exists idx_bill_corrections_bill_id
+  on public.bill_corrections(bill_id);
+create index if not exists idx_bill_corrections_user_provider
+  on public.bill_corrections(user_id, provider_key, created_at desc);
+
+alter table public.bill_corrections enable row level security;
+
+drop policy if exists "bill_corrections_select_own" on public.bill_corrections;
+create policy "bill_corrections_select_own"
+  on public.bill_corrections for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "bill_corrections_insert_own" on public.bill_corrections;
+create policy "bill_corrections_insert_own"
+  on public.bill_corrections for insert
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1
+      from public.bills b
+      join public.properties p on p.id = b.property_id
+      where b.id = bill_corrections.bill_id
+        and p.user_id = auth.uid()
+    )
+  );
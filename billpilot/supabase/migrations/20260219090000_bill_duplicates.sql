@@ -0,0 +1,50 @@
+-- Duplicate detection. file_hash is the sha256 of the uploaded file and
+-- bill_fingerprint joins provider, service, period and total so a bill that
+-- reaches the app twice (re-upload, paper scan of an e-bill) can be found
+-- before it is stored again. duplicate_of marks bills kept alongside an
+-- earlier copy so history can show them and analytics can leave them out.
+alter table public.bills
+  add column if not exists file_hash text,
+  add column if not exists bill_fingerprint text,
+  add column if not exists duplicate_of uuid references public.bills(id) on delete set null;
+
+create index if not exists idx_bills_property_file_hash
+  on public.bills(property_id, file_hash)
+  where file_hash is not null;
+create index if not exists idx_bills_property_fingerprint
+  on public.bills(property_id, bill_fingerprint)
+  where bill_fingerprint is not null;
+create index if not exists idx_bills_property_period_total
+  on public.bills(property_id, service_type, period_end, total_cost);
+
+-- Same format as billFingerprint() in src/lib/bills/duplicates.ts.
+update public.bills
+set bill_fingerprint = concat_ws(
+  '|',
+  coalesce(lower(btrim(provider)), ''),
+  service_type,
+  coalesce(period_start::text, ''),
+  period_end::text,
+  to_char(total_cost, 'FM999999999990.00')
+)
+where bill_fingerprint is null
+  and period_end is not null
+  and total_cost is not null;
+
+-- Existing copies point at the earliest bill sharing their fingerprint.
+with ranked as (
+  select
+    id,
+    first_value(id) over (
+      partition by property_id, bill_fingerprint
+      order by created_at, id
+    ) as original_id
+  from public.bills
+  where bill_fingerprint is not null
+)
+update public.bills b
+set duplicate_of = ranked.original_id
+from ranked
+where b.id = ranked.id
+  and ranked.original_id <> b.id
+  and b.duplicate_of is null;
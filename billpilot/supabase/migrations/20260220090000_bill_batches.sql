@@ -0,0 +1,30 @@
+-- Batch ingestion. One bill_batches row per archive or multi-file upload keeps
+-- the per-file report and how the batch is charged against the analysis quota
+-- ('batch' = one analysis for the whole batch, 'bill' = one per statement).
+create table if not exists public.bill_batches (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  property_id uuid not null references public.properties(id) on delete cascade,
+  quota_mode text not null default 'bill',
+  file_count integer not null default 0,
+  report jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  completed_at timestamptz,
+  constraint chk_bill_batches_quota_mode check (quota_mode in ('batch', 'bill'))
+);
+
+alter table public.bills
+  add column if not exists batch_id uuid references public.bill_batches(id) on delete set null;
+
+create index if not exists idx_bills_batch_id
+  on public.bills(batch_id)
+  where batch_id is not null;
+create index if not exists idx_bill_batches_user_created
+  on public.bill_batches(user_id, created_at desc);
+
+alter table public.bill_batches enable row level security;
+
+drop policy if exists "bill_batches_select_own" on public.bill_batches;
+create policy "bill_batches_select_own"
+  on public.bill_batches for select
+  using (auth.uid() = user_id);
@@ -0,0 +1,45 @@
+-- Inbound email ingestion. Each property gets an unguessable token that forms
+-- its inbound address (bills+<token>@<INBOUND_EMAIL_DOMAIN>), and every message
+-- the webhook receives is logged with its outcome, matched or not.
+alter table public.properties
+  add column if not exists inbound_token text not null
+    default replace(gen_random_uuid()::text, '-', '');
+
+create unique index if not exists idx_properties_inbound_token
+  on public.properties(inbound_token);
+
+create table if not exists public.inbound_email_messages (
+  id uuid primary key default gen_random_uuid(),
+  property_id uuid references public.properties(id) on delete cascade,
+  user_id uuid references auth.users(id) on delete cascade,
+  message_id text,
+  from_address text,
+  to_addresses text[] not null default '{}',
+  subject text,
+  received_at timestamptz,
+  status text not null,
+  body_source text,
+  attachment_count integer not null default 0,
+  batch_id uuid references public.bill_batches(id) on delete set null,
+  bill_ids uuid[] not null default '{}',
+  error text,
+  created_at timestamptz not null default now(),
+  constraint chk_inbound_email_messages_status check (
+    status in (
+      'processed', 'duplicate', 'failed', 'no_bill', 'unknown_recipient', 'quota_exceeded'
+    )
+  ),
+  constraint chk_inbound_email_messages_body_source check (
+    body_source is null or body_source in ('attachments', 'html_body', 'text_body')
+  )
+);
+
+create index if not exists idx_inbound_email_messages_property_created
+  on public.inbound_email_messages(property_id, created_at desc);
+
+alter table public.inbound_email_messages enable row level security;
+
+drop policy if exists "inbound_email_messages_select_own" on public.inbound_email_messages;
+create policy "inbound_email_messages_select_own"
+  on public.inbound_email_messages for select
+  using (auth.uid() = user_id);
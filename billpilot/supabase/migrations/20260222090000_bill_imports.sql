@@ -0,0 +1,54 @@
+-- Bill history imports. bills.source tells parsed statements apart from rows
+-- imported from Green Button (ESPI XML) or a bill-history CSV; usage_intervals
+-- keeps the interval readings from Green Button files.
+alter table public.bills
+  add column if not exists source text not null default 'parsed';
+
+alter table public.bills
+  drop constraint if exists chk_bills_source;
+alter table public.bills
+  add constraint chk_bills_source
+  check (source in ('parsed', 'green_button', 'csv_import'));
+
+create index if not exists idx_bills_property_source
+  on public.bills(property_id, source)
+  where source <> 'parsed';
+
+create table if not exists public.usage_intervals (
+  id uuid primary key default gen_random_uuid(),
+  property_id uuid not null references public.properties(id) on delete cascade,
+  usage_point text not null,
+  service_type text not null default 'unknown',
+  start_at timestamptz not null,
+  duration_seconds integer not null,
+  value numeric(18,6) not null,
+  unit text not null,
+  cost numeric(14,5),
+  quality text,
+  source text not null default 'green_button',
+  created_at timestamptz not null default now(),
+  constraint chk_usage_intervals_duration check (duration_seconds > 0),
+  constraint chk_usage_intervals_service_type
+    check (
+      service_type in ('electric', 'gas', 'water', 'sewer', 'stormwater', 'trash', 'unknown')
+    ),
+  constraint uq_usage_intervals_reading
+    unique (property_id, usage_point, start_at, duration_seconds)
+);
+
+create index if not exists idx_usage_intervals_property_start
+  on public.usage_intervals(property_id, start_at);
+
+alter table public.usage_intervals enable row level security;
+
+drop policy if exists "usage_intervals_select_own" on public.usage_intervals;
+create policy "usage_intervals_select_own"
+  on public.usage_intervals for select
+  using (
+    exists (
+      select 1
+      from public.properties p
+      where p.id = usage_intervals.property_id
+        and p.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,43 @@
+-- Asynchronous parse jobs. A job holds a single statement ('parse') or a batch
+-- of files ('batch') stored under the bills bucket; the runner claims queued
+-- jobs, reports progress while it works and requeues failures with a backoff
+-- until max_attempts is reached.
+create table if not exists public.parse_jobs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  property_id uuid not null references public.properties(id) on delete cascade,
+  kind text not null default 'parse',
+  status text not null default 'queued',
+  payload jsonb not null default '{}'::jsonb,
+  files jsonb not null default '[]'::jsonb,
+  progress jsonb not null default '{}'::jsonb,
+  result jsonb,
+  error_code text,
+  error text,
+  attempts integer not null default 0,
+  max_attempts integer not null default 3,
+  run_after timestamptz not null default now(),
+  locked_at timestamptz,
+  started_at timestamptz,
+  finished_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint chk_parse_jobs_kind check (kind in ('parse', 'batch')),
+  constraint chk_parse_jobs_status check (status in ('queued', 'running', 'succeeded', 'failed')),
+  constraint chk_parse_jobs_attempts check (attempts >= 0 and max_attempts >= 1)
+);
+
+create index if not exists idx_parse_jobs_pending
+  on public.parse_jobs(run_after)
+  where status in ('queued', 'running');
+create index if not exists idx_parse_jobs_user_created
+  on public.parse_jobs(user_id, created_at desc);
+create index if not exists idx_parse_jobs_property_created
+  on public.parse_jobs(property_id, created_at desc);
+
+alter table public.parse_jobs enable row level security;
+
+drop policy if exists "parse_jobs_select_own" on public.parse_jobs;
+create policy "parse_jobs_select_own"
+  on public.parse_jobs for select
+  using (auth.uid() = user_id);
@@ -0,0 +1,45 @@
+-- Re-parse and bill versions. bills.parser_version tags which parser read the
+-- stored fields (null for bills stored before the tag existed). A re-parse of
+-- raw_text is kept in bill_versions as a proposal; accepting it first stores
+-- the bill as it was ('previous'), so any earlier state can be restored.
+alter table public.bills
+  add column if not exists parser_version text;
+
+create index if not exists idx_bills_property_parser_version
+  on public.bills(property_id, parser_version)
+  where source = 'parsed';
+
+create table if not exists public.bill_versions (
+  id uuid primary key default gen_random_uuid(),
+  bill_id uuid not null references public.bills(id) on delete cascade,
+  property_id uuid not null references public.properties(id) on delete cascade,
+  user_id uuid references auth.users(id) on delete set null,
+  parser_version text,
+  status text not null default 'proposed',
+  snapshot jsonb not null,
+  created_at timestamptz not null default now(),
+  resolved_at timestamptz,
+  constraint chk_bill_versions_status check (
+    status in ('proposed', 'applied', 'previous', 'rejected')
+  )
+);
+
+create index if not exists idx_bill_versions_bill_created
+  on public.bill_versions(bill_id, created_at desc);
+create unique index if not exists idx_bill_versions_one_proposal
+  on public.bill_versions(bill_id)
+  where status = 'proposed';
+
+alter table public.bill_versions enable row level security;
+
+drop policy if exists "bill_versions_select_own" on public.bill_versions;
+create policy "bill_versions_select_own"
+  on public.bill_versions for select
+  using (
+    exists (
+      select 1
+      from public.properties p
+      where p.id = bill_versions.property_id
+        and p.user_id = auth.uid()
+    )
+  );
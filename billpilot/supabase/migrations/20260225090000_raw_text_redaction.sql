@@ -0,0 +1,33 @@
+-- Redacted raw bill text. Parsed and imported bills store raw_text with
+-- account/meter/card numbers, names and addresses masked, and redaction_map
+-- lists what was masked where (kind, offsets, last four, keyed hash; never the
+-- value). bill_privacy_settings picks per user whether the original is also
+-- kept encrypted ('encrypted') or no text is kept at all ('discard').
+-- raw_text_mode is null on bills stored before redaction existed.
+create table if not exists public.bill_privacy_settings (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  raw_text_mode text not null default 'redacted',
+  updated_at timestamptz not null default now(),
+  constraint chk_bill_privacy_raw_text_mode check (
+    raw_text_mode in ('redacted', 'encrypted', 'discard')
+  )
+);
+
+alter table public.bill_privacy_settings enable row level security;
+
+drop policy if exists "bill_privacy_settings_select_own" on public.bill_privacy_settings;
+create policy "bill_privacy_settings_select_own"
+  on public.bill_privacy_settings for select
+  using (auth.uid() = user_id);
+
+alter table public.bills
+  add column if not exists raw_text_mode text,
+  add column if not exists raw_text_encrypted text,
+  add column if not exists redaction_map jsonb not null default '[]'::jsonb;
+
+alter table public.bills
+  drop constraint if exists chk_bills_raw_text_mode;
+alter table public.bills
+  add constraint chk_bills_raw_text_mode check (
+    raw_text_mode is null or raw_text_mode in ('redacted', 'encrypted', 'discard')
+  );
@@ -0,0 +1,59 @@
+-- Known utility accounts and meters per property, used to file a bill sent
+-- without a propertyId. Only a keyed hash of the normalized number and its
+-- last four characters are kept. bill_assignments holds bills whose match was
+-- ambiguous until the user picks the property (or dismisses them); their text
+-- is kept redacted (plus the encrypted original under the 'encrypted' mode)
+-- and cleared once the assignment is resolved.
+create table if not exists public.property_accounts (
+  id uuid primary key default gen_random_uuid(),
+  property_id uuid not null references public.properties(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  kind text not null,
+  identifier_hash text not null,
+  last4 text,
+  provider text,
+  source text not null default 'parsed',
+  created_at timestamptz not null default now(),
+  last_seen_at timestamptz not null default now(),
+  constraint chk_property_accounts_kind check (kind in ('account', 'meter')),
+  constraint chk_property_accounts_source check (source in ('parsed', 'manual', 'confirmed'))
+);
+
+create unique index if not exists idx_property_accounts_identifier
+  on public.property_accounts(property_id, kind, identifier_hash);
+create index if not exists idx_property_accounts_user_hash
+  on public.property_accounts(user_id, identifier_hash);
+
+alter table public.property_accounts enable row level security;
+
+drop policy if exists "property_accounts_select_own" on public.property_accounts;
+create policy "property_accounts_select_own"
+  on public.property_accounts for select
+  using (auth.uid() = user_id);
+
+create table if not exists public.bill_assignments (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  status text not null default 'pending',
+  candidates jsonb not null default '[]'::jsonb,
+  identifiers jsonb not null default '{}'::jsonb,
+  summary jsonb not null default '{}'::jsonb,
+  options jsonb not null default '{}'::jsonb,
+  raw_text text not null default '',
+  raw_text_encrypted text,
+  property_id uuid references public.properties(id) on delete set null,
+  bill_ids jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  resolved_at timestamptz,
+  constraint chk_bill_assignments_status check (status in ('pending', 'confirmed', 'dismissed'))
+);
+
+create index if not exists idx_bill_assignments_user_status
+  on public.bill_assignments(user_id, status, created_at desc);
+
+alter table public.bill_assignments enable row level security;
+
+drop policy if exists "bill_assignments_select_own" on public.bill_assignments;
+create policy "bill_assignments_select_own"
+  on public.bill_assignments for select
+  using (auth.uid() = user_id);
@@ -0,0 +1,47 @@
+-- Due dates, account balances and payments. The parser fills due_date,
+-- previous_balance, payments_received and late_fee from the statement;
+-- bill_payments records what the user paid against a bill, and amount_paid /
+-- payment_status on bills are recomputed from it after every change.
+-- Existing bills start unpaid with no due date, so they stay out of payables.
+alter table public.bills
+  add column if not exists due_date date,
+  add column if not exists previous_balance numeric(12,2),
+  add column if not exists payments_received numeric(12,2),
+  add column if not exists late_fee numeric(12,2),
+  add column if not exists amount_paid numeric(12,2) not null default 0,
+  add column if not exists payment_status text not null default 'unpaid',
+  add column if not exists paid_at timestamptz;
+
+alter table public.bills
+  drop constraint if exists chk_bills_payment_status;
+alter table public.bills
+  add constraint chk_bills_payment_status check (
+    payment_status in ('unpaid', 'partial', 'paid')
+  );
+
+create index if not exists idx_bills_payables
+  on public.bills(property_id, payment_status, due_date)
+  where due_date is not null;
+
+create table if not exists public.bill_payments (
+  id uuid primary key default gen_random_uuid(),
+  bill_id uuid not null references public.bills(id) on delete cascade,
+  property_id uuid not null references public.properties(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  amount numeric(12,2) not null,
+  paid_on date not null default current_date,
+  method text,
+  note text,
+  created_at timestamptz not null default now(),
+  constraint chk_bill_payments_amount check (amount > 0)
+);
+
+create index if not exists idx_bill_payments_bill
+  on public.bill_payments(bill_id, paid_on);
+
+alter table public.bill_payments enable row level security;
+
+drop policy if exists "bill_payments_select_own" on public.bill_payments;
+create policy "bill_payments_select_own"
+  on public.bill_payments for select
+  using (auth.uid() = user_id);
@@ -0,0 +1,29 @@
+-- Heating and cooling degree days imported per user and location, either one
+-- row per day or one per month. A property opts into weather normalization
+-- by naming the location whose degree days apply to it.
+create table if not exists public.degree_days (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  location text not null,
+  start_date date not null,
+  end_date date not null,
+  hdd numeric(8,2) not null default 0,
+  cdd numeric(8,2) not null default 0,
+  source text not null default 'csv',
+  imported_at timestamptz not null default now(),
+  constraint uq_degree_days_period unique (user_id, location, start_date, end_date),
+  constraint chk_degree_days_period check (end_date >= start_date),
+  constraint chk_degree_days_values check (hdd >= 0 and cdd >= 0)
+);
+
+create index if not exists idx_degree_days_location
+  on public.degree_days(user_id, location, start_date);
+
+alter table public.degree_days enable row level security;
+
+drop policy if exists "degree_days_select_own" on public.degree_days;
+create policy "degree_days_select_own"
+  on public.degree_days for select
+  using (auth.uid() = user_id);
+
+alter table public.properties add column if not exists weather_location text;
@@ -0,0 +1,37 @@
+-- Each user's tariff library: rate plans imported per utility as JSON, with
+-- the full definition (fixed charge, flat / tiered / time-of-use energy
+-- rates, demand rate) in `definition` and its kind and service alongside for
+-- filtering. A property can name the tariff it is on now, which the simulator
+-- measures alternatives against.
+create table if not exists public.tariffs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  utility text not null,
+  code text not null,
+  name text not null,
+  service_type text not null default 'electric',
+  kind text not null,
+  currency text not null default 'USD',
+  definition jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint uq_tariffs_code unique (user_id, utility, code),
+  constraint chk_tariffs_kind check (kind in ('flat', 'tiered', 'tou', 'demand')),
+  constraint chk_tariffs_service_type
+    check (
+      service_type in ('electric', 'gas', 'water', 'sewer', 'stormwater', 'trash', 'unknown')
+    )
+);
+
+create index if not exists idx_tariffs_user_service
+  on public.tariffs(user_id, service_type);
+
+alter table public.tariffs enable row level security;
+
+drop policy if exists "tariffs_select_own" on public.tariffs;
+create policy "tariffs_select_own"
+  on public.tariffs for select
+  using (auth.uid() = user_id);
+
+alter table public.properties
+  add column if not exists current_tariff_id uuid references public.tariffs(id) on delete set null;
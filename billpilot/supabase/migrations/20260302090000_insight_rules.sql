@@ -0,0 +1,20 @@
+-- Insight rule overrides, per user and per property. Each stores only what it
+-- changes from the defaults: disabled insight types, watch/high thresholds
+-- for the cost, usage and surcharge checks, and custom line-item alerts. A
+-- property's overrides apply on top of its owner's when bills are parsed or
+-- re-parsed.
+create table if not exists public.insight_rule_settings (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  rules jsonb not null default '{}'::jsonb,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.insight_rule_settings enable row level security;
+
+drop policy if exists "insight_rule_settings_select_own" on public.insight_rule_settings;
+create policy "insight_rule_settings_select_own"
+  on public.insight_rule_settings for select
+  using (auth.uid() = user_id);
+
+alter table public.properties
+  add column if not exists insight_rules jsonb;
@@ -0,0 +1,5 @@
+-- The OCR engine's average confidence for bills read from scans, so a
+-- re-parse of the stored text scores the bill with the same OCR penalty its
+-- first parse had. Null for bills read from embedded or pasted text.
+alter table public.bills
+  add column if not exists ocr_confidence numeric(4,3);